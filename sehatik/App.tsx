@@ -23,20 +23,87 @@ import { WelcomeScreen } from './src/presentation/screens/Onboarding/WelcomeScre
 import { AuthScreen } from './src/presentation/screens/Onboarding/AuthScreen';
 import { useLanguageStore } from './src/application/store/languageStore';
 import { useAuthStore } from './src/application/store/authStore';
+import { usePhotoJournalStore } from './src/application/store/photoJournalStore';
+import { useAppLockStore } from './src/application/store/appLockStore';
+import { useDiscreetModeStore } from './src/application/store/discreetModeStore';
+import { useBackupStore } from './src/application/store/backupStore';
+import { useCentersStore } from './src/application/store/centersStore';
+import { useReminderNotifications } from './src/application/hooks/useReminderNotifications';
+import { useAppLock } from './src/application/hooks/useAppLock';
+import { LockScreen } from './src/presentation/screens/AppLock/LockScreen';
+import { PanicScreen } from './src/presentation/screens/AppLock/PanicScreen';
+import { PrivacyCover } from './src/presentation/components/common/PrivacyCover';
 import { colors } from './src/presentation/theme/colors';
 import { fontSizes, fontWeights } from './src/presentation/theme/typography';
 import { spacing } from './src/presentation/theme/spacing';
 
+/**
+ * Main app shell, mounted once the user is signed in.
+ * With the app lock on, the screens are only mounted after the first
+ * unlock; later locks cover them (hidden from screen readers) so the
+ * user returns to where they were.
+ */
+const MainApp: React.FC = () => {
+  useReminderNotifications();
+  const { showCover } = useAppLock();
+  const { isLocked, isPanicMode, hasUnlocked } = useAppLockStore();
+  const loadPhotoJournal = usePhotoJournalStore((state) => state.loadJournal);
+
+  // Loading the journal also deletes photos past their retention period
+  useEffect(() => {
+    loadPhotoJournal();
+  }, [loadPhotoJournal]);
+
+  const showContent = hasUnlocked || (!isLocked && !isPanicMode);
+
+  return (
+    <SafeAreaProvider>
+      <PaperProvider>
+        <StatusBar style="dark" />
+        {isPanicMode ? (
+          <PanicScreen />
+        ) : (
+          showContent && (
+            <View
+              style={styles.fill}
+              importantForAccessibility={isLocked ? 'no-hide-descendants' : 'auto'}
+              accessibilityElementsHidden={isLocked}
+            >
+              <NavigationContainer>
+                <TabNavigator />
+              </NavigationContainer>
+            </View>
+          )
+        )}
+        {isLocked && (
+          <View style={StyleSheet.absoluteFill}>
+            <LockScreen />
+          </View>
+        )}
+        {showCover && <PrivacyCover />}
+      </PaperProvider>
+    </SafeAreaProvider>
+  );
+};
+
 /**
  * Splash/Loading screen while the app initializes
+ * (no app name in discreet mode, nor until that setting has loaded)
  */
-const LoadingScreen: React.FC = () => (
-  <View style={styles.loadingContainer}>
-    <Text style={styles.loadingAppName}>صحتك</Text>
-    <Text style={styles.loadingSubtitle}>Sehatik</Text>
-    <ActivityIndicator size="large" color={colors.primary} style={styles.loadingSpinner} />
-  </View>
-);
+const LoadingScreen: React.FC = () => {
+  const showName = useDiscreetModeStore((state) => state.isLoaded && !state.isEnabled);
+  return (
+    <View style={styles.loadingContainer}>
+      {showName && (
+        <>
+          <Text style={styles.loadingAppName}>صحتك</Text>
+          <Text style={styles.loadingSubtitle}>Sehatik</Text>
+        </>
+      )}
+      <ActivityIndicator size="large" color={colors.primary} style={styles.loadingSpinner} />
+    </View>
+  );
+};
 
 export default function App() {
   const { isLoaded: langLoaded, loadSavedLanguage } = useLanguageStore();
@@ -46,6 +113,10 @@ export default function App() {
     isLoading: authLoading,
     loadAuthState,
   } = useAuthStore();
+  const loadAppLock = useAppLockStore((state) => state.loadAppLock);
+  const loadDiscreetMode = useDiscreetModeStore((state) => state.loadDiscreetMode);
+  const loadBackup = useBackupStore((state) => state.loadBackup);
+  const loadCenters = useCentersStore((state) => state.loadCenters);
 
   const [appReady, setAppReady] = useState(false);
   const [showAuth, setShowAuth] = useState(false);
@@ -53,7 +124,17 @@ export default function App() {
   useEffect(() => {
     const initApp = async () => {
       try {
-        await Promise.all([loadSavedLanguage(), loadAuthState()]);
+        await Promise.all([
+          loadSavedLanguage(),
+          loadAuthState(),
+          loadAppLock(),
+          loadDiscreetMode(),
+          loadBackup(),
+          loadCenters(),
+        ]);
+        // Catch up on anything saved while offline
+        useBackupStore.getState().backupNow();
+        useCentersStore.getState().checkForUpdate();
       } catch {
         // App works with defaults
       } finally {
@@ -94,19 +175,13 @@ export default function App() {
   }
 
   // Main app
-  return (
-    <SafeAreaProvider>
-      <PaperProvider>
-        <NavigationContainer>
-          <StatusBar style="dark" />
-          <TabNavigator />
-        </NavigationContainer>
-      </PaperProvider>
-    </SafeAreaProvider>
-  );
+  return <MainApp />;
 }
 
 const styles = StyleSheet.create({
+  fill: {
+    flex: 1,
+  },
   loadingContainer: {
     flex: 1,
     backgroundColor: colors.background,
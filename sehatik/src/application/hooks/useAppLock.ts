@@ -0,0 +1,28 @@
+/**
+ * useAppLock
+ * Connects the app lock to the app's foreground/background state.
+ *
+ * - Locks on return when the app stayed in the background longer than
+ *   the chosen auto-lock time
+ * - Reports when to cover the content (app switcher, system prompts)
+ */
+
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAppLockStore } from '../store/appLockStore';
+
+export const useAppLock = (): { showCover: boolean } => {
+  const isEnabled = useAppLockStore((s) => s.isEnabled);
+  const handleAppStateChange = useAppLockStore((s) => s.handleAppStateChange);
+  const [isActive, setIsActive] = useState(AppState.currentState === 'active');
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      setIsActive(state === 'active');
+      handleAppStateChange(state);
+    });
+    return () => subscription.remove();
+  }, [handleAppStateChange]);
+
+  return { showCover: isEnabled && !isActive };
+};
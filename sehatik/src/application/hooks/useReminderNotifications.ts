@@ -0,0 +1,89 @@
+/**
+ * useReminderNotifications
+ * Keeps the OS notification schedule in sync with the reminder store.
+ *
+ * - Reschedules whenever a reminder's day/time/enabled state, the cycle
+ *   log, the last screening date, the language or discreet mode changes
+ * - Discreet mode: titled with the generic app title and hidden
+ *   entirely from the lock screen
+ * - Records delivery (lastNotified) and taps (lastAcknowledged)
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useReminderStore } from '../store/reminderStore';
+import { useExamStore } from '../store/examStore';
+import { useCycleStore } from '../store/cycleStore';
+import { useDiscreetModeStore } from '../store/discreetModeStore';
+import {
+  configureReminderNotifications,
+  replaceReminderNotifications,
+  subscribeToReminderNotifications,
+} from '../../infrastructure/notifications/reminderNotifications';
+
+export const useReminderNotifications = (): void => {
+  const { t } = useTranslation();
+  const { reminders, isLoaded, loadReminders, markNotified, acknowledgeReminder } =
+    useReminderStore();
+  const lastScreeningDate = useExamStore((s) => s.lastScreeningDate);
+  const {
+    mode: cycleMode,
+    periodStarts,
+    isLoaded: cycleLoaded,
+    loadCycleLog,
+  } = useCycleStore();
+  const { isEnabled: isDiscreet, title: discreetTitle } = useDiscreetModeStore();
+
+  // Only the fields that affect the schedule; lastNotified updates must
+  // not trigger a reschedule
+  const scheduleKey = useMemo(
+    () =>
+      reminders
+        .map((r) => `${r.id}:${r.enabled ? 1 : 0}:${r.dayOfMonth}:${r.hour}:${r.minute}`)
+        .join('|'),
+    [reminders],
+  );
+
+  useEffect(() => {
+    configureReminderNotifications();
+    loadReminders();
+    loadCycleLog();
+
+    return subscribeToReminderNotifications({
+      onDelivered: ({ reminderId, scheduledFor }) => {
+        markNotified(reminderId, scheduledFor);
+      },
+      onOpened: ({ reminderId, scheduledFor }) => {
+        acknowledgeReminder(reminderId, scheduledFor);
+      },
+    });
+    // Store actions are stable: this runs once
+  }, [loadReminders, loadCycleLog, markNotified, acknowledgeReminder]);
+
+  useEffect(() => {
+    if (!isLoaded || !cycleLoaded) return;
+
+    const occurrences = useReminderStore.getState().getScheduledOccurrences(lastScreeningDate, {
+      mode: cycleMode,
+      periodStarts,
+    });
+    replaceReminderNotifications(occurrences, {
+      title: isDiscreet
+        ? t(`discreetMode.titles.${discreetTitle}`)
+        : t('notifications.discreet.title'),
+      body: t('notifications.discreet.body'),
+      channelName: t('notifications.discreet.channel'),
+      hideOnLockScreen: isDiscreet,
+    });
+  }, [
+    isLoaded,
+    cycleLoaded,
+    scheduleKey,
+    cycleMode,
+    periodStarts,
+    lastScreeningDate,
+    isDiscreet,
+    discreetTitle,
+    t,
+  ]);
+};
@@ -0,0 +1,277 @@
+/**
+ * App Lock Store - Zustand
+ * Optional lock for shared phones: a PIN (salted hash in SecureStore),
+ * biometric unlock, auto-lock after time in the background, and a
+ * "panic" PIN that opens a neutral empty screen instead of the app.
+ *
+ * Settings and the wrong-PIN counter live in SecureStore, so clearing
+ * the app's regular storage does not remove the lock or reset the wait.
+ */
+
+import { create } from 'zustand';
+import type { AppStateStatus } from 'react-native';
+import {
+  DEFAULT_AUTO_LOCK_SECONDS,
+  getPinRetryDelayMs,
+  shouldLockOnResume,
+  type AutoLockSeconds,
+} from '../../domain/services/appLock';
+import {
+  authenticateWithBiometrics,
+  type LocalAuthResult,
+} from '../../infrastructure/security/localAuth';
+import { hashPin, verifyPin, type PinHash } from '../../infrastructure/security/pinHash';
+import { setAppSwitcherProtection } from '../../infrastructure/security/privacyScreen';
+import { secureDelete, secureGet, secureSet } from '../../infrastructure/storage/secureStorage';
+
+/** SecureStore keys (keychain/keystore) */
+const APP_LOCK_KEY = 'sehatik_app_lock';
+const APP_LOCK_ATTEMPTS_KEY = 'sehatik_app_lock_attempts';
+
+interface StoredAppLock {
+  pin: PinHash;
+  panicPin: PinHash | null;
+  biometricsEnabled: boolean;
+  autoLockSeconds: AutoLockSeconds;
+}
+
+interface StoredAttempts {
+  failedAttempts: number;
+  blockedUntil: number | null;
+}
+
+/**
+ *   'unlocked' -> main PIN, the app opens
+ *   'panic'    -> panic PIN, the neutral screen opens
+ *   'wrong'    -> neither (counts towards the wait)
+ *   'blocked'  -> too many wrong PINs, wait until `blockedUntil`
+ */
+export type PinUnlockResult = 'unlocked' | 'panic' | 'wrong' | 'blocked';
+
+interface AppLockState {
+  isLoaded: boolean;
+  isEnabled: boolean;
+  biometricsEnabled: boolean;
+  autoLockSeconds: AutoLockSeconds;
+  hasPanicPin: boolean;
+  isLocked: boolean;
+  /** Opened with the panic PIN: only the neutral screen is shown */
+  isPanicMode: boolean;
+  /** The app's screens have been shown since launch (kept mounted under the lock) */
+  hasUnlocked: boolean;
+  failedAttempts: number;
+  blockedUntil: number | null;
+
+  loadAppLock: () => Promise<void>;
+  enableLock: (pin: string) => Promise<void>;
+  /** Replace the main PIN; refused if it is the panic PIN */
+  changePin: (pin: string) => Promise<boolean>;
+  disableLock: () => Promise<void>;
+  setBiometricsEnabled: (enabled: boolean) => Promise<void>;
+  setAutoLockSeconds: (seconds: AutoLockSeconds) => Promise<void>;
+  /** Set (or remove with null) the panic PIN; refused if it is the main PIN */
+  setPanicPin: (pin: string | null) => Promise<boolean>;
+  /** Check the main PIN before changing settings (counts towards the wait) */
+  confirmPin: (pin: string) => Promise<PinUnlockResult>;
+  unlockWithPin: (pin: string) => Promise<PinUnlockResult>;
+  unlockWithBiometrics: (promptMessage: string, cancelLabel: string) => Promise<LocalAuthResult>;
+  lock: () => void;
+  /** Feed AppState changes: records background time, locks on resume */
+  handleAppStateChange: (state: AppStateStatus) => void;
+}
+
+/** Kept out of the store state: only the lock decision matters to the UI */
+let stored: StoredAppLock | null = null;
+let backgroundedAt: number | null = null;
+
+const saveLock = async (value: StoredAppLock) => {
+  stored = value;
+  await secureSet(APP_LOCK_KEY, JSON.stringify(value));
+};
+
+const saveAttempts = (attempts: StoredAttempts) =>
+  secureSet(APP_LOCK_ATTEMPTS_KEY, JSON.stringify(attempts));
+
+export const useAppLockStore = create<AppLockState>((set, get) => {
+  const settingsState = (value: StoredAppLock) => ({
+    biometricsEnabled: value.biometricsEnabled,
+    autoLockSeconds: value.autoLockSeconds,
+    hasPanicPin: value.panicPin !== null,
+  });
+
+  const recordFailure = async (): Promise<PinUnlockResult> => {
+    const failedAttempts = get().failedAttempts + 1;
+    const delay = getPinRetryDelayMs(failedAttempts);
+    const blockedUntil = delay > 0 ? Date.now() + delay : null;
+    set({ failedAttempts, blockedUntil });
+    await saveAttempts({ failedAttempts, blockedUntil });
+    return 'wrong';
+  };
+
+  const resetFailures = async () => {
+    if (get().failedAttempts === 0) return;
+    set({ failedAttempts: 0, blockedUntil: null });
+    await secureDelete(APP_LOCK_ATTEMPTS_KEY);
+  };
+
+  /** Which PIN was entered, after the wait check */
+  const matchPin = async (pin: string): Promise<PinUnlockResult> => {
+    const { blockedUntil } = get();
+    if (!stored) return 'wrong';
+    if (blockedUntil !== null && blockedUntil > Date.now()) return 'blocked';
+
+    if (await verifyPin(pin, stored.pin)) {
+      await resetFailures();
+      return 'unlocked';
+    }
+    if (stored.panicPin && (await verifyPin(pin, stored.panicPin))) {
+      await resetFailures();
+      return 'panic';
+    }
+    return recordFailure();
+  };
+
+  return {
+    isLoaded: false,
+    isEnabled: false,
+    biometricsEnabled: false,
+    autoLockSeconds: DEFAULT_AUTO_LOCK_SECONDS,
+    hasPanicPin: false,
+    isLocked: false,
+    isPanicMode: false,
+    hasUnlocked: false,
+    failedAttempts: 0,
+    blockedUntil: null,
+
+    loadAppLock: async () => {
+      try {
+        const [lockData, attemptsData] = await Promise.all([
+          secureGet(APP_LOCK_KEY),
+          secureGet(APP_LOCK_ATTEMPTS_KEY),
+        ]);
+        if (lockData) {
+          stored = JSON.parse(lockData) as StoredAppLock;
+          set({ isEnabled: true, isLocked: true, ...settingsState(stored) });
+          setAppSwitcherProtection(true);
+        }
+        if (attemptsData) {
+          const { failedAttempts, blockedUntil } = JSON.parse(attemptsData) as StoredAttempts;
+          set({ failedAttempts, blockedUntil });
+        }
+      } catch {
+        // Fail silently
+      } finally {
+        set({ isLoaded: true });
+      }
+    },
+
+    enableLock: async (pin: string) => {
+      await saveLock({
+        pin: await hashPin(pin),
+        panicPin: null,
+        biometricsEnabled: false,
+        autoLockSeconds: DEFAULT_AUTO_LOCK_SECONDS,
+      });
+      set({ isEnabled: true, isLocked: false, hasUnlocked: true, ...settingsState(stored!) });
+      setAppSwitcherProtection(true);
+    },
+
+    changePin: async (pin: string) => {
+      if (!stored) return false;
+      if (stored.panicPin && (await verifyPin(pin, stored.panicPin))) return false;
+      await saveLock({ ...stored, pin: await hashPin(pin) });
+      return true;
+    },
+
+    disableLock: async () => {
+      stored = null;
+      backgroundedAt = null;
+      await Promise.all([secureDelete(APP_LOCK_KEY), secureDelete(APP_LOCK_ATTEMPTS_KEY)]);
+      set({
+        isEnabled: false,
+        isLocked: false,
+        isPanicMode: false,
+        hasPanicPin: false,
+        biometricsEnabled: false,
+        autoLockSeconds: DEFAULT_AUTO_LOCK_SECONDS,
+        failedAttempts: 0,
+        blockedUntil: null,
+      });
+      setAppSwitcherProtection(false);
+    },
+
+    setBiometricsEnabled: async (enabled: boolean) => {
+      if (!stored) return;
+      await saveLock({ ...stored, biometricsEnabled: enabled });
+      set({ biometricsEnabled: enabled });
+    },
+
+    setAutoLockSeconds: async (seconds: AutoLockSeconds) => {
+      if (!stored) return;
+      await saveLock({ ...stored, autoLockSeconds: seconds });
+      set({ autoLockSeconds: seconds });
+    },
+
+    setPanicPin: async (pin: string | null) => {
+      if (!stored) return false;
+      if (pin === null) {
+        await saveLock({ ...stored, panicPin: null });
+        set({ hasPanicPin: false });
+        return true;
+      }
+      if (await verifyPin(pin, stored.pin)) return false;
+      await saveLock({ ...stored, panicPin: await hashPin(pin) });
+      set({ hasPanicPin: true });
+      return true;
+    },
+
+    confirmPin: async (pin: string) => {
+      const result = await matchPin(pin);
+      // The panic PIN must not reveal the settings
+      return result === 'panic' ? recordFailure() : result;
+    },
+
+    unlockWithPin: async (pin: string) => {
+      const result = await matchPin(pin);
+      if (result === 'unlocked') {
+        set({ isLocked: false, isPanicMode: false, hasUnlocked: true });
+      } else if (result === 'panic') {
+        // Unmount the app's screens: nothing stays behind the neutral screen
+        set({ isLocked: false, isPanicMode: true, hasUnlocked: false });
+      }
+      return result;
+    },
+
+    unlockWithBiometrics: async (promptMessage: string, cancelLabel: string) => {
+      if (!get().biometricsEnabled) return 'unavailable';
+      const result = await authenticateWithBiometrics(promptMessage, cancelLabel);
+      if (result === 'success') {
+        await resetFailures();
+        set({ isLocked: false, isPanicMode: false, hasUnlocked: true });
+      }
+      return result;
+    },
+
+    lock: () => {
+      if (get().isEnabled) set({ isLocked: true });
+    },
+
+    handleAppStateChange: (state: AppStateStatus) => {
+      const { isEnabled, isLocked, isPanicMode, autoLockSeconds } = get();
+      if (!isEnabled) return;
+
+      if (state === 'background') {
+        if (backgroundedAt === null) backgroundedAt = Date.now();
+        // Leaving the neutral screen always locks
+        if (isPanicMode) set({ isLocked: true, isPanicMode: false });
+        return;
+      }
+      if (state === 'active') {
+        if (!isLocked && shouldLockOnResume(backgroundedAt, Date.now(), autoLockSeconds)) {
+          set({ isLocked: true });
+        }
+        backgroundedAt = null;
+      }
+    },
+  };
+});
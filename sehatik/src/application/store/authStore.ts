@@ -1,94 +1,264 @@
 /**
  * Auth Store - Zustand
- * Phone + OTP authentication flow
+ * Phone + OTP authentication flow (see authProvider)
  * Privacy-first: minimal PII storage
+ *
+ * Tokens are kept in the device keychain/keystore (secureSet), never in
+ * AsyncStorage. Code request/entry limits are persisted so restarting
+ * the app does not reset a cooldown or lockout (see otpPolicy).
+ * Guests can verify their number later: local data is not tied to the
+ * account, so nothing is lost.
  */
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getRequestBlock,
+  getVerifyBlock,
+  INITIAL_OTP_STATE,
+  isValidOtpFormat,
+  LOCKOUT_MS,
+  recordFailedAttempt,
+  recordLockout,
+  recordOtpRequest,
+  recordVerified,
+  type OtpAttemptState,
+} from '../../domain/services/otpPolicy';
+import { normalizeMoroccanMobile } from '../../domain/services/phoneNumber';
+import { isAuthError, type AuthErrorCode } from '../../infrastructure/api/authErrors';
+import { getAuthProvider, type AuthSession } from '../../infrastructure/api/authProvider';
+import { secureDelete, secureGet, secureSet } from '../../infrastructure/storage/secureStorage';
 
 const AUTH_STORAGE_KEY = '@sehatik_auth';
 const ONBOARDING_KEY = '@sehatik_onboarding_complete';
+const OTP_ATTEMPTS_KEY = '@sehatik_otp_attempts';
+/** SecureStore key (keychain/keystore) */
+const SESSION_SECURE_KEY = 'sehatik_auth_session';
+
+/** Refresh the access token this long before it expires */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+interface StoredAuth {
+  userId: string;
+  phone: string | null;
+  /** Missing in records written before guest upgrades existed */
+  guest?: boolean;
+}
 
 interface AuthState {
   isAuthenticated: boolean;
   isOnboardingComplete: boolean;
   userId: string | null;
   phoneNumber: string | null;
+  /** Signed in without a verified number */
+  isGuest: boolean;
+  /** Stored auth state not loaded yet */
   isLoading: boolean;
 
   // OTP flow
+  otpRequesting: boolean;
   otpSent: boolean;
   otpVerifying: boolean;
+  /** Number the pending code was sent to (E.164) */
+  pendingPhone: string | null;
+  otpAttempts: OtpAttemptState;
+  /** Last error of the OTP flow, for the auth screen */
+  authError: AuthErrorCode | null;
+  /** The session could not be refreshed: the number must be verified again */
+  sessionExpired: boolean;
 
   // Actions
   sendOTP: (phone: string) => Promise<boolean>;
+  resendOTP: () => Promise<boolean>;
   verifyOTP: (code: string) => Promise<boolean>;
+  /** Back to number entry */
+  cancelOTP: () => void;
+  /** Valid access token for API calls, refreshed when needed */
+  getAccessToken: () => Promise<string | null>;
   completeOnboarding: () => Promise<void>;
   logout: () => Promise<void>;
   loadAuthState: () => Promise<void>;
   skipAuth: () => Promise<void>;
 }
 
+const saveAttempts = async (attempts: OtpAttemptState) => {
+  try {
+    await AsyncStorage.setItem(OTP_ATTEMPTS_KEY, JSON.stringify(attempts));
+  } catch {
+    // Fail silently
+  }
+};
+
+const saveSession = (session: AuthSession) =>
+  secureSet(SESSION_SECURE_KEY, JSON.stringify(session));
+
+const loadSession = async (): Promise<AuthSession | null> => {
+  const raw = await secureGet(SESSION_SECURE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as AuthSession;
+  } catch {
+    return null;
+  }
+};
+
+const toErrorCode = (error: unknown): AuthErrorCode =>
+  isAuthError(error) ? error.code : 'network';
+
+/** Shared by concurrent callers so a refresh token is only used once */
+let refreshInFlight: Promise<AuthSession | null> | null = null;
+
 export const useAuthStore = create<AuthState>((set, get) => ({
   isAuthenticated: false,
   isOnboardingComplete: false,
   userId: null,
   phoneNumber: null,
+  isGuest: false,
   isLoading: true,
+  otpRequesting: false,
   otpSent: false,
   otpVerifying: false,
+  pendingPhone: null,
+  otpAttempts: INITIAL_OTP_STATE,
+  authError: null,
+  sessionExpired: false,
 
   sendOTP: async (phone: string) => {
+    const normalized = normalizeMoroccanMobile(phone);
+    if (!normalized) {
+      set({ authError: 'invalid_phone' });
+      return false;
+    }
+    const now = Date.now();
+    const block = getRequestBlock(get().otpAttempts, now);
+    if (block) {
+      set({ authError: block.reason });
+      return false;
+    }
+
+    set({ otpRequesting: true, authError: null });
     try {
-      set({ isLoading: true });
-      // TODO: Replace with actual Firebase phone auth
-      // For MVP: simulate OTP sending
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      set({ otpSent: true, phoneNumber: phone, isLoading: false });
+      const provider = await getAuthProvider();
+      const challenge = await provider.requestOtp(normalized);
+      const otpAttempts = recordOtpRequest(get().otpAttempts, now, challenge.resendAvailableAt);
+      set({ otpSent: true, pendingPhone: challenge.phone, otpAttempts, otpRequesting: false });
+      await saveAttempts(otpAttempts);
       return true;
-    } catch {
-      set({ isLoading: false });
+    } catch (error) {
+      let { otpAttempts } = get();
+      if (isAuthError(error) && error.retryAt) {
+        otpAttempts =
+          error.code === 'locked'
+            ? recordLockout(otpAttempts, error.retryAt)
+            : { ...otpAttempts, resendAvailableAt: error.retryAt };
+        await saveAttempts(otpAttempts);
+      }
+      set({ otpRequesting: false, otpAttempts, authError: toErrorCode(error) });
       return false;
     }
   },
 
+  resendOTP: async () => {
+    const { pendingPhone } = get();
+    return pendingPhone ? get().sendOTP(pendingPhone) : false;
+  },
+
   verifyOTP: async (code: string) => {
+    const { pendingPhone, isGuest, userId } = get();
+    if (!pendingPhone) {
+      set({ authError: 'code_expired' });
+      return false;
+    }
+    if (!isValidOtpFormat(code)) {
+      set({ authError: 'invalid_code' });
+      return false;
+    }
+    const now = Date.now();
+    if (getVerifyBlock(get().otpAttempts, now)) {
+      set({ authError: 'locked' });
+      return false;
+    }
+
+    set({ otpVerifying: true, authError: null });
     try {
-      set({ otpVerifying: true });
-      // TODO: Replace with actual Firebase OTP verification
-      // For MVP: accept any 6-digit code
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      if (code.length === 6) {
-        const userId = `user_${Date.now()}`;
-        await AsyncStorage.setItem(
-          AUTH_STORAGE_KEY,
-          JSON.stringify({ userId, phone: get().phoneNumber }),
-        );
-        set({
-          isAuthenticated: true,
-          userId,
-          otpVerifying: false,
-          otpSent: false,
-        });
-        return true;
+      const provider = await getAuthProvider();
+      const session = await provider.verifyOtp(
+        pendingPhone,
+        code,
+        isGuest && userId ? userId : undefined,
+      );
+      await saveSession(session);
+      const stored: StoredAuth = { userId: session.userId, phone: pendingPhone, guest: false };
+      await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(stored));
+
+      const otpAttempts = recordVerified();
+      await saveAttempts(otpAttempts);
+      set({
+        isAuthenticated: true,
+        isGuest: false,
+        userId: session.userId,
+        phoneNumber: pendingPhone,
+        pendingPhone: null,
+        otpAttempts,
+        otpVerifying: false,
+        otpSent: false,
+        sessionExpired: false,
+      });
+      return true;
+    } catch (error) {
+      let { otpAttempts } = get();
+      const errorCode = toErrorCode(error);
+      if (errorCode === 'invalid_code') {
+        otpAttempts = recordFailedAttempt(otpAttempts, now);
+      } else if (errorCode === 'locked') {
+        const retryAt = isAuthError(error) ? error.retryAt : undefined;
+        otpAttempts = recordLockout(otpAttempts, retryAt ?? now + LOCKOUT_MS);
       }
-      set({ otpVerifying: false });
-      return false;
-    } catch {
-      set({ otpVerifying: false });
+      await saveAttempts(otpAttempts);
+      // The local count may reach the lockout before the server does
+      const locked = getVerifyBlock(otpAttempts, now) !== null;
+      set({ otpVerifying: false, otpAttempts, authError: locked ? 'locked' : errorCode });
       return false;
     }
   },
 
+  cancelOTP: () => {
+    set({ otpSent: false, pendingPhone: null, authError: null });
+  },
+
+  getAccessToken: async () => {
+    if (get().isGuest) return null;
+    const session = await loadSession();
+    if (!session) return null;
+    if (session.expiresAt - REFRESH_MARGIN_MS > Date.now()) return session.accessToken;
+
+    if (!refreshInFlight) {
+      refreshInFlight = (async () => {
+        try {
+          const provider = await getAuthProvider();
+          const refreshed = await provider.refreshSession(session.refreshToken);
+          await saveSession(refreshed);
+          return refreshed;
+        } catch (error) {
+          if (isAuthError(error) && error.code === 'session_expired') {
+            // Stay signed in locally (offline-first); verify again to sync
+            await secureDelete(SESSION_SECURE_KEY);
+            set({ sessionExpired: true });
+          }
+          return null;
+        } finally {
+          refreshInFlight = null;
+        }
+      })();
+    }
+    return (await refreshInFlight)?.accessToken ?? null;
+  },
+
   skipAuth: async () => {
     const userId = `guest_${Date.now()}`;
-    await AsyncStorage.setItem(
-      AUTH_STORAGE_KEY,
-      JSON.stringify({ userId, phone: null }),
-    );
-    set({ isAuthenticated: true, userId });
+    const stored: StoredAuth = { userId, phone: null, guest: true };
+    await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(stored));
+    set({ isAuthenticated: true, isGuest: true, userId });
   },
 
   completeOnboarding: async () => {
@@ -97,28 +267,46 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   logout: async () => {
+    const session = await loadSession();
+    if (session) {
+      getAuthProvider()
+        .then((provider) => provider.signOut(session.refreshToken))
+        .catch(() => {
+          // Fail silently
+        });
+    }
+    await secureDelete(SESSION_SECURE_KEY);
     await AsyncStorage.removeItem(AUTH_STORAGE_KEY);
     set({
       isAuthenticated: false,
+      isGuest: false,
       userId: null,
       phoneNumber: null,
+      pendingPhone: null,
       otpSent: false,
+      authError: null,
+      sessionExpired: false,
     });
   },
 
   loadAuthState: async () => {
     try {
-      const [authData, onboarding] = await Promise.all([
+      const [authData, onboarding, attempts] = await Promise.all([
         AsyncStorage.getItem(AUTH_STORAGE_KEY),
         AsyncStorage.getItem(ONBOARDING_KEY),
+        AsyncStorage.getItem(OTP_ATTEMPTS_KEY),
       ]);
+      if (attempts) {
+        set({ otpAttempts: { ...INITIAL_OTP_STATE, ...JSON.parse(attempts) } });
+      }
 
       if (authData) {
-        const { userId, phone } = JSON.parse(authData);
+        const { userId, phone, guest } = JSON.parse(authData) as StoredAuth;
         set({
           isAuthenticated: true,
           userId,
           phoneNumber: phone,
+          isGuest: guest ?? !phone,
           isOnboardingComplete: onboarding === 'true',
           isLoading: false,
         });
@@ -0,0 +1,393 @@
+/**
+ * Backup Store - Zustand
+ * Optional end-to-end encrypted backup of exam and self-check history,
+ * reminders, the cycle log and the language (see backupCrypto and
+ * backupProvider). A backup belongs to a verified phone number; the
+ * passphrase never leaves the phone and the vault key derived from it
+ * is kept in SecureStore.
+ *
+ * Backups are incremental: only records not yet synced and settings
+ * changed since their last upload are sent. New exam and self-check
+ * records are backed up as soon as they are saved. On a new phone,
+ * entering the same passphrase restores the backup, merged with local
+ * data by record id and timestamp (see the domain backup rules).
+ */
+
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { bytesToHex, hexToBytes } from '@noble/ciphers/utils.js';
+import {
+  backupDocKey,
+  getUnsyncedRecords,
+  isDocumentDirty,
+  isValidBackupPassphrase,
+  type BackupEntry,
+  type SyncableRecord,
+} from '../../domain/services/backup';
+import type { LanguageCode } from '../../infrastructure/i18n';
+import { getBackupProvider } from '../../infrastructure/api/backupProvider';
+import {
+  BackupError,
+  isBackupError,
+  type BackupErrorCode,
+} from '../../infrastructure/api/backupErrors';
+import {
+  createVault,
+  getBackupKeys,
+  openItem,
+  sealEntry,
+  unlockVault,
+  type BackupKeys,
+} from '../../infrastructure/security/backupCrypto';
+import { secureDelete, secureGet, secureSet } from '../../infrastructure/storage/secureStorage';
+import { useAuthStore } from './authStore';
+import { useExamStore, type ExamRecord } from './examStore';
+import { useSelfCheckStore, type SelfCheckRecord } from './selfCheckStore';
+import { useReminderStore, type ReminderSettings } from './reminderStore';
+import { useCycleStore, type StoredCycleLog } from './cycleStore';
+import { useLanguageStore } from './languageStore';
+
+/** SecureStore key (keychain/keystore) of the vault key */
+const BACKUP_KEY_ALIAS = 'sehatik_backup_key';
+const BACKUP_SETTINGS_KEY = '@sehatik_backup';
+
+/** Items sent per request, so a first backup of a long history stays small */
+const UPLOAD_BATCH_SIZE = 50;
+
+const CYCLE_DOC_ID = 'log';
+const LANGUAGE_DOC_ID = 'language';
+
+interface StoredBackup {
+  enabled: boolean;
+  lastBackupAt: number | null;
+  /** Settings document key (see backupDocKey) -> updatedAt last uploaded */
+  uploadedDocs: Record<string, number>;
+}
+
+interface BackupState {
+  isLoaded: boolean;
+  isEnabled: boolean;
+  /** A backup, restore or setup is running */
+  isWorking: boolean;
+  lastBackupAt: number | null;
+  /** Entries found by the last restore (null before any) */
+  lastRestoredCount: number | null;
+  error: BackupErrorCode | null;
+
+  loadBackup: () => Promise<void>;
+  /**
+   * Turn the backup on. Creates the backup for this account, or, when it
+   * already has one (new phone), checks the passphrase and restores it.
+   */
+  enableBackup: (passphrase: string) => Promise<boolean>;
+  /** Upload what changed since the last backup */
+  backupNow: () => Promise<boolean>;
+  restoreNow: () => Promise<boolean>;
+  /** Stop backing up from this phone; the backup itself is kept */
+  disableBackup: () => Promise<void>;
+  /**
+   * Delete the backup from the server, then stop backing up. On failure
+   * the key stays on the phone to try again, and `error` says why.
+   */
+  deleteBackup: () => Promise<boolean>;
+}
+
+/** Settings of the last upload, kept between the store's actions */
+let uploadedDocs: Record<string, number> = {};
+
+const saveBackup = async (value: StoredBackup) => {
+  try {
+    await AsyncStorage.setItem(BACKUP_SETTINGS_KEY, JSON.stringify(value));
+  } catch {
+    // Fail silently
+  }
+};
+
+const getToken = async (): Promise<string> => {
+  const token = await useAuthStore.getState().getAccessToken();
+  if (!token) throw new BackupError('unauthenticated');
+  return token;
+};
+
+const loadKeys = async (): Promise<BackupKeys | null> => {
+  const stored = await secureGet(BACKUP_KEY_ALIAS);
+  return stored ? getBackupKeys(hexToBytes(stored)) : null;
+};
+
+const toErrorCode = (error: unknown): BackupErrorCode =>
+  isBackupError(error) ? error.code : 'server';
+
+/**
+ * History and settings are loaded lazily by their screens: make sure
+ * they are in memory before reading or merging them
+ */
+const loadLocalData = async () => {
+  const exam = useExamStore.getState();
+  const selfCheck = useSelfCheckStore.getState();
+  const reminders = useReminderStore.getState();
+  const cycle = useCycleStore.getState();
+  await Promise.all([
+    exam.isHistoryLoaded ? null : exam.loadHistory(),
+    selfCheck.isHistoryLoaded ? null : selfCheck.loadHistory(),
+    reminders.isLoaded ? null : reminders.loadReminders(),
+    cycle.isLoaded ? null : cycle.loadCycleLog(),
+  ]);
+};
+
+/**
+ * Entries to upload: unsynced records and changed settings, or
+ * everything when `full` (first backup into a vault)
+ */
+const collectEntries = (full: boolean): BackupEntry[] => {
+  const isDirty = (key: string, updatedAt: number | null | undefined) =>
+    full ? updatedAt != null : isDocumentDirty(updatedAt, uploadedDocs[key]);
+
+  const { examHistory } = useExamStore.getState();
+  const { history: selfCheckHistory } = useSelfCheckStore.getState();
+  const { reminders } = useReminderStore.getState();
+  const cycle = useCycleStore.getState();
+  const language = useLanguageStore.getState();
+
+  const entries: BackupEntry[] = [
+    ...(full ? examHistory : getUnsyncedRecords(examHistory)).map(
+      (r): BackupEntry => ({ kind: 'exam', id: r.id, updatedAt: r.date, data: r }),
+    ),
+    ...(full ? selfCheckHistory : getUnsyncedRecords(selfCheckHistory)).map(
+      (r): BackupEntry => ({ kind: 'selfcheck', id: r.id, updatedAt: r.date, data: r }),
+    ),
+  ];
+
+  for (const r of reminders) {
+    if (r.updatedAt == null || !isDirty(backupDocKey('reminder', r.id), r.updatedAt)) continue;
+    const settings: ReminderSettings = {
+      id: r.id,
+      enabled: r.enabled,
+      dayOfMonth: r.dayOfMonth,
+      hour: r.hour,
+      minute: r.minute,
+      updatedAt: r.updatedAt,
+    };
+    entries.push({ kind: 'reminder', id: r.id, updatedAt: r.updatedAt, data: settings });
+  }
+
+  if (cycle.updatedAt != null && isDirty(backupDocKey('cycle', CYCLE_DOC_ID), cycle.updatedAt)) {
+    const log: StoredCycleLog = {
+      mode: cycle.mode,
+      fixedReason: cycle.fixedReason,
+      periodStarts: cycle.periodStarts,
+      updatedAt: cycle.updatedAt,
+    };
+    entries.push({ kind: 'cycle', id: CYCLE_DOC_ID, updatedAt: cycle.updatedAt, data: log });
+  }
+
+  if (
+    language.updatedAt != null &&
+    isDirty(backupDocKey('language', LANGUAGE_DOC_ID), language.updatedAt)
+  ) {
+    entries.push({
+      kind: 'language',
+      id: LANGUAGE_DOC_ID,
+      updatedAt: language.updatedAt,
+      data: language.currentLanguage,
+    });
+  }
+
+  return entries;
+};
+
+/** Record settings documents as present in the backup */
+const markDocsUploaded = (entries: BackupEntry[]) => {
+  for (const entry of entries) {
+    if (entry.kind === 'exam' || entry.kind === 'selfcheck') continue;
+    const key = backupDocKey(entry.kind, entry.id);
+    uploadedDocs = { ...uploadedDocs, [key]: Math.max(uploadedDocs[key] ?? 0, entry.updatedAt) };
+  }
+};
+
+const upload = async (keys: BackupKeys, token: string, full: boolean): Promise<void> => {
+  const provider = await getBackupProvider();
+  const entries = collectEntries(full);
+
+  for (let i = 0; i < entries.length; i += UPLOAD_BATCH_SIZE) {
+    const batch = entries.slice(i, i + UPLOAD_BATCH_SIZE);
+    await provider.putItems(
+      token,
+      batch.map((entry) => sealEntry(keys, entry)),
+    );
+
+    const idsOf = (kind: BackupEntry['kind']) =>
+      batch.filter((e) => e.kind === kind).map((e) => e.id);
+    await useExamStore.getState().markSynced(idsOf('exam'));
+    await useSelfCheckStore.getState().markSynced(idsOf('selfcheck'));
+    markDocsUploaded(batch);
+  }
+};
+
+/** Download, decrypt and merge the backup. Returns the entries found. */
+const restore = async (keys: BackupKeys, token: string): Promise<number> => {
+  const provider = await getBackupProvider();
+  const entries = (await provider.listItems(token))
+    .map((item) => openItem(keys, item))
+    .filter((entry): entry is BackupEntry => entry !== null);
+
+  const ofKind = <T>(kind: BackupEntry['kind']) =>
+    entries.filter((e) => e.kind === kind) as BackupEntry<T>[];
+  const latest = <T>(kind: BackupEntry['kind']) =>
+    ofKind<T>(kind).sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+  await useExamStore.getState().restoreHistory(ofKind<ExamRecord>('exam').map((e) => e.data));
+  await useSelfCheckStore
+    .getState()
+    .restoreHistory(ofKind<SelfCheckRecord>('selfcheck').map((e) => e.data));
+  await useReminderStore
+    .getState()
+    .restoreSettings(ofKind<ReminderSettings>('reminder').map((e) => e.data));
+
+  const cycle = latest<StoredCycleLog>('cycle');
+  if (cycle) await useCycleStore.getState().restoreCycleLog(cycle.data);
+
+  const language = latest<LanguageCode>('language');
+  if (language) {
+    await useLanguageStore.getState().restoreLanguage(language.data, language.updatedAt);
+  }
+
+  // What was just downloaded does not need uploading again
+  markDocsUploaded(entries);
+  return entries.length;
+};
+
+export const useBackupStore = create<BackupState>((set, get) => {
+  const persist = () =>
+    saveBackup({ enabled: get().isEnabled, lastBackupAt: get().lastBackupAt, uploadedDocs });
+
+  /** Runs one action at a time, recording its error */
+  const run = async (action: () => Promise<void>): Promise<boolean> => {
+    if (get().isWorking) return false;
+    set({ isWorking: true, error: null });
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      set({ error: toErrorCode(error) });
+      return false;
+    } finally {
+      await persist();
+      set({ isWorking: false });
+    }
+  };
+
+  return {
+    isLoaded: false,
+    isEnabled: false,
+    isWorking: false,
+    lastBackupAt: null,
+    lastRestoredCount: null,
+    error: null,
+
+    loadBackup: async () => {
+      try {
+        const data = await AsyncStorage.getItem(BACKUP_SETTINGS_KEY);
+        if (data) {
+          const stored = JSON.parse(data) as StoredBackup;
+          uploadedDocs = stored.uploadedDocs ?? {};
+          // Enabled only while the vault key is still on this phone
+          const hasKey = (await secureGet(BACKUP_KEY_ALIAS)) !== null;
+          set({ isEnabled: stored.enabled && hasKey, lastBackupAt: stored.lastBackupAt });
+        }
+      } catch {
+        // Fail silently
+      } finally {
+        set({ isLoaded: true });
+      }
+    },
+
+    enableBackup: async (passphrase: string) => {
+      if (!isValidBackupPassphrase(passphrase)) return false;
+
+      return run(async () => {
+        const token = await getToken();
+        const provider = await getBackupProvider();
+        const existing = await provider.getVault(token);
+
+        let vaultKey: Uint8Array;
+        if (existing) {
+          const unlocked = await unlockVault(existing, passphrase);
+          if (!unlocked) throw new BackupError('wrong_passphrase');
+          vaultKey = unlocked;
+        } else {
+          const created = await createVault(passphrase);
+          await provider.createVault(token, created.params);
+          vaultKey = created.vaultKey;
+        }
+
+        await secureSet(BACKUP_KEY_ALIAS, bytesToHex(vaultKey));
+        uploadedDocs = {};
+        set({ isEnabled: true });
+
+        const keys = getBackupKeys(vaultKey);
+        await loadLocalData();
+        if (existing) set({ lastRestoredCount: await restore(keys, token) });
+        // Everything local goes into this vault, whatever an earlier one held
+        await upload(keys, token, true);
+        set({ lastBackupAt: Date.now() });
+      });
+    },
+
+    backupNow: async () => {
+      if (!get().isEnabled) return false;
+
+      return run(async () => {
+        const keys = await loadKeys();
+        if (!keys) {
+          set({ isEnabled: false });
+          return;
+        }
+        await loadLocalData();
+        await upload(keys, await getToken(), false);
+        set({ lastBackupAt: Date.now() });
+      });
+    },
+
+    restoreNow: async () => {
+      if (!get().isEnabled) return false;
+
+      return run(async () => {
+        const keys = await loadKeys();
+        if (!keys) {
+          set({ isEnabled: false });
+          return;
+        }
+        await loadLocalData();
+        set({ lastRestoredCount: await restore(keys, await getToken()) });
+      });
+    },
+
+    disableBackup: async () => {
+      await secureDelete(BACKUP_KEY_ALIAS);
+      uploadedDocs = {};
+      set({ isEnabled: false, lastBackupAt: null, lastRestoredCount: null, error: null });
+      await persist();
+    },
+
+    deleteBackup: async () =>
+      run(async () => {
+        const provider = await getBackupProvider();
+        await provider.deleteBackup(await getToken());
+        await secureDelete(BACKUP_KEY_ALIAS);
+        uploadedDocs = {};
+        set({ isEnabled: false, lastBackupAt: null, lastRestoredCount: null });
+      }),
+  };
+});
+
+// Back up new exam and self-check records as soon as they are saved
+const backUpNewRecords = (records: SyncableRecord[], previous: SyncableRecord[]) => {
+  if (records !== previous && getUnsyncedRecords(records).length > 0) {
+    useBackupStore.getState().backupNow();
+  }
+};
+
+useExamStore.subscribe((state, previous) =>
+  backUpNewRecords(state.examHistory, previous.examHistory),
+);
+useSelfCheckStore.subscribe((state, previous) => backUpNewRecords(state.history, previous.history));
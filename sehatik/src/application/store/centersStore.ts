@@ -0,0 +1,130 @@
+/**
+ * Centers Store - Zustand
+ * The screening center directory in use: the bundled pack, or a newer
+ * signed pack downloaded from CENTERS_PACK_URL. The last downloaded
+ * pack is cached with its signature and checked again at every launch,
+ * so the directory stays available offline and cannot be edited on the
+ * phone. Older or same-version packs are ignored, which stops a replayed
+ * old pack from bringing back stale caravan dates.
+ */
+
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ScreeningCenter } from '../../domain/models/types';
+import { diffCenters, type CentersDiff, type CentersPack } from '../../domain/services/centersPack';
+import { getCityLocations, type CityLocation } from '../../domain/services/geolocation';
+import {
+  BUNDLED_CENTERS_PACK,
+  CITY_LOCATIONS,
+  getCities,
+} from '../../infrastructure/data/screeningCenters';
+import {
+  fetchCentersPack,
+  getCentersPackConfig,
+  openSignedPack,
+} from '../../infrastructure/api/centersPackSource';
+
+/** Last downloaded pack, as signed by the publisher */
+const PACK_STORAGE_KEY = '@sehatik_centers_pack';
+const CHECKED_AT_STORAGE_KEY = '@sehatik_centers_checked_at';
+
+/** Directory changes rarely: look for a new pack at most once a day */
+const UPDATE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface CentersState {
+  centers: ScreeningCenter[];
+  /** Where each city of `centers` is */
+  cityLocations: CityLocation[];
+  version: number;
+  publishedAt: string;
+  /** Public holidays of the pack (see centerAccess) */
+  holidays: string[];
+  source: 'bundled' | 'downloaded';
+  /** What the pack in use changes compared to the bundled copy */
+  diff: CentersDiff | null;
+  lastCheckedAt: number | null;
+  isUpdating: boolean;
+  updateError: 'network' | 'invalid' | null;
+
+  /** Use the cached pack when it is valid and newer than the bundled one */
+  loadCenters: () => Promise<void>;
+  /** Download a newer pack (at most daily unless forced) */
+  checkForUpdate: (options?: { force?: boolean }) => Promise<void>;
+}
+
+const packState = (pack: CentersPack) => ({
+  centers: pack.centers,
+  cityLocations: getCityLocations(getCities(pack.centers), pack.centers),
+  version: pack.version,
+  publishedAt: pack.publishedAt,
+  holidays: pack.holidays,
+  source: 'downloaded' as const,
+  diff: diffCenters(BUNDLED_CENTERS_PACK.centers, pack.centers),
+});
+
+export const useCentersStore = create<CentersState>((set, get) => ({
+  centers: BUNDLED_CENTERS_PACK.centers,
+  cityLocations: CITY_LOCATIONS,
+  version: BUNDLED_CENTERS_PACK.version,
+  publishedAt: BUNDLED_CENTERS_PACK.publishedAt,
+  holidays: BUNDLED_CENTERS_PACK.holidays,
+  source: 'bundled',
+  diff: null,
+  lastCheckedAt: null,
+  isUpdating: false,
+  updateError: null,
+
+  loadCenters: async () => {
+    try {
+      const [cached, checkedAt] = await Promise.all([
+        AsyncStorage.getItem(PACK_STORAGE_KEY),
+        AsyncStorage.getItem(CHECKED_AT_STORAGE_KEY),
+      ]);
+      set({ lastCheckedAt: checkedAt ? parseInt(checkedAt, 10) : null });
+
+      const { publicKey } = await getCentersPackConfig();
+      if (!cached || !publicKey) return;
+      const pack = openSignedPack(JSON.parse(cached), publicKey);
+      if (pack && pack.version > get().version) {
+        set(packState(pack));
+      }
+    } catch {
+      // Fail silently - the bundled directory stays in use
+    }
+  },
+
+  checkForUpdate: async (options = {}) => {
+    const { isUpdating, lastCheckedAt } = get();
+    if (isUpdating) return;
+    if (!options.force && lastCheckedAt && Date.now() - lastCheckedAt < UPDATE_INTERVAL_MS) {
+      return;
+    }
+    const { url, publicKey } = await getCentersPackConfig();
+    if (!url || !publicKey) return;
+
+    set({ isUpdating: true, updateError: null });
+    const result = await fetchCentersPack({ url, publicKey }, fetch);
+    if (result.status === 'network') {
+      // Try again at the next launch
+      set({ isUpdating: false, updateError: 'network' });
+      return;
+    }
+
+    const checkedAt = Date.now();
+    const isNewer = result.status === 'ok' && result.pack.version > get().version;
+    set({
+      isUpdating: false,
+      lastCheckedAt: checkedAt,
+      updateError: result.status === 'invalid' ? 'invalid' : null,
+      ...(result.status === 'ok' && isNewer && packState(result.pack)),
+    });
+    try {
+      await AsyncStorage.setItem(CHECKED_AT_STORAGE_KEY, checkedAt.toString());
+      if (result.status === 'ok' && isNewer) {
+        await AsyncStorage.setItem(PACK_STORAGE_KEY, JSON.stringify(result.signed));
+      }
+    } catch {
+      // Fail silently - the new pack is still used until the app closes
+    }
+  },
+}));
@@ -1,11 +1,26 @@
 /**
  * Chat Store - Zustand
  * Manages AI assistant conversation state
+ * - Replies are streamed token by token and can be stopped by the user
+ * - Falls back to offline responses when the stream breaks
+ * - Safety triage: red-flag / crisis pre-filter on user messages,
+ *   diagnosis post-filter on model replies (see safetyTriage)
  * PRIVACY: Never logs message content - all data encrypted at rest
  */
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAssistantProvider } from '../../infrastructure/api/assistantProvider';
+import type { StreamMessage } from '../../infrastructure/api/messagesStream';
+import {
+  getOfflineReply,
+  type AssistantLink,
+} from '../../infrastructure/data/offlineAssistant';
+import {
+  containsDiagnosis,
+  triageMessage,
+  type RedFlagId,
+} from '../../domain/services/safetyTriage';
 
 const CHAT_STORAGE_KEY = '@sehatik_chat';
 
@@ -14,15 +29,32 @@ export interface ChatMessage {
   text: string;
   isUser: boolean;
   timestamp: number;
+  /** Reply stopped by the user before it was complete */
+  stopped?: boolean;
+  /** In-app section suggested by an offline answer */
+  link?: AssistantLink;
+  /** Model reply replaced because it stated a diagnosis */
+  blocked?: boolean;
 }
 
 interface ChatState {
   messages: ChatMessage[];
+  /** Waiting for the first token */
   isTyping: boolean;
+  /** Id of the assistant message currently being streamed */
+  streamingMessageId: string | null;
   error: string | null;
+  /** Red flags reported in this conversation (pinned urgent-care card) */
+  urgentFlags: RedFlagId[];
+  /** Distress language detected: show support resources */
+  showCrisisSupport: boolean;
 
   // Actions
-  sendMessage: (text: string) => Promise<void>;
+  sendMessage: (text: string, language: string) => Promise<void>;
+  /** Abort the streamed reply, keeping the text received so far */
+  stopResponse: () => void;
+  dismissUrgentCare: () => void;
+  dismissCrisisSupport: () => void;
   clearChat: () => Promise<void>;
   loadChat: () => Promise<void>;
 }
@@ -56,143 +88,183 @@ You know about:
 - Fondation Lalla Salma programs
 - Free mammography programs in Morocco (for women 45-69)`;
 
+/** Aborts the reply in flight (one at a time) */
+let activeController: AbortController | null = null;
+
+/** Enough trailing text to hold a diagnosis phrase and its hedge words */
+const DIAGNOSIS_CHECK_WINDOW = 200;
+
+type AIResponse = Pick<ChatMessage, 'text' | 'link' | 'blocked'>;
+
 /**
- * Call AI assistant (Anthropic Claude or fallback)
+ * Stream the AI assistant reply (configured provider or fallback).
+ * `onText` receives the text so far; the offline answer is used when
+ * no provider is available, the stream breaks, or the reply states a
+ * diagnosis (the stream is cut as soon as it does).
+ * Rejects when the user stops the reply.
  */
 const getAIResponse = async (
-  messages: ChatMessage[],
+  history: ChatMessage[],
   userMessage: string,
-): Promise<string> => {
+  language: string,
+  signal: AbortSignal,
+  onText: (textSoFar: string) => void,
+): Promise<AIResponse> => {
   // Build conversation history for API
-  const conversationHistory = messages.slice(-10).map((m) => ({
-    role: m.isUser ? 'user' as const : 'assistant' as const,
+  const conversationHistory: StreamMessage[] = history.slice(-10).map((m) => ({
+    role: m.isUser ? 'user' : 'assistant',
     content: m.text,
   }));
   conversationHistory.push({ role: 'user', content: userMessage });
 
+  // Aborted by the user (signal) or by the diagnosis post-filter
+  const streamController = new AbortController();
+  const onAbort = () => streamController.abort();
+  signal.addEventListener('abort', onAbort);
+  let blocked = false;
+
   try {
-    // Try Anthropic API if key is available
-    // In a production app, this would go through your backend
-    // For MVP, we use a direct call (key should be in .env)
-    const Constants = await import('expo-constants');
-    const apiKey = Constants.default.expoConfig?.extra?.ANTHROPIC_API_KEY;
-
-    if (apiKey && apiKey !== 'your_anthropic_key_here') {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 1024,
-          system: SYSTEM_PROMPT,
-          messages: conversationHistory,
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        return data.content[0].text;
-      }
-    }
+    const provider = await getAssistantProvider();
+    let textSoFar = '';
 
-    // Fallback: intelligent offline responses
-    return getOfflineResponse(userMessage);
-  } catch {
-    return getOfflineResponse(userMessage);
+    const text = await provider.complete({
+      system: SYSTEM_PROMPT,
+      messages: conversationHistory,
+      maxTokens: 1024,
+      signal: streamController.signal,
+      onText: (delta) => {
+        if (blocked) return;
+        textSoFar += delta;
+        if (containsDiagnosis(textSoFar.slice(-DIAGNOSIS_CHECK_WINDOW))) {
+          blocked = true;
+          streamController.abort();
+          return;
+        }
+        onText(textSoFar);
+      },
+    });
+    if (!containsDiagnosis(text)) return { text };
+    blocked = true;
+  } catch (error) {
+    if (signal.aborted) throw error;
+  } finally {
+    signal.removeEventListener('abort', onAbort);
   }
-};
 
-/**
- * Offline fallback responses - provides helpful guidance without AI
- */
-const getOfflineResponse = (message: string): string => {
-  const lowerMessage = message.toLowerCase();
-
-  // Detect language
-  const isArabic = /[\u0600-\u06FF]/.test(message);
-
-  if (isArabic) {
-    if (lowerMessage.includes('فحص') || lowerMessage.includes('autopalpation')) {
-      return 'الفحص الذاتي للثدي خطوة مهمة للكشف المبكر. ننصحك بإجراء الفحص مرة كل شهر، من 5 إلى 10 أيام بعد بداية الدورة الشهرية.\n\nيمكنك استخدام قسم "الفحص الذاتي" في التطبيق للحصول على إرشادات مفصلة خطوة بخطوة.\n\n⚕️ هذه المعلومات للتوعية فقط ولا تغني عن استشارة الطبيب.';
-    }
-    if (lowerMessage.includes('عرض') || lowerMessage.includes('علامات') || lowerMessage.includes('أعراض')) {
-      return 'من الأعراض التي يجب مراقبتها:\n\n• كتلة أو تورم في الثدي أو تحت الإبط\n• تغيرات في شكل أو حجم الثدي\n• تغيرات في الجلد (تجعد، احمرار)\n• إفرازات من الحلمة\n• انكماش الحلمة\n\nأغلب هذه الأعراض لا تعني وجود سرطان، لكن من المهم استشارة طبيب للتأكد.\n\n💗 الكشف المبكر ينقذ الأرواح!';
-    }
-    if (lowerMessage.includes('مركز') || lowerMessage.includes('فحص') || lowerMessage.includes('مستشفى')) {
-      return 'يمكنك إيجاد أقرب مراكز الفحص من خلال قسم "مراكز الفحص" في التطبيق.\n\nبرنامج الكشف المبكر الوطني يوفر ماموغرافيا مجانية للنساء من 45 إلى 69 سنة في المراكز الصحية العمومية.\n\nمؤسسة للا سلمى لمحاربة السرطان توفر أيضًا خدمات فحص مجانية.\n\n⚕️ ننصحك بالاتصال بالمركز قبل الزيارة لتأكيد المواعيد.';
-    }
-    return 'شكرًا لسؤالك! أنا هنا لمساعدتك في كل ما يخص صحة الثدي.\n\nيمكنني مساعدتك في:\n• معلومات عن الفحص الذاتي\n• أعراض يجب مراقبتها\n• إيجاد مراكز الفحص القريبة\n• معلومات عن عوامل الخطر\n• الدعم والمساعدة\n\n⚕️ تذكري: هذه المعلومات للتوعية فقط ولا تغني عن استشارة الطبيب.';
-  }
+  // Offline, stream broke midway, or blocked: replace any partial text
+  // with a complete answer
+  const { text, link } = getOfflineReply(userMessage, language);
+  return { text, link, blocked };
+};
 
-  // French responses
-  if (lowerMessage.includes('examen') || lowerMessage.includes('autopalpation') || lowerMessage.includes('self')) {
-    return "L'auto-examen des seins est une étape importante pour la détection précoce. Il est recommandé de le pratiquer une fois par mois, entre le 5e et le 10e jour après le début des règles.\n\nUtilisez la section \"Auto-examen\" de l'application pour des instructions détaillées étape par étape.\n\n⚕️ Cette information est éducative et ne remplace pas une consultation médicale.";
-  }
-  if (lowerMessage.includes('symptom') || lowerMessage.includes('signe') || lowerMessage.includes('boule')) {
-    return "Les symptômes à surveiller :\n\n• Une boule ou un épaississement dans le sein ou sous le bras\n• Un changement de taille ou de forme du sein\n• Des modifications de la peau (rides, rougeur, peau d'orange)\n• Un écoulement du mamelon\n• Un rétraction du mamelon\n\nLa plupart de ces symptômes ne signifient pas un cancer, mais il est important de consulter un médecin.\n\n💗 La détection précoce sauve des vies !";
-  }
-  if (lowerMessage.includes('centre') || lowerMessage.includes('dépistage') || lowerMessage.includes('mammograph')) {
-    return "Vous pouvez trouver les centres de dépistage les plus proches dans la section \"Centres de dépistage\" de l'application.\n\nLe programme national de détection précoce offre des mammographies gratuites pour les femmes de 45 à 69 ans dans les centres de santé publics.\n\nLa Fondation Lalla Salma offre également des services de dépistage gratuits.\n\n⚕️ Appelez le centre avant votre visite pour confirmer les horaires.";
+const persistChat = async (messages: ChatMessage[]) => {
+  try {
+    await AsyncStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(messages.slice(-50)));
+  } catch {
+    // Storage error - don't log sensitive data
   }
-
-  return "Merci pour votre question ! Je suis là pour vous aider concernant la santé mammaire.\n\nJe peux vous aider avec :\n• Informations sur l'auto-examen\n• Symptômes à surveiller\n• Trouver des centres de dépistage\n• Facteurs de risque\n• Soutien et ressources\n\n⚕️ Rappel : ces informations sont éducatives et ne remplacent pas l'avis d'un médecin.";
 };
 
 export const useChatStore = create<ChatState>((set, get) => ({
   messages: [],
   isTyping: false,
+  streamingMessageId: null,
   error: null,
+  urgentFlags: [],
+  showCrisisSupport: false,
 
-  sendMessage: async (text: string) => {
+  sendMessage: async (text: string, language: string) => {
+    if (get().isTyping || get().streamingMessageId) return;
+
+    const history = get().messages;
     const userMessage: ChatMessage = {
       id: `msg_${Date.now()}_user`,
       text,
       isUser: true,
       timestamp: Date.now(),
     };
+    const assistantId = `msg_${Date.now()}_ai`;
+
+    // Create the assistant bubble on first token, update it afterwards
+    const showText = (textSoFar: string, extra?: Omit<AIResponse, 'text'>) => {
+      set((state) =>
+        state.messages.some((m) => m.id === assistantId)
+          ? {
+              messages: state.messages.map((m) =>
+                m.id === assistantId ? { ...m, text: textSoFar, ...extra } : m,
+              ),
+            }
+          : {
+              messages: [
+                ...state.messages,
+                {
+                  id: assistantId,
+                  text: textSoFar,
+                  isUser: false,
+                  timestamp: Date.now(),
+                  ...extra,
+                },
+              ],
+              isTyping: false,
+            },
+      );
+    };
+
+    const controller = new AbortController();
+    activeController = controller;
+
+    // Pre-filter: pinned cards stay until dismissed
+    const triage = triageMessage(text);
 
     set((state) => ({
+      urgentFlags: [...new Set([...state.urgentFlags, ...triage.redFlags])],
+      showCrisisSupport: state.showCrisisSupport || triage.crisis,
       messages: [...state.messages, userMessage],
       isTyping: true,
+      streamingMessageId: assistantId,
       error: null,
     }));
 
     try {
-      const response = await getAIResponse(get().messages, text);
-
-      const assistantMessage: ChatMessage = {
-        id: `msg_${Date.now()}_ai`,
-        text: response,
-        isUser: false,
-        timestamp: Date.now(),
-      };
-
-      set((state) => ({
-        messages: [...state.messages, assistantMessage],
-        isTyping: false,
-      }));
-
-      // Persist chat (without logging content)
-      const state = get();
-      try {
-        await AsyncStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(state.messages.slice(-50)));
-      } catch {
-        // Storage error - don't log sensitive data
-      }
+      const { text: response, link, blocked } = await getAIResponse(
+        history,
+        text,
+        language,
+        controller.signal,
+        showText,
+      );
+      showText(response, { link, blocked });
     } catch {
-      set({
-        isTyping: false,
-        error: 'error',
-      });
+      if (controller.signal.aborted) {
+        // Keep the partial text (dropped if nothing arrived yet)
+        set((state) => ({
+          messages: state.messages
+            .filter((m) => m.id !== assistantId || m.text.length > 0)
+            .map((m) => (m.id === assistantId ? { ...m, stopped: true } : m)),
+        }));
+      } else {
+        set({ error: 'error' });
+      }
+    } finally {
+      if (activeController === controller) activeController = null;
+      set({ isTyping: false, streamingMessageId: null });
     }
+
+    // Persist chat (without logging content)
+    await persistChat(get().messages);
   },
 
+  stopResponse: () => {
+    activeController?.abort();
+  },
+
+  dismissUrgentCare: () => set({ urgentFlags: [] }),
+
+  dismissCrisisSupport: () => set({ showCrisisSupport: false }),
+
   clearChat: async () => {
-    set({ messages: [], error: null });
+    activeController?.abort();
+    set({ messages: [], error: null, urgentFlags: [], showCrisisSupport: false });
     await AsyncStorage.removeItem(CHAT_STORAGE_KEY);
   },
 
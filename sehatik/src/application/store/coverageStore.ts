@@ -0,0 +1,51 @@
+/**
+ * Coverage Store - Zustand
+ * The user's health coverage scheme, used to filter centers that accept
+ * it. Kept on the phone only.
+ */
+
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CoverageScheme } from '../../domain/models/types';
+import { COVERAGE_SCHEMES } from '../../domain/services/centersPack';
+
+const COVERAGE_STORAGE_KEY = '@sehatik_coverage';
+
+interface CoverageState {
+  scheme: CoverageScheme | null;
+  isLoaded: boolean;
+  loadCoverage: () => Promise<void>;
+  setCoverage: (scheme: CoverageScheme | null) => Promise<void>;
+}
+
+export const useCoverageStore = create<CoverageState>((set) => ({
+  scheme: null,
+  isLoaded: false,
+
+  loadCoverage: async () => {
+    try {
+      const saved = await AsyncStorage.getItem(COVERAGE_STORAGE_KEY);
+      set({
+        scheme: COVERAGE_SCHEMES.includes(saved as CoverageScheme)
+          ? (saved as CoverageScheme)
+          : null,
+        isLoaded: true,
+      });
+    } catch {
+      set({ isLoaded: true });
+    }
+  },
+
+  setCoverage: async (scheme) => {
+    set({ scheme });
+    try {
+      if (scheme) {
+        await AsyncStorage.setItem(COVERAGE_STORAGE_KEY, scheme);
+      } else {
+        await AsyncStorage.removeItem(COVERAGE_STORAGE_KEY);
+      }
+    } catch {
+      // Fail silently
+    }
+  },
+}));
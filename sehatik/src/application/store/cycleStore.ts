@@ -0,0 +1,126 @@
+/**
+ * Cycle Store - Zustand
+ * Optional, private log of period start dates and the exam schedule mode.
+ * Persisted encrypted at rest (see secureStorage); never leaves the device.
+ */
+
+import { create } from 'zustand';
+import type { ExamScheduleMode, FixedModeReason } from '../../domain/services/cyclePrediction';
+import { isRemoteNewer } from '../../domain/services/backup';
+import {
+  discardQuarantinedData,
+  encryptedGet,
+  encryptedSet,
+  type EncryptedReadFailure,
+} from '../../infrastructure/storage/secureStorage';
+
+/** Storage key (prefixed with @sehatik_ by secureStorage) */
+const CYCLE_LOG_KEY = 'cycle_log';
+
+/** Older entries no longer improve the prediction */
+const MAX_LOGGED_PERIODS = 24;
+
+export interface StoredCycleLog {
+  mode: ExamScheduleMode;
+  fixedReason: FixedModeReason | null;
+  periodStarts: number[];
+  /** Last change, for the backup (absent until the user changes something) */
+  updatedAt?: number | null;
+}
+
+interface CycleState {
+  mode: ExamScheduleMode;
+  /** Why the user chose a fixed date (only meaningful in fixed mode) */
+  fixedReason: FixedModeReason | null;
+  /** Period start timestamps (start of day), newest first */
+  periodStarts: number[];
+  updatedAt: number | null;
+  isLoaded: boolean;
+  storageIssue: EncryptedReadFailure | null;
+
+  loadCycleLog: () => Promise<void>;
+  logPeriodStart: (date: number) => Promise<void>;
+  removePeriodStart: (date: number) => Promise<void>;
+  setMode: (mode: ExamScheduleMode, fixedReason?: FixedModeReason | null) => Promise<void>;
+  acknowledgeStorageIssue: () => Promise<void>;
+  /** Replace the log with one restored from the backup when it is newer */
+  restoreCycleLog: (log: StoredCycleLog) => Promise<void>;
+}
+
+const toStartOfDay = (timestamp: number): number => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+const saveCycleLog = async ({ mode, fixedReason, periodStarts, updatedAt }: StoredCycleLog) => {
+  try {
+    await encryptedSet(CYCLE_LOG_KEY, { mode, fixedReason, periodStarts, updatedAt });
+  } catch {
+    // Fail silently
+  }
+};
+
+export const useCycleStore = create<CycleState>((set, get) => ({
+  mode: 'cycle',
+  fixedReason: null,
+  periodStarts: [],
+  updatedAt: null,
+  isLoaded: false,
+  storageIssue: null,
+
+  loadCycleLog: async () => {
+    try {
+      const { status, value } = await encryptedGet<StoredCycleLog>(CYCLE_LOG_KEY);
+      if (status === 'tampered' || status === 'key_lost') {
+        set({ storageIssue: status });
+      }
+      if (value) {
+        set({
+          mode: value.mode,
+          fixedReason: value.fixedReason ?? null,
+          periodStarts: value.periodStarts ?? [],
+          updatedAt: value.updatedAt ?? null,
+        });
+      }
+    } catch {
+      // Fail silently
+    } finally {
+      set({ isLoaded: true });
+    }
+  },
+
+  logPeriodStart: async (date: number) => {
+    const day = toStartOfDay(date);
+    const periodStarts = [day, ...get().periodStarts.filter((p) => p !== day)]
+      .sort((a, b) => b - a)
+      .slice(0, MAX_LOGGED_PERIODS);
+    set({ periodStarts, updatedAt: Date.now() });
+    await saveCycleLog(get());
+  },
+
+  removePeriodStart: async (date: number) => {
+    set({ periodStarts: get().periodStarts.filter((p) => p !== date), updatedAt: Date.now() });
+    await saveCycleLog(get());
+  },
+
+  setMode: async (mode: ExamScheduleMode, fixedReason: FixedModeReason | null = null) => {
+    set({ mode, fixedReason: mode === 'fixed' ? fixedReason : null, updatedAt: Date.now() });
+    await saveCycleLog(get());
+  },
+
+  acknowledgeStorageIssue: async () => {
+    await discardQuarantinedData(CYCLE_LOG_KEY);
+    set({ storageIssue: null });
+  },
+
+  restoreCycleLog: async (log: StoredCycleLog) => {
+    if (!log.updatedAt || !isRemoteNewer(log.updatedAt, get().updatedAt)) return;
+    set({
+      mode: log.mode,
+      fixedReason: log.fixedReason ?? null,
+      periodStarts: (log.periodStarts ?? []).slice(0, MAX_LOGGED_PERIODS),
+      updatedAt: log.updatedAt,
+    });
+    await saveCycleLog(get());
+  },
+}));
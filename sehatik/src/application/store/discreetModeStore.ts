@@ -0,0 +1,75 @@
+/**
+ * Discreet Mode Store - Zustand
+ * For users who do not want the app to look like a breast health app
+ * to others: neutral strings (see i18n 'discreet' namespace), a generic
+ * in-app title, no pink-ribbon art and no audio (see theme appearance),
+ * and neutral reminder notifications.
+ */
+
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setDiscreetStrings } from '../../infrastructure/i18n';
+
+const DISCREET_MODE_KEY = '@sehatik_discreet_mode';
+
+/** Generic titles the app can show instead of its name */
+export const DISCREET_TITLES = ['notes', 'agenda', 'journal'] as const;
+export type DiscreetTitle = (typeof DISCREET_TITLES)[number];
+
+interface StoredDiscreetMode {
+  enabled: boolean;
+  title: DiscreetTitle;
+}
+
+interface DiscreetModeState {
+  isEnabled: boolean;
+  title: DiscreetTitle;
+  isLoaded: boolean;
+
+  loadDiscreetMode: () => Promise<void>;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  setTitle: (title: DiscreetTitle) => Promise<void>;
+}
+
+const saveDiscreetMode = async (value: StoredDiscreetMode) => {
+  try {
+    await AsyncStorage.setItem(DISCREET_MODE_KEY, JSON.stringify(value));
+  } catch {
+    // Fail silently
+  }
+};
+
+export const useDiscreetModeStore = create<DiscreetModeState>((set, get) => ({
+  isEnabled: false,
+  title: 'notes',
+  isLoaded: false,
+
+  loadDiscreetMode: async () => {
+    try {
+      const data = await AsyncStorage.getItem(DISCREET_MODE_KEY);
+      if (data) {
+        const { enabled, title } = JSON.parse(data) as StoredDiscreetMode;
+        setDiscreetStrings(enabled);
+        set({
+          isEnabled: enabled,
+          title: DISCREET_TITLES.includes(title) ? title : 'notes',
+        });
+      }
+    } catch {
+      // Fail silently
+    } finally {
+      set({ isLoaded: true });
+    }
+  },
+
+  setEnabled: async (enabled: boolean) => {
+    setDiscreetStrings(enabled);
+    set({ isEnabled: enabled });
+    await saveDiscreetMode({ enabled, title: get().title });
+  },
+
+  setTitle: async (title: DiscreetTitle) => {
+    set({ title });
+    await saveDiscreetMode({ enabled: get().isEnabled, title });
+  },
+}));
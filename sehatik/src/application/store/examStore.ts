@@ -1,22 +1,42 @@
 /**
  * Exam Store - Zustand
  * Manages autopalpation exam state and history
- * All data encrypted before storage (privacy-first)
+ * All data encrypted before storage (privacy-first, see secureStorage)
  */
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { assessSymptoms, type RiskAssessmentResult } from '../../domain/services/riskAssessment';
+import {
+  assessSymptoms,
+  migrateStoredResult,
+  type RiskAssessmentResult,
+} from '../../domain/services/riskAssessment';
+import { getQuadrants } from '../../domain/services/breastMap';
+import { markRecordsSynced, mergeRecords } from '../../domain/services/backup';
+import type { FindingLocation } from '../../domain/models/types';
 import { EXAM_SECTIONS, shouldShowQuestion, type ExamSection } from '../../infrastructure/data/examQuestions';
+import {
+  discardQuarantinedData,
+  encryptedGet,
+  encryptedSet,
+  type EncryptedReadFailure,
+} from '../../infrastructure/storage/secureStorage';
 
-const EXAM_HISTORY_KEY = '@sehatik_exam_history';
+/** Storage key (prefixed with @sehatik_ by secureStorage) */
+const EXAM_HISTORY_KEY = 'exam_history';
 
 export interface ExamRecord {
   id: string;
   date: number;
   answers: Record<string, unknown>;
   result: RiskAssessmentResult;
+  /** Risk rule set version that produced `result` */
+  ruleSetVersion: string;
   completed: boolean;
+  /** Lumps placed on the breast map (when a lump was reported) */
+  findings?: FindingLocation[];
+  /** Set once the record is in the encrypted backup (see backupStore) */
+  synced?: boolean;
 }
 
 interface ExamState {
@@ -24,6 +44,7 @@ interface ExamState {
   currentSectionIndex: number;
   currentQuestionIndex: number;
   answers: Record<string, unknown>;
+  findings: FindingLocation[];
   isExamActive: boolean;
   examResult: RiskAssessmentResult | null;
 
@@ -31,10 +52,15 @@ interface ExamState {
   examHistory: ExamRecord[];
   lastExamDate: number | null;
   lastScreeningDate: number | null;
+  /** Set when stored history could not be decrypted */
+  storageIssue: EncryptedReadFailure | null;
+  isHistoryLoaded: boolean;
 
   // Actions
   startExam: () => void;
   answerQuestion: (questionId: string, answer: unknown) => void;
+  /** Breast map markers; also answers lump_location with their quadrants */
+  setFindings: (findings: FindingLocation[]) => void;
   nextQuestion: () => boolean; // returns false if exam is complete
   previousQuestion: () => void;
   completeExam: () => RiskAssessmentResult;
@@ -42,28 +68,46 @@ interface ExamState {
   loadHistory: () => Promise<void>;
   saveExam: (record: ExamRecord) => Promise<void>;
   setLastScreeningDate: (date: number) => Promise<void>;
+  /** User acknowledged unreadable history: drop the quarantined copy */
+  acknowledgeStorageIssue: () => Promise<void>;
+  /** Records uploaded by the backup */
+  markSynced: (ids: string[]) => Promise<void>;
+  /** Merge records restored from the backup into the history */
+  restoreHistory: (records: ExamRecord[]) => Promise<void>;
 
   // Computed
   getCurrentSection: () => ExamSection;
   getProgress: () => { current: number; total: number; percentage: number };
   getVisibleQuestions: () => number;
+  /** Markers of the latest exam that recorded some, to overlay on the map */
+  getPastFindings: () => { date: number; findings: FindingLocation[] } | null;
 }
 
+/** Bring a record saved by an older version up to date */
+const migrateRecord = (record: ExamRecord): ExamRecord => {
+  const result = migrateStoredResult(record.result);
+  return { ...record, result, ruleSetVersion: record.ruleSetVersion ?? result.ruleSetVersion };
+};
+
 export const useExamStore = create<ExamState>((set, get) => ({
   currentSectionIndex: 0,
   currentQuestionIndex: 0,
   answers: {},
+  findings: [],
   isExamActive: false,
   examResult: null,
   examHistory: [],
   lastExamDate: null,
   lastScreeningDate: null,
+  storageIssue: null,
+  isHistoryLoaded: false,
 
   startExam: () => {
     set({
       currentSectionIndex: 0,
       currentQuestionIndex: 0,
       answers: {},
+      findings: [],
       isExamActive: true,
       examResult: null,
     });
@@ -75,6 +119,16 @@ export const useExamStore = create<ExamState>((set, get) => ({
     }));
   },
 
+  setFindings: (findings: FindingLocation[]) => {
+    set((state) => ({
+      findings,
+      answers: {
+        ...state.answers,
+        lump_location: findings.length > 0 ? getQuadrants(findings) : undefined,
+      },
+    }));
+  },
+
   nextQuestion: () => {
     const state = get();
     const sections = EXAM_SECTIONS;
@@ -150,12 +204,21 @@ export const useExamStore = create<ExamState>((set, get) => ({
   completeExam: () => {
     const state = get();
     const result = assessSymptoms(state.answers);
+    // Markers only count while the lump question they belong to is answered yes
+    const lumpLocation = EXAM_SECTIONS.flatMap((s) => s.questions).find(
+      (q) => q.id === 'lump_location',
+    );
+    const findings =
+      lumpLocation && shouldShowQuestion(lumpLocation, state.answers) ? state.findings : [];
     const record: ExamRecord = {
       id: `exam_${Date.now()}`,
       date: Date.now(),
       answers: state.answers,
       result,
+      ruleSetVersion: result.ruleSetVersion,
       completed: true,
+      ...(findings.length > 0 && { findings }),
+      synced: false,
     };
 
     set({
@@ -176,6 +239,7 @@ export const useExamStore = create<ExamState>((set, get) => ({
       currentSectionIndex: 0,
       currentQuestionIndex: 0,
       answers: {},
+      findings: [],
       isExamActive: false,
       examResult: null,
     });
@@ -183,32 +247,34 @@ export const useExamStore = create<ExamState>((set, get) => ({
 
   loadHistory: async () => {
     try {
-      const data = await AsyncStorage.getItem(EXAM_HISTORY_KEY);
-      if (data) {
-        const history: ExamRecord[] = JSON.parse(data);
+      const { status, value: data } = await encryptedGet<ExamRecord[]>(EXAM_HISTORY_KEY);
+      if (status === 'tampered' || status === 'key_lost') {
+        set({ storageIssue: status });
+      }
 
-        // Try to load last screening date from a separate key or existing logic
-        // For simplicity, we'll store it in a separate key
-        const screeningDate = await AsyncStorage.getItem('@sehatik_last_screening');
+      // Stored separately: a screening date may exist before any self-exam
+      const screeningDate = await AsyncStorage.getItem('@sehatik_last_screening');
+      set({ lastScreeningDate: screeningDate ? parseInt(screeningDate, 10) : null });
+
+      if (data) {
+        const history = data.map(migrateRecord);
 
         set({
           examHistory: history,
           lastExamDate: history.length > 0 ? history[0].date : null,
-          lastScreeningDate: screeningDate ? parseInt(screeningDate, 10) : null,
         });
       }
     } catch {
       // Fail silently
+    } finally {
+      set({ isHistoryLoaded: true });
     }
   },
 
   saveExam: async (record: ExamRecord) => {
     try {
       const state = get();
-      await AsyncStorage.setItem(
-        EXAM_HISTORY_KEY,
-        JSON.stringify(state.examHistory),
-      );
+      await encryptedSet(EXAM_HISTORY_KEY, state.examHistory);
     } catch {
       // Fail silently
     }
@@ -223,6 +289,26 @@ export const useExamStore = create<ExamState>((set, get) => ({
     }
   },
 
+  acknowledgeStorageIssue: async () => {
+    await discardQuarantinedData(EXAM_HISTORY_KEY);
+    set({ storageIssue: null });
+  },
+
+  markSynced: async (ids: string[]) => {
+    if (ids.length === 0) return;
+    set({ examHistory: markRecordsSynced(get().examHistory, ids) });
+    await encryptedSet(EXAM_HISTORY_KEY, get().examHistory);
+  },
+
+  restoreHistory: async (records: ExamRecord[]) => {
+    const history = mergeRecords(get().examHistory, records.map(migrateRecord));
+    set({
+      examHistory: history,
+      lastExamDate: history.length > 0 ? history[0].date : null,
+    });
+    await encryptedSet(EXAM_HISTORY_KEY, history);
+  },
+
   getCurrentSection: () => {
     return EXAM_SECTIONS[get().currentSectionIndex];
   },
@@ -264,4 +350,9 @@ export const useExamStore = create<ExamState>((set, get) => ({
       s.questions.filter((q) => shouldShowQuestion(q, state.answers)),
     ).length;
   },
+
+  getPastFindings: () => {
+    const record = get().examHistory.find((r) => r.findings && r.findings.length > 0);
+    return record?.findings ? { date: record.date, findings: record.findings } : null;
+  },
 }));
@@ -0,0 +1,139 @@
+/**
+ * Imaging Store - Zustand
+ * Imaging documents (mammograms, ultrasounds, report scans) imported by
+ * the user, de-identified on the device and optionally attached to an
+ * exam or self-check record so a doctor can see them in context.
+ *
+ * The document list is encrypted at rest (see secureStorage); the files
+ * live in the encrypted imaging vault.
+ */
+
+import { create } from 'zustand';
+import type { ImagingDocument } from '../../domain/models/types';
+import { pickImagingFile, type IntakeError } from '../../infrastructure/imaging/imagingIntake';
+import {
+  deleteAllImagingFiles,
+  deleteImagingFile,
+  readImagingFile,
+  saveImagingFile,
+} from '../../infrastructure/storage/imagingVault';
+import {
+  discardQuarantinedData,
+  encryptedGet,
+  encryptedSet,
+  type EncryptedReadFailure,
+} from '../../infrastructure/storage/secureStorage';
+
+/** Storage key (prefixed with @sehatik_ by secureStorage) */
+const IMAGING_DOCUMENTS_KEY = 'imaging_documents';
+
+export type ImportResult =
+  | { status: 'imported'; document: ImagingDocument }
+  | { status: 'cancelled' }
+  | { status: 'error'; error: IntakeError | 'storage' };
+
+interface ImagingState {
+  /** Newest first */
+  documents: ImagingDocument[];
+  isLoaded: boolean;
+  isImporting: boolean;
+  storageIssue: EncryptedReadFailure | null;
+
+  loadDocuments: () => Promise<void>;
+  /** Pick a file, de-identify it and store it encrypted */
+  importDocument: (recordId?: string) => Promise<ImportResult>;
+  /** Attach to an exam/self-check record, or detach with undefined */
+  attachToRecord: (id: string, recordId: string | undefined) => Promise<void>;
+  removeDocument: (id: string) => Promise<void>;
+  /** Delete every document (user data deletion) */
+  removeAllDocuments: () => Promise<void>;
+  /** De-identified file content */
+  getDocumentData: (id: string) => Promise<Uint8Array | null>;
+  acknowledgeStorageIssue: () => Promise<void>;
+}
+
+const saveDocuments = async (documents: ImagingDocument[]) => {
+  try {
+    await encryptedSet(IMAGING_DOCUMENTS_KEY, documents);
+  } catch {
+    // Fail silently
+  }
+};
+
+export const useImagingStore = create<ImagingState>((set, get) => ({
+  documents: [],
+  isLoaded: false,
+  isImporting: false,
+  storageIssue: null,
+
+  loadDocuments: async () => {
+    try {
+      const { status, value } = await encryptedGet<ImagingDocument[]>(IMAGING_DOCUMENTS_KEY);
+      if (status === 'tampered' || status === 'key_lost') {
+        set({ storageIssue: status });
+      }
+      if (value) set({ documents: value });
+    } catch {
+      // Fail silently
+    } finally {
+      set({ isLoaded: true });
+    }
+  },
+
+  importDocument: async (recordId?: string) => {
+    set({ isImporting: true });
+    try {
+      const result = await pickImagingFile();
+      if (result.status !== 'ready') return result;
+
+      const { file } = result;
+      const document: ImagingDocument = {
+        id: `imaging_${Date.now()}`,
+        addedAt: Date.now(),
+        kind: file.kind,
+        mimeType: file.mimeType,
+        sizeBytes: file.bytes.length,
+        metadata: file.metadata,
+        recordId,
+      };
+      try {
+        await saveImagingFile(document.id, file.bytes);
+      } catch {
+        return { status: 'error', error: 'storage' };
+      }
+      set((state) => ({ documents: [document, ...state.documents] }));
+      await saveDocuments(get().documents);
+      return { status: 'imported', document };
+    } catch {
+      return { status: 'error', error: 'unreadable' };
+    } finally {
+      set({ isImporting: false });
+    }
+  },
+
+  attachToRecord: async (id: string, recordId: string | undefined) => {
+    set((state) => ({
+      documents: state.documents.map((d) => (d.id === id ? { ...d, recordId } : d)),
+    }));
+    await saveDocuments(get().documents);
+  },
+
+  removeDocument: async (id: string) => {
+    deleteImagingFile(id);
+    set((state) => ({ documents: state.documents.filter((d) => d.id !== id) }));
+    await saveDocuments(get().documents);
+  },
+
+  removeAllDocuments: async () => {
+    deleteAllImagingFiles();
+    set({ documents: [] });
+    await saveDocuments([]);
+  },
+
+  getDocumentData: async (id: string) => readImagingFile(id),
+
+  acknowledgeStorageIssue: async () => {
+    await discardQuarantinedData(IMAGING_DOCUMENTS_KEY);
+    set({ storageIssue: null });
+  },
+}));
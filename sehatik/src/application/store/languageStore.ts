@@ -7,20 +7,27 @@ import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import i18n from '../../infrastructure/i18n';
 import { applyRTL, isRTLLanguage, type LanguageCode } from '../../infrastructure/i18n';
+import { isRemoteNewer } from '../../domain/services/backup';
 
 const LANGUAGE_STORAGE_KEY = '@sehatik_language';
+/** When the language was last chosen, for the backup */
+const LANGUAGE_UPDATED_KEY = '@sehatik_language_updated_at';
 
 interface LanguageState {
   currentLanguage: LanguageCode;
   isRTL: boolean;
+  updatedAt: number | null;
   isLoaded: boolean;
   setLanguage: (lang: LanguageCode) => Promise<void>;
   loadSavedLanguage: () => Promise<void>;
+  /** Switch to a language restored from the backup when it was chosen later */
+  restoreLanguage: (lang: LanguageCode, updatedAt: number) => Promise<void>;
 }
 
-export const useLanguageStore = create<LanguageState>((set) => ({
+export const useLanguageStore = create<LanguageState>((set, get) => ({
   currentLanguage: 'fr',
   isRTL: false,
+  updatedAt: null,
   isLoaded: false,
 
   setLanguage: async (lang: LanguageCode) => {
@@ -32,11 +39,14 @@ export const useLanguageStore = create<LanguageState>((set) => ({
       applyRTL(lang);
 
       // Persist selection
+      const updatedAt = Date.now();
       await AsyncStorage.setItem(LANGUAGE_STORAGE_KEY, lang);
+      await AsyncStorage.setItem(LANGUAGE_UPDATED_KEY, updatedAt.toString());
 
       set({
         currentLanguage: lang,
         isRTL: isRTLLanguage(lang),
+        updatedAt,
       });
     } catch (error) {
       // Silently handle storage errors - don't log sensitive data
@@ -48,11 +58,13 @@ export const useLanguageStore = create<LanguageState>((set) => ({
       const savedLang = await AsyncStorage.getItem(LANGUAGE_STORAGE_KEY);
       if (savedLang && ['fr', 'ar', 'darija'].includes(savedLang)) {
         const lang = savedLang as LanguageCode;
+        const updatedAt = await AsyncStorage.getItem(LANGUAGE_UPDATED_KEY);
         await i18n.changeLanguage(lang);
         applyRTL(lang);
         set({
           currentLanguage: lang,
           isRTL: isRTLLanguage(lang),
+          updatedAt: updatedAt ? parseInt(updatedAt, 10) : null,
           isLoaded: true,
         });
       } else {
@@ -62,4 +74,18 @@ export const useLanguageStore = create<LanguageState>((set) => ({
       set({ isLoaded: true });
     }
   },
+
+  restoreLanguage: async (lang: LanguageCode, updatedAt: number) => {
+    if (!['fr', 'ar', 'darija'].includes(lang) || !isRemoteNewer(updatedAt, get().updatedAt)) {
+      return;
+    }
+    await get().setLanguage(lang);
+    try {
+      // Keep the restored time so an older backup cannot undo it
+      await AsyncStorage.setItem(LANGUAGE_UPDATED_KEY, updatedAt.toString());
+      set({ updatedAt });
+    } catch {
+      // Fail silently
+    }
+  },
 }));
@@ -2,30 +2,52 @@
  * Location Store
  * Manages user location state for nearby center search
  *
- * DEMO MODE: Uses UM6P (Benguerir) as hardcoded location
- * In production, this would use expo-location to get real GPS coordinates
+ * Fallback chain:
+ *   1. Device position (foreground permission, asked when a screen needs it)
+ *   2. A city the user picks from CITIES when the position is refused or
+ *      unavailable; it is kept as the profile region
+ *   3. The saved profile region, on later launches
  *
- * PRIVACY NOTE: Location is ephemeral — never persisted to storage or profile
+ * PRIVACY NOTE: a device position is coarsened to city level here, before
+ * any screen sees it, and is never persisted. Only a city the user picked
+ * is stored (UserProfile.region).
+ *
+ * DEMO MODE: dev builds with LOCATION_DEMO_MODE=true skip the device and
+ * use UM6P (Benguerir)
  */
 
 import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { coarsenToCity, type CityLocation } from '../../domain/services/geolocation';
+import { useCentersStore } from './centersStore';
+import { getDevicePosition } from '../../infrastructure/location/deviceLocation';
+
+/** City the user picked, never a GPS position */
+const PROFILE_REGION_KEY = '@sehatik_profile_region';
 
 /**
  * Demo location: UM6P (Université Mohammed VI Polytechnique), Benguerir
  * Coordinates: 32.2232°N, 7.9391°W
  */
-const DEMO_LOCATION = {
+const DEMO_LOCATION: UserLocation = {
   latitude: 32.2232,
   longitude: -7.9391,
   label: 'UM6P, Benguerir',
   labelAr: 'جامعة محمد السادس متعددة التخصصات، بنجرير',
+  source: 'demo',
+  inCity: true,
 };
 
-interface UserLocation {
+export type LocationSource = 'gps' | 'city' | 'region' | 'demo';
+
+export interface UserLocation {
   latitude: number;
   longitude: number;
   label: string;
   labelAr: string;
+  source: LocationSource;
+  /** False when the device is only near the labelled city */
+  inCity: boolean;
 }
 
 interface LocationState {
@@ -35,8 +57,12 @@ interface LocationState {
   hasLocation: boolean;
   /** Loading state while getting location */
   isLoading: boolean;
-  /** Error message if location retrieval fails */
-  error: string | null;
+  /** Why the device position could not be used */
+  error: 'denied' | 'unavailable' | null;
+  /** No position and no saved city: the user has to pick one */
+  needsCity: boolean;
+  /** City saved as the profile region */
+  profileRegion: string | null;
   /** Whether we're using demo location */
   isDemoMode: boolean;
 
@@ -44,20 +70,43 @@ interface LocationState {
   loadDemoLocation: () => void;
   /** Clear location from memory */
   clearLocation: () => void;
-  /**
-   * Request real location from device
-   * TODO: Implement with expo-location in production
-   * For now, falls back to demo location
-   */
+  /** Walk the fallback chain: device, then the profile region */
   requestLocation: () => Promise<void>;
+  /** Use a city from CITIES and keep it as the profile region */
+  selectCity: (city: string) => Promise<void>;
 }
 
-export const useLocationStore = create<LocationState>((set) => ({
+const cityLocation = (city: CityLocation, source: LocationSource): UserLocation => ({
+  latitude: city.latitude,
+  longitude: city.longitude,
+  label: city.city,
+  labelAr: city.cityAr,
+  source,
+  inCity: true,
+});
+
+const findCity = (name: string | null) =>
+  useCentersStore.getState().cityLocations.find((c) => c.city === name) ?? null;
+
+const isDemoEnabled = async (): Promise<boolean> => {
+  if (!__DEV__) return false;
+  try {
+    const Constants = await import('expo-constants');
+    const flag = Constants.default.expoConfig?.extra?.LOCATION_DEMO_MODE;
+    return flag === true || flag === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const useLocationStore = create<LocationState>((set, get) => ({
   location: null,
   hasLocation: false,
   isLoading: false,
   error: null,
-  isDemoMode: true,
+  needsCity: false,
+  profileRegion: null,
+  isDemoMode: false,
 
   loadDemoLocation: () => {
     set({
@@ -65,6 +114,7 @@ export const useLocationStore = create<LocationState>((set) => ({
       hasLocation: true,
       isLoading: false,
       error: null,
+      needsCity: false,
       isDemoMode: true,
     });
   },
@@ -75,32 +125,78 @@ export const useLocationStore = create<LocationState>((set) => ({
       hasLocation: false,
       isLoading: false,
       error: null,
+      needsCity: false,
     });
   },
 
   requestLocation: async () => {
+    if (get().isLoading) return;
     set({ isLoading: true, error: null });
 
+    if (await isDemoEnabled()) {
+      get().loadDemoLocation();
+      return;
+    }
+
+    const position = await getDevicePosition();
+    if (position.status === 'ok') {
+      const coarse = coarsenToCity(
+        position.latitude,
+        position.longitude,
+        useCentersStore.getState().cityLocations,
+      );
+      if (coarse) {
+        set({
+          location: {
+            ...cityLocation(coarse.city, 'gps'),
+            latitude: coarse.latitude,
+            longitude: coarse.longitude,
+            inCity: coarse.inCity,
+          },
+          hasLocation: true,
+          isLoading: false,
+          needsCity: false,
+          isDemoMode: false,
+        });
+        return;
+      }
+    }
+
+    const error = position.status === 'denied' ? 'denied' : 'unavailable';
+    let region = get().profileRegion;
+    try {
+      region = region ?? (await AsyncStorage.getItem(PROFILE_REGION_KEY));
+    } catch {
+      // Fail silently
+    }
+    const city = findCity(region);
+    set({
+      location: city ? cityLocation(city, 'region') : null,
+      hasLocation: city !== null,
+      isLoading: false,
+      error,
+      needsCity: city === null,
+      profileRegion: city?.city ?? null,
+      isDemoMode: false,
+    });
+  },
+
+  selectCity: async (name: string) => {
+    const city = findCity(name);
+    if (!city) return;
+
+    set({
+      location: cityLocation(city, 'city'),
+      hasLocation: true,
+      isLoading: false,
+      needsCity: false,
+      profileRegion: city.city,
+      isDemoMode: false,
+    });
     try {
-      // TODO: In production, use expo-location here:
-      // const { status } = await Location.requestForegroundPermissionsAsync();
-      // if (status !== 'granted') { throw new Error('Permission denied'); }
-      // const location = await Location.getCurrentPositionAsync({});
-
-      // For demo: simulate a short delay then use UM6P coordinates
-      await new Promise((resolve) => setTimeout(resolve, 800));
-
-      set({
-        location: DEMO_LOCATION,
-        hasLocation: true,
-        isLoading: false,
-        isDemoMode: true,
-      });
+      await AsyncStorage.setItem(PROFILE_REGION_KEY, city.city);
     } catch {
-      set({
-        error: 'location_error',
-        isLoading: false,
-      });
+      // Fail silently
     }
   },
 }));
@@ -0,0 +1,172 @@
+/**
+ * Photo Journal Store - Zustand
+ * Opt-in, private photos of visible skin/nipple changes, linked to
+ * self-check records so they can be compared from one month to the next.
+ *
+ * Photo metadata is encrypted at rest (see secureStorage); the photos
+ * themselves live in the encrypted photo vault. Viewing requires the
+ * device owner to unlock the journal; it locks again when left.
+ */
+
+import { create } from 'zustand';
+import {
+  DEFAULT_RETENTION_MONTHS,
+  getExpiredPhotos,
+  type JournalPhoto,
+  type PhotoSide,
+  type RetentionMonths,
+} from '../../domain/services/photoJournal';
+import { authenticateOwner, type LocalAuthResult } from '../../infrastructure/security/localAuth';
+import {
+  deleteAllPhotos,
+  deletePhoto,
+  readPhoto,
+  savePhoto,
+} from '../../infrastructure/storage/photoVault';
+import {
+  discardQuarantinedData,
+  encryptedGet,
+  encryptedSet,
+  type EncryptedReadFailure,
+} from '../../infrastructure/storage/secureStorage';
+
+/** Storage key (prefixed with @sehatik_ by secureStorage) */
+const PHOTO_JOURNAL_KEY = 'photo_journal';
+
+interface StoredPhotoJournal {
+  enabled: boolean;
+  retentionMonths: RetentionMonths;
+  photos: JournalPhoto[];
+}
+
+interface PhotoJournalState {
+  enabled: boolean;
+  retentionMonths: RetentionMonths;
+  /** Newest first */
+  photos: JournalPhoto[];
+  isLoaded: boolean;
+  isUnlocked: boolean;
+  storageIssue: EncryptedReadFailure | null;
+
+  /** Load the journal and delete photos past the retention period */
+  loadJournal: () => Promise<void>;
+  /** Turning the journal off deletes every photo */
+  setEnabled: (enabled: boolean) => Promise<void>;
+  setRetentionMonths: (months: RetentionMonths) => Promise<void>;
+  purgeExpiredPhotos: () => Promise<void>;
+  addPhoto: (base64: string, side: PhotoSide, selfCheckId?: string) => Promise<boolean>;
+  removePhoto: (id: string) => Promise<void>;
+  /** Base64 JPEG data of a photo, only while unlocked */
+  getPhotoData: (id: string) => Promise<string | null>;
+  unlock: (promptMessage: string, cancelLabel?: string) => Promise<LocalAuthResult>;
+  lock: () => void;
+  acknowledgeStorageIssue: () => Promise<void>;
+}
+
+const saveJournal = async ({ enabled, retentionMonths, photos }: StoredPhotoJournal) => {
+  try {
+    await encryptedSet(PHOTO_JOURNAL_KEY, { enabled, retentionMonths, photos });
+  } catch {
+    // Fail silently
+  }
+};
+
+export const usePhotoJournalStore = create<PhotoJournalState>((set, get) => ({
+  enabled: false,
+  retentionMonths: DEFAULT_RETENTION_MONTHS,
+  photos: [],
+  isLoaded: false,
+  isUnlocked: false,
+  storageIssue: null,
+
+  loadJournal: async () => {
+    try {
+      const { status, value } = await encryptedGet<StoredPhotoJournal>(PHOTO_JOURNAL_KEY);
+      if (status === 'tampered' || status === 'key_lost') {
+        set({ storageIssue: status });
+      }
+      if (value) {
+        set({
+          enabled: value.enabled,
+          retentionMonths: value.retentionMonths ?? DEFAULT_RETENTION_MONTHS,
+          photos: value.photos ?? [],
+        });
+      }
+      await get().purgeExpiredPhotos();
+    } catch {
+      // Fail silently
+    } finally {
+      set({ isLoaded: true });
+    }
+  },
+
+  setEnabled: async (enabled: boolean) => {
+    if (!enabled) {
+      deleteAllPhotos();
+      set({ photos: [], isUnlocked: false });
+    }
+    set({ enabled });
+    await saveJournal(get());
+  },
+
+  setRetentionMonths: async (months: RetentionMonths) => {
+    set({ retentionMonths: months });
+    await saveJournal(get());
+    await get().purgeExpiredPhotos();
+  },
+
+  purgeExpiredPhotos: async () => {
+    const { photos, retentionMonths } = get();
+    const expired = getExpiredPhotos(photos, retentionMonths);
+    if (expired.length === 0) return;
+
+    expired.forEach((p) => deletePhoto(p.id));
+    const expiredIds = new Set(expired.map((p) => p.id));
+    set({ photos: photos.filter((p) => !expiredIds.has(p.id)) });
+    await saveJournal(get());
+  },
+
+  addPhoto: async (base64: string, side: PhotoSide, selfCheckId?: string) => {
+    if (!get().enabled) return false;
+    const photo: JournalPhoto = {
+      id: `photo_${Date.now()}`,
+      takenAt: Date.now(),
+      side,
+      selfCheckId,
+    };
+    try {
+      await savePhoto(photo.id, base64);
+    } catch {
+      return false;
+    }
+    set((state) => ({ photos: [photo, ...state.photos] }));
+    await saveJournal(get());
+    return true;
+  },
+
+  removePhoto: async (id: string) => {
+    deletePhoto(id);
+    set((state) => ({ photos: state.photos.filter((p) => p.id !== id) }));
+    await saveJournal(get());
+  },
+
+  getPhotoData: async (id: string) => {
+    if (!get().isUnlocked) return null;
+    return readPhoto(id);
+  },
+
+  unlock: async (promptMessage: string, cancelLabel?: string) => {
+    const result = await authenticateOwner(promptMessage, cancelLabel);
+    if (result === 'success') set({ isUnlocked: true });
+    return result;
+  },
+
+  lock: () => {
+    set({ isUnlocked: false });
+  },
+
+  acknowledgeStorageIssue: async () => {
+    await discardQuarantinedData(PHOTO_JOURNAL_KEY);
+    set({ storageIssue: null });
+  },
+}));
@@ -0,0 +1,46 @@
+/**
+ * Profile Store - Zustand
+ * Profile answers used to personalise screening advice: for now the age
+ * group (UserProfile.ageGroup). Kept on the phone only, like the profile
+ * region (see locationStore).
+ */
+
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AgeGroup } from '../../domain/models/types';
+import { AGE_GROUPS } from '../../domain/services/screeningPathway';
+
+const AGE_GROUP_STORAGE_KEY = '@sehatik_profile_age_group';
+
+interface ProfileState {
+  ageGroup: AgeGroup | null;
+  isLoaded: boolean;
+  loadProfile: () => Promise<void>;
+  setAgeGroup: (ageGroup: AgeGroup) => Promise<void>;
+}
+
+export const useProfileStore = create<ProfileState>((set) => ({
+  ageGroup: null,
+  isLoaded: false,
+
+  loadProfile: async () => {
+    try {
+      const saved = await AsyncStorage.getItem(AGE_GROUP_STORAGE_KEY);
+      set({
+        ageGroup: AGE_GROUPS.includes(saved as AgeGroup) ? (saved as AgeGroup) : null,
+        isLoaded: true,
+      });
+    } catch {
+      set({ isLoaded: true });
+    }
+  },
+
+  setAgeGroup: async (ageGroup) => {
+    set({ ageGroup });
+    try {
+      await AsyncStorage.setItem(AGE_GROUP_STORAGE_KEY, ageGroup);
+    } catch {
+      // Fail silently
+    }
+  },
+}));
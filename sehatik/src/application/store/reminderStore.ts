@@ -5,19 +5,39 @@
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getYearlyScreeningOccurrences } from '../../domain/services/reminderSchedule';
+import { isRemoteNewer } from '../../domain/services/backup';
+import {
+  getMonthlyExamOccurrences,
+  type MonthlyExamSchedule,
+} from '../../domain/services/cyclePrediction';
+import type { ReminderOccurrence } from '../../infrastructure/notifications/reminderNotifications';
 
 const REMINDER_KEY = '@sehatik_reminders';
 
+/** Monthly occurrences kept scheduled ahead (iOS caps pending notifications at 64) */
+const MONTHLY_SCHEDULE_AHEAD = 6;
+
 export interface Reminder {
   id: string;
   type: 'monthly_exam' | 'yearly_screening';
   enabled: boolean;
-  dayOfMonth: number; // 1-28
+  dayOfMonth: number; // 1-31, clamped to shorter months (fixed-date mode)
   hour: number; // 0-23
   minute: number;
   lastNotified: number | null;
+  /** When the user last opened the app from this reminder */
+  lastAcknowledged: number | null;
+  /** Last change of the user's settings (enabled, day, time), for the backup */
+  updatedAt?: number;
 }
 
+/** The part of a reminder the user chose, as kept in the backup */
+export type ReminderSettings = Pick<
+  Reminder,
+  'id' | 'enabled' | 'dayOfMonth' | 'hour' | 'minute'
+> & { updatedAt: number };
+
 interface ReminderState {
   reminders: Reminder[];
   isLoaded: boolean;
@@ -25,18 +45,43 @@ interface ReminderState {
   loadReminders: () => Promise<void>;
   setMonthlyReminder: (day: number, hour: number) => Promise<void>;
   toggleReminder: (id: string) => Promise<void>;
-  getNextReminderDate: () => Date | null;
+  markNotified: (id: string, at: number) => Promise<void>;
+  acknowledgeReminder: (id: string, at: number) => Promise<void>;
+  /** Apply settings restored from the backup where they are newer */
+  restoreSettings: (settings: ReminderSettings[]) => Promise<void>;
+  getNextReminderDate: (cycle: CycleScheduleInput) => Date | null;
+  getScheduledOccurrences: (
+    lastScreeningDate: number | null,
+    cycle: CycleScheduleInput,
+  ) => ReminderOccurrence[];
 }
 
+/** Cycle log fields that place the monthly exam (see cycleStore) */
+export type CycleScheduleInput = Pick<MonthlyExamSchedule, 'mode' | 'periodStarts'>;
+
+/**
+ * Monthly exam schedule: the predicted cycle window when a cycle is
+ * logged, otherwise the reminder's fixed day of the month
+ */
+export const getMonthlyExamSchedule = (
+  reminder: Reminder,
+  cycle: CycleScheduleInput,
+): MonthlyExamSchedule => ({
+  mode: cycle.mode,
+  periodStarts: cycle.periodStarts,
+  fixedDayOfMonth: reminder.dayOfMonth,
+});
+
 const DEFAULT_REMINDERS: Reminder[] = [
   {
     id: 'monthly_exam',
     type: 'monthly_exam',
     enabled: true,
-    dayOfMonth: 7, // 7th of each month (5-10 days post-period)
+    dayOfMonth: 7, // Fixed-date fallback when no cycle is logged
     hour: 20, // 8 PM - private evening time
     minute: 0,
     lastNotified: null,
+    lastAcknowledged: null,
   },
   {
     id: 'yearly_screening',
@@ -46,6 +91,7 @@ const DEFAULT_REMINDERS: Reminder[] = [
     hour: 10,
     minute: 0,
     lastNotified: null,
+    lastAcknowledged: null,
   },
 ];
 
@@ -57,7 +103,13 @@ export const useReminderStore = create<ReminderState>((set, get) => ({
     try {
       const data = await AsyncStorage.getItem(REMINDER_KEY);
       if (data) {
-        set({ reminders: JSON.parse(data), isLoaded: true });
+        // Merge with defaults so reminders saved by older versions gain new fields
+        const saved: Partial<Reminder>[] = JSON.parse(data);
+        const reminders = DEFAULT_REMINDERS.map((d) => ({
+          ...d,
+          ...saved.find((r) => r.id === d.id),
+        }));
+        set({ reminders, isLoaded: true });
       } else {
         set({ isLoaded: true });
       }
@@ -69,7 +121,9 @@ export const useReminderStore = create<ReminderState>((set, get) => ({
   setMonthlyReminder: async (day: number, hour: number) => {
     const state = get();
     const updated = state.reminders.map((r) =>
-      r.id === 'monthly_exam' ? { ...r, dayOfMonth: day, hour, enabled: true } : r,
+      r.id === 'monthly_exam'
+        ? { ...r, dayOfMonth: day, hour, enabled: true, updatedAt: Date.now() }
+        : r,
     );
     set({ reminders: updated });
     await AsyncStorage.setItem(REMINDER_KEY, JSON.stringify(updated));
@@ -78,32 +132,68 @@ export const useReminderStore = create<ReminderState>((set, get) => ({
   toggleReminder: async (id: string) => {
     const state = get();
     const updated = state.reminders.map((r) =>
-      r.id === id ? { ...r, enabled: !r.enabled } : r,
+      r.id === id ? { ...r, enabled: !r.enabled, updatedAt: Date.now() } : r,
+    );
+    set({ reminders: updated });
+    await AsyncStorage.setItem(REMINDER_KEY, JSON.stringify(updated));
+  },
+
+  markNotified: async (id: string, at: number) => {
+    const updated = get().reminders.map((r) => (r.id === id ? { ...r, lastNotified: at } : r));
+    set({ reminders: updated });
+    await AsyncStorage.setItem(REMINDER_KEY, JSON.stringify(updated));
+  },
+
+  acknowledgeReminder: async (id: string, at: number) => {
+    const updated = get().reminders.map((r) =>
+      r.id === id
+        ? { ...r, lastNotified: Math.max(r.lastNotified ?? 0, at), lastAcknowledged: Date.now() }
+        : r,
     );
     set({ reminders: updated });
     await AsyncStorage.setItem(REMINDER_KEY, JSON.stringify(updated));
   },
 
-  getNextReminderDate: () => {
+  restoreSettings: async (settings: ReminderSettings[]) => {
+    const updated = get().reminders.map((r) => {
+      const restored = settings.find((s) => s.id === r.id);
+      return restored && isRemoteNewer(restored.updatedAt, r.updatedAt) ? { ...r, ...restored } : r;
+    });
+    set({ reminders: updated });
+    await AsyncStorage.setItem(REMINDER_KEY, JSON.stringify(updated));
+  },
+
+  getNextReminderDate: (cycle: CycleScheduleInput) => {
     const state = get();
     const monthlyReminder = state.reminders.find(
       (r) => r.id === 'monthly_exam' && r.enabled,
     );
     if (!monthlyReminder) return null;
 
+    const schedule = getMonthlyExamSchedule(monthlyReminder, cycle);
+    return getMonthlyExamOccurrences(schedule, monthlyReminder, new Date(), 1)[0] ?? null;
+  },
+
+  getScheduledOccurrences: (lastScreeningDate: number | null, cycle: CycleScheduleInput) => {
     const now = new Date();
-    const next = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      monthlyReminder.dayOfMonth,
-      monthlyReminder.hour,
-      monthlyReminder.minute,
-    );
+    const occurrences: ReminderOccurrence[] = [];
+
+    for (const reminder of get().reminders) {
+      if (!reminder.enabled) continue;
+
+      const dates =
+        reminder.type === 'monthly_exam'
+          ? getMonthlyExamOccurrences(
+              getMonthlyExamSchedule(reminder, cycle),
+              reminder,
+              now,
+              MONTHLY_SCHEDULE_AHEAD,
+            )
+          : getYearlyScreeningOccurrences(reminder, lastScreeningDate, now);
 
-    if (next <= now) {
-      next.setMonth(next.getMonth() + 1);
+      occurrences.push(...dates.map((date) => ({ reminderId: reminder.id, date })));
     }
 
-    return next;
+    return occurrences;
   },
 }));
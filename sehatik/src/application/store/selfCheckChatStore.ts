@@ -3,8 +3,10 @@
  * Conversation engine that processes the structured conversation scripts.
  *
  * Manages:
- * - Chat message history (ephemeral, not persisted)
+ * - Chat message history (never persisted: rebuilt on resume by
+ *   replaying saved answers through the script)
  * - Node queue processing with conditional branching
+ * - Editing an earlier answer (branches re-evaluated by replay)
  * - Typing indicator delays
  * - Clarification handling (LLM + offline fallback)
  * - Structured answer extraction for risk scoring
@@ -13,6 +15,8 @@
 import { create } from 'zustand';
 import {
   STEP_CONVERSATIONS,
+  getAllQuestionNodes,
+  takeNextNode,
   type ConversationNode,
   type QuestionNode,
 } from '../../infrastructure/data/selfCheckConversations';
@@ -20,6 +24,7 @@ import {
   findClarification,
   buildClarificationSystemPrompt,
 } from '../../infrastructure/data/selfCheckClarifications';
+import { getAssistantProvider } from '../../infrastructure/api/assistantProvider';
 
 // ── Types ──────────────────────────────────────────────────
 
@@ -50,14 +55,26 @@ interface SelfCheckChatState {
   isComplete: boolean;
   /** Current step id */
   currentStepId: string | null;
+  /** Question whose earlier answer is being changed (null if none) */
+  editingQuestionId: string | null;
+  /** Question that was awaiting a reply when the edit started */
+  pausedQuestion: QuestionNode | null;
 
   // ── Actions ────────────────────────
-  /** Initialize chat for a given step */
-  initChat: (stepId: string) => void;
+  /**
+   * Initialize chat for a given step.
+   * With `restoredAnswers`, the transcript is rebuilt instantly up to the
+   * first unanswered question (resumed session).
+   */
+  initChat: (stepId: string, restoredAnswers?: Record<string, string>) => void;
   /** Process the next node(s) in the queue */
   processNextNodes: () => void;
   /** Handle a quick-reply tap */
   handleQuickReply: (questionId: string, value: string, labelKey: string) => void;
+  /** Re-open an answered question so the user can change the reply */
+  startEditAnswer: (questionId: string) => void;
+  /** Leave edit mode without changing anything */
+  cancelEditAnswer: () => void;
   /** Handle a free-text clarification question */
   handleClarification: (text: string, language: string) => Promise<void>;
   /** Reset the chat state */
@@ -67,30 +84,55 @@ interface SelfCheckChatState {
   getAnswers: () => Record<string, string>;
 }
 
+interface ReplayResult {
+  messages: ChatBubbleData[];
+  nodeQueue: ConversationNode[];
+  activeQuestion: QuestionNode | null;
+  /** Answers that still match a reachable question and option */
+  answers: Record<string, string>;
+  isComplete: boolean;
+}
+
 /**
- * Flatten conditional branches based on current answers.
- * Returns the next batch of nodes to process until we hit a question.
+ * Rebuild a step transcript by replaying answers through its script.
+ * Stops at the first question without a (valid) answer.
  */
-const resolveNodes = (
-  nodes: ConversationNode[],
-  answers: Record<string, string>,
-): ConversationNode[] => {
-  const resolved: ConversationNode[] = [];
-
-  for (const node of nodes) {
-    if (node.type === 'conditional') {
-      const answer = answers[node.dependsOn];
-      if (answer && node.showWhen.includes(answer)) {
-        // Expand children
-        resolved.push(...resolveNodes(node.children, answers));
+const replayConversation = (
+  script: ConversationNode[],
+  savedAnswers: Record<string, string>,
+): ReplayResult => {
+  const messages: ChatBubbleData[] = [];
+  const answers: Record<string, string> = {};
+  const timestamp = Date.now();
+  let queue = script;
+
+  for (;;) {
+    const next = takeNextNode(queue, answers);
+    if (!next) {
+      return { messages, nodeQueue: [], activeQuestion: null, answers, isComplete: true };
+    }
+
+    const { node, remaining } = next;
+    queue = remaining;
+    messages.push({ id: node.id, type: 'assistant', textKey: node.textKey, timestamp });
+
+    if (node.type === 'question') {
+      const option = node.options.find((o) => o.value === savedAnswers[node.id]);
+      if (!option) {
+        return { messages, nodeQueue: queue, activeQuestion: node, answers, isComplete: false };
       }
-      // Skip if condition not met
-    } else {
-      resolved.push(node);
+
+      answers[node.id] = option.value;
+      messages.push({
+        id: `reply_${node.id}`,
+        type: 'user',
+        textKey: option.labelKey,
+        questionId: node.id,
+        answerValue: option.value,
+        timestamp,
+      });
     }
   }
-
-  return resolved;
 };
 
 export const useSelfCheckChatStore = create<SelfCheckChatState>((set, get) => ({
@@ -102,11 +144,25 @@ export const useSelfCheckChatStore = create<SelfCheckChatState>((set, get) => ({
   isClarifying: false,
   isComplete: false,
   currentStepId: null,
+  editingQuestionId: null,
+  pausedQuestion: null,
 
-  initChat: (stepId: string) => {
+  initChat: (stepId: string, restoredAnswers?: Record<string, string>) => {
     const script = STEP_CONVERSATIONS[stepId];
     if (!script) return;
 
+    if (restoredAnswers && Object.keys(restoredAnswers).length > 0) {
+      set({
+        ...replayConversation(script, restoredAnswers),
+        isTyping: false,
+        isClarifying: false,
+        currentStepId: stepId,
+        editingQuestionId: null,
+        pausedQuestion: null,
+      });
+      return;
+    }
+
     set({
       messages: [],
       nodeQueue: [...script],
@@ -116,6 +172,8 @@ export const useSelfCheckChatStore = create<SelfCheckChatState>((set, get) => ({
       isClarifying: false,
       isComplete: false,
       currentStepId: stepId,
+      editingQuestionId: null,
+      pausedQuestion: null,
     });
 
     // Start processing after a short delay
@@ -124,21 +182,16 @@ export const useSelfCheckChatStore = create<SelfCheckChatState>((set, get) => ({
 
   processNextNodes: () => {
     const { nodeQueue, answers } = get();
-    if (nodeQueue.length === 0) {
-      set({ isComplete: true, isTyping: false });
-      return;
-    }
 
-    // Resolve conditionals
-    const resolved = resolveNodes(nodeQueue, answers);
+    // Resolve conditionals at the front of the queue
+    const next = takeNextNode(nodeQueue, answers);
 
-    if (resolved.length === 0) {
+    if (!next) {
       set({ nodeQueue: [], isComplete: true, isTyping: false });
       return;
     }
 
-    const node = resolved[0];
-    const remaining = resolved.slice(1);
+    const { node, remaining } = next;
 
     if (node.type === 'assistant_message') {
       // Show typing indicator, then show message
@@ -183,13 +236,38 @@ export const useSelfCheckChatStore = create<SelfCheckChatState>((set, get) => ({
         }));
       }, delay);
     }
-    // Conditionals are already resolved above, so we don't handle them here
+    // Conditionals are already resolved by takeNextNode
   },
 
   handleQuickReply: (questionId: string, value: string, labelKey: string) => {
-    const { activeQuestion } = get();
+    const { activeQuestion, editingQuestionId, currentStepId, answers, messages } = get();
     if (!activeQuestion || activeQuestion.id !== questionId) return;
 
+    if (editingQuestionId === questionId && currentStepId) {
+      // Replay the whole script with the changed answer: answers to
+      // questions whose branch no longer applies are dropped, the rest kept
+      const replay = replayConversation(STEP_CONVERSATIONS[currentStepId], {
+        ...answers,
+        [questionId]: value,
+      });
+
+      // Keep everything shown before the edited reply (incl. clarifications)
+      const replyId = `reply_${questionId}`;
+      const keptCount = messages.findIndex((m) => m.id === replyId);
+      const replayFrom = replay.messages.findIndex((m) => m.id === replyId);
+
+      set({
+        ...replay,
+        messages:
+          keptCount >= 0 && replayFrom >= 0
+            ? [...messages.slice(0, keptCount), ...replay.messages.slice(replayFrom)]
+            : replay.messages,
+        editingQuestionId: null,
+        pausedQuestion: null,
+      });
+      return;
+    }
+
     // Add user reply bubble
     set((state) => ({
       activeQuestion: null,
@@ -211,6 +289,32 @@ export const useSelfCheckChatStore = create<SelfCheckChatState>((set, get) => ({
     setTimeout(() => get().processNextNodes(), 300);
   },
 
+  startEditAnswer: (questionId: string) => {
+    const { currentStepId, answers, activeQuestion, isTyping, isComplete, editingQuestionId } =
+      get();
+    if (!currentStepId || answers[questionId] === undefined) return;
+    // Only while the engine is idle: waiting for a reply or finished
+    if (isTyping || (!activeQuestion && !isComplete)) return;
+
+    const question = getAllQuestionNodes(STEP_CONVERSATIONS[currentStepId]).find(
+      (q) => q.id === questionId,
+    );
+    if (!question) return;
+
+    set({
+      editingQuestionId: questionId,
+      // Keep the originally paused question when switching between edits
+      pausedQuestion: editingQuestionId ? get().pausedQuestion : activeQuestion,
+      activeQuestion: question,
+    });
+  },
+
+  cancelEditAnswer: () => {
+    const { editingQuestionId, pausedQuestion } = get();
+    if (!editingQuestionId) return;
+    set({ editingQuestionId: null, activeQuestion: pausedQuestion, pausedQuestion: null });
+  },
+
   handleClarification: async (text: string, language: string) => {
     const { currentStepId } = get();
     if (!currentStepId) return;
@@ -236,38 +340,14 @@ export const useSelfCheckChatStore = create<SelfCheckChatState>((set, get) => ({
 
     try {
       // Try LLM first
-      const Constants = await import('expo-constants');
-      const apiKey = Constants.default.expoConfig?.extra?.ANTHROPIC_API_KEY;
-
-      if (apiKey && apiKey !== 'your_anthropic_key_here') {
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': apiKey,
-            'anthropic-version': '2023-06-01',
-          },
-          body: JSON.stringify({
-            model: 'claude-sonnet-4-20250514',
-            max_tokens: 512,
-            system: buildClarificationSystemPrompt(currentStepId, language),
-            messages: [{ role: 'user', content: text }],
-          }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          responseText = data.content[0].text;
-        } else {
-          // Fallback to offline
-          const key = findClarification(currentStepId, text);
-          responseText = `__i18n:${key}`;
-        }
-      } else {
-        const key = findClarification(currentStepId, text);
-        responseText = `__i18n:${key}`;
-      }
+      const provider = await getAssistantProvider();
+      responseText = await provider.complete({
+        system: buildClarificationSystemPrompt(currentStepId, language),
+        messages: [{ role: 'user', content: text }],
+        maxTokens: 512,
+      });
     } catch {
+      // Offline or failed: use the keyword-matched clarification
       const key = findClarification(currentStepId, text);
       responseText = `__i18n:${key}`;
     }
@@ -301,6 +381,8 @@ export const useSelfCheckChatStore = create<SelfCheckChatState>((set, get) => ({
       isClarifying: false,
       isComplete: false,
       currentStepId: null,
+      editingQuestionId: null,
+      pausedQuestion: null,
     });
   },
 
@@ -3,19 +3,36 @@
  * Manages the interactive self-check flow state and history.
  * The question phase is now handled by the chat engine (selfCheckChatStore),
  * so this store manages: instructions, step transitions, and results.
- * Persists history to AsyncStorage (encrypted-ready).
+ * Persists history encrypted at rest (see secureStorage).
+ *
+ * In-progress sessions are checkpointed (encrypted) after every step
+ * transition and every quick reply, so a killed app can resume. Only
+ * answers are saved: the chat transcript is rebuilt by replaying them.
  */
 
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
-  SELF_CHECK_STEPS,
-  assessSelfCheckFromChat,
-  type SelfCheckResult,
-  type SelfCheckStep,
-} from '../../infrastructure/data/selfCheckSteps';
+  assessSelfCheck,
+  migrateStoredResult,
+  type RiskAssessmentResult,
+} from '../../domain/services/riskAssessment';
+import { markRecordsSynced, mergeRecords } from '../../domain/services/backup';
+import { SELF_CHECK_STEPS, type SelfCheckStep } from '../../infrastructure/data/selfCheckSteps';
+import {
+  discardQuarantinedData,
+  encryptedGet,
+  encryptedRemove,
+  encryptedSet,
+  type EncryptedReadFailure,
+} from '../../infrastructure/storage/secureStorage';
+import { useSelfCheckChatStore } from './selfCheckChatStore';
+
+/** Storage keys (prefixed with @sehatik_ by secureStorage) */
+const SELF_CHECK_HISTORY_KEY = 'selfcheck_history';
+const SELF_CHECK_SESSION_KEY = 'selfcheck_session';
 
-const SELF_CHECK_HISTORY_KEY = '@sehatik_selfcheck_history';
+/** Sessions older than this are discarded instead of offered for resume */
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
 
 // ── Types ──────────────────────────────────────────────────
 
@@ -23,8 +40,12 @@ export interface SelfCheckRecord {
   id: string;
   date: number;
   answers: Record<string, string>;
-  result: SelfCheckResult;
+  result: RiskAssessmentResult;
+  /** Risk rule set version that produced `result` */
+  ruleSetVersion: string;
   completed: boolean;
+  /** Set once the record is in the encrypted backup (see backupStore) */
+  synced?: boolean;
 }
 
 /**
@@ -34,6 +55,21 @@ export interface SelfCheckRecord {
  */
 export type StepPhase = 'instructions' | 'chat';
 
+/**
+ * Saved position of an unfinished self-check
+ */
+export interface SelfCheckSessionCheckpoint {
+  startedAt: number;
+  updatedAt: number;
+  currentStepIndex: number;
+  currentInstructionIndex: number;
+  phase: StepPhase;
+  /** Answers merged from completed steps */
+  allAnswers: Record<string, string>;
+  /** Answers given so far in the current step's chat */
+  stepAnswers: Record<string, string>;
+}
+
 interface SelfCheckState {
   // ── Flow state ─────────────────────
   isActive: boolean;
@@ -45,12 +81,23 @@ interface SelfCheckState {
   /** Accumulated answers from all step chats */
   allAnswers: Record<string, string>;
   /** Final result after completing all steps */
-  result: SelfCheckResult | null;
+  result: RiskAssessmentResult | null;
+
+  // ── Session ────────────────────────
+  /** Start time of the running session (null when none) */
+  sessionStartedAt: number | null;
+  /** Unfinished session found on launch, waiting for resume/discard */
+  pendingSession: SelfCheckSessionCheckpoint | null;
+  /** Chat answers to replay when the resumed step's chat mounts */
+  resumeStepAnswers: Record<string, string> | null;
 
   // ── History ────────────────────────
   history: SelfCheckRecord[];
   lastCheckDate: number | null;
-  lastResult: SelfCheckResult | null;
+  lastResult: RiskAssessmentResult | null;
+  /** Set when stored history could not be decrypted */
+  storageIssue: EncryptedReadFailure | null;
+  isHistoryLoaded: boolean;
 
   // ── Actions ────────────────────────
   startCheck: () => void;
@@ -64,14 +111,30 @@ interface SelfCheckState {
   nextStep: () => boolean;
   /** Called when user wants to go back to instructions from chat */
   backToInstructions: () => void;
+  /** Go back from the first instruction to the previous step's chat */
+  previousStep: () => void;
   /** Finalize the self-check and compute results */
-  completeCheck: () => SelfCheckResult;
+  completeCheck: () => RiskAssessmentResult;
   /** Reset flow for a new check */
   resetCheck: () => void;
 
+  // ── Session persistence ────────────
+  /** Look for an unfinished session (sets pendingSession) */
+  loadSession: () => Promise<void>;
+  /** Save the current position and answers */
+  checkpoint: () => Promise<void>;
+  resumeSession: () => void;
+  discardSession: () => Promise<void>;
+
   // ── Persistence ────────────────────
   loadHistory: () => Promise<void>;
   saveRecord: (record: SelfCheckRecord) => Promise<void>;
+  /** User acknowledged unreadable history: drop the quarantined copy */
+  acknowledgeStorageIssue: () => Promise<void>;
+  /** Records uploaded by the backup */
+  markSynced: (ids: string[]) => Promise<void>;
+  /** Merge records restored from the backup into the history */
+  restoreHistory: (records: SelfCheckRecord[]) => Promise<void>;
 
   // ── Computed helpers ───────────────
   getCurrentStep: () => SelfCheckStep;
@@ -79,6 +142,12 @@ interface SelfCheckState {
   getOverallProgress: () => { current: number; total: number; percentage: number };
 }
 
+/** Bring a record saved by an older version up to date */
+const migrateRecord = (record: SelfCheckRecord): SelfCheckRecord => {
+  const result = migrateStoredResult(record.result);
+  return { ...record, result, ruleSetVersion: record.ruleSetVersion ?? result.ruleSetVersion };
+};
+
 export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
   // Initial state
   isActive: false,
@@ -87,9 +156,14 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
   phase: 'instructions',
   allAnswers: {},
   result: null,
+  sessionStartedAt: null,
+  pendingSession: null,
+  resumeStepAnswers: null,
   history: [],
   lastCheckDate: null,
   lastResult: null,
+  storageIssue: null,
+  isHistoryLoaded: false,
 
   // ── Actions ──────────────────────────────────────────────
 
@@ -101,7 +175,11 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
       phase: 'instructions',
       allAnswers: {},
       result: null,
+      sessionStartedAt: Date.now(),
+      pendingSession: null,
+      resumeStepAnswers: null,
     });
+    get().checkpoint();
   },
 
   nextInstruction: () => {
@@ -109,6 +187,7 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
     const step = SELF_CHECK_STEPS[currentStepIndex];
     if (currentInstructionIndex < step.instructions.length - 1) {
       set({ currentInstructionIndex: currentInstructionIndex + 1 });
+      get().checkpoint();
       return true;
     }
     return false;
@@ -118,16 +197,19 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
     const { currentInstructionIndex } = get();
     if (currentInstructionIndex > 0) {
       set({ currentInstructionIndex: currentInstructionIndex - 1 });
+      get().checkpoint();
     }
   },
 
   startChat: () => {
-    set({ phase: 'chat' });
+    set({ phase: 'chat', resumeStepAnswers: null });
+    get().checkpoint();
   },
 
   completeStepChat: (stepAnswers: Record<string, string>) => {
     set((state) => ({
       allAnswers: { ...state.allAnswers, ...stepAnswers },
+      resumeStepAnswers: null,
     }));
 
     // Auto-advance to next step or complete
@@ -138,6 +220,7 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
         currentInstructionIndex: 0,
         phase: 'instructions',
       });
+      get().checkpoint();
     } else {
       // All steps done
       get().completeCheck();
@@ -150,7 +233,21 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
     set({
       phase: 'instructions',
       currentInstructionIndex: step.instructions.length - 1,
+      resumeStepAnswers: null,
     });
+    get().checkpoint();
+  },
+
+  previousStep: () => {
+    const { currentStepIndex } = get();
+    if (currentStepIndex === 0) return;
+    set({
+      currentStepIndex: currentStepIndex - 1,
+      phase: 'chat',
+      currentInstructionIndex: 0,
+      resumeStepAnswers: null,
+    });
+    get().checkpoint();
   },
 
   nextStep: () => {
@@ -160,7 +257,9 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
         currentStepIndex: currentStepIndex + 1,
         currentInstructionIndex: 0,
         phase: 'instructions',
+        resumeStepAnswers: null,
       });
+      get().checkpoint();
       return true;
     }
     return false;
@@ -168,25 +267,30 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
 
   completeCheck: () => {
     const state = get();
-    const result = assessSelfCheckFromChat(state.allAnswers);
+    const result = assessSelfCheck(state.allAnswers);
 
     const record: SelfCheckRecord = {
       id: `selfcheck_${Date.now()}`,
       date: Date.now(),
       answers: state.allAnswers,
       result,
+      ruleSetVersion: result.ruleSetVersion,
       completed: true,
+      synced: false,
     };
 
     set({
       result,
       isActive: false,
+      sessionStartedAt: null,
+      resumeStepAnswers: null,
       lastCheckDate: Date.now(),
       lastResult: result,
       history: [record, ...state.history],
     });
 
     get().saveRecord(record);
+    encryptedRemove(SELF_CHECK_SESSION_KEY);
 
     return result;
   },
@@ -199,16 +303,94 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
       phase: 'instructions',
       allAnswers: {},
       result: null,
+      sessionStartedAt: null,
+      resumeStepAnswers: null,
+    });
+    encryptedRemove(SELF_CHECK_SESSION_KEY);
+  },
+
+  // ── Session persistence ──────────────────────────────────
+
+  loadSession: async () => {
+    if (get().isActive) return;
+
+    const { status, value } =
+      await encryptedGet<SelfCheckSessionCheckpoint>(SELF_CHECK_SESSION_KEY);
+    if (status === 'tampered' || status === 'key_lost') {
+      // An unreadable draft is not worth a notice: drop it
+      await discardQuarantinedData(SELF_CHECK_SESSION_KEY);
+      return;
+    }
+    if (!value) return;
+
+    const isValid =
+      value.currentStepIndex >= 0 &&
+      value.currentStepIndex < SELF_CHECK_STEPS.length &&
+      Date.now() - value.updatedAt < SESSION_MAX_AGE_MS;
+
+    if (!isValid) {
+      await encryptedRemove(SELF_CHECK_SESSION_KEY);
+      return;
+    }
+
+    set({ pendingSession: value });
+  },
+
+  checkpoint: async () => {
+    const state = get();
+    if (!state.isActive || state.sessionStartedAt === null) return;
+
+    // Chat answers only belong to the session while that step's chat is open
+    const chat = useSelfCheckChatStore.getState();
+    const step = SELF_CHECK_STEPS[state.currentStepIndex];
+    const stepAnswers =
+      state.phase === 'chat' && chat.currentStepId === step.id ? chat.answers : {};
+
+    const checkpoint: SelfCheckSessionCheckpoint = {
+      startedAt: state.sessionStartedAt,
+      updatedAt: Date.now(),
+      currentStepIndex: state.currentStepIndex,
+      currentInstructionIndex: state.currentInstructionIndex,
+      phase: state.phase,
+      allAnswers: state.allAnswers,
+      stepAnswers,
+    };
+
+    await encryptedSet(SELF_CHECK_SESSION_KEY, checkpoint);
+  },
+
+  resumeSession: () => {
+    const session = get().pendingSession;
+    if (!session) return;
+
+    set({
+      isActive: true,
+      currentStepIndex: session.currentStepIndex,
+      currentInstructionIndex: session.currentInstructionIndex,
+      phase: session.phase,
+      allAnswers: session.allAnswers,
+      result: null,
+      sessionStartedAt: session.startedAt,
+      pendingSession: null,
+      resumeStepAnswers: session.phase === 'chat' ? session.stepAnswers : null,
     });
   },
 
+  discardSession: async () => {
+    set({ pendingSession: null });
+    await encryptedRemove(SELF_CHECK_SESSION_KEY);
+  },
+
   // ── Persistence ──────────────────────────────────────────
 
   loadHistory: async () => {
     try {
-      const data = await AsyncStorage.getItem(SELF_CHECK_HISTORY_KEY);
+      const { status, value: data } = await encryptedGet<SelfCheckRecord[]>(SELF_CHECK_HISTORY_KEY);
+      if (status === 'tampered' || status === 'key_lost') {
+        set({ storageIssue: status });
+      }
       if (data) {
-        const records: SelfCheckRecord[] = JSON.parse(data);
+        const records = data.map(migrateRecord);
         set({
           history: records,
           lastCheckDate: records.length > 0 ? records[0].date : null,
@@ -217,21 +399,41 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
       }
     } catch {
       // Fail silently
+    } finally {
+      set({ isHistoryLoaded: true });
     }
   },
 
   saveRecord: async (_record: SelfCheckRecord) => {
     try {
       const state = get();
-      await AsyncStorage.setItem(
-        SELF_CHECK_HISTORY_KEY,
-        JSON.stringify(state.history),
-      );
+      await encryptedSet(SELF_CHECK_HISTORY_KEY, state.history);
     } catch {
       // Fail silently
     }
   },
 
+  acknowledgeStorageIssue: async () => {
+    await discardQuarantinedData(SELF_CHECK_HISTORY_KEY);
+    set({ storageIssue: null });
+  },
+
+  markSynced: async (ids: string[]) => {
+    if (ids.length === 0) return;
+    set({ history: markRecordsSynced(get().history, ids) });
+    await encryptedSet(SELF_CHECK_HISTORY_KEY, get().history);
+  },
+
+  restoreHistory: async (records: SelfCheckRecord[]) => {
+    const history = mergeRecords(get().history, records.map(migrateRecord));
+    set({
+      history,
+      lastCheckDate: history.length > 0 ? history[0].date : null,
+      lastResult: history.length > 0 ? history[0].result : null,
+    });
+    await encryptedSet(SELF_CHECK_HISTORY_KEY, history);
+  },
+
   // ── Computed ─────────────────────────────────────────────
 
   getCurrentStep: () => {
@@ -272,3 +474,10 @@ export const useSelfCheckStore = create<SelfCheckState>((set, get) => ({
     };
   },
 }));
+
+// Checkpoint after every quick reply (chat answers only change on replies)
+useSelfCheckChatStore.subscribe((state, previous) => {
+  if (state.answers !== previous.answers) {
+    useSelfCheckStore.getState().checkpoint();
+  }
+});
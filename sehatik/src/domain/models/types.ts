@@ -6,11 +6,13 @@
 /**
  * User profile (minimal PII by design)
  */
+export type AgeGroup = '25-34' | '35-44' | '45-54' | '55-65' | '65+';
+
 export interface UserProfile {
   id: string;
   phoneNumber?: string; // Only stored if user opts in
   preferredLanguage: 'fr' | 'ar' | 'darija';
-  ageGroup?: '25-34' | '35-44' | '45-54' | '55-65' | '65+';
+  ageGroup?: AgeGroup;
   region?: string; // City-level only, never GPS
   notificationsEnabled: boolean;
   createdAt: number;
@@ -35,6 +37,60 @@ export interface ExamResponse {
 
 export type RiskLevel = 'continue_monitoring' | 'schedule_checkup' | 'urgent_consultation';
 
+/**
+ * Where a finding was felt, placed on the breast map.
+ * Positions are as seen facing the patient (the clinical convention):
+ * the right breast is drawn on the viewer's left.
+ */
+export type BreastSide = 'left' | 'right';
+
+export type FindingRegion = 'breast' | 'axilla';
+
+export type FindingSize = 'under_1cm' | '1_2cm' | '2_3cm' | 'over_3cm';
+
+export type FindingDescriptor = 'hard' | 'soft' | 'mobile' | 'fixed' | 'painful' | 'painless';
+
+export interface FindingLocation {
+  id: string;
+  side: BreastSide;
+  region: FindingRegion;
+  /** Position in the region, -1..1 from its center (y points down) */
+  x: number;
+  y: number;
+  /** Clock-face hour (1-12), breast only */
+  clockPosition?: number;
+  size?: FindingSize;
+  descriptors: FindingDescriptor[];
+}
+
+/**
+ * Imaging document (mammogram, ultrasound...) kept by the user.
+ * Stored de-identified: no patient name, id or original file name.
+ */
+export type ImagingDocumentKind = 'dicom' | 'image';
+
+export interface ImagingMetadata {
+  /** DICOM modality code, e.g. 'MG' (mammography), 'US' (ultrasound) */
+  modality?: string;
+  /** 'L', 'R' or 'B' (both) */
+  laterality?: string;
+  /** View position, e.g. 'CC', 'MLO' */
+  view?: string;
+  /** YYYY-MM-DD */
+  studyDate?: string;
+}
+
+export interface ImagingDocument {
+  id: string;
+  addedAt: number;
+  kind: ImagingDocumentKind;
+  mimeType: string;
+  sizeBytes: number;
+  metadata: ImagingMetadata;
+  /** Exam or self-check record the document is attached to */
+  recordId?: string;
+}
+
 /**
  * Chat message (never logged to console per privacy policy)
  */
@@ -66,6 +122,35 @@ export type ServiceType =
  */
 export type CenterType = 'public' | 'private' | 'ngo' | 'caravan';
 
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/** Opening period within a day, local time HH:MM (close after open) */
+export interface OpeningPeriod {
+  open: string;
+  close: string;
+}
+
+/** Days missing from the week are closed */
+export type WeeklyHours = Partial<Record<Weekday, OpeningPeriod[]>>;
+
+/** Hours replacing the usual ones on one day; no periods means closed */
+export interface HoursException {
+  /** YYYY-MM-DD */
+  date: string;
+  periods: OpeningPeriod[];
+}
+
+/**
+ * Health coverage schemes accepted in Morocco (AMO Tadamon replaced RAMED)
+ */
+export type CoverageScheme = 'amo_cnss' | 'amo_cnops' | 'amo_tadamon' | 'private_insurance';
+
+/** Indicative price without coverage, in MAD. 0 means free */
+export interface ServicePrice {
+  min: number;
+  max?: number;
+}
+
 /**
  * Screening center information
  */
@@ -84,10 +169,16 @@ export interface ScreeningCenter {
   type: CenterType;
   services: ServiceType[];
   hasFreeMammography: boolean;
-  /** For caravans: date range of availability */
+  /** For caravans: days on site, YYYY-MM-DD, both included (see isCaravanActive) */
   availableDates?: { start: string; end: string };
-  /** For caravans: whether it's currently active */
-  isActive?: boolean;
+  /** Usual weekly hours; unknown when missing */
+  openingHours?: WeeklyHours;
+  /** Holidays worked and other one-off changes */
+  hoursExceptions?: HoursException[];
+  /** A doctor's referral letter is needed for an appointment; unknown when missing */
+  referralRequired?: boolean;
+  coverage?: CoverageScheme[];
+  prices?: Partial<Record<ServiceType, ServicePrice>>;
 }
 
 /**
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { containsDiagnosis, triageMessage } from '../safetyTriage';
+
+describe('triageMessage', () => {
+  it.each([
+    'kayn dem f bzoula',
+    'كاين الدم فالبزولة',
+    'دم في الحلمة',
+    'du sang sur le mamelon',
+    'un écoulement avec du sang',
+  ])('flags blood on the nipple: %s', (text) => {
+    expect(triageMessage(text).redFlags).toContain('bloody_discharge');
+  });
+
+  it('does not flag a message without a red flag', () => {
+    expect(triageMessage('sans douleur au sein').redFlags).toEqual([]);
+  });
+});
+
+describe('containsDiagnosis', () => {
+  it.each([
+    'You have breast cancer.',
+    'You may have breast cancer.',
+    'This could be cancer, please see a doctor.',
+    'Vous avez peut-être un cancer.',
+    'Il se peut que vous avez un cancer.',
+    'قد يكون سرطانا',
+    'يمكن يكون السرطان',
+  ])('blocks a diagnosis, even hedged: %s', (text) => {
+    expect(containsDiagnosis(text)).toBe(true);
+  });
+
+  it.each([
+    "Ne vous inquiétez pas, c'est bénin",
+    "Don't worry, it is benign",
+    "Don't panic: you do not have cancer",
+    'Pas de panique, vous avez peut-être un cancer',
+    'لا تقلقي، هذا ورم حميد',
+    'ما تخافيش، ماشي سرطان',
+  ])('blocks a diagnosis after an unrelated negation: %s', (text) => {
+    expect(containsDiagnosis(text)).toBe(true);
+  });
+
+  it.each([
+    'Cela ne veut pas dire que vous avez un cancer.',
+    "This doesn't mean you have cancer.",
+    'Only a doctor can tell whether you have cancer.',
+    'Cela ne signifie pas que vous avez un cancer.',
+    'This does not mean it is cancer.',
+    "Si c'est un cancer, il se soigne mieux tôt.",
+    'هذا لا يعني أن لديك سرطان',
+    'ماشي معناه عندك السرطان',
+  ])('allows a negated or conditional sentence: %s', (text) => {
+    expect(containsDiagnosis(text)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildHistoryTimeline, type CheckRecord } from '../symptomTimeline';
+import type { RiskAssessmentResult } from '../riskAssessment';
+
+const result = { riskLevel: 'moderate' } as RiskAssessmentResult;
+
+const painCheck = (year: number, month: number): CheckRecord => ({
+  id: `${year}-${month}`,
+  date: new Date(year, month, 15).getTime(),
+  answers: { breast_pain: true },
+  result,
+});
+
+const painTrend = (exams: CheckRecord[]) =>
+  buildHistoryTimeline(exams, []).trends.find((trend) => trend.symptomId === 'breast_pain');
+
+describe('buildHistoryTimeline', () => {
+  it('flags a symptom reported in adjacent months as persistent', () => {
+    const trend = painTrend([painCheck(2025, 0), painCheck(2025, 1)]);
+
+    expect(trend?.longestRun).toBe(2);
+    expect(trend?.persistent).toBe(true);
+  });
+
+  it('counts adjacent months across a new year', () => {
+    expect(painTrend([painCheck(2024, 11), painCheck(2025, 0)])?.persistent).toBe(true);
+  });
+
+  it('does not bridge months without a check', () => {
+    const trend = painTrend([painCheck(2024, 0), painCheck(2025, 0)]);
+
+    expect(trend?.monthsReported).toBe(2);
+    expect(trend?.longestRun).toBe(1);
+    expect(trend?.persistent).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * App Lock
+ * Rules for the optional app lock: PIN format, auto-lock after time in
+ * the background, and a growing wait after repeated wrong PINs.
+ */
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+
+/** Time in the background before the app locks (0 = as soon as it leaves) */
+export const AUTO_LOCK_OPTIONS_SECONDS = [0, 30, 60, 300] as const;
+export type AutoLockSeconds = (typeof AUTO_LOCK_OPTIONS_SECONDS)[number];
+export const DEFAULT_AUTO_LOCK_SECONDS: AutoLockSeconds = 30;
+
+/** Wrong PINs allowed before each wait */
+export const FREE_PIN_ATTEMPTS = 5;
+const FIRST_WAIT_MS = 30 * 1000;
+const MAX_WAIT_MS = 15 * 60 * 1000;
+
+export const isValidPin = (pin: string): boolean =>
+  new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+
+/**
+ * Whether the app should lock when it comes back to the foreground
+ */
+export const shouldLockOnResume = (
+  backgroundedAt: number | null,
+  now: number,
+  autoLockSeconds: AutoLockSeconds,
+): boolean => backgroundedAt !== null && now - backgroundedAt >= autoLockSeconds * 1000;
+
+/**
+ * Wait imposed after `failedAttempts` wrong PINs in a row: none for the
+ * first few, then 30 s doubling with each further miss (capped)
+ */
+export const getPinRetryDelayMs = (failedAttempts: number): number => {
+  if (failedAttempts < FREE_PIN_ATTEMPTS) return 0;
+  return Math.min(MAX_WAIT_MS, FIRST_WAIT_MS * 2 ** (failedAttempts - FREE_PIN_ATTEMPTS));
+};
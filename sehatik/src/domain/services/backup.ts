@@ -0,0 +1,83 @@
+/**
+ * Backup
+ * Rules for the encrypted backup: passphrase strength, which local data
+ * still needs uploading, and how a restore merges backed-up data with
+ * what is already on the phone.
+ *
+ * History records (exams, self-checks) carry a `synced` flag and are
+ * uploaded once. Settings (reminders, cycle log, language) are small
+ * documents with an `updatedAt`: one is uploaded again whenever it
+ * changed after its last upload. On restore, entries are matched by id
+ * and the most recent version wins.
+ */
+
+export const BACKUP_PASSPHRASE_MIN_LENGTH = 10;
+
+export type BackupEntryKind = 'exam' | 'selfcheck' | 'reminder' | 'cycle' | 'language';
+
+/** One piece of user data as stored (encrypted) in the backup */
+export interface BackupEntry<T = unknown> {
+  kind: BackupEntryKind;
+  /** Record id, or a fixed id for settings documents */
+  id: string;
+  updatedAt: number;
+  data: T;
+}
+
+/** History record shape shared by exam and self-check records */
+export interface SyncableRecord {
+  id: string;
+  date: number;
+  /** Set once the record is in the backup */
+  synced?: boolean;
+}
+
+export const isValidBackupPassphrase = (passphrase: string): boolean =>
+  passphrase.trim().length >= BACKUP_PASSPHRASE_MIN_LENGTH;
+
+/** Key of a settings document in the map of last uploaded versions */
+export const backupDocKey = (kind: BackupEntryKind, id: string): string => `${kind}:${id}`;
+
+/**
+ * Whether a settings document changed since it was last uploaded.
+ * Documents the user never changed (no updatedAt) are not uploaded.
+ */
+export const isDocumentDirty = (
+  updatedAt: number | null | undefined,
+  uploadedAt: number | undefined,
+): boolean => updatedAt != null && updatedAt > (uploadedAt ?? 0);
+
+export const getUnsyncedRecords = <T extends SyncableRecord>(records: T[]): T[] =>
+  records.filter((r) => !r.synced);
+
+/** Flag the given records as backed up */
+export const markRecordsSynced = <T extends SyncableRecord>(records: T[], ids: string[]): T[] => {
+  const synced = new Set(ids);
+  return records.map((r) => (synced.has(r.id) && !r.synced ? { ...r, synced: true } : r));
+};
+
+/**
+ * Merge backed-up records into local ones by id. When both sides hold
+ * the same id, the later timestamp wins (on a tie, the backed-up copy,
+ * which is known to be synced). Records found on only one side are
+ * kept. Returned newest first, as the stores keep them.
+ */
+export const mergeRecords = <T extends SyncableRecord>(local: T[], remote: T[]): T[] => {
+  const merged = new Map<string, T>();
+  for (const record of local) merged.set(record.id, record);
+  for (const record of remote) {
+    const existing = merged.get(record.id);
+    if (!existing || record.date >= existing.date) {
+      merged.set(record.id, { ...record, synced: true });
+    }
+  }
+  return [...merged.values()].sort((a, b) => b.date - a.date);
+};
+
+/**
+ * Whether a backed-up settings document should replace the local one
+ */
+export const isRemoteNewer = (
+  remoteUpdatedAt: number,
+  localUpdatedAt: number | null | undefined,
+): boolean => remoteUpdatedAt > (localUpdatedAt ?? 0);
@@ -0,0 +1,78 @@
+/**
+ * Breast Map
+ * Geometry of findings placed on the breast map: clock-face position,
+ * distance from the nipple and the quadrant used by the questionnaire.
+ *
+ * Coordinates are relative to the tapped region (-1..1 from its center,
+ * y down), as seen facing the patient. 12 o'clock is up and hours run
+ * clockwise for both breasts, so the outer quadrants are 9-11 o'clock
+ * on the right breast and 1-3 o'clock on the left one.
+ */
+
+import type { FindingLocation } from '../models/types';
+
+export type BreastQuadrant =
+  | 'upper_outer'
+  | 'upper_inner'
+  | 'lower_outer'
+  | 'lower_inner'
+  | 'central';
+
+/** Closer than this to the nipple counts as the central zone */
+export const CENTRAL_ZONE_RADIUS = 0.25;
+
+/**
+ * Clock-face hour (1-12) of a point relative to the nipple
+ */
+export const clockFromPoint = (x: number, y: number): number => {
+  const degrees = (Math.atan2(x, -y) * 180) / Math.PI;
+  const hour = Math.round((degrees + 360) / 30) % 12;
+  return hour === 0 ? 12 : hour;
+};
+
+/**
+ * Point at a clock-face hour, `distance` (0..1) from the nipple
+ */
+export const pointFromClock = (hour: number, distance: number): { x: number; y: number } => {
+  const radians = ((hour % 12) * 30 * Math.PI) / 180;
+  return { x: Math.sin(radians) * distance, y: -Math.cos(radians) * distance };
+};
+
+export const distanceFromCenter = (finding: Pick<FindingLocation, 'x' | 'y'>): number =>
+  Math.min(1, Math.hypot(finding.x, finding.y));
+
+/**
+ * Move a breast finding to another hour, keeping its distance
+ */
+export const withClockPosition = (finding: FindingLocation, hour: number): FindingLocation => {
+  const normalized = ((((hour - 1) % 12) + 12) % 12) + 1;
+  return {
+    ...finding,
+    ...pointFromClock(normalized, distanceFromCenter(finding)),
+    clockPosition: normalized,
+  };
+};
+
+/**
+ * Questionnaire quadrant of a finding (null in the axilla)
+ */
+export const getQuadrant = (finding: FindingLocation): BreastQuadrant | null => {
+  if (finding.region !== 'breast') return null;
+  if (distanceFromCenter(finding) < CENTRAL_ZONE_RADIUS) return 'central';
+
+  // The outer side is toward the arm: viewer's left for the right breast
+  const isOuter = finding.side === 'right' ? finding.x < 0 : finding.x > 0;
+  const isUpper = finding.y < 0;
+  if (isUpper) return isOuter ? 'upper_outer' : 'upper_inner';
+  return isOuter ? 'lower_outer' : 'lower_inner';
+};
+
+/**
+ * Distinct quadrants of a set of findings, in questionnaire order
+ */
+export const getQuadrants = (findings: FindingLocation[]): BreastQuadrant[] => {
+  const found = new Set(findings.map(getQuadrant));
+  return (
+    ['upper_outer', 'upper_inner', 'lower_outer', 'lower_inner', 'central'] as BreastQuadrant[]
+  ).filter((q) => found.has(q));
+};
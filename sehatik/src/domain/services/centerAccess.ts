@@ -0,0 +1,110 @@
+/**
+ * Center Access
+ * Whether a center is open, and what it takes to get an appointment
+ * there: referral letter, accepted coverage and indicative prices.
+ * Everything is read from the data pack; null means the pack does not
+ * say, which the screens show as "unknown" rather than as a no.
+ */
+
+import type {
+  CoverageScheme,
+  OpeningPeriod,
+  ScreeningCenter,
+  ServicePrice,
+  ServiceType,
+} from '../models/types';
+import { WEEKDAYS, isCaravanActive, toLocalDay } from './centersPack';
+
+/** How far ahead the next opening is looked for */
+const LOOKAHEAD_DAYS = 14;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const atTime = (day: Date, time: string): Date => {
+  const date = new Date(day);
+  date.setHours(0, 0, 0, 0);
+  date.setMinutes(toMinutes(time));
+  return date;
+};
+
+/**
+ * Opening periods of a center on the day of `date` (empty when closed),
+ * or null when its hours are unknown
+ */
+export const getPeriodsOn = (
+  center: ScreeningCenter,
+  date: Date,
+  holidays: string[] = [],
+): OpeningPeriod[] | null => {
+  if (!center.openingHours) return null;
+  const day = toLocalDay(date);
+
+  if (center.type === 'caravan' && !isCaravanActive(center, date)) return [];
+  const exception = center.hoursExceptions?.find((e) => e.date === day);
+  if (exception) return exception.periods;
+  if (holidays.includes(day)) return [];
+  return center.openingHours[WEEKDAYS[date.getDay()]] ?? [];
+};
+
+/** Null when the hours are unknown */
+export const isOpenAt = (
+  center: ScreeningCenter,
+  date: Date,
+  holidays: string[] = [],
+): boolean | null => {
+  const periods = getPeriodsOn(center, date, holidays);
+  if (periods === null) return null;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return periods.some((p) => minutes >= toMinutes(p.open) && minutes < toMinutes(p.close));
+};
+
+/**
+ * When the center next opens (while closed) or closes (while open).
+ * Null when the hours are unknown or it does not open in the next two weeks.
+ */
+export const getNextChange = (
+  center: ScreeningCenter,
+  now: Date,
+  holidays: string[] = [],
+): { isOpen: boolean; at: Date } | null => {
+  const isOpen = isOpenAt(center, now, holidays);
+  if (isOpen === null) return null;
+
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(now);
+    day.setDate(now.getDate() + offset);
+    const periods = [...(getPeriodsOn(center, day, holidays) ?? [])].sort(
+      (a, b) => toMinutes(a.open) - toMinutes(b.open),
+    );
+    for (const period of periods) {
+      const at = atTime(day, isOpen ? period.close : period.open);
+      if (at > now) return { isOpen, at };
+    }
+  }
+  return null;
+};
+
+/** Null when the pack does not list the accepted schemes */
+export const acceptsCoverage = (center: ScreeningCenter, scheme: CoverageScheme): boolean | null =>
+  center.coverage ? center.coverage.includes(scheme) : null;
+
+export const getServicePrice = (
+  center: ScreeningCenter,
+  service: ServiceType,
+): ServicePrice | null => center.prices?.[service] ?? null;
+
+/**
+ * Whether `service` is covered for someone with this scheme: the center
+ * accepts it, or the service is always free there
+ */
+export const isCoveredFor = (
+  center: ScreeningCenter,
+  scheme: CoverageScheme,
+  service: ServiceType = 'mammography',
+): boolean => {
+  const price = getServicePrice(center, service);
+  return acceptsCoverage(center, scheme) === true || (price?.min === 0 && !price.max);
+};
@@ -0,0 +1,261 @@
+/**
+ * Centers Pack
+ * The screening center directory ships as a versioned data pack. A copy
+ * is bundled with the app; newer packs can be downloaded (see
+ * centersPackSource). Every pack, bundled or not, goes through the same
+ * schema check before the app uses it.
+ */
+
+import type {
+  CenterType,
+  CoverageScheme,
+  HoursException,
+  OpeningPeriod,
+  ScreeningCenter,
+  ServicePrice,
+  ServiceType,
+  Weekday,
+  WeeklyHours,
+} from '../models/types';
+
+/**
+ * Pack layout understood by this app version. Optional center fields can
+ * be added without a new format: older versions drop what they don't know.
+ */
+export const CENTERS_PACK_FORMAT = 1;
+
+export interface CentersPack {
+  format: number;
+  /** Increases with every published pack */
+  version: number;
+  /** YYYY-MM-DD */
+  publishedAt: string;
+  /** Public holidays (YYYY-MM-DD): centers are closed unless an exception says otherwise */
+  holidays: string[];
+  centers: ScreeningCenter[];
+}
+
+/** What a pack changes compared to another (center ids) */
+export interface CentersDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+// ── Schema ─────────────────────────────────────────────────
+
+const CENTER_TYPES: CenterType[] = ['public', 'private', 'ngo', 'caravan'];
+
+const SERVICE_TYPES: ServiceType[] = [
+  'mammography',
+  'ultrasound',
+  'biopsy',
+  'consultation',
+  'chemotherapy',
+  'radiotherapy',
+  'surgery',
+  'support_groups',
+  'awareness',
+  'clinical_exam',
+  'self_exam_training',
+];
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export const COVERAGE_SCHEMES: CoverageScheme[] = [
+  'amo_cnss',
+  'amo_cnops',
+  'amo_tadamon',
+  'private_insurance',
+];
+
+const STRING_FIELDS = [
+  'id',
+  'name',
+  'nameAr',
+  'city',
+  'cityAr',
+  'region',
+  'address',
+  'addressAr',
+  'phone',
+] as const;
+
+/** Rough box around Morocco: catches swapped or mistyped coordinates */
+const LATITUDE_RANGE = [20, 37];
+const LONGITUDE_RANGE = [-18, 0];
+
+const isDay = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(Date.parse(value));
+
+const inRange = (value: unknown, [min, max]: number[]): value is number =>
+  typeof value === 'number' && value >= min && value <= max;
+
+const isTime = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const isPeriods = (value: unknown): value is OpeningPeriod[] =>
+  Array.isArray(value) &&
+  value.every((p) => {
+    const { open, close } = (p ?? {}) as Record<string, unknown>;
+    return isTime(open) && isTime(close) && open < close;
+  });
+
+const isWeeklyHours = (value: unknown): value is WeeklyHours =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.entries(value).every(
+    ([day, periods]) => WEEKDAYS.includes(day as Weekday) && isPeriods(periods),
+  );
+
+const isHoursExceptions = (value: unknown): value is HoursException[] =>
+  Array.isArray(value) &&
+  value.every((e) => isDay((e as HoursException | null)?.date) && isPeriods(e.periods));
+
+const isPrice = (value: unknown): value is ServicePrice => {
+  const { min, max } = (value ?? {}) as Record<string, unknown>;
+  return (
+    typeof min === 'number' &&
+    min >= 0 &&
+    (max === undefined || (typeof max === 'number' && max >= min))
+  );
+};
+
+const isPrices = (value: unknown): value is ScreeningCenter['prices'] =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.entries(value).every(
+    ([service, price]) => SERVICE_TYPES.includes(service as ServiceType) && isPrice(price),
+  );
+
+/** Optional fields: checked when present, a wrong one rejects the center */
+const OPTIONAL_FIELDS: {
+  [K in keyof ScreeningCenter]?: (value: unknown) => boolean;
+} = {
+  openingHours: isWeeklyHours,
+  hoursExceptions: isHoursExceptions,
+  referralRequired: (value) => typeof value === 'boolean',
+  coverage: (value) =>
+    Array.isArray(value) && value.every((c) => COVERAGE_SCHEMES.includes(c as CoverageScheme)),
+  prices: isPrices,
+};
+
+/**
+ * A center as the app stores it, or null when the entry does not match
+ * the schema. Unknown fields are dropped.
+ */
+export const parseCenter = (value: unknown): ScreeningCenter | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+
+  if (!STRING_FIELDS.every((field) => typeof raw[field] === 'string' && raw[field] !== '')) {
+    return null;
+  }
+  if (!CENTER_TYPES.includes(raw.type as CenterType)) return null;
+  if (
+    !Array.isArray(raw.services) ||
+    !raw.services.every((s) => SERVICE_TYPES.includes(s as ServiceType))
+  ) {
+    return null;
+  }
+  if (typeof raw.hasFreeMammography !== 'boolean') return null;
+  if (!inRange(raw.latitude, LATITUDE_RANGE) || !inRange(raw.longitude, LONGITUDE_RANGE)) {
+    return null;
+  }
+
+  let availableDates: ScreeningCenter['availableDates'];
+  if (raw.availableDates !== undefined) {
+    const { start, end } = (raw.availableDates ?? {}) as Record<string, unknown>;
+    if (!isDay(start) || !isDay(end) || start > end) return null;
+    availableDates = { start, end };
+  }
+
+  const optional: Partial<ScreeningCenter> = {};
+  for (const [field, isValid] of Object.entries(OPTIONAL_FIELDS)) {
+    const fieldValue = raw[field];
+    if (fieldValue === undefined) continue;
+    if (!isValid(fieldValue)) return null;
+    Object.assign(optional, { [field]: fieldValue });
+  }
+
+  const center: ScreeningCenter = {
+    id: raw.id as string,
+    name: raw.name as string,
+    nameAr: raw.nameAr as string,
+    city: raw.city as string,
+    cityAr: raw.cityAr as string,
+    region: raw.region as string,
+    address: raw.address as string,
+    addressAr: raw.addressAr as string,
+    phone: raw.phone as string,
+    latitude: raw.latitude,
+    longitude: raw.longitude,
+    type: raw.type as CenterType,
+    services: raw.services as ServiceType[],
+    hasFreeMammography: raw.hasFreeMammography,
+    ...optional,
+  };
+  return availableDates ? { ...center, availableDates } : center;
+};
+
+/**
+ * A pack the app can use, or null. A single invalid center rejects the
+ * whole pack: a partial directory would silently hide centers.
+ */
+export const parseCentersPack = (value: unknown): CentersPack | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { format, version, publishedAt, holidays = [], centers } = value as Record<string, unknown>;
+
+  if (format !== CENTERS_PACK_FORMAT) return null;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) return null;
+  if (!isDay(publishedAt)) return null;
+  if (!Array.isArray(holidays) || !holidays.every(isDay)) return null;
+  if (!Array.isArray(centers) || centers.length === 0) return null;
+
+  const parsed = centers.map(parseCenter);
+  if (parsed.some((c) => c === null)) return null;
+  const valid = parsed as ScreeningCenter[];
+  if (new Set(valid.map((c) => c.id)).size !== valid.length) return null;
+
+  return { format, version, publishedAt, holidays, centers: valid };
+};
+
+// ── Diff ───────────────────────────────────────────────────
+
+export const diffCenters = (base: ScreeningCenter[], next: ScreeningCenter[]): CentersDiff => {
+  const baseById = new Map(base.map((c) => [c.id, c]));
+  const nextIds = new Set(next.map((c) => c.id));
+  return {
+    added: next.filter((c) => !baseById.has(c.id)).map((c) => c.id),
+    removed: base.filter((c) => !nextIds.has(c.id)).map((c) => c.id),
+    changed: next
+      .filter((c) => {
+        const previous = baseById.get(c.id);
+        return previous !== undefined && JSON.stringify(previous) !== JSON.stringify(c);
+      })
+      .map((c) => c.id),
+  };
+};
+
+export const isDiffEmpty = (diff: CentersDiff): boolean =>
+  diff.added.length + diff.removed.length + diff.changed.length === 0;
+
+// ── Caravans ───────────────────────────────────────────────
+
+/** YYYY-MM-DD of a date in the phone's local time */
+export const toLocalDay = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate(),
+  ).padStart(2, '0')}`;
+
+/**
+ * Whether a caravan is on site today. Both dates are included, in the
+ * phone's local time.
+ */
+export const isCaravanActive = (center: ScreeningCenter, now: Date = new Date()): boolean => {
+  if (center.type !== 'caravan' || !center.availableDates) return false;
+  const today = toLocalDay(now);
+  return today >= center.availableDates.start && today <= center.availableDates.end;
+};
@@ -0,0 +1,243 @@
+/**
+ * Cycle Prediction Service
+ * Places the monthly self-exam in the recommended window of each cycle.
+ *
+ * Breasts are least tender and lumpy 5 to 10 days after a period starts,
+ * which is the recommended time for the self-exam. From the logged period
+ * start dates we predict the next cycles and their exam windows.
+ * Users without a cycle (post-menopause, pregnancy, breastfeeding) use a
+ * fixed day of the month instead.
+ */
+
+import { getMonthlyDate, type ReminderTime } from './reminderSchedule';
+
+// ── Types ──────────────────────────────────────────────────
+
+export type ExamScheduleMode = 'cycle' | 'fixed';
+
+export type FixedModeReason = 'postmenopausal' | 'pregnant' | 'breastfeeding' | 'other';
+
+export interface ExamWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * What the monthly exam is scheduled against.
+ * Cycle mode needs at least one logged period start, otherwise the
+ * fixed day is used.
+ */
+export interface MonthlyExamSchedule {
+  mode: ExamScheduleMode;
+  /** Period start timestamps, any order */
+  periodStarts: number[];
+  /** Day of month used in fixed mode (and as fallback) */
+  fixedDayOfMonth: number;
+}
+
+export interface CyclePrediction {
+  averageCycleLength: number;
+  lastPeriodStart: Date;
+  nextPeriodStart: Date;
+}
+
+export type MonthlyExamStatus =
+  | { state: 'never' }
+  | { state: 'upcoming'; window: ExamWindow; daysLeft: number; progress: number }
+  | { state: 'due'; window: ExamWindow }
+  | { state: 'overdue'; window: ExamWindow; daysOverdue: number };
+
+// ── Constants ──────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Window bounds, counted from the first day of the period (day 1) */
+export const EXAM_WINDOW_START_DAY = 5;
+export const EXAM_WINDOW_END_DAY = 10;
+
+export const DEFAULT_CYCLE_LENGTH = 28;
+
+/** Intervals outside this range are gaps in the log, not real cycles */
+const MIN_CYCLE_LENGTH = 21;
+const MAX_CYCLE_LENGTH = 45;
+
+/** Only recent cycles are averaged, cycles drift over time */
+const CYCLES_AVERAGED = 6;
+
+/** Safety bound when walking back through missed windows */
+const MAX_WINDOWS_BACK = 24;
+
+// ── Helpers ────────────────────────────────────────────────
+
+const startOfDay = (timestamp: number): Date => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to.getTime()).getTime() - startOfDay(from.getTime()).getTime()) / DAY_MS);
+
+// ── Prediction ─────────────────────────────────────────────
+
+/**
+ * Average cycle length and next period start from the log.
+ * Returns null when nothing has been logged.
+ */
+export const predictCycle = (periodStarts: number[]): CyclePrediction | null => {
+  if (periodStarts.length === 0) return null;
+
+  const days = [...new Set(periodStarts.map((p) => startOfDay(p).getTime()))].sort(
+    (a, b) => b - a,
+  );
+
+  const intervals: number[] = [];
+  for (let i = 0; i < days.length - 1 && intervals.length < CYCLES_AVERAGED; i++) {
+    const length = daysBetween(new Date(days[i + 1]), new Date(days[i]));
+    if (length >= MIN_CYCLE_LENGTH && length <= MAX_CYCLE_LENGTH) {
+      intervals.push(length);
+    }
+  }
+
+  const averageCycleLength =
+    intervals.length > 0
+      ? Math.round(intervals.reduce((sum, n) => sum + n, 0) / intervals.length)
+      : DEFAULT_CYCLE_LENGTH;
+
+  const lastPeriodStart = new Date(days[0]);
+
+  return {
+    averageCycleLength,
+    lastPeriodStart,
+    nextPeriodStart: addDays(lastPeriodStart, averageCycleLength),
+  };
+};
+
+const usesCycle = (schedule: MonthlyExamSchedule): boolean =>
+  schedule.mode === 'cycle' && schedule.periodStarts.length > 0;
+
+/**
+ * Exam window `index` cycles (or months) away from the reference one.
+ * Index 0 is the window of the last logged cycle, or of the current
+ * month in fixed mode.
+ */
+const getWindow = (
+  schedule: MonthlyExamSchedule,
+  prediction: CyclePrediction | null,
+  index: number,
+  now: Date,
+): ExamWindow => {
+  if (prediction && usesCycle(schedule)) {
+    const cycleStart = addDays(prediction.lastPeriodStart, index * prediction.averageCycleLength);
+    return {
+      start: addDays(cycleStart, EXAM_WINDOW_START_DAY - 1),
+      // End is exclusive: the day after the last window day
+      end: addDays(cycleStart, EXAM_WINDOW_END_DAY),
+    };
+  }
+
+  const day = getMonthlyDate(now.getFullYear(), now.getMonth() + index, {
+    dayOfMonth: schedule.fixedDayOfMonth,
+    hour: 0,
+    minute: 0,
+  });
+  return { start: day, end: addDays(day, 1) };
+};
+
+/**
+ * Index of the latest window that has already started at `now`
+ */
+const getCurrentWindowIndex = (
+  schedule: MonthlyExamSchedule,
+  prediction: CyclePrediction | null,
+  now: Date,
+): number => {
+  let index = 0;
+  while (getWindow(schedule, prediction, index, now).start > now) index--;
+  while (getWindow(schedule, prediction, index + 1, now).start <= now) index++;
+  return index;
+};
+
+/**
+ * Upcoming exam windows (the current one first if still open)
+ */
+export const getUpcomingExamWindows = (
+  schedule: MonthlyExamSchedule,
+  now: Date,
+  count: number,
+): ExamWindow[] => {
+  const prediction = predictCycle(schedule.periodStarts);
+  let index = getCurrentWindowIndex(schedule, prediction, now);
+  if (getWindow(schedule, prediction, index, now).end <= now) index++;
+
+  return Array.from({ length: count }, (_, i) => getWindow(schedule, prediction, index + i, now));
+};
+
+/**
+ * Reminder dates: first day of each upcoming window, at the reminder time.
+ * Only dates strictly after `from` are returned.
+ */
+export const getMonthlyExamOccurrences = (
+  schedule: MonthlyExamSchedule,
+  time: Pick<ReminderTime, 'hour' | 'minute'>,
+  from: Date,
+  count: number,
+): Date[] =>
+  getUpcomingExamWindows(schedule, from, count + 1)
+    .map(
+      ({ start }) =>
+        new Date(start.getFullYear(), start.getMonth(), start.getDate(), time.hour, time.minute),
+    )
+    .filter((date) => date > from)
+    .slice(0, count);
+
+/**
+ * Where the user stands against the exam windows.
+ * - upcoming: this cycle's exam is done, counting down to the next window
+ * - due: the current window is open and no exam was done in it
+ * - overdue: the first missed window has closed
+ */
+export const getMonthlyExamStatus = (
+  schedule: MonthlyExamSchedule,
+  lastExamDate: number | null,
+  now: Date,
+): MonthlyExamStatus => {
+  if (lastExamDate === null) return { state: 'never' };
+
+  const prediction = predictCycle(schedule.periodStarts);
+  const currentIndex = getCurrentWindowIndex(schedule, prediction, now);
+  const current = getWindow(schedule, prediction, currentIndex, now);
+
+  if (lastExamDate >= current.start.getTime()) {
+    const next = getWindow(schedule, prediction, currentIndex + 1, now);
+    const span = next.start.getTime() - current.start.getTime();
+    return {
+      state: 'upcoming',
+      window: next,
+      daysLeft: Math.max(daysBetween(now, next.start), 0),
+      progress: span > 0 ? Math.min((now.getTime() - current.start.getTime()) / span, 1) : 0,
+    };
+  }
+
+  if (now < current.end) {
+    return { state: 'due', window: current };
+  }
+
+  // Walk back to the first window missed since the last exam
+  let missedIndex = currentIndex;
+  for (let i = 0; i < MAX_WINDOWS_BACK; i++) {
+    const previous = getWindow(schedule, prediction, missedIndex - 1, now);
+    if (lastExamDate >= previous.start.getTime()) break;
+    missedIndex--;
+  }
+  const missed = getWindow(schedule, prediction, missedIndex, now);
+
+  return {
+    state: 'overdue',
+    window: missed,
+    // `end` is the day after the window, which is already one day late
+    daysOverdue: daysBetween(missed.end, now) + 1,
+  };
+};
@@ -0,0 +1,148 @@
+/**
+ * Doctor Summary
+ * Content of the summary a user brings to a consultation: one visit per
+ * selected check with its findings and details (lump location and
+ * feel, discharge type), plus how each symptom persisted over time.
+ *
+ * Labels are i18n keys so the summary can be rendered in several
+ * languages at once. No identifying data is read here.
+ */
+
+import type { FindingLocation } from '../models/types';
+import type { RiskLevel } from './riskAssessment';
+import type { RiskProfileId } from './riskRules';
+import {
+  buildHistoryTimeline,
+  type CheckRecord,
+  type SymptomId,
+  type SymptomTrend,
+} from './symptomTimeline';
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface SummaryFinding {
+  symptomId: SymptomId;
+  /** i18n keys of the details given for this finding */
+  detailKeys: string[];
+  /** Where the lump was placed on the breast map */
+  locations?: FindingLocation[];
+}
+
+export interface SummaryVisit {
+  id: string;
+  date: number;
+  source: RiskProfileId;
+  riskLevel: RiskLevel;
+  findings: SummaryFinding[];
+}
+
+export interface DoctorSummary {
+  generatedAt: number;
+  /** Selected visits, oldest first */
+  visits: SummaryVisit[];
+  /** Symptom trends across the selected visits */
+  trends: SymptomTrend[];
+}
+
+type DetailReader = (answers: Record<string, unknown>) => string[];
+
+// ── Details ────────────────────────────────────────────────
+
+const QUADRANTS = ['upper_outer', 'upper_inner', 'lower_outer', 'lower_inner', 'central'];
+const LUMP_FEELS = ['hard', 'soft', 'mobile', 'fixed', 'painful', 'painless'];
+
+/** Self-check discharge answers -> option label keys */
+const DISCHARGE_TYPE_KEYS: Record<string, string> = {
+  clear: 'selfCheck.chat.nipple.opt_clear',
+  milky: 'selfCheck.chat.nipple.opt_milky',
+  bloody: 'selfCheck.chat.nipple.opt_bloody',
+  other: 'selfCheck.chat.nipple.opt_otherColor',
+};
+
+const UNSURE_KEY = 'doctorSummary.unsure';
+
+const asList = (answer: unknown): string[] =>
+  Array.isArray(answer)
+    ? answer.filter((a): a is string => typeof a === 'string')
+    : typeof answer === 'string'
+      ? [answer]
+      : [];
+
+const quadrantKeys = (answer: unknown): string[] =>
+  asList(answer)
+    .filter((v) => QUADRANTS.includes(v))
+    .map((v) => `exam.quadrants.${v}`);
+
+const lumpFeelKeys = (answer: unknown): string[] =>
+  asList(answer)
+    .filter((v) => LUMP_FEELS.includes(v))
+    .map((v) => `exam.lump.${v}`);
+
+/** "unsure" self-check answers are reported as such */
+const unsureKey = (answer: unknown): string[] => (answer === 'unsure' ? [UNSURE_KEY] : []);
+
+const DETAIL_READERS: Partial<Record<SymptomId, Partial<Record<RiskProfileId, DetailReader>>>> = {
+  lump_detected: {
+    questionnaire: (a) => [
+      ...quadrantKeys(a.lump_location),
+      ...lumpFeelKeys(a.lump_characteristics),
+    ],
+    self_check: (a) => [
+      ...unsureKey(a.palpation_q_lump),
+      ...quadrantKeys(a.palpation_q_lump_location),
+      ...lumpFeelKeys(a.palpation_q_lump_feel),
+    ],
+  },
+  nipple_discharge: {
+    self_check: (a) => [
+      ...unsureKey(a.nipple_q_discharge),
+      ...asList(a.nipple_q_discharge_type)
+        .filter((v) => v in DISCHARGE_TYPE_KEYS)
+        .map((v) => DISCHARGE_TYPE_KEYS[v]),
+    ],
+  },
+  skin_changes: { self_check: (a) => unsureKey(a.visual_q_skin_changes) },
+  breast_pain: {
+    questionnaire: (a) => (a.pain_cyclic === true ? ['doctorSummary.cyclicPain'] : []),
+    self_check: (a) => [
+      ...unsureKey(a.palpation_q_pain),
+      ...(a.palpation_q_pain_cyclic === 'yes' ? ['doctorSummary.cyclicPain'] : []),
+    ],
+  },
+};
+
+// ── Summary ────────────────────────────────────────────────
+
+/**
+ * Build the summary of the selected exam and self-check records
+ */
+export const buildDoctorSummary = (
+  exams: CheckRecord[],
+  selfChecks: CheckRecord[],
+  now: number = Date.now(),
+): DoctorSummary => {
+  const timeline = buildHistoryTimeline(exams, selfChecks);
+  const recordsById = new Map([...exams, ...selfChecks].map((record) => [record.id, record]));
+
+  const visits = timeline.entries
+    .map((entry): SummaryVisit => {
+      const record = recordsById.get(entry.id);
+      const answers = record?.answers ?? {};
+      return {
+        id: entry.id,
+        date: entry.date,
+        source: entry.source,
+        riskLevel: entry.riskLevel,
+        findings: entry.symptoms.map((symptomId) => ({
+          symptomId,
+          detailKeys: DETAIL_READERS[symptomId]?.[entry.source]?.(answers) ?? [],
+          ...(symptomId === 'lump_detected' && record?.findings?.length
+            ? { locations: record.findings }
+            : {}),
+        })),
+      };
+    })
+    .reverse();
+
+  return { generatedAt: now, visits, trends: timeline.trends };
+};
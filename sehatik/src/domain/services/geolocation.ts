@@ -0,0 +1,107 @@
+/**
+ * Geolocation
+ * Distances and the coarsening that keeps a precise position private.
+ * The app only ever works with a city-level position: a device fix is
+ * snapped to the nearest known city, or, far from any, rounded to a
+ * grid of about 10 km.
+ */
+
+/** A city with a listed screening center, placed at its centers' mean */
+export interface CityLocation {
+  city: string;
+  cityAr: string;
+  latitude: number;
+  longitude: number;
+}
+
+/** A position coarsened to city level */
+export interface CoarseLocation {
+  latitude: number;
+  longitude: number;
+  /** Nearest known city */
+  city: CityLocation;
+  /** False when the position is only near `city` (grid-rounded) */
+  inCity: boolean;
+}
+
+/** A fix closer than this to a known city is placed at that city */
+export const CITY_SNAP_RADIUS_KM = 30;
+/** Grid used far from any known city: 0.1 degree, about 11 km */
+const GRID_DEGREES = 0.1;
+
+/**
+ * Haversine formula: calculate distance between two GPS coordinates
+ * @returns distance in kilometers
+ */
+export const haversineDistance = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number => {
+  const R = 6371; // Earth's radius in km
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const roundToGrid = (degrees: number): number =>
+  Math.round(Math.round(degrees / GRID_DEGREES) * GRID_DEGREES * 10) / 10;
+
+/**
+ * Coarsen a device fix to city level. Returns null without any city.
+ */
+export const coarsenToCity = (
+  latitude: number,
+  longitude: number,
+  cities: CityLocation[],
+): CoarseLocation | null => {
+  let nearest: CityLocation | null = null;
+  let nearestKm = Infinity;
+  for (const city of cities) {
+    const km = haversineDistance(latitude, longitude, city.latitude, city.longitude);
+    if (km < nearestKm) {
+      nearest = city;
+      nearestKm = km;
+    }
+  }
+  if (!nearest) return null;
+
+  if (nearestKm <= CITY_SNAP_RADIUS_KM) {
+    return {
+      latitude: nearest.latitude,
+      longitude: nearest.longitude,
+      city: nearest,
+      inCity: true,
+    };
+  }
+  return {
+    latitude: roundToGrid(latitude),
+    longitude: roundToGrid(longitude),
+    city: nearest,
+    inCity: false,
+  };
+};
+
+/**
+ * Mean position of the points of each city, in the order of `cities`
+ */
+export const getCityLocations = (
+  cities: string[],
+  points: { city: string; cityAr: string; latitude: number; longitude: number }[],
+): CityLocation[] =>
+  cities.flatMap((city) => {
+    const inCity = points.filter((p) => p.city === city);
+    if (inCity.length === 0) return [];
+    return [
+      {
+        city,
+        cityAr: inCity[0].cityAr,
+        latitude: inCity.reduce((sum, p) => sum + p.latitude, 0) / inCity.length,
+        longitude: inCity.reduce((sum, p) => sum + p.longitude, 0) / inCity.length,
+      },
+    ];
+  });
@@ -0,0 +1,213 @@
+/**
+ * Intent Matcher
+ * Offline intent classification for short health questions written in
+ * French, Arabic, or Darija (Arabic script or Latin "Arabizi").
+ *
+ * Text and keywords go through the same normalization (accents, Arabic
+ * diacritics and letter variants, Arabizi digits, repeated letters),
+ * then keywords are matched token by token with typo tolerance.
+ */
+
+// ── Types ──────────────────────────────────────────────────
+
+export type IntentLanguage = 'fr' | 'ar' | 'darija';
+
+export interface IntentDefinition {
+  id: string;
+  /** Keywords or short phrases per language */
+  keywords: Partial<Record<IntentLanguage, string[]>>;
+}
+
+export interface IntentMatch {
+  intentId: string;
+  score: number;
+  /** Language of the best matching keyword */
+  keywordLanguage: IntentLanguage;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+/** Below this, the message is treated as unrecognized */
+export const MIN_INTENT_SCORE = 0.7;
+
+const EXACT_TOKEN_SCORE = 1;
+const PREFIX_TOKEN_SCORE = 0.85;
+const FUZZY_TOKEN_SCORE = 0.7;
+
+/** Extra keywords of the same intent add a fraction of their score */
+const ADDITIONAL_KEYWORD_WEIGHT = 0.25;
+
+/** Arabizi digits -> Latin letters used by Darija keywords */
+const ARABIZI_DIGITS: Record<string, string> = {
+  '2': 'a',
+  '3': 'a',
+  '5': 'kh',
+  '7': 'h',
+  '8': 'gh',
+  '9': 'q',
+};
+
+/** Proclitics stripped from Arabic-script tokens (longest first) */
+const ARABIC_PREFIXES = ['وال', 'بال', 'فال', 'كال', 'لل', 'ال'];
+
+// ── Normalization ──────────────────────────────────────────
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF]/;
+const LATIN_LETTER = /[a-z]/;
+
+export const containsArabicScript = (text: string): boolean => ARABIC_SCRIPT.test(text);
+
+/** Latin text written with Arabizi digits (e.g. "3ndi", "m7taja") */
+export const containsArabizi = (text: string): boolean =>
+  /[a-z][2357-9]|[2357-9][a-z]/i.test(text);
+
+const normalizeArabicToken = (token: string): string => {
+  let result = token
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, '') // diacritics, dagger alef, tatweel
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627') // alef variants
+    .replace(/\u0649/g, '\u064A') // alef maqsura -> ya
+    .replace(/\u0629/g, '\u0647') // ta marbuta -> ha
+    .replace(/\u0624/g, '\u0648')
+    .replace(/\u0626/g, '\u064A');
+
+  const prefix = ARABIC_PREFIXES.find((p) => result.startsWith(p) && result.length - p.length >= 2);
+  if (prefix) result = result.slice(prefix.length);
+  return result;
+};
+
+const normalizeLatinToken = (token: string): string => {
+  let result = token.normalize('NFD').replace(/[\u0300-\u036F]/g, ''); // French accents
+  if (LATIN_LETTER.test(result)) {
+    result = result.replace(/[235789]/g, (d) => ARABIZI_DIGITS[d]);
+  }
+  return result
+    .replace(/sh/g, 'ch')
+    .replace(/([a-z])\1+/g, '$1'); // "bzzoula" -> "bzoula"
+};
+
+/**
+ * Lowercase, split into tokens and normalize each one
+ */
+export const normalizeText = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/['\u2019`]/g, ' ')
+    .split(/[^a-z0-9\u00C0-\u024F\u0600-\u06FF]+/)
+    .filter(Boolean)
+    .map((token) =>
+      ARABIC_SCRIPT.test(token) ? normalizeArabicToken(token) : normalizeLatinToken(token),
+    )
+    .filter(Boolean);
+
+// ── Fuzzy matching ─────────────────────────────────────────
+
+/** Levenshtein distance, stopping early once above `max` */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** Typos tolerated for a keyword token of this length */
+const allowedTypos = (length: number): number => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+/**
+ * How well a message token matches a keyword token (0 = no match).
+ * Prefix matches cover plurals and word endings ("mammographies").
+ */
+const scoreToken = (messageToken: string, keywordToken: string, fuzzy: boolean): number => {
+  if (messageToken === keywordToken) return EXACT_TOKEN_SCORE;
+  if (keywordToken.length >= 4 && messageToken.startsWith(keywordToken)) return PREFIX_TOKEN_SCORE;
+  if (!fuzzy) return 0;
+  const typos = allowedTypos(keywordToken.length);
+  if (typos > 0 && editDistance(messageToken, keywordToken, typos) <= typos) {
+    return FUZZY_TOKEN_SCORE;
+  }
+  return 0;
+};
+
+/**
+ * Best score of a (possibly multi-word) keyword against the message.
+ * Phrase tokens must appear consecutively; longer phrases score higher.
+ */
+const scoreKeyword = (messageTokens: string[], keywordTokens: string[], fuzzy = true): number => {
+  let best = 0;
+  for (let start = 0; start + keywordTokens.length <= messageTokens.length; start++) {
+    let total = 0;
+    for (let k = 0; k < keywordTokens.length; k++) {
+      const tokenScore = scoreToken(messageTokens[start + k], keywordTokens[k], fuzzy);
+      if (tokenScore === 0) {
+        total = 0;
+        break;
+      }
+      total += tokenScore;
+    }
+    best = Math.max(best, total);
+  }
+  return best;
+};
+
+/**
+ * Whether a keyword or phrase appears in already normalized message
+ * tokens. Strict mode (no typos, prefixes only) avoids near-miss words
+ * such as "sans" for "sang".
+ */
+export const containsPhrase = (
+  messageTokens: string[],
+  phrase: string,
+  { strict = false }: { strict?: boolean } = {},
+): boolean => scoreKeyword(messageTokens, normalizeText(phrase), !strict) > 0;
+
+// ── Classification ─────────────────────────────────────────
+
+/**
+ * Rank intents against a message. Returns the best match, or null when
+ * nothing reaches MIN_INTENT_SCORE. Ties go to the intent listed first.
+ */
+export const matchIntent = (
+  message: string,
+  intents: IntentDefinition[],
+): IntentMatch | null => {
+  const messageTokens = normalizeText(message);
+  if (messageTokens.length === 0) return null;
+
+  let best: IntentMatch | null = null;
+
+  for (const intent of intents) {
+    const keywordScores: { score: number; language: IntentLanguage }[] = [];
+
+    for (const [language, keywords] of Object.entries(intent.keywords) as [
+      IntentLanguage,
+      string[],
+    ][]) {
+      for (const keyword of keywords) {
+        const score = scoreKeyword(messageTokens, normalizeText(keyword));
+        if (score > 0) keywordScores.push({ score, language });
+      }
+    }
+    if (keywordScores.length === 0) continue;
+
+    keywordScores.sort((a, b) => b.score - a.score);
+    const [top, ...others] = keywordScores;
+    const score =
+      top.score + others.reduce((sum, k) => sum + k.score * ADDITIONAL_KEYWORD_WEIGHT, 0);
+
+    if (score >= MIN_INTENT_SCORE && (!best || score > best.score)) {
+      best = { intentId: intent.id, score, keywordLanguage: top.language };
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,46 @@
+/**
+ * Map Clustering
+ * Groups map markers that would overlap on screen. Positions are in
+ * screen pixels, so clusters split up as the user zooms in.
+ */
+
+export interface MapCluster<T> {
+  /** Stable while the cluster keeps the same first item */
+  id: string;
+  /** Mean position of the items, in pixels */
+  x: number;
+  y: number;
+  items: T[];
+}
+
+/** Markers closer than this (in pixels) are merged */
+export const CLUSTER_CELL_PX = 44;
+
+/**
+ * Grid clustering: items are merged when they fall in the same square
+ * cell of `cellPx` pixels.
+ */
+export const clusterByGrid = <T extends { id: string }>(
+  items: T[],
+  positionOf: (item: T) => { x: number; y: number },
+  cellPx: number = CLUSTER_CELL_PX,
+): MapCluster<T>[] => {
+  const cells = new Map<string, { items: T[]; sumX: number; sumY: number }>();
+
+  for (const item of items) {
+    const { x, y } = positionOf(item);
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const cell = cells.get(key) ?? { items: [], sumX: 0, sumY: 0 };
+    cell.items.push(item);
+    cell.sumX += x;
+    cell.sumY += y;
+    cells.set(key, cell);
+  }
+
+  return [...cells.values()].map((cell) => ({
+    id: cell.items[0].id,
+    x: cell.sumX / cell.items.length,
+    y: cell.sumY / cell.items.length,
+    items: cell.items,
+  }));
+};
@@ -0,0 +1,110 @@
+/**
+ * OTP Policy
+ * Limits on requesting and entering one-time codes: resend cooldown,
+ * hourly request cap and lockout after repeated wrong codes.
+ *
+ * The auth server enforces its own limits; the app applies the same
+ * rules so the user is told to wait before a request is refused, and
+ * restarting the app does not reset them.
+ */
+
+export interface OtpAttemptState {
+  /** When codes were requested, within the request window */
+  requestedAt: number[];
+  /** Wrong codes entered since the last success or lockout */
+  failedAttempts: number;
+  lockedUntil: number | null;
+  resendAvailableAt: number | null;
+}
+
+export type OtpBlockReason = 'locked' | 'cooldown' | 'rate_limited';
+
+export interface OtpBlock {
+  reason: OtpBlockReason;
+  until: number;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+export const OTP_LENGTH = 6;
+export const OTP_TTL_MS = 5 * 60 * 1000;
+export const RESEND_COOLDOWN_MS = 60 * 1000;
+export const MAX_OTP_REQUESTS = 5;
+export const OTP_REQUEST_WINDOW_MS = 60 * 60 * 1000;
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MS = 15 * 60 * 1000;
+
+export const INITIAL_OTP_STATE: OtpAttemptState = {
+  requestedAt: [],
+  failedAttempts: 0,
+  lockedUntil: null,
+  resendAvailableAt: null,
+};
+
+// ── Checks ─────────────────────────────────────────────────
+
+const activeLock = (state: OtpAttemptState, now: number): OtpBlock | null =>
+  state.lockedUntil !== null && state.lockedUntil > now
+    ? { reason: 'locked', until: state.lockedUntil }
+    : null;
+
+/**
+ * Why a new code cannot be requested now, or null when it can
+ */
+export const getRequestBlock = (state: OtpAttemptState, now: number): OtpBlock | null => {
+  const lock = activeLock(state, now);
+  if (lock) return lock;
+
+  if (state.resendAvailableAt !== null && state.resendAvailableAt > now) {
+    return { reason: 'cooldown', until: state.resendAvailableAt };
+  }
+
+  const recent = state.requestedAt.filter((t) => now - t < OTP_REQUEST_WINDOW_MS);
+  if (recent.length >= MAX_OTP_REQUESTS) {
+    return { reason: 'rate_limited', until: Math.min(...recent) + OTP_REQUEST_WINDOW_MS };
+  }
+  return null;
+};
+
+/**
+ * Why a code cannot be checked now, or null when it can
+ */
+export const getVerifyBlock = (state: OtpAttemptState, now: number): OtpBlock | null =>
+  activeLock(state, now);
+
+export const getRemainingAttempts = (state: OtpAttemptState): number =>
+  Math.max(0, MAX_FAILED_ATTEMPTS - state.failedAttempts);
+
+export const isValidOtpFormat = (code: string): boolean =>
+  new RegExp(`^\\d{${OTP_LENGTH}}$`).test(code);
+
+// ── Transitions ────────────────────────────────────────────
+
+export const recordOtpRequest = (
+  state: OtpAttemptState,
+  now: number,
+  resendAvailableAt = now + RESEND_COOLDOWN_MS,
+): OtpAttemptState => ({
+  ...state,
+  requestedAt: [...state.requestedAt.filter((t) => now - t < OTP_REQUEST_WINDOW_MS), now],
+  resendAvailableAt,
+});
+
+/**
+ * Count a wrong code; the last allowed one locks code entry and requests
+ */
+export const recordFailedAttempt = (state: OtpAttemptState, now: number): OtpAttemptState => {
+  const failedAttempts = state.failedAttempts + 1;
+  return failedAttempts >= MAX_FAILED_ATTEMPTS
+    ? { ...state, failedAttempts: 0, lockedUntil: now + LOCKOUT_MS }
+    : { ...state, failedAttempts };
+};
+
+/** Lockout reported by the server (it may use other limits) */
+export const recordLockout = (state: OtpAttemptState, until: number): OtpAttemptState => ({
+  ...state,
+  failedAttempts: 0,
+  lockedUntil: Math.max(until, state.lockedUntil ?? 0),
+});
+
+export const recordVerified = (): OtpAttemptState => INITIAL_OTP_STATE;
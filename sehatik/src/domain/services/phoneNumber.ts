@@ -0,0 +1,53 @@
+/**
+ * Phone Number
+ * Validation of Moroccan mobile numbers (the only numbers OTP codes are
+ * sent to). Accepts the usual ways of writing them:
+ *
+ *   06 12 34 56 78 · 0712345678 · +212 6 12 34 56 78 · 00212612345678
+ *
+ * and returns the E.164 form (+2126XXXXXXXX / +2127XXXXXXXX).
+ */
+
+export const MOROCCO_COUNTRY_CODE = '212';
+
+/** Mobile numbers: 6 or 7 followed by 8 digits */
+const NATIONAL_MOBILE = /^[67]\d{8}$/;
+
+/** Separators people type between digit groups */
+const SEPARATORS = /[\s\-.()]/g;
+
+/**
+ * E.164 form of a Moroccan mobile number, or null when the input is not one
+ */
+export const normalizeMoroccanMobile = (input: string): string | null => {
+  const compact = input.replace(SEPARATORS, '');
+
+  let national: string;
+  if (compact.startsWith(`+${MOROCCO_COUNTRY_CODE}`)) {
+    national = compact.slice(MOROCCO_COUNTRY_CODE.length + 1);
+  } else if (compact.startsWith(`00${MOROCCO_COUNTRY_CODE}`)) {
+    national = compact.slice(MOROCCO_COUNTRY_CODE.length + 2);
+  } else if (compact.startsWith('0')) {
+    national = compact.slice(1);
+  } else if (compact.startsWith(MOROCCO_COUNTRY_CODE) && compact.length === 12) {
+    national = compact.slice(MOROCCO_COUNTRY_CODE.length);
+  } else {
+    return null;
+  }
+
+  // "+212 06..." is a common mix of both forms
+  if (national.startsWith('0')) national = national.slice(1);
+  return NATIONAL_MOBILE.test(national) ? `+${MOROCCO_COUNTRY_CODE}${national}` : null;
+};
+
+export const isMoroccanMobile = (input: string): boolean => normalizeMoroccanMobile(input) !== null;
+
+/**
+ * Display form of an E.164 number with the middle digits hidden,
+ * e.g. "+212 6•• ••• •78", for places where the full number is not needed
+ */
+export const maskPhoneNumber = (e164: string): string => {
+  const national = e164.slice(MOROCCO_COUNTRY_CODE.length + 1);
+  if (!NATIONAL_MOBILE.test(national)) return e164;
+  return `+${MOROCCO_COUNTRY_CODE} ${national[0]}•• ••• •${national.slice(-2)}`;
+};
@@ -0,0 +1,72 @@
+/**
+ * Photo Journal
+ * Rules of the private photo journal: which photo a new one is compared
+ * with, and when photos expire. Photo contents never reach this layer.
+ */
+
+import type { BreastSide } from '../models/types';
+
+// ── Types ──────────────────────────────────────────────────
+
+export type PhotoSide = BreastSide | 'both';
+
+export interface JournalPhoto {
+  id: string;
+  takenAt: number;
+  side: PhotoSide;
+  /** Self-check the photo was taken after, if any */
+  selfCheckId?: string;
+}
+
+// ── Retention ──────────────────────────────────────────────
+
+export const RETENTION_OPTIONS_MONTHS = [1, 3, 6, 12] as const;
+export type RetentionMonths = (typeof RETENTION_OPTIONS_MONTHS)[number];
+export const DEFAULT_RETENTION_MONTHS: RetentionMonths = 6;
+
+const addMonths = (date: number, months: number): number => {
+  const d = new Date(date);
+  d.setMonth(d.getMonth() + months);
+  return d.getTime();
+};
+
+/**
+ * Photos older than the retention period, due for deletion
+ */
+export const getExpiredPhotos = (
+  photos: JournalPhoto[],
+  retentionMonths: number,
+  now: number = Date.now(),
+): JournalPhoto[] => photos.filter((p) => addMonths(p.takenAt, retentionMonths) <= now);
+
+// ── Comparison ─────────────────────────────────────────────
+
+/** Earlier photos closer than this are retakes, not last month's photo */
+const MIN_COMPARISON_GAP_MS = 20 * 24 * 60 * 60 * 1000;
+
+const monthIndex = (date: number): number => {
+  const d = new Date(date);
+  return d.getFullYear() * 12 + d.getMonth();
+};
+
+/**
+ * Photo to show next to `photo`: the latest one of the same side taken
+ * the month before, otherwise the latest one taken at least a few weeks
+ * earlier. Null when there is nothing to compare with.
+ */
+export const findComparisonPhoto = (
+  photos: JournalPhoto[],
+  photo: JournalPhoto,
+): JournalPhoto | null => {
+  const earlier = photos
+    .filter(
+      (p) =>
+        p.id !== photo.id &&
+        p.side === photo.side &&
+        p.takenAt <= photo.takenAt - MIN_COMPARISON_GAP_MS,
+    )
+    .sort((a, b) => b.takenAt - a.takenAt);
+
+  const previousMonth = monthIndex(photo.takenAt) - 1;
+  return earlier.find((p) => monthIndex(p.takenAt) === previousMonth) ?? earlier[0] ?? null;
+};
@@ -0,0 +1,81 @@
+/**
+ * Reminder Schedule Service
+ * Pure date computations for exam and screening reminders.
+ * No platform APIs here: the notification scheduler consumes these dates.
+ */
+
+export interface ReminderTime {
+  /** 1-31, clamped to the last day of shorter months */
+  dayOfMonth: number;
+  hour: number;
+  minute: number;
+}
+
+/** Number of monthly nudges scheduled when a yearly screening is overdue */
+const OVERDUE_NUDGE_COUNT = 3;
+
+/**
+ * Number of days in a month (monthIndex is 0-based, like Date)
+ */
+export const daysInMonth = (year: number, monthIndex: number): number =>
+  new Date(year, monthIndex + 1, 0).getDate();
+
+/**
+ * Reminder date within a given month.
+ * A day that does not exist in that month falls on its last day
+ * (e.g. the 31st becomes Feb 28/29, Apr 30...), so no month is skipped.
+ */
+export const getMonthlyDate = (year: number, monthIndex: number, time: ReminderTime): Date => {
+  // Normalize month overflow (e.g. monthIndex 12 -> January next year)
+  const first = new Date(year, monthIndex, 1);
+  const day = Math.min(
+    Math.max(time.dayOfMonth, 1),
+    daysInMonth(first.getFullYear(), first.getMonth()),
+  );
+  return new Date(first.getFullYear(), first.getMonth(), day, time.hour, time.minute);
+};
+
+/**
+ * Next `count` monthly occurrences strictly after `from`
+ */
+export const getMonthlyOccurrences = (time: ReminderTime, from: Date, count: number): Date[] => {
+  const occurrences: Date[] = [];
+  let offset = 0;
+
+  while (occurrences.length < count) {
+    const date = getMonthlyDate(from.getFullYear(), from.getMonth() + offset, time);
+    if (date > from) {
+      occurrences.push(date);
+    }
+    offset++;
+  }
+
+  return occurrences;
+};
+
+/**
+ * Yearly screening reminder dates.
+ * - Last screening known and anniversary still ahead: the anniversary,
+ *   at the reminder's hour/minute (Feb 29 falls back to Feb 28)
+ * - No screening recorded, or already overdue: a few monthly nudges
+ *   on the reminder's day until a screening date is recorded
+ */
+export const getYearlyScreeningOccurrences = (
+  time: ReminderTime,
+  lastScreeningDate: number | null,
+  from: Date,
+): Date[] => {
+  if (lastScreeningDate !== null) {
+    const last = new Date(lastScreeningDate);
+    const due = getMonthlyDate(last.getFullYear() + 1, last.getMonth(), {
+      dayOfMonth: last.getDate(),
+      hour: time.hour,
+      minute: time.minute,
+    });
+    if (due > from) {
+      return [due];
+    }
+  }
+
+  return getMonthlyOccurrences(time, from, OVERDUE_NUDGE_COUNT);
+};
@@ -1,115 +1,159 @@
 /**
  * Risk Assessment Service
- * Rule-based symptom assessment algorithm for breast health
+ * Rule-based symptom assessment engine for breast health
+ *
+ * One engine scores both the autopalpation questionnaire and the
+ * self-check chat answers. Weights, red flags and thresholds come from
+ * a versioned rule set (see riskRules.ts), never from this file.
  *
  * CRITICAL: This is EDUCATIONAL ONLY, NOT a medical diagnosis.
  * Always recommends professional consultation for any concerning findings.
  */
 
-import { type ExamQuestion, EXAM_SECTIONS, getAllQuestions } from '../../infrastructure/data/examQuestions';
+import {
+  getCurrentRiskRuleSet,
+  LEGACY_RISK_RULE_SET_VERSION,
+  type AnswerMatcher,
+  type RiskProfileId,
+  type RiskRuleSet,
+  type RiskSignalRule,
+} from './riskRules';
 
 export type RiskLevel = 'low' | 'moderate' | 'high';
 
+export type RecommendationType = 'continue_monitoring' | 'schedule_checkup' | 'urgent_consultation';
+
 export interface RiskAssessmentResult {
+  /** Rule set version that produced this result (for clinical audit) */
+  ruleSetVersion: string;
   riskLevel: RiskLevel;
   score: number;
   maxScore: number;
+  /** Question ids of matched red-flag signals */
   redFlags: string[];
-  recommendation: 'continue_monitoring' | 'schedule_checkup' | 'urgent_consultation';
+  /** Question ids of all matched concerning signals */
+  concerns: string[];
+  recommendation: RecommendationType;
   recommendationKey: string;
   messageKey: string;
   nextStepsKeys: string[];
 }
 
 /**
- * Assess symptoms based on exam responses
- * Returns risk level, red flags, and personalized recommendations
+ * Check whether an answer satisfies a signal matcher
  */
-export const assessSymptoms = (
+export const matchesAnswer = (answer: unknown, match: AnswerMatcher): boolean => {
+  if (answer === undefined || answer === null) return false;
+
+  if (match.equals !== undefined) {
+    return answer === match.equals;
+  }
+  if (match.oneOf) {
+    return typeof answer === 'string' && match.oneOf.includes(answer);
+  }
+  if (match.includes !== undefined) {
+    return Array.isArray(answer) && answer.includes(match.includes);
+  }
+  return false;
+};
+
+const isConcernSignal = (signal: RiskSignalRule): boolean =>
+  signal.concern ?? signal.weight > 0;
+
+/**
+ * Score answers against one profile of a rule set.
+ * Returns risk level, red flags, concerns and recommendations.
+ */
+export const evaluateRisk = (
+  profileId: RiskProfileId,
   answers: Record<string, unknown>,
+  ruleSet: RiskRuleSet = getCurrentRiskRuleSet(),
 ): RiskAssessmentResult => {
+  const profile = ruleSet.profiles[profileId];
   let score = 0;
   const redFlags: string[] = [];
-  const allQuestions = getAllQuestions();
+  const concerns: string[] = [];
 
-  // Calculate score based on answers
-  for (const question of allQuestions) {
-    const answer = answers[question.id];
-    if (answer === undefined || answer === null) continue;
+  for (const signal of profile.signals) {
+    if (!matchesAnswer(answers[signal.questionId], signal.match)) continue;
 
-    if (question.type === 'boolean' && answer === true) {
-      score += question.weight;
+    score += signal.weight;
 
-      if (question.redFlag) {
-        redFlags.push(question.id);
-      }
+    if (signal.redFlag && !redFlags.includes(signal.questionId)) {
+      redFlags.push(signal.questionId);
     }
-
-    // Special handling for lump characteristics
-    if (question.id === 'lump_characteristics' && Array.isArray(answer)) {
-      if (answer.includes('hard')) score += 2;
-      if (answer.includes('fixed')) score += 2;
-      if (answer.includes('painless')) score += 1; // Painless lumps are more concerning
+    if (isConcernSignal(signal) && !concerns.includes(signal.questionId)) {
+      concerns.push(signal.questionId);
     }
   }
 
-  // Calculate max possible score
-  const maxScore = allQuestions.reduce((sum, q) => sum + Math.max(q.weight, 0), 0) + 5; // +5 for lump characteristics
-
-  // Determine risk level and recommendation
-  let riskLevel: RiskLevel;
-  let recommendation: RiskAssessmentResult['recommendation'];
-  let recommendationKey: string;
-  let messageKey: string;
-  let nextStepsKeys: string[];
-
-  if (score >= 5 || redFlags.length >= 2) {
-    riskLevel = 'high';
-    recommendation = 'urgent_consultation';
-    recommendationKey = 'results.recommendation.urgent';
-    messageKey = 'results.message.high';
-    nextStepsKeys = [
-      'results.steps.consult_specialist',
-      'results.steps.within_48h',
-      'results.steps.bring_notes',
-      'results.steps.dont_panic',
-    ];
-  } else if (score >= 2 || redFlags.length >= 1) {
-    riskLevel = 'moderate';
-    recommendation = 'schedule_checkup';
-    recommendationKey = 'results.recommendation.checkup';
-    messageKey = 'results.message.moderate';
-    nextStepsKeys = [
-      'results.steps.schedule_appointment',
-      'results.steps.within_2weeks',
-      'results.steps.continue_monitoring',
-      'results.steps.note_changes',
-    ];
-  } else {
-    riskLevel = 'low';
-    recommendation = 'continue_monitoring';
-    recommendationKey = 'results.recommendation.monitoring';
-    messageKey = 'results.message.low';
-    nextStepsKeys = [
-      'results.steps.monthly_exam',
-      'results.steps.annual_screening',
-      'results.steps.know_normal',
-      'results.steps.stay_informed',
-    ];
-  }
+  const maxScore = profile.signals.reduce((sum, s) => sum + Math.max(s.weight, 0), 0);
+
+  // First level whose minimums are reached wins; the last one is the default
+  const level =
+    profile.levels.find(
+      (l) =>
+        (l.minScore !== undefined && score >= l.minScore) ||
+        (l.minRedFlags !== undefined && redFlags.length >= l.minRedFlags) ||
+        (l.minConcerns !== undefined && concerns.length >= l.minConcerns),
+    ) ?? profile.levels[profile.levels.length - 1];
 
   return {
-    riskLevel,
+    ruleSetVersion: ruleSet.version,
+    riskLevel: level.level,
     score,
     maxScore,
     redFlags,
-    recommendation,
-    recommendationKey,
-    messageKey,
-    nextStepsKeys,
+    concerns,
+    recommendation: level.recommendation,
+    recommendationKey: level.recommendationKey,
+    messageKey: level.messageKey,
+    nextStepsKeys: level.nextStepsKeys,
   };
 };
 
+/**
+ * Assess symptoms based on autopalpation exam responses
+ */
+export const assessSymptoms = (
+  answers: Record<string, unknown>,
+  ruleSet?: RiskRuleSet,
+): RiskAssessmentResult => evaluateRisk('questionnaire', answers, ruleSet);
+
+/**
+ * Assess risk from the self-check chat answers (all steps merged)
+ */
+export const assessSelfCheck = (
+  answers: Record<string, string>,
+  ruleSet?: RiskRuleSet,
+): RiskAssessmentResult => evaluateRisk('self_check', answers, ruleSet);
+
+const RECOMMENDATION_BY_LEVEL: Record<RiskLevel, RecommendationType> = {
+  high: 'urgent_consultation',
+  moderate: 'schedule_checkup',
+  low: 'continue_monitoring',
+};
+
+/**
+ * Bring a stored result up to the current shape.
+ * Results saved before rule-set versioning are attributed to the legacy
+ * version and get empty lists for fields their engine did not produce.
+ */
+export const migrateStoredResult = (
+  stored: Partial<RiskAssessmentResult> & Pick<RiskAssessmentResult, 'riskLevel'>,
+): RiskAssessmentResult => ({
+  ruleSetVersion: stored.ruleSetVersion ?? LEGACY_RISK_RULE_SET_VERSION,
+  riskLevel: stored.riskLevel,
+  score: stored.score ?? 0,
+  maxScore: stored.maxScore ?? 0,
+  redFlags: stored.redFlags ?? [],
+  concerns: stored.concerns ?? [],
+  recommendation: stored.recommendation ?? RECOMMENDATION_BY_LEVEL[stored.riskLevel],
+  recommendationKey: stored.recommendationKey ?? '',
+  messageKey: stored.messageKey ?? '',
+  nextStepsKeys: stored.nextStepsKeys ?? [],
+});
+
 /**
  * Get risk color based on level
  */
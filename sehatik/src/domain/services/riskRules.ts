@@ -0,0 +1,274 @@
+/**
+ * Risk Rule Sets
+ * Versioned, declarative definition of how answers are scored.
+ *
+ * A rule set holds everything the risk engine needs: signal weights,
+ * red flags, level thresholds and the i18n keys shown for each level.
+ * Question definitions (examQuestions.ts, selfCheckConversations.ts) only
+ * describe what is asked; this file decides what the answers mean.
+ *
+ * RULES FOR CHANGING SCORING:
+ * - Never edit a published rule set in place. Add a new version to
+ *   RISK_RULE_SETS and point CURRENT_RISK_RULE_SET_VERSION at it.
+ * - Stored records keep the version that produced their result, so a
+ *   clinician can always re-read a past result against its own rules.
+ */
+
+import type { RiskLevel, RecommendationType } from './riskAssessment';
+
+// ── Types ──────────────────────────────────────────────────
+
+/**
+ * Which answer source a profile scores:
+ *   'questionnaire' -> autopalpation exam answers (examStore)
+ *   'self_check'    -> chat-collected answers (selfCheckChatStore)
+ */
+export type RiskProfileId = 'questionnaire' | 'self_check';
+
+/**
+ * Matches a single answer.
+ * Exactly one of `equals` / `oneOf` / `includes` should be set.
+ */
+export interface AnswerMatcher {
+  /** Answer must strictly equal this value (e.g. `true` for boolean questions) */
+  equals?: string | boolean;
+  /** Answer must be one of these values (single-choice chat replies) */
+  oneOf?: string[];
+  /** Answer is an array that must contain this value (multi-select) */
+  includes?: string;
+}
+
+/**
+ * A scored signal: when the matcher hits, the weight is added to the score.
+ */
+export interface RiskSignalRule {
+  /** Question id the signal reads from */
+  questionId: string;
+  match: AnswerMatcher;
+  /** Points added when matched (may be negative for reassuring answers) */
+  weight: number;
+  /** Counted in `redFlags` when matched */
+  redFlag?: boolean;
+  /** Counted in `concerns` when matched (defaults to true for positive weights) */
+  concern?: boolean;
+}
+
+/**
+ * Level threshold. A level applies when ANY of its minimums is reached.
+ * The last level in a profile must have no minimums (the default).
+ */
+export interface RiskLevelRule {
+  level: RiskLevel;
+  recommendation: RecommendationType;
+  minScore?: number;
+  minRedFlags?: number;
+  minConcerns?: number;
+  recommendationKey: string;
+  messageKey: string;
+  nextStepsKeys: string[];
+}
+
+export interface RiskProfile {
+  signals: RiskSignalRule[];
+  /** Evaluated top to bottom, first match wins */
+  levels: RiskLevelRule[];
+}
+
+export interface RiskRuleSet {
+  version: string;
+  /** ISO date the rule set was published */
+  publishedAt: string;
+  /** Short human-readable changelog for clinical review */
+  notes: string;
+  profiles: Record<RiskProfileId, RiskProfile>;
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+const YES_OR_UNSURE = ['yes', 'unsure'];
+
+const QUESTIONNAIRE_NEXT_STEPS = {
+  high: [
+    'results.steps.consult_specialist',
+    'results.steps.within_48h',
+    'results.steps.bring_notes',
+    'results.steps.dont_panic',
+  ],
+  moderate: [
+    'results.steps.schedule_appointment',
+    'results.steps.within_2weeks',
+    'results.steps.continue_monitoring',
+    'results.steps.note_changes',
+  ],
+  low: [
+    'results.steps.monthly_exam',
+    'results.steps.annual_screening',
+    'results.steps.know_normal',
+    'results.steps.stay_informed',
+  ],
+};
+
+const SELF_CHECK_NEXT_STEPS = [
+  'selfCheck.result.steps.monthlyExam',
+  'selfCheck.result.steps.consultDoctor',
+  'selfCheck.result.steps.noteChanges',
+];
+
+// ── v1.0.0 ─────────────────────────────────────────────────
+
+/**
+ * v1.0.0 reproduces the scoring that was hard-coded in
+ * riskAssessment.ts and selfCheckSteps.ts before rule sets existed.
+ * Records saved before versioning are attributed to this version.
+ */
+const RULE_SET_V1_0_0: RiskRuleSet = {
+  version: '1.0.0',
+  publishedAt: '2026-02-01',
+  notes: 'Initial rule set, extracted from the original hard-coded thresholds.',
+  profiles: {
+    questionnaire: {
+      signals: [
+        // Visual
+        { questionId: 'skin_changes', match: { equals: true }, weight: 2, redFlag: true },
+        { questionId: 'skin_dimpling', match: { equals: true }, weight: 3, redFlag: true },
+        { questionId: 'peau_orange', match: { equals: true }, weight: 3, redFlag: true },
+        { questionId: 'nipple_retraction', match: { equals: true }, weight: 3, redFlag: true },
+        { questionId: 'nipple_discharge', match: { equals: true }, weight: 2, redFlag: true },
+        { questionId: 'asymmetry', match: { equals: true }, weight: 1 },
+        { questionId: 'redness', match: { equals: true }, weight: 2, redFlag: true },
+        // Palpation
+        { questionId: 'lump_detected', match: { equals: true }, weight: 2, redFlag: true },
+        { questionId: 'lump_characteristics', match: { includes: 'hard' }, weight: 2 },
+        { questionId: 'lump_characteristics', match: { includes: 'fixed' }, weight: 2 },
+        // Painless lumps are more concerning
+        { questionId: 'lump_characteristics', match: { includes: 'painless' }, weight: 1 },
+        { questionId: 'armpit_lump', match: { equals: true }, weight: 2, redFlag: true },
+        { questionId: 'breast_pain', match: { equals: true }, weight: 1 },
+        // Cyclic pain is usually benign
+        { questionId: 'pain_cyclic', match: { equals: true }, weight: -1 },
+        // Additional
+        { questionId: 'changes_recent', match: { equals: true }, weight: 2 },
+        { questionId: 'family_history', match: { equals: true }, weight: 1 },
+        { questionId: 'previous_issues', match: { equals: true }, weight: 1 },
+      ],
+      levels: [
+        {
+          level: 'high',
+          recommendation: 'urgent_consultation',
+          minScore: 5,
+          minRedFlags: 2,
+          recommendationKey: 'results.recommendation.urgent',
+          messageKey: 'results.message.high',
+          nextStepsKeys: QUESTIONNAIRE_NEXT_STEPS.high,
+        },
+        {
+          level: 'moderate',
+          recommendation: 'schedule_checkup',
+          minScore: 2,
+          minRedFlags: 1,
+          recommendationKey: 'results.recommendation.checkup',
+          messageKey: 'results.message.moderate',
+          nextStepsKeys: QUESTIONNAIRE_NEXT_STEPS.moderate,
+        },
+        {
+          level: 'low',
+          recommendation: 'continue_monitoring',
+          recommendationKey: 'results.recommendation.monitoring',
+          messageKey: 'results.message.low',
+          nextStepsKeys: QUESTIONNAIRE_NEXT_STEPS.low,
+        },
+      ],
+    },
+    self_check: {
+      signals: [
+        // Visual examination
+        { questionId: 'visual_q_skin_changes', match: { oneOf: YES_OR_UNSURE }, weight: 2 },
+        {
+          questionId: 'visual_q_skin_type',
+          match: { oneOf: ['redness', 'dimpling', 'thickening', 'peau_orange', 'other'] },
+          weight: 1,
+        },
+        { questionId: 'visual_q_skin_recheck', match: { oneOf: YES_OR_UNSURE }, weight: 1 },
+        { questionId: 'visual_q_nipple_changes', match: { oneOf: YES_OR_UNSURE }, weight: 2 },
+        {
+          questionId: 'visual_q_nipple_type',
+          match: { oneOf: ['retraction', 'discharge', 'color_change', 'crusting'] },
+          weight: 1,
+        },
+        // Palpation
+        { questionId: 'palpation_q_lump', match: { oneOf: YES_OR_UNSURE }, weight: 3 },
+        {
+          questionId: 'palpation_q_lump_location',
+          match: {
+            oneOf: ['upper_outer', 'upper_inner', 'lower_outer', 'lower_inner', 'central', 'armpit'],
+          },
+          weight: 0,
+          concern: true,
+        },
+        { questionId: 'palpation_q_lump_feel', match: { oneOf: ['hard', 'fixed'] }, weight: 1 },
+        { questionId: 'palpation_q_pain', match: { oneOf: YES_OR_UNSURE }, weight: 1 },
+        // Non-cyclic (or unknown) pain is the concerning answer here
+        { questionId: 'palpation_q_pain_cyclic', match: { oneOf: ['no', 'unsure'] }, weight: 1 },
+        { questionId: 'palpation_q_changes', match: { oneOf: YES_OR_UNSURE }, weight: 2 },
+        // Nipple check
+        { questionId: 'nipple_q_discharge', match: { oneOf: YES_OR_UNSURE }, weight: 2 },
+        { questionId: 'nipple_q_discharge_type', match: { oneOf: ['bloody', 'other'] }, weight: 2 },
+        { questionId: 'nipple_q_appearance', match: { oneOf: YES_OR_UNSURE }, weight: 2 },
+      ],
+      levels: [
+        {
+          level: 'high',
+          recommendation: 'urgent_consultation',
+          minScore: 5,
+          minConcerns: 3,
+          recommendationKey: 'selfCheck.result.recommendation.urgent',
+          messageKey: 'selfCheck.result.message.high',
+          nextStepsKeys: SELF_CHECK_NEXT_STEPS,
+        },
+        {
+          level: 'moderate',
+          recommendation: 'schedule_checkup',
+          minScore: 2,
+          minConcerns: 1,
+          recommendationKey: 'selfCheck.result.recommendation.checkup',
+          messageKey: 'selfCheck.result.message.moderate',
+          nextStepsKeys: SELF_CHECK_NEXT_STEPS,
+        },
+        {
+          level: 'low',
+          recommendation: 'continue_monitoring',
+          recommendationKey: 'selfCheck.result.recommendation.monitoring',
+          messageKey: 'selfCheck.result.message.low',
+          nextStepsKeys: SELF_CHECK_NEXT_STEPS,
+        },
+      ],
+    },
+  },
+};
+
+// ── Registry ───────────────────────────────────────────────
+
+/**
+ * All published rule sets, keyed by version.
+ * Old versions stay here so historical results remain auditable.
+ */
+export const RISK_RULE_SETS: Record<string, RiskRuleSet> = {
+  [RULE_SET_V1_0_0.version]: RULE_SET_V1_0_0,
+};
+
+/** Version used for new assessments */
+export const CURRENT_RISK_RULE_SET_VERSION = '1.0.0';
+
+/** Version attributed to records saved before rule sets were versioned */
+export const LEGACY_RISK_RULE_SET_VERSION = '1.0.0';
+
+/**
+ * Get a rule set by version (defaults to the current one).
+ * Returns null for unknown versions so callers can flag the record.
+ */
+export const getRiskRuleSet = (
+  version: string = CURRENT_RISK_RULE_SET_VERSION,
+): RiskRuleSet | null => RISK_RULE_SETS[version] ?? null;
+
+export const getCurrentRiskRuleSet = (): RiskRuleSet =>
+  RISK_RULE_SETS[CURRENT_RISK_RULE_SET_VERSION];
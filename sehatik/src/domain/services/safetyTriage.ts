@@ -0,0 +1,324 @@
+/**
+ * Safety Triage
+ * Deterministic checks around the free-text assistant:
+ *
+ *   - pre-filter (user message): red-flag symptoms that need a prompt
+ *     consultation, and emotional-crisis language
+ *   - post-filter (model reply): statements that amount to a diagnosis,
+ *     which the assistant must never give
+ *
+ * Phrases cover fr / ar / Darija (Arabic script and Arabizi) and are
+ * matched on normalized text (see intentMatcher). Matching is strict (no
+ * typo tolerance) so near-miss words such as "sans" never match "sang".
+ */
+
+import { containsPhrase, normalizeText } from './intentMatcher';
+
+// ── Types ──────────────────────────────────────────────────
+
+export type RedFlagId = 'bloody_discharge' | 'growing_mass' | 'skin_changes';
+
+interface RedFlagRule {
+  flag: RedFlagId;
+  /** Every group must have at least one phrase present in the message */
+  allOf: string[][];
+}
+
+export interface TriageResult {
+  redFlags: RedFlagId[];
+  crisis: boolean;
+}
+
+// ── Phrase groups ──────────────────────────────────────────
+
+const BREAST_PART = [
+  'sein',
+  'mamelon',
+  'teton',
+  'poitrine',
+  'ثدي',
+  'حلمة',
+  'صدر',
+  'بزولة',
+  'bzoula',
+  'sder',
+];
+
+const DISCHARGE = [
+  'ecoulement',
+  'ecoule',
+  'coule',
+  'liquide',
+  'perte',
+  'secretion',
+  'sort',
+  'إفرازات',
+  'افراز',
+  'سائل',
+  'يخرج',
+  'تخرج',
+  'كيخرج',
+  'كتخرج',
+  'خارج',
+  'khrej',
+  'kaykhrej',
+  'katkhrej',
+];
+
+const BLOOD = ['sang', 'saign', 'دم', 'دموي', 'dem', 'dam'];
+
+const BLEEDING = ['saigne', 'saignement', 'نزيف', 'ينزف', 'تنزف', 'كينزف', 'كتنزف', 'kaynzef'];
+
+const MASS = [
+  'boule',
+  'masse',
+  'grosseur',
+  'bosse',
+  'nodule',
+  'كتلة',
+  'ورم',
+  'عقدة',
+  'كويرة',
+  'بولة',
+  'حبة',
+  'boula',
+  'kwira',
+  '7ebba',
+];
+
+const GROWING = [
+  'grossit',
+  'grandit',
+  'augmente',
+  'vite',
+  'rapidement',
+  'يكبر',
+  'تكبر',
+  'تزداد',
+  'بسرعة',
+  'كتكبر',
+  'كيكبر',
+  'كبرات',
+  'بالزربة',
+  'katkber',
+  'kaykber',
+  'kbrat',
+  'bzerba',
+];
+
+const WOUND = ['plaie', 'ulcere', 'ulceration', 'جرح', 'قرحة', 'jer7'];
+
+const ORANGE_PEEL = ['peau d orange', 'قشرة البرتقال', 'جلد البرتقال', 'بحال البرتقال'];
+
+const RED_FLAG_RULES: RedFlagRule[] = [
+  { flag: 'bloody_discharge', allOf: [DISCHARGE, BLOOD] },
+  { flag: 'bloody_discharge', allOf: [BLEEDING, BREAST_PART] },
+  // Blood on the nipple is often described without a discharge verb ("kayn dem f bzoula")
+  { flag: 'bloody_discharge', allOf: [BLOOD, BREAST_PART] },
+  { flag: 'growing_mass', allOf: [MASS, GROWING] },
+  { flag: 'skin_changes', allOf: [WOUND, BREAST_PART] },
+  { flag: 'skin_changes', allOf: [ORANGE_PEEL] },
+];
+
+const CRISIS_PHRASES = [
+  // fr
+  'suicid',
+  'me tuer',
+  'en finir',
+  'envie de mourir',
+  'veux mourir',
+  'plus envie de vivre',
+  'me faire du mal',
+  'fin a mes jours',
+  // ar
+  'انتحار',
+  'أنتحر',
+  'أقتل نفسي',
+  'أريد أن أموت',
+  'لا أريد العيش',
+  'أؤذي نفسي',
+  'إنهاء حياتي',
+  // darija
+  'بغيت نموت',
+  'نقتل راسي',
+  'ما بقيتش باغية نعيش',
+  'نأذي راسي',
+  'bghit nmout',
+  'nqtel rasi',
+];
+
+/**
+ * Definitive or speculative statements, malignant or reassuring. Any of
+ * them in a model reply is a diagnosis the app must not give: "you may
+ * have cancer" is as much a diagnosis as "you have cancer".
+ */
+const DIAGNOSIS_PHRASES = [
+  // fr
+  'vous avez un cancer',
+  'vous avez le cancer',
+  'tu as un cancer',
+  'c est un cancer',
+  'il s agit d un cancer',
+  'vous etes atteinte d un cancer',
+  'c est une tumeur maligne',
+  'ce n est pas un cancer',
+  'vous n avez pas de cancer',
+  'c est benin',
+  'c est une tumeur benigne',
+  'vous avez peut etre un cancer',
+  'c est peut etre un cancer',
+  'vous pourriez avoir un cancer',
+  'ca pourrait etre un cancer',
+  'cela pourrait etre un cancer',
+  'il pourrait s agir d un cancer',
+  'probablement un cancer',
+  'probablement benin',
+  // en
+  'you have cancer',
+  'you have breast cancer',
+  'this is cancer',
+  'it is cancer',
+  'you do not have cancer',
+  'this is benign',
+  'it is benign',
+  'it s benign',
+  'it s cancer',
+  'you don t have cancer',
+  'you may have cancer',
+  'you might have cancer',
+  'you could have cancer',
+  'you probably have cancer',
+  'you may have breast cancer',
+  'you might have breast cancer',
+  'this could be cancer',
+  'it could be cancer',
+  'this may be cancer',
+  'it may be cancer',
+  'this might be cancer',
+  'it might be cancer',
+  'probably cancer',
+  'probably benign',
+  // ar
+  'لديك سرطان',
+  'أنت مصابة بالسرطان',
+  'أنت مصابة بسرطان',
+  'هذا سرطان',
+  'إنه سرطان',
+  'هذا ورم خبيث',
+  'ليس سرطانا',
+  'ليس لديك سرطان',
+  'هذا ورم حميد',
+  'قد يكون سرطان',
+  'قد يكون سرطانا',
+  'قد تكونين مصابة بالسرطان',
+  'ربما سرطان',
+  'ربما لديك سرطان',
+  'يبدو أنه سرطان',
+  'من المحتمل أنه سرطان',
+  // darija
+  'عندك السرطان',
+  'عندك سرطان',
+  'راه سرطان',
+  'هادا سرطان',
+  'ماشي سرطان',
+  'ما عندكش السرطان',
+  'يمكن يكون السرطان',
+  'ممكن يكون السرطان',
+  'يقدر يكون السرطان',
+  'يمكن عندك السرطان',
+];
+
+/**
+ * Constructions that negate the claim itself or make it a condition
+ * ("cela ne veut pas dire que vous avez un cancer", "if you have
+ * cancer"). They must come right before the diagnosis phrase: a
+ * negation elsewhere ("ne vous inquietez pas, c est benin") is still a
+ * diagnosis. Modal words ("peut", "may") make a speculative diagnosis,
+ * which is blocked too.
+ */
+const HEDGE_PHRASES = [
+  // fr
+  'ne veut pas dire',
+  'ne veut pas forcement dire',
+  'ne veut pas necessairement dire',
+  'ne signifie pas',
+  'ne signifie pas forcement',
+  'ne signifie pas necessairement',
+  'si',
+  // en
+  'does not mean',
+  'doesn t mean',
+  'does not necessarily mean',
+  'doesn t necessarily mean',
+  'do not mean',
+  'don t mean',
+  'if',
+  'whether',
+  // ar
+  'لا يعني',
+  'لا يعني بالضرورة',
+  'لا تعني',
+  'إذا',
+  'هل',
+  // darija
+  'ماشي معناه',
+  'ما معناهش',
+  'ما كيعنيش',
+  'ماكيعنيش',
+  'إلا',
+  'واش',
+].map((phrase) => normalizeText(phrase));
+
+/** Words allowed between a hedge and the diagnosis phrase */
+const HEDGE_CONNECTORS = ['que', 'qu', 'that', 'أن', 'بأن', 'بلي', 'belli'].map(
+  (word) => normalizeText(word)[0],
+);
+
+/** Whether the tokens just before `start` are a hedge */
+const isHedged = (tokens: string[], start: number): boolean => {
+  const end = HEDGE_CONNECTORS.includes(tokens[start - 1]) ? start - 1 : start;
+  return HEDGE_PHRASES.some(
+    (hedge) =>
+      hedge.length <= end && hedge.every((token, k) => tokens[end - hedge.length + k] === token),
+  );
+};
+
+// ── Pre-filter ─────────────────────────────────────────────
+
+/**
+ * Red flags and crisis language in a user message
+ */
+export const triageMessage = (text: string): TriageResult => {
+  const tokens = normalizeText(text);
+  const has = (phrase: string) => containsPhrase(tokens, phrase, { strict: true });
+
+  const redFlags: RedFlagId[] = [];
+  for (const rule of RED_FLAG_RULES) {
+    if (redFlags.includes(rule.flag)) continue;
+    if (rule.allOf.every((group) => group.some(has))) {
+      redFlags.push(rule.flag);
+    }
+  }
+
+  return { redFlags, crisis: CRISIS_PHRASES.some(has) };
+};
+
+// ── Post-filter ────────────────────────────────────────────
+
+/**
+ * Whether a model reply states a diagnosis. Phrases right after a hedge
+ * (negated claim, condition) are educational and allowed.
+ */
+export const containsDiagnosis = (reply: string): boolean => {
+  const tokens = normalizeText(reply);
+
+  return DIAGNOSIS_PHRASES.some((phrase) => {
+    const phraseTokens = normalizeText(phrase);
+    for (let start = 0; start + phraseTokens.length <= tokens.length; start++) {
+      if (!phraseTokens.every((token, k) => tokens[start + k] === token)) continue;
+
+      if (!isHedged(tokens, start)) return true;
+    }
+    return false;
+  });
+};
@@ -0,0 +1,177 @@
+/**
+ * Screening Pathway
+ * Turns what the app knows about the user (age group, family history,
+ * last screening, latest risk result) into a plan: which test, how
+ * often, when it is next due and what to bring. Centers offering the
+ * test are looked up by the screens with `plan.service`.
+ *
+ * Moroccan national program: free clinical exam and mammography every
+ * two years for women aged 45 to 69. A family history moves the
+ * mammography to every year, and a recent result asking for a checkup
+ * comes before any routine screening.
+ */
+
+import type { AgeGroup, ServiceType } from '../models/types';
+import type { RiskAssessmentResult } from './riskAssessment';
+
+// ── Types ──────────────────────────────────────────────────
+
+/**
+ * Which plan applies, first match wins:
+ *   'see_doctor'       -> recent result asking for a checkup
+ *   'age_unknown'      -> no age group yet, nothing can be advised
+ *   'high_risk'        -> family history
+ *   'national_program' -> 45 and over
+ *   'clinical_exam'    -> under 45
+ */
+export type PathwayTrack =
+  | 'see_doctor'
+  | 'age_unknown'
+  | 'high_risk'
+  | 'national_program'
+  | 'clinical_exam';
+
+export type PathwayDocument =
+  | 'id_card'
+  | 'coverage_card'
+  | 'referral_letter'
+  | 'previous_results'
+  | 'doctor_summary'
+  | 'family_history';
+
+export interface PathwayInput {
+  ageGroup: AgeGroup | null;
+  /** Latest `family_history` answer, null when never asked */
+  familyHistory: boolean | null;
+  lastScreeningDate: number | null;
+  /** Latest result, from the questionnaire or the self-check */
+  latestRisk: { date: number; result: RiskAssessmentResult } | null;
+  now: number;
+}
+
+export interface ScreeningPlan {
+  track: PathwayTrack;
+  /** Service to look for in the centers directory, null when the age group is unknown */
+  service: ServiceType | null;
+  /** Months between two screenings, null for a one-off visit */
+  intervalMonths: number | null;
+  /** When the next visit is due: `now` when never screened */
+  dueAt: number | null;
+  isOverdue: boolean;
+  /** The recent result asked for an urgent consultation */
+  isUrgent: boolean;
+  /** Free national program; null when the age group spans its upper limit (65+) */
+  programEligible: boolean | null;
+  documents: PathwayDocument[];
+}
+
+// ── Rules ──────────────────────────────────────────────────
+
+export const AGE_GROUPS: AgeGroup[] = ['25-34', '35-44', '45-54', '55-65', '65+'];
+
+/** A result older than this no longer drives the plan */
+const RECENT_RESULT_DAYS = 90;
+
+const PROGRAM_AGE_GROUPS: AgeGroup[] = ['45-54', '55-65'];
+
+const INTERVAL_MONTHS = {
+  national_program: 24,
+  high_risk: 12,
+  clinical_exam_over_35: 12,
+  clinical_exam_under_35: 36,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addMonths = (timestamp: number, months: number): number => {
+  const date = new Date(timestamp);
+  date.setMonth(date.getMonth() + months);
+  return date.getTime();
+};
+
+const isProgramEligible = (ageGroup: AgeGroup | null): boolean | null => {
+  if (ageGroup === null || ageGroup === '65+') return null;
+  return PROGRAM_AGE_GROUPS.includes(ageGroup);
+};
+
+/** The recent result asks for a checkup that has not happened since */
+const needsCheckup = ({ latestRisk, lastScreeningDate, now }: PathwayInput): boolean =>
+  latestRisk !== null &&
+  latestRisk.result.recommendation !== 'continue_monitoring' &&
+  now - latestRisk.date <= RECENT_RESULT_DAYS * DAY_MS &&
+  (lastScreeningDate === null || lastScreeningDate < latestRisk.date);
+
+const getTrack = (input: PathwayInput): PathwayTrack => {
+  if (needsCheckup(input)) return 'see_doctor';
+  if (input.ageGroup === null) return 'age_unknown';
+  if (input.familyHistory === true) return 'high_risk';
+  return PROGRAM_AGE_GROUPS.includes(input.ageGroup) || input.ageGroup === '65+'
+    ? 'national_program'
+    : 'clinical_exam';
+};
+
+const getTest = (
+  track: PathwayTrack,
+  ageGroup: AgeGroup | null,
+): Pick<ScreeningPlan, 'service' | 'intervalMonths'> => {
+  switch (track) {
+    case 'see_doctor':
+      return { service: 'consultation', intervalMonths: null };
+    case 'high_risk':
+      // Before 35 a doctor decides when imaging should start
+      return ageGroup === '25-34'
+        ? { service: 'consultation', intervalMonths: INTERVAL_MONTHS.high_risk }
+        : { service: 'mammography', intervalMonths: INTERVAL_MONTHS.high_risk };
+    case 'national_program':
+      return { service: 'mammography', intervalMonths: INTERVAL_MONTHS.national_program };
+    case 'clinical_exam':
+      return {
+        service: 'clinical_exam',
+        intervalMonths:
+          ageGroup === '25-34'
+            ? INTERVAL_MONTHS.clinical_exam_under_35
+            : INTERVAL_MONTHS.clinical_exam_over_35,
+      };
+    default:
+      return { service: null, intervalMonths: null };
+  }
+};
+
+const getDocuments = (
+  track: PathwayTrack,
+  service: ServiceType | null,
+  input: PathwayInput,
+): PathwayDocument[] => {
+  if (!service) return [];
+  const documents: PathwayDocument[] = ['id_card', 'coverage_card'];
+  if (service === 'mammography') documents.push('referral_letter');
+  if (input.lastScreeningDate !== null) documents.push('previous_results');
+  if (track === 'see_doctor') documents.push('doctor_summary');
+  if (input.familyHistory === true) documents.push('family_history');
+  return documents;
+};
+
+export const buildScreeningPlan = (input: PathwayInput): ScreeningPlan => {
+  const track = getTrack(input);
+  const { service, intervalMonths } = getTest(track, input.ageGroup);
+
+  let dueAt: number | null = null;
+  if (service) {
+    dueAt =
+      intervalMonths !== null && input.lastScreeningDate !== null
+        ? addMonths(input.lastScreeningDate, intervalMonths)
+        : input.now;
+  }
+
+  return {
+    track,
+    service,
+    intervalMonths,
+    dueAt,
+    isOverdue: dueAt !== null && input.lastScreeningDate !== null && dueAt < input.now,
+    isUrgent:
+      track === 'see_doctor' && input.latestRisk?.result.recommendation === 'urgent_consultation',
+    programEligible: isProgramEligible(input.ageGroup),
+    documents: getDocuments(track, service, input),
+  };
+};
@@ -0,0 +1,271 @@
+/**
+ * Symptom Timeline
+ * Merges autopalpation exams and guided self-checks into one timeline
+ * and follows each symptom across checks: when it first appeared,
+ * whether it persisted, and how the risk level moved.
+ *
+ * Checks are grouped by calendar month (the recommended exam rhythm).
+ * A symptom reported in PERSISTENCE_MIN_MONTHS consecutive calendar
+ * months is flagged as persistent: a finding that does not go away
+ * matters more than a one-off. A month without any check breaks a run:
+ * two reports a year apart say nothing about the months between.
+ */
+
+import { matchesAnswer, type RiskAssessmentResult, type RiskLevel } from './riskAssessment';
+import type { AnswerMatcher, RiskProfileId } from './riskRules';
+import type { FindingLocation } from '../models/types';
+
+// ── Types ──────────────────────────────────────────────────
+
+/** Symptom ids follow the autopalpation question ids */
+export type SymptomId =
+  | 'lump_detected'
+  | 'armpit_lump'
+  | 'nipple_discharge'
+  | 'nipple_retraction'
+  | 'skin_changes'
+  | 'skin_dimpling'
+  | 'peau_orange'
+  | 'redness'
+  | 'breast_pain';
+
+/** Shape shared by exam and self-check records */
+export interface CheckRecord {
+  id: string;
+  date: number;
+  answers: Record<string, unknown>;
+  result: RiskAssessmentResult;
+  /** Breast map markers, when the check recorded some */
+  findings?: FindingLocation[];
+}
+
+export interface TimelineEntry {
+  id: string;
+  source: RiskProfileId;
+  date: number;
+  riskLevel: RiskLevel;
+  symptoms: SymptomId[];
+}
+
+/** Checks of one calendar month */
+export interface TimelineMonth {
+  /** Local midnight on the 1st of the month */
+  start: number;
+  /** Highest risk level of the month's checks */
+  riskLevel: RiskLevel;
+  symptoms: SymptomId[];
+}
+
+export interface SymptomTrend {
+  symptomId: SymptomId;
+  /** Date of the first check reporting it */
+  firstSeen: number;
+  /** Date of the latest check reporting it */
+  lastSeen: number;
+  /** Checked months in which it was reported */
+  monthsReported: number;
+  /** Longest run of consecutive calendar months reporting it */
+  longestRun: number;
+  /** Reported in the most recent checked month */
+  ongoing: boolean;
+  persistent: boolean;
+  /** Risk level of the month it first appeared / was last reported */
+  firstRiskLevel: RiskLevel;
+  lastRiskLevel: RiskLevel;
+  /** Presence per checked month, aligned with HistoryTimeline.months */
+  presence: boolean[];
+}
+
+export type RiskTrend = 'improving' | 'stable' | 'worsening';
+
+export interface HistoryTimeline {
+  /** All checks, newest first */
+  entries: TimelineEntry[];
+  /** Checked months, oldest first */
+  months: TimelineMonth[];
+  /** Persistent symptoms first, then most recently reported */
+  trends: SymptomTrend[];
+  /** Latest month against the one before (null with fewer than two) */
+  riskTrend: RiskTrend | null;
+}
+
+interface SymptomSignal {
+  questionId: string;
+  match: AnswerMatcher;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+export const PERSISTENCE_MIN_MONTHS = 2;
+
+const YES = { equals: true };
+const YES_OR_UNSURE = { oneOf: ['yes', 'unsure'] };
+
+/**
+ * Answers that report each symptom, per record type. Self-check chat
+ * answers are mapped onto the closest autopalpation question.
+ */
+const SYMPTOM_SIGNALS: Record<SymptomId, Record<RiskProfileId, SymptomSignal[]>> = {
+  lump_detected: {
+    questionnaire: [{ questionId: 'lump_detected', match: YES }],
+    self_check: [{ questionId: 'palpation_q_lump', match: YES_OR_UNSURE }],
+  },
+  armpit_lump: {
+    questionnaire: [{ questionId: 'armpit_lump', match: YES }],
+    self_check: [{ questionId: 'palpation_q_lump_location', match: { oneOf: ['armpit'] } }],
+  },
+  nipple_discharge: {
+    questionnaire: [{ questionId: 'nipple_discharge', match: YES }],
+    self_check: [
+      { questionId: 'nipple_q_discharge', match: YES_OR_UNSURE },
+      { questionId: 'visual_q_nipple_type', match: { oneOf: ['discharge'] } },
+    ],
+  },
+  nipple_retraction: {
+    questionnaire: [{ questionId: 'nipple_retraction', match: YES }],
+    self_check: [{ questionId: 'visual_q_nipple_type', match: { oneOf: ['retraction'] } }],
+  },
+  skin_changes: {
+    questionnaire: [{ questionId: 'skin_changes', match: YES }],
+    self_check: [{ questionId: 'visual_q_skin_changes', match: YES_OR_UNSURE }],
+  },
+  skin_dimpling: {
+    questionnaire: [{ questionId: 'skin_dimpling', match: YES }],
+    self_check: [{ questionId: 'visual_q_skin_type', match: { oneOf: ['dimpling'] } }],
+  },
+  peau_orange: {
+    questionnaire: [{ questionId: 'peau_orange', match: YES }],
+    self_check: [{ questionId: 'visual_q_skin_type', match: { oneOf: ['peau_orange'] } }],
+  },
+  redness: {
+    questionnaire: [{ questionId: 'redness', match: YES }],
+    self_check: [{ questionId: 'visual_q_skin_type', match: { oneOf: ['redness'] } }],
+  },
+  breast_pain: {
+    questionnaire: [{ questionId: 'breast_pain', match: YES }],
+    self_check: [{ questionId: 'palpation_q_pain', match: YES_OR_UNSURE }],
+  },
+};
+
+const SYMPTOM_IDS = Object.keys(SYMPTOM_SIGNALS) as SymptomId[];
+
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, moderate: 1, high: 2 };
+
+// ── Helpers ────────────────────────────────────────────────
+
+/**
+ * Symptoms reported by one record
+ */
+export const getReportedSymptoms = (
+  source: RiskProfileId,
+  answers: Record<string, unknown>,
+): SymptomId[] =>
+  SYMPTOM_IDS.filter((symptomId) =>
+    SYMPTOM_SIGNALS[symptomId][source].some((signal) =>
+      matchesAnswer(answers[signal.questionId], signal.match),
+    ),
+  );
+
+const monthIndex = (date: number): number => {
+  const d = new Date(date);
+  return d.getFullYear() * 12 + d.getMonth();
+};
+
+const groupByMonth = (entries: TimelineEntry[]): TimelineMonth[] => {
+  const months = new Map<number, TimelineMonth>();
+
+  for (const entry of [...entries].sort((a, b) => a.date - b.date)) {
+    const index = monthIndex(entry.date);
+    const month = months.get(index);
+    if (!month) {
+      const d = new Date(entry.date);
+      months.set(index, {
+        start: new Date(d.getFullYear(), d.getMonth(), 1).getTime(),
+        riskLevel: entry.riskLevel,
+        symptoms: [...entry.symptoms],
+      });
+      continue;
+    }
+    if (RISK_ORDER[entry.riskLevel] > RISK_ORDER[month.riskLevel]) {
+      month.riskLevel = entry.riskLevel;
+    }
+    month.symptoms = [...new Set([...month.symptoms, ...entry.symptoms])];
+  }
+
+  return [...months.values()];
+};
+
+const buildTrend = (
+  symptomId: SymptomId,
+  entries: TimelineEntry[],
+  months: TimelineMonth[],
+): SymptomTrend | null => {
+  const reporting = entries.filter((e) => e.symptoms.includes(symptomId));
+  if (reporting.length === 0) return null;
+
+  const presence = months.map((m) => m.symptoms.includes(symptomId));
+  let longestRun = 0;
+  let run = 0;
+  presence.forEach((present, i) => {
+    const followsPrevious =
+      i > 0 && monthIndex(months[i].start) - monthIndex(months[i - 1].start) === 1;
+    run = present ? (followsPrevious ? run + 1 : 1) : 0;
+    longestRun = Math.max(longestRun, run);
+  });
+
+  const firstMonth = presence.indexOf(true);
+  const lastMonth = presence.lastIndexOf(true);
+
+  return {
+    symptomId,
+    firstSeen: Math.min(...reporting.map((e) => e.date)),
+    lastSeen: Math.max(...reporting.map((e) => e.date)),
+    monthsReported: presence.filter(Boolean).length,
+    longestRun,
+    ongoing: presence[presence.length - 1],
+    persistent: longestRun >= PERSISTENCE_MIN_MONTHS,
+    firstRiskLevel: months[firstMonth].riskLevel,
+    lastRiskLevel: months[lastMonth].riskLevel,
+    presence,
+  };
+};
+
+// ── Timeline ───────────────────────────────────────────────
+
+/**
+ * Merge exam and self-check history into one timeline with per-symptom
+ * trends
+ */
+export const buildHistoryTimeline = (
+  exams: CheckRecord[],
+  selfChecks: CheckRecord[],
+): HistoryTimeline => {
+  const toEntry = (source: RiskProfileId, record: CheckRecord): TimelineEntry => ({
+    id: record.id,
+    source,
+    date: record.date,
+    riskLevel: record.result.riskLevel,
+    symptoms: getReportedSymptoms(source, record.answers),
+  });
+
+  const entries = [
+    ...exams.map((record) => toEntry('questionnaire', record)),
+    ...selfChecks.map((record) => toEntry('self_check', record)),
+  ].sort((a, b) => b.date - a.date);
+
+  const months = groupByMonth(entries);
+
+  const trends = SYMPTOM_IDS.map((symptomId) => buildTrend(symptomId, entries, months))
+    .filter((trend): trend is SymptomTrend => trend !== null)
+    .sort((a, b) => Number(b.persistent) - Number(a.persistent) || b.lastSeen - a.lastSeen);
+
+  let riskTrend: RiskTrend | null = null;
+  if (months.length >= 2) {
+    const delta =
+      RISK_ORDER[months[months.length - 1].riskLevel] -
+      RISK_ORDER[months[months.length - 2].riskLevel];
+    riskTrend = delta > 0 ? 'worsening' : delta < 0 ? 'improving' : 'stable';
+  }
+
+  return { entries, months, trends, riskTrend };
+};
@@ -0,0 +1,147 @@
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AssistantError } from '../assistantErrors';
+import { createAssistantProvider } from '../assistantProvider';
+import { streamMessages, type StreamFetch } from '../messagesStream';
+
+// ── Local SSE stub ─────────────────────────────────────────
+
+type Handler = (res: ServerResponse, requestIndex: number) => void;
+
+let server: Server | null = null;
+
+const startServer = async (handler: Handler) => {
+  let requests = 0;
+  server = createServer((req, res) => {
+    req.resume();
+    handler(res, requests++);
+  });
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/v1/messages`, requestCount: () => requests };
+};
+
+afterEach(async () => {
+  if (!server) return;
+  server.closeAllConnections();
+  await new Promise((resolve) => server!.close(resolve));
+  server = null;
+});
+
+const sendEvent = (res: ServerResponse, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const sendDelta = (res: ServerResponse, text: string) =>
+  sendEvent(res, 'content_block_delta', { delta: { type: 'text_delta', text } });
+
+const openStream = (res: ServerResponse) =>
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+
+const nodeFetch = fetch as unknown as StreamFetch;
+
+const request = {
+  system: 'system',
+  messages: [{ role: 'user' as const, content: 'Hi' }],
+  maxTokens: 64,
+};
+
+const proxyProvider = (url: string) =>
+  createAssistantProvider(
+    {
+      provider: 'proxy',
+      proxyUrl: url,
+      timeoutMs: 1000,
+      idleTimeoutMs: 100,
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+    },
+    nodeFetch,
+  );
+
+// ── Tests ──────────────────────────────────────────────────
+
+describe('streamMessages', () => {
+  it('resolves with the streamed text', async () => {
+    const { url } = await startServer((res) => {
+      openStream(res);
+      sendDelta(res, 'Hello ');
+      sendDelta(res, 'world');
+      sendEvent(res, 'message_stop', {});
+      res.end();
+    });
+
+    const deltas: string[] = [];
+    const text = await streamMessages({
+      fetch: nodeFetch,
+      url,
+      body: {},
+      onText: (delta) => deltas.push(delta),
+    });
+
+    expect(text).toBe('Hello world');
+    expect(deltas).toEqual(['Hello ', 'world']);
+  });
+
+  it('marks an idle timeout after some text as partial', async () => {
+    const { url } = await startServer((res) => {
+      openStream(res);
+      sendDelta(res, 'Hello ');
+      // Then stalls
+    });
+
+    const error = await streamMessages({
+      fetch: nodeFetch,
+      url,
+      body: {},
+      idleTimeoutMs: 100,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AssistantError);
+    expect((error as AssistantError).code).toBe('timeout');
+    expect((error as AssistantError).partial).toBe(true);
+    expect((error as AssistantError).retryable).toBe(false);
+  });
+});
+
+describe('assistant provider retries', () => {
+  it('does not retry a stream that stalled after text', async () => {
+    const { url, requestCount } = await startServer((res) => {
+      openStream(res);
+      sendDelta(res, 'Hello ');
+    });
+
+    let shown = '';
+    const error = await proxyProvider(url)
+      .complete({ ...request, onText: (delta) => (shown += delta) })
+      .catch((e: unknown) => e);
+
+    expect((error as AssistantError).code).toBe('timeout');
+    expect(requestCount()).toBe(1);
+    expect(shown).toBe('Hello ');
+  });
+
+  it('retries a failure that happened before any text', async () => {
+    const { url, requestCount } = await startServer((res, index) => {
+      if (index === 0) {
+        res.writeHead(503).end();
+        return;
+      }
+      openStream(res);
+      sendDelta(res, 'Hello');
+      sendEvent(res, 'message_stop', {});
+      res.end();
+    });
+
+    let shown = '';
+    const text = await proxyProvider(url).complete({
+      ...request,
+      onText: (delta) => (shown += delta),
+    });
+
+    expect(text).toBe('Hello');
+    expect(shown).toBe('Hello');
+    expect(requestCount()).toBe(2);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Assistant Errors
+ * Typed error model shared by every assistant provider, so callers can
+ * decide between retrying, falling back offline or keeping partial text
+ * without inspecting transport details.
+ */
+
+export type AssistantErrorCode =
+  /** No provider is configured (offline mode, missing key or URL) */
+  | 'offline'
+  /** No response or first token in time, or the stream went silent */
+  | 'timeout'
+  /** Request could not reach the server */
+  | 'network'
+  /** HTTP 429 */
+  | 'rate_limited'
+  /** HTTP 401/403: bad key or expired session */
+  | 'unauthorized'
+  /** Other HTTP 4xx */
+  | 'bad_request'
+  /** HTTP 5xx or an error event before any text */
+  | 'server'
+  /** Stream broke after text was received */
+  | 'interrupted'
+  /** Unparseable payload */
+  | 'invalid_response'
+  /** Cancelled by the caller */
+  | 'aborted';
+
+const RETRYABLE_CODES: AssistantErrorCode[] = ['timeout', 'network', 'rate_limited', 'server'];
+
+export class AssistantError extends Error {
+  readonly code: AssistantErrorCode;
+  readonly status?: number;
+  /** Some text was already delivered through onText */
+  readonly partial: boolean;
+
+  constructor(code: AssistantErrorCode, options: { status?: number; partial?: boolean } = {}) {
+    super(options.status ? `${code} (HTTP ${options.status})` : code);
+    this.name = 'AssistantError';
+    this.code = code;
+    this.status = options.status;
+    this.partial = options.partial ?? false;
+  }
+
+  /**
+   * Worth another attempt: transient failure and nothing shown yet
+   * (retrying after partial text would repeat it).
+   */
+  get retryable(): boolean {
+    return !this.partial && RETRYABLE_CODES.includes(this.code);
+  }
+
+  static fromStatus(status: number): AssistantError {
+    if (status === 429) return new AssistantError('rate_limited', { status });
+    if (status === 401 || status === 403) return new AssistantError('unauthorized', { status });
+    if (status >= 500) return new AssistantError('server', { status });
+    return new AssistantError('bad_request', { status });
+  }
+}
+
+export const isAssistantError = (error: unknown): error is AssistantError =>
+  error instanceof AssistantError;
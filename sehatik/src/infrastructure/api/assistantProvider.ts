@@ -0,0 +1,216 @@
+/**
+ * Assistant Provider
+ * Single entry point for LLM calls (chat assistant, self-check
+ * clarifications). The implementation is chosen by config:
+ *
+ *   - 'proxy'   : self-hosted endpoint that holds the API key and model
+ *                 (default for release builds)
+ *   - 'direct'  : Anthropic API with a key from the app config, DEV ONLY:
+ *                 a key in the bundle can be extracted
+ *   - 'offline' : never touches the network, callers use their offline
+ *                 content
+ *
+ * Config (expoConfig.extra): ASSISTANT_PROVIDER, ASSISTANT_PROXY_URL,
+ * ANTHROPIC_API_KEY, ANTHROPIC_API_URL, ASSISTANT_MODEL.
+ */
+
+import { AssistantError } from './assistantErrors';
+import {
+  ANTHROPIC_VERSION,
+  DEFAULT_ANTHROPIC_API_URL,
+  streamMessages,
+  type StreamFetch,
+  type StreamMessage,
+} from './messagesStream';
+
+// ── Types ──────────────────────────────────────────────────
+
+export type AssistantProviderId = 'direct' | 'proxy' | 'offline';
+
+export interface AssistantRequest {
+  system: string;
+  messages: StreamMessage[];
+  maxTokens: number;
+  signal?: AbortSignal;
+  /** Stream text deltas as they arrive */
+  onText?: (delta: string) => void;
+}
+
+export interface AssistantProvider {
+  id: AssistantProviderId;
+  /**
+   * Full reply text. Rejects with an AssistantError; transient failures
+   * are retried before any text is delivered.
+   */
+  complete: (request: AssistantRequest) => Promise<string>;
+}
+
+export interface AssistantConfig {
+  provider: AssistantProviderId;
+  proxyUrl?: string;
+  apiKey?: string;
+  apiUrl?: string;
+  model?: string;
+  /** Direct mode is refused unless set (dev builds only) */
+  allowDirect?: boolean;
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+export const DEFAULT_ASSISTANT_MODEL = 'claude-sonnet-4-20250514';
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 800;
+
+/** Placeholder from .env.example, treated as no key */
+const PLACEHOLDER_API_KEY = 'your_anthropic_key_here';
+
+// ── Retry ──────────────────────────────────────────────────
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AssistantError('aborted'));
+    };
+    signal?.addEventListener('abort', onAbort);
+  });
+
+/**
+ * Run `attempt` until it succeeds, fails with a non-retryable error or
+ * runs out of retries. Backoff doubles after each failure.
+ */
+const withRetries = async (
+  attempt: () => Promise<string>,
+  { maxRetries, baseDelayMs, signal }: { maxRetries: number; baseDelayMs: number; signal?: AbortSignal },
+): Promise<string> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      const typed = error instanceof AssistantError ? error : new AssistantError('network');
+      if (!typed.retryable || retry >= maxRetries) throw typed;
+      await wait(baseDelayMs * 2 ** retry, signal);
+    }
+  }
+};
+
+// ── Implementations ────────────────────────────────────────
+
+export const createOfflineProvider = (): AssistantProvider => ({
+  id: 'offline',
+  complete: async () => {
+    throw new AssistantError('offline');
+  },
+});
+
+const createStreamingProvider = (
+  id: 'direct' | 'proxy',
+  fetch: StreamFetch,
+  config: AssistantConfig,
+  url: string,
+  headers: Record<string, string>,
+  model?: string,
+): AssistantProvider => ({
+  id,
+  complete: ({ system, messages, maxTokens, signal, onText }) =>
+    withRetries(
+      () =>
+        streamMessages({
+          fetch,
+          url,
+          headers,
+          body: { ...(model ? { model } : {}), system, messages, max_tokens: maxTokens },
+          signal,
+          timeoutMs: config.timeoutMs,
+          idleTimeoutMs: config.idleTimeoutMs,
+          onText,
+        }),
+      {
+        maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+        baseDelayMs: config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+        signal,
+      },
+    ),
+});
+
+/**
+ * Build the provider described by `config`. Falls back to offline when
+ * the chosen provider is not usable (missing URL or key, direct mode
+ * outside dev builds).
+ */
+export const createAssistantProvider = (
+  config: AssistantConfig,
+  fetch: StreamFetch,
+): AssistantProvider => {
+  if (config.provider === 'proxy' && config.proxyUrl) {
+    // The proxy picks the model and adds the key
+    return createStreamingProvider('proxy', fetch, config, config.proxyUrl, {});
+  }
+
+  if (
+    config.provider === 'direct' &&
+    config.allowDirect &&
+    config.apiKey &&
+    config.apiKey !== PLACEHOLDER_API_KEY
+  ) {
+    const apiUrl = (config.apiUrl ?? DEFAULT_ANTHROPIC_API_URL).replace(/\/+$/, '');
+    return createStreamingProvider(
+      'direct',
+      fetch,
+      config,
+      `${apiUrl}/v1/messages`,
+      { 'x-api-key': config.apiKey, 'anthropic-version': ANTHROPIC_VERSION },
+      config.model ?? DEFAULT_ASSISTANT_MODEL,
+    );
+  }
+
+  return createOfflineProvider();
+};
+
+// ── App instance ───────────────────────────────────────────
+
+let appProvider: Promise<AssistantProvider> | null = null;
+
+const readAppConfig = async (): Promise<AssistantConfig> => {
+  const Constants = await import('expo-constants');
+  const extra = Constants.default.expoConfig?.extra ?? {};
+  const provider: AssistantProviderId =
+    extra.ASSISTANT_PROVIDER === 'direct' || extra.ASSISTANT_PROVIDER === 'offline'
+      ? extra.ASSISTANT_PROVIDER
+      : 'proxy';
+
+  return {
+    provider,
+    proxyUrl: extra.ASSISTANT_PROXY_URL,
+    apiKey: extra.ANTHROPIC_API_KEY,
+    apiUrl: extra.ANTHROPIC_API_URL,
+    model: extra.ASSISTANT_MODEL,
+    allowDirect: __DEV__,
+  };
+};
+
+/**
+ * Provider shared by the chat and self-check stores (built once)
+ */
+export const getAssistantProvider = (): Promise<AssistantProvider> => {
+  if (!appProvider) {
+    appProvider = (async () => {
+      try {
+        const [config, { fetch }] = await Promise.all([readAppConfig(), import('expo/fetch')]);
+        return createAssistantProvider(config, fetch);
+      } catch {
+        return createOfflineProvider();
+      }
+    })();
+  }
+  return appProvider;
+};
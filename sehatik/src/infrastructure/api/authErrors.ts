@@ -0,0 +1,69 @@
+/**
+ * Auth Errors
+ * Typed error model shared by every auth provider, so the auth store can
+ * tell the user what to do (fix the number, wait, retry) without
+ * inspecting transport details.
+ */
+
+export type AuthErrorCode =
+  /** Not a Moroccan mobile number */
+  | 'invalid_phone'
+  /** Wrong code */
+  | 'invalid_code'
+  /** Code too old, or no code requested for this number */
+  | 'code_expired'
+  /** A code was sent too recently */
+  | 'cooldown'
+  /** Too many codes requested */
+  | 'rate_limited'
+  /** Too many wrong codes: locked until `retryAt` */
+  | 'locked'
+  /** Refresh token rejected: the number must be verified again */
+  | 'session_expired'
+  /** No auth backend configured for this build */
+  | 'unavailable'
+  /** Request could not reach the server, or timed out */
+  | 'network'
+  /** HTTP 5xx, an unexpected 4xx or an unparseable reply */
+  | 'server';
+
+const SERVER_CODES: AuthErrorCode[] = [
+  'invalid_phone',
+  'invalid_code',
+  'code_expired',
+  'cooldown',
+  'rate_limited',
+  'locked',
+  'session_expired',
+];
+
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+  readonly status?: number;
+  /** When the action may be tried again (cooldown, rate limit, lockout) */
+  readonly retryAt?: number;
+
+  constructor(code: AuthErrorCode, options: { status?: number; retryAt?: number } = {}) {
+    super(options.status ? `${code} (HTTP ${options.status})` : code);
+    this.name = 'AuthError';
+    this.code = code;
+    this.status = options.status;
+    this.retryAt = options.retryAt;
+  }
+
+  /**
+   * Map an HTTP error reply. The body's `error` field is trusted when it
+   * is a known code; otherwise the status decides.
+   */
+  static fromResponse(status: number, bodyCode: unknown, retryAt?: number): AuthError {
+    if (typeof bodyCode === 'string' && SERVER_CODES.includes(bodyCode as AuthErrorCode)) {
+      return new AuthError(bodyCode as AuthErrorCode, { status, retryAt });
+    }
+    if (status === 429) return new AuthError('rate_limited', { status, retryAt });
+    if (status === 423) return new AuthError('locked', { status, retryAt });
+    if (status === 401 || status === 403) return new AuthError('session_expired', { status });
+    return new AuthError('server', { status });
+  }
+}
+
+export const isAuthError = (error: unknown): error is AuthError => error instanceof AuthError;
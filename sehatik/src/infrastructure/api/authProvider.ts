@@ -0,0 +1,232 @@
+/**
+ * Auth Provider
+ * Phone number verification by SMS code. The implementation is chosen
+ * by config:
+ *
+ *   - 'http' : Sehatik auth API (default)
+ *   - 'mock' : in-app mock server with a fixed code, DEV ONLY
+ *              (see mockAuthProvider)
+ *
+ * HTTP API (JSON bodies, durations in seconds):
+ *   POST /auth/otp          { phone }                   -> { expiresIn, resendIn }
+ *   POST /auth/otp/verify   { phone, code, guestId? }   -> session
+ *   POST /auth/token        { refreshToken }            -> session
+ *   POST /auth/logout       { refreshToken }
+ *   session = { userId, accessToken, refreshToken, expiresIn }
+ *   errors  = { error: AuthErrorCode }, with Retry-After on 423/429
+ *
+ * Config (expoConfig.extra): AUTH_PROVIDER, AUTH_API_URL (falls back to
+ * API_BASE_URL).
+ */
+
+import { AuthError, isAuthError } from './authErrors';
+
+// ── Types ──────────────────────────────────────────────────
+
+export type AuthProviderId = 'http' | 'mock';
+
+export interface OtpChallenge {
+  /** E.164 number the code was sent to */
+  phone: string;
+  expiresAt: number;
+  resendAvailableAt: number;
+}
+
+export interface AuthSession {
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  /** Access token expiry */
+  expiresAt: number;
+}
+
+export interface AuthProvider {
+  id: AuthProviderId;
+  /** Send a code by SMS. `phone` is E.164. Rejects with an AuthError. */
+  requestOtp: (phone: string) => Promise<OtpChallenge>;
+  /**
+   * Check a code. `guestId` links the guest's account to the verified
+   * number, so nothing recorded as a guest is lost.
+   */
+  verifyOtp: (phone: string, code: string, guestId?: string) => Promise<AuthSession>;
+  refreshSession: (refreshToken: string) => Promise<AuthSession>;
+  /** Revoke the refresh token (best effort) */
+  signOut: (refreshToken: string) => Promise<void>;
+}
+
+export interface AuthConfig {
+  provider: AuthProviderId;
+  apiUrl?: string;
+  /** The mock is refused unless set (dev builds only) */
+  allowMock?: boolean;
+  timeoutMs?: number;
+}
+
+export type AuthFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string; signal?: AbortSignal },
+) => Promise<{
+  ok: boolean;
+  status: number;
+  headers: { get: (name: string) => string | null };
+  json: () => Promise<unknown>;
+}>;
+
+// ── Constants ──────────────────────────────────────────────
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// ── Implementations ────────────────────────────────────────
+
+export const createUnavailableProvider = (): AuthProvider => {
+  const fail = async (): Promise<never> => {
+    throw new AuthError('unavailable');
+  };
+  return {
+    id: 'http',
+    requestOtp: fail,
+    verifyOtp: fail,
+    refreshSession: fail,
+    signOut: async () => {},
+  };
+};
+
+/** Retry-After is either seconds or an HTTP date */
+const parseRetryAfter = (value: string | null, now: number): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return now + seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date;
+};
+
+const toSession = (body: unknown, now: number): AuthSession => {
+  const { userId, accessToken, refreshToken, expiresIn } = (body ?? {}) as Record<string, unknown>;
+  if (
+    typeof userId !== 'string' ||
+    typeof accessToken !== 'string' ||
+    typeof refreshToken !== 'string' ||
+    typeof expiresIn !== 'number'
+  ) {
+    throw new AuthError('server');
+  }
+  return { userId, accessToken, refreshToken, expiresAt: now + expiresIn * 1000 };
+};
+
+export const createHttpAuthProvider = (
+  apiUrl: string,
+  fetch: AuthFetch,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): AuthProvider => {
+  const baseUrl = apiUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, payload: Record<string, unknown>): Promise<unknown> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw AuthError.fromResponse(
+          response.status,
+          (body as { error?: unknown } | null)?.error,
+          parseRetryAfter(response.headers.get('retry-after'), Date.now()),
+        );
+      }
+      return body;
+    } catch (error) {
+      if (isAuthError(error)) throw error;
+      throw new AuthError('network');
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    id: 'http',
+
+    requestOtp: async (phone) => {
+      const now = Date.now();
+      const { expiresIn, resendIn } = ((await post('/auth/otp', { phone })) ?? {}) as Record<
+        string,
+        unknown
+      >;
+      if (typeof expiresIn !== 'number' || typeof resendIn !== 'number') {
+        throw new AuthError('server');
+      }
+      return { phone, expiresAt: now + expiresIn * 1000, resendAvailableAt: now + resendIn * 1000 };
+    },
+
+    verifyOtp: async (phone, code, guestId) => {
+      const now = Date.now();
+      return toSession(await post('/auth/otp/verify', { phone, code, guestId }), now);
+    },
+
+    refreshSession: async (refreshToken) => {
+      const now = Date.now();
+      return toSession(await post('/auth/token', { refreshToken }), now);
+    },
+
+    signOut: async (refreshToken) => {
+      try {
+        await post('/auth/logout', { refreshToken });
+      } catch {
+        // Fail silently: the tokens are deleted locally anyway
+      }
+    },
+  };
+};
+
+// ── App instance ───────────────────────────────────────────
+
+let appProvider: Promise<AuthProvider> | null = null;
+
+const readAppConfig = async (): Promise<AuthConfig> => {
+  const Constants = await import('expo-constants');
+  const extra = Constants.default.expoConfig?.extra ?? {};
+  return {
+    provider: extra.AUTH_PROVIDER === 'mock' ? 'mock' : 'http',
+    apiUrl: extra.AUTH_API_URL ?? extra.API_BASE_URL,
+    allowMock: __DEV__,
+  };
+};
+
+/**
+ * Build the provider described by `config`. Without an API URL (or with
+ * the mock outside dev builds) every call fails with 'unavailable' and
+ * the app can still be used as a guest.
+ */
+export const createAuthProvider = async (
+  config: AuthConfig,
+  fetch: AuthFetch,
+): Promise<AuthProvider> => {
+  if (config.provider === 'mock' && config.allowMock) {
+    const { createMockAuthProvider } = await import('./mockAuthProvider');
+    return createMockAuthProvider();
+  }
+  if (config.provider === 'http' && config.apiUrl) {
+    return createHttpAuthProvider(config.apiUrl, fetch, config.timeoutMs);
+  }
+  return createUnavailableProvider();
+};
+
+/**
+ * Provider used by the auth store (built once)
+ */
+export const getAuthProvider = (): Promise<AuthProvider> => {
+  if (!appProvider) {
+    appProvider = (async () => {
+      try {
+        return await createAuthProvider(await readAppConfig(), fetch);
+      } catch {
+        return createUnavailableProvider();
+      }
+    })();
+  }
+  return appProvider;
+};
@@ -0,0 +1,37 @@
+/**
+ * Backup Errors
+ * Typed error model shared by every backup provider, so the backup store
+ * can tell the user what to do (verify the number, retry, check the
+ * passphrase) without inspecting transport details.
+ */
+
+export type BackupErrorCode =
+  /** No verified account, or its session expired: backups belong to a verified number */
+  | 'unauthenticated'
+  /** The passphrase does not open the existing backup */
+  | 'wrong_passphrase'
+  /** No backup backend configured for this build */
+  | 'unavailable'
+  /** Request could not reach the server, or timed out */
+  | 'network'
+  /** HTTP 5xx, an unexpected 4xx or an unparseable reply */
+  | 'server';
+
+export class BackupError extends Error {
+  readonly code: BackupErrorCode;
+  readonly status?: number;
+
+  constructor(code: BackupErrorCode, options: { status?: number } = {}) {
+    super(options.status ? `${code} (HTTP ${options.status})` : code);
+    this.name = 'BackupError';
+    this.code = code;
+    this.status = options.status;
+  }
+
+  static fromStatus(status: number): BackupError {
+    if (status === 401 || status === 403) return new BackupError('unauthenticated', { status });
+    return new BackupError('server', { status });
+  }
+}
+
+export const isBackupError = (error: unknown): error is BackupError => error instanceof BackupError;
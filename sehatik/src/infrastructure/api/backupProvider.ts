@@ -0,0 +1,210 @@
+/**
+ * Backup Provider
+ * Storage for the encrypted backup. Items are opaque ciphertext (see
+ * backupCrypto): the backend never sees the passphrase or any health
+ * data. The implementation is chosen by config:
+ *
+ *   - 'http' : Sehatik backup API (default); any server speaking the API
+ *              below works, including a local stand-in for testing
+ *   - 'mock' : in-app stand-in kept on the phone, DEV ONLY
+ *              (see mockBackupProvider)
+ *
+ * HTTP API (JSON bodies, `Authorization: Bearer <access token>`; the
+ * account is the verified phone number, see authProvider):
+ *   GET    /backup/vault   -> BackupVaultParams, 404 when none
+ *   PUT    /backup/vault   BackupVaultParams
+ *   GET    /backup/items   -> { items: BackupItem[] }
+ *   PUT    /backup/items   { items: BackupItem[] }  (upsert by id)
+ *   DELETE /backup         vault and items
+ *
+ * Config (expoConfig.extra): BACKUP_PROVIDER, BACKUP_API_URL (falls back
+ * to API_BASE_URL).
+ */
+
+import { BackupError, isBackupError } from './backupErrors';
+import type { BackupItem, BackupVaultParams } from '../security/backupCrypto';
+
+// ── Types ──────────────────────────────────────────────────
+
+export type BackupProviderId = 'http' | 'mock';
+
+export interface BackupProvider {
+  id: BackupProviderId;
+  /** Vault of the account, or null when it has no backup yet */
+  getVault: (token: string) => Promise<BackupVaultParams | null>;
+  createVault: (token: string, params: BackupVaultParams) => Promise<void>;
+  listItems: (token: string) => Promise<BackupItem[]>;
+  putItems: (token: string, items: BackupItem[]) => Promise<void>;
+  /** Delete the whole backup (account deletion) */
+  deleteBackup: (token: string) => Promise<void>;
+}
+
+export interface BackupConfig {
+  provider: BackupProviderId;
+  apiUrl?: string;
+  /** The mock is refused unless set (dev builds only) */
+  allowMock?: boolean;
+  timeoutMs?: number;
+}
+
+export type BackupFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string; signal?: AbortSignal },
+) => Promise<{
+  ok: boolean;
+  status: number;
+  json: () => Promise<unknown>;
+}>;
+
+// ── Constants ──────────────────────────────────────────────
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// ── Implementations ────────────────────────────────────────
+
+export const createUnavailableProvider = (): BackupProvider => {
+  const fail = async (): Promise<never> => {
+    throw new BackupError('unavailable');
+  };
+  return {
+    id: 'http',
+    getVault: fail,
+    createVault: fail,
+    listItems: fail,
+    putItems: fail,
+    deleteBackup: fail,
+  };
+};
+
+const isVaultParams = (body: unknown): body is BackupVaultParams => {
+  const { v, kdf, iterations, salt, check } = (body ?? {}) as Record<string, unknown>;
+  return (
+    typeof v === 'number' &&
+    kdf === 'pbkdf2-sha256' &&
+    typeof iterations === 'number' &&
+    typeof salt === 'string' &&
+    typeof check === 'string'
+  );
+};
+
+const isItem = (item: unknown): item is BackupItem =>
+  typeof (item as BackupItem | null)?.id === 'string' &&
+  typeof (item as BackupItem | null)?.data === 'string';
+
+export const createHttpBackupProvider = (
+  apiUrl: string,
+  fetch: BackupFetch,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): BackupProvider => {
+  const baseUrl = apiUrl.replace(/\/+$/, '');
+
+  /** Resolves to null on 404 */
+  const request = async (
+    method: string,
+    path: string,
+    token: string,
+    payload?: unknown,
+  ): Promise<unknown> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          authorization: `Bearer ${token}`,
+          ...(payload !== undefined && { 'content-type': 'application/json' }),
+        },
+        body: payload !== undefined ? JSON.stringify(payload) : undefined,
+        signal: controller.signal,
+      });
+      if (response.status === 404) return null;
+      if (!response.ok) throw BackupError.fromStatus(response.status);
+      return await response.json().catch(() => null);
+    } catch (error) {
+      if (isBackupError(error)) throw error;
+      throw new BackupError('network');
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    id: 'http',
+
+    getVault: async (token) => {
+      const body = await request('GET', '/backup/vault', token);
+      if (body === null) return null;
+      if (!isVaultParams(body)) throw new BackupError('server');
+      return body;
+    },
+
+    createVault: async (token, params) => {
+      await request('PUT', '/backup/vault', token, params);
+    },
+
+    listItems: async (token) => {
+      const body = await request('GET', '/backup/items', token);
+      if (body === null) return [];
+      const { items } = body as { items?: unknown };
+      if (!Array.isArray(items)) throw new BackupError('server');
+      return items.filter(isItem);
+    },
+
+    putItems: async (token, items) => {
+      if (items.length === 0) return;
+      await request('PUT', '/backup/items', token, { items });
+    },
+
+    deleteBackup: async (token) => {
+      await request('DELETE', '/backup', token);
+    },
+  };
+};
+
+// ── App instance ───────────────────────────────────────────
+
+let appProvider: Promise<BackupProvider> | null = null;
+
+const readAppConfig = async (): Promise<BackupConfig> => {
+  const Constants = await import('expo-constants');
+  const extra = Constants.default.expoConfig?.extra ?? {};
+  return {
+    provider: extra.BACKUP_PROVIDER === 'mock' ? 'mock' : 'http',
+    apiUrl: extra.BACKUP_API_URL ?? extra.API_BASE_URL,
+    allowMock: __DEV__,
+  };
+};
+
+/**
+ * Build the provider described by `config`. Without an API URL (or with
+ * the mock outside dev builds) every call fails with 'unavailable'.
+ */
+export const createBackupProvider = async (
+  config: BackupConfig,
+  fetch: BackupFetch,
+): Promise<BackupProvider> => {
+  if (config.provider === 'mock' && config.allowMock) {
+    const { createMockBackupProvider } = await import('./mockBackupProvider');
+    return createMockBackupProvider();
+  }
+  if (config.provider === 'http' && config.apiUrl) {
+    return createHttpBackupProvider(config.apiUrl, fetch, config.timeoutMs);
+  }
+  return createUnavailableProvider();
+};
+
+/**
+ * Provider used by the backup store (built once)
+ */
+export const getBackupProvider = (): Promise<BackupProvider> => {
+  if (!appProvider) {
+    appProvider = (async () => {
+      try {
+        return await createBackupProvider(await readAppConfig(), fetch);
+      } catch {
+        return createUnavailableProvider();
+      }
+    })();
+  }
+  return appProvider;
+};
@@ -0,0 +1,101 @@
+/**
+ * Centers Pack Source
+ * Downloads signed screening center packs. The file at the URL is
+ *
+ *   { "payload": "<the pack, as a JSON string>", "signature": "<hex>" }
+ *
+ * where the signature is Ed25519 over the UTF-8 bytes of `payload`. The
+ * app only holds the public key, so a pack that was not signed by the
+ * publisher (a compromised host, a captive portal page, a cached error)
+ * is refused before its content is read.
+ *
+ * Config (expoConfig.extra): CENTERS_PACK_URL, CENTERS_PACK_PUBLIC_KEY
+ * (hex). Without both, the bundled directory is used as is. Any static
+ * file server works, a local one included.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519.js';
+import { hexToBytes, utf8ToBytes } from '@noble/ciphers/utils.js';
+import { parseCentersPack, type CentersPack } from '../../domain/services/centersPack';
+
+export interface SignedCentersPack {
+  payload: string;
+  signature: string;
+}
+
+export interface CentersPackConfig {
+  url?: string;
+  publicKey?: string;
+  timeoutMs?: number;
+}
+
+export type CentersPackFetchResult =
+  | { status: 'ok'; signed: SignedCentersPack; pack: CentersPack }
+  /** Offline, timed out or an HTTP error: try again later */
+  | { status: 'network' }
+  /** Bad signature or schema: this file must not be used */
+  | { status: 'invalid' };
+
+/** Subset of fetch used here, injectable for tests */
+export type CentersPackFetch = (
+  url: string,
+  init: { signal: AbortSignal },
+) => Promise<{ ok: boolean; json: () => Promise<unknown> }>;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const isSignedPack = (value: unknown): value is SignedCentersPack =>
+  typeof (value as SignedCentersPack | null)?.payload === 'string' &&
+  typeof (value as SignedCentersPack | null)?.signature === 'string';
+
+/**
+ * The pack inside a signed file, or null when the signature does not
+ * match the public key or the pack does not match the schema
+ */
+export const openSignedPack = (signed: unknown, publicKey: string): CentersPack | null => {
+  if (!isSignedPack(signed)) return null;
+  try {
+    const valid = ed25519.verify(
+      hexToBytes(signed.signature),
+      utf8ToBytes(signed.payload),
+      hexToBytes(publicKey),
+    );
+    return valid ? parseCentersPack(JSON.parse(signed.payload)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const fetchCentersPack = async (
+  config: Required<Pick<CentersPackConfig, 'url' | 'publicKey'>> & CentersPackConfig,
+  fetch: CentersPackFetch,
+): Promise<CentersPackFetchResult> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let body: unknown;
+  try {
+    const response = await fetch(config.url, { signal: controller.signal });
+    if (!response.ok) return { status: 'network' };
+    body = await response.json();
+  } catch {
+    return { status: 'network' };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const pack = openSignedPack(body, config.publicKey);
+  return pack ? { status: 'ok', signed: body as SignedCentersPack, pack } : { status: 'invalid' };
+};
+
+/**
+ * Pack settings of this build
+ */
+export const getCentersPackConfig = async (): Promise<CentersPackConfig> => {
+  try {
+    const Constants = await import('expo-constants');
+    const extra = Constants.default.expoConfig?.extra ?? {};
+    return { url: extra.CENTERS_PACK_URL, publicKey: extra.CENTERS_PACK_PUBLIC_KEY };
+  } catch {
+    return {};
+  }
+};
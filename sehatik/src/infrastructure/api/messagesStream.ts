@@ -0,0 +1,234 @@
+/**
+ * Messages Stream Client
+ * Streams an Anthropic Messages API response (or a proxy speaking the
+ * same format) over Server-Sent Events and reports text as it arrives.
+ *
+ * The fetch implementation is injected: the app passes `expo/fetch`
+ * (streaming bodies + AbortSignal on native), tests can pass Node's
+ * global fetch and point `url` at a local mock SSE server.
+ */
+
+import { AssistantError } from './assistantErrors';
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+export interface StreamMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Minimal fetch surface used by the client (global fetch and expo/fetch both fit) */
+export type StreamFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string; signal?: AbortSignal },
+) => Promise<{
+  ok: boolean;
+  status: number;
+  body: ReadableStream<Uint8Array> | null;
+}>;
+
+export interface MessagesStreamOptions {
+  fetch: StreamFetch;
+  /** Full endpoint URL */
+  url: string;
+  /** Extra headers (API key, auth) */
+  headers?: Record<string, string>;
+  /** Request body; `stream: true` is added */
+  body: Record<string, unknown>;
+  signal?: AbortSignal;
+  /** Max wait for the response headers and the first token */
+  timeoutMs?: number;
+  /** Max silence between two chunks once streaming */
+  idleTimeoutMs?: number;
+  /** Called with each text delta, in order */
+  onText?: (delta: string) => void;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+export const DEFAULT_ANTHROPIC_API_URL = 'https://api.anthropic.com';
+export const ANTHROPIC_VERSION = '2023-06-01';
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_IDLE_TIMEOUT_MS = 15000;
+
+// ── SSE parsing ────────────────────────────────────────────
+
+/**
+ * Incremental SSE parser. Chunks may split lines and events anywhere;
+ * an event is emitted on each blank line.
+ */
+export const createSSEParser = (onEvent: (event: SSEEvent) => void) => {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return; // comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') eventName = value;
+    else if (field === 'data') dataLines.push(value);
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // Last element is an incomplete line (or '' after a trailing newline)
+      buffer = lines.pop() ?? '';
+      lines.forEach(processLine);
+    },
+    /** Flush a final event that was not followed by a blank line */
+    end: () => {
+      if (buffer) processLine(buffer);
+      buffer = '';
+      dispatch();
+    },
+  };
+};
+
+// ── Streaming request ──────────────────────────────────────
+
+/**
+ * Stream one assistant reply. Resolves with the full text once
+ * `message_stop` is received, rejects with an AssistantError otherwise
+ * (`aborted` when `signal` fires).
+ */
+export const streamMessages = async ({
+  fetch,
+  url,
+  headers = {},
+  body,
+  signal,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS,
+  onText,
+}: MessagesStreamOptions): Promise<string> => {
+  if (signal?.aborted) throw new AssistantError('aborted');
+
+  // Internal controller: aborted by the caller's signal or by a timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const armTimer = (ms: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, ms);
+  };
+  const onCallerAbort = () => controller.abort();
+  signal?.addEventListener('abort', onCallerAbort);
+
+  let text = '';
+
+  const toError = (error: unknown, fallback: AssistantError): AssistantError => {
+    if (signal?.aborted) return new AssistantError('aborted');
+    // A stall after some text must not be retried: the text would repeat
+    if (timedOut) return new AssistantError('timeout', { partial: text.length > 0 });
+    return error instanceof AssistantError ? error : fallback;
+  };
+
+  try {
+    armTimer(timeoutMs);
+
+    let response: Awaited<ReturnType<StreamFetch>>;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...headers,
+        },
+        body: JSON.stringify({ ...body, stream: true }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw toError(error, new AssistantError('network'));
+    }
+
+    if (!response.ok || !response.body) {
+      throw AssistantError.fromStatus(response.status);
+    }
+
+    let completed = false;
+    let streamError: AssistantError | null = null;
+
+    const parser = createSSEParser(({ event, data }) => {
+      if (completed || streamError) return;
+
+      if (event === 'content_block_delta') {
+        try {
+          const payload = JSON.parse(data);
+          if (payload.delta?.type === 'text_delta' && typeof payload.delta.text === 'string') {
+            if (!text) armTimer(idleTimeoutMs);
+            text += payload.delta.text;
+            onText?.(payload.delta.text);
+          }
+        } catch {
+          streamError = new AssistantError('invalid_response', { partial: text.length > 0 });
+        }
+      } else if (event === 'message_stop') {
+        completed = true;
+      } else if (event === 'error') {
+        streamError = new AssistantError(text ? 'interrupted' : 'server', {
+          partial: text.length > 0,
+        });
+      }
+    });
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    try {
+      while (!completed && !streamError) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        // Keep-alives count as activity once the first token arrived
+        if (text) armTimer(idleTimeoutMs);
+        parser.push(decoder.decode(value, { stream: true }));
+      }
+      parser.push(decoder.decode());
+      parser.end();
+    } catch (error) {
+      throw toError(error, new AssistantError('interrupted', { partial: text.length > 0 }));
+    } finally {
+      reader.cancel().catch(() => {
+        // Already closed
+      });
+    }
+
+    if (signal?.aborted) throw new AssistantError('aborted');
+    if (streamError) throw streamError;
+    if (!completed) throw new AssistantError('interrupted', { partial: text.length > 0 });
+
+    return text;
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+};
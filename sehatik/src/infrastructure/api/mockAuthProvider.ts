@@ -0,0 +1,124 @@
+/**
+ * Mock Auth Provider
+ * In-app stand-in for the auth API, for dev builds and demos: no SMS is
+ * sent and the code is always MOCK_OTP_CODE. It applies the same limits
+ * as the real server (see otpPolicy), so cooldowns, lockouts and token
+ * refresh can be exercised without a backend. State lives in memory and
+ * is reset when the app restarts.
+ */
+
+import * as Crypto from 'expo-crypto';
+import {
+  getRequestBlock,
+  getVerifyBlock,
+  INITIAL_OTP_STATE,
+  OTP_TTL_MS,
+  recordFailedAttempt,
+  recordOtpRequest,
+  recordVerified,
+  type OtpAttemptState,
+} from '../../domain/services/otpPolicy';
+import { normalizeMoroccanMobile } from '../../domain/services/phoneNumber';
+import { AuthError } from './authErrors';
+import type { AuthProvider, AuthSession } from './authProvider';
+
+export const MOCK_OTP_CODE = '123456';
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const LATENCY_MS = 800;
+
+interface MockPhoneState {
+  attempts: OtpAttemptState;
+  codeExpiresAt: number | null;
+}
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+
+export const createMockAuthProvider = (): AuthProvider => {
+  const phones = new Map<string, MockPhoneState>();
+  const userIds = new Map<string, string>();
+  /** refresh token -> user id */
+  const refreshTokens = new Map<string, string>();
+
+  const phoneState = (phone: string): MockPhoneState =>
+    phones.get(phone) ?? { attempts: INITIAL_OTP_STATE, codeExpiresAt: null };
+
+  const issueSession = (userId: string): AuthSession => {
+    const refreshToken = Crypto.randomUUID();
+    refreshTokens.set(refreshToken, userId);
+    return {
+      userId,
+      accessToken: Crypto.randomUUID(),
+      refreshToken,
+      expiresAt: Date.now() + ACCESS_TOKEN_TTL_MS,
+    };
+  };
+
+  const validPhone = (phone: string): string => {
+    const normalized = normalizeMoroccanMobile(phone);
+    if (!normalized) throw new AuthError('invalid_phone', { status: 400 });
+    return normalized;
+  };
+
+  return {
+    id: 'mock',
+
+    requestOtp: async (phone) => {
+      await delay();
+      const normalized = validPhone(phone);
+      const now = Date.now();
+      const state = phoneState(normalized);
+
+      const block = getRequestBlock(state.attempts, now);
+      if (block) throw new AuthError(block.reason, { status: 429, retryAt: block.until });
+
+      const attempts = recordOtpRequest(state.attempts, now);
+      phones.set(normalized, { attempts, codeExpiresAt: now + OTP_TTL_MS });
+      return {
+        phone: normalized,
+        expiresAt: now + OTP_TTL_MS,
+        resendAvailableAt: attempts.resendAvailableAt ?? now,
+      };
+    },
+
+    verifyOtp: async (phone, code, guestId) => {
+      await delay();
+      const normalized = validPhone(phone);
+      const now = Date.now();
+      const state = phoneState(normalized);
+
+      const block = getVerifyBlock(state.attempts, now);
+      if (block) throw new AuthError('locked', { status: 423, retryAt: block.until });
+      if (state.codeExpiresAt === null || state.codeExpiresAt < now) {
+        throw new AuthError('code_expired', { status: 400 });
+      }
+
+      if (code !== MOCK_OTP_CODE) {
+        const attempts = recordFailedAttempt(state.attempts, now);
+        phones.set(normalized, { ...state, attempts });
+        throw attempts.lockedUntil !== null && attempts.lockedUntil > now
+          ? new AuthError('locked', { status: 423, retryAt: attempts.lockedUntil })
+          : new AuthError('invalid_code', { status: 400 });
+      }
+
+      phones.set(normalized, { attempts: recordVerified(), codeExpiresAt: null });
+      // A new number keeps the guest's id, so the upgrade loses nothing
+      const userId = userIds.get(normalized) ?? guestId ?? `user_${Crypto.randomUUID()}`;
+      userIds.set(normalized, userId);
+      return issueSession(userId);
+    },
+
+    refreshSession: async (refreshToken) => {
+      await delay();
+      const userId = refreshTokens.get(refreshToken);
+      if (!userId) throw new AuthError('session_expired', { status: 401 });
+      // Rotation: each refresh token works once
+      refreshTokens.delete(refreshToken);
+      return issueSession(userId);
+    },
+
+    signOut: async (refreshToken) => {
+      refreshTokens.delete(refreshToken);
+    },
+  };
+};
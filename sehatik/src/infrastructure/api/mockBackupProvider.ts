@@ -0,0 +1,61 @@
+/**
+ * Mock Backup Provider
+ * In-app stand-in for the backup API, for dev builds and demos. It holds
+ * a single backup for whoever is signed in, in AsyncStorage under a key
+ * outside the app's @sehatik_ namespace: "delete my data" leaves it in
+ * place like a real server would, so a restore can be tried on the same
+ * phone. Items are stored exactly as uploaded (encrypted).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { BackupProvider } from './backupProvider';
+import type { BackupItem, BackupVaultParams } from '../security/backupCrypto';
+
+const MOCK_BACKUP_KEY = 'sehatik_mock_backup_server';
+const LATENCY_MS = 800;
+
+interface MockBackup {
+  vault: BackupVaultParams | null;
+  items: Record<string, string>;
+}
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+
+const read = async (): Promise<MockBackup> => {
+  const data = await AsyncStorage.getItem(MOCK_BACKUP_KEY);
+  return data ? (JSON.parse(data) as MockBackup) : { vault: null, items: {} };
+};
+
+const write = (backup: MockBackup) => AsyncStorage.setItem(MOCK_BACKUP_KEY, JSON.stringify(backup));
+
+export const createMockBackupProvider = (): BackupProvider => ({
+  id: 'mock',
+
+  getVault: async () => {
+    await delay();
+    return (await read()).vault;
+  },
+
+  createVault: async (_token, params) => {
+    await delay();
+    await write({ vault: params, items: {} });
+  },
+
+  listItems: async () => {
+    await delay();
+    const { items } = await read();
+    return Object.entries(items).map(([id, data]): BackupItem => ({ id, data }));
+  },
+
+  putItems: async (_token, items) => {
+    await delay();
+    const backup = await read();
+    for (const item of items) backup.items[item.id] = item.data;
+    await write(backup);
+  },
+
+  deleteBackup: async () => {
+    await delay();
+    await AsyncStorage.removeItem(MOCK_BACKUP_KEY);
+  },
+});
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { parseCentersPack } from '../../../domain/services/centersPack';
+import bundledPack from '../centersPack.json';
+
+describe('bundled centers pack', () => {
+  it('matches the pack format', () => {
+    expect(parseCentersPack(bundledPack)).not.toBeNull();
+  });
+
+  it('keeps every center', () => {
+    expect(parseCentersPack(bundledPack)?.centers).toHaveLength(bundledPack.centers.length);
+  });
+});
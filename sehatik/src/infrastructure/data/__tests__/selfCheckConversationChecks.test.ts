@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  simulateAllConversations,
+  validateConversationScripts,
+} from '../selfCheckConversationChecks';
+import type { ConversationNode } from '../selfCheckConversations';
+
+describe('validateConversationScripts', () => {
+  it('finds no issue in the shipped scripts', () => {
+    expect(validateConversationScripts()).toEqual([]);
+  });
+
+  it('reports broken scripts', () => {
+    const scripts: Record<string, ConversationNode[]> = {
+      step: [
+        {
+          type: 'conditional',
+          dependsOn: 'later',
+          showWhen: ['maybe'],
+          children: [{ type: 'assistant_message', id: 'hint', textKey: 'common.yes' }],
+        },
+        {
+          type: 'question',
+          id: 'later',
+          textKey: 'missing.key',
+          options: [
+            { value: 'yes', labelKey: 'common.yes' },
+            { value: 'yes', labelKey: 'common.yes' },
+          ],
+        },
+      ],
+    };
+
+    const codes = validateConversationScripts(scripts).map((issue) => issue.code);
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        'forward_dependency',
+        'invalid_show_when',
+        'missing_translation',
+        'duplicate_option',
+      ]),
+    );
+  });
+});
+
+describe('simulateAllConversations', () => {
+  it('reaches every node of every step', () => {
+    const report = simulateAllConversations();
+    for (const step of report.steps) {
+      expect(step.unreachableNodeIds, step.stepId).toEqual([]);
+      expect(step.paths.length, step.stepId).toBeGreaterThan(0);
+    }
+  });
+
+  it('scores every path against the self-check rules', () => {
+    const report = simulateAllConversations();
+    expect(report.minScore).toBeLessThanOrEqual(report.maxScore);
+    // Reporting every symptom must be able to raise the level
+    const levels = new Set(report.steps.flatMap((s) => s.paths.map((p) => p.riskLevel)));
+    expect(levels.size).toBeGreaterThan(1);
+  });
+});
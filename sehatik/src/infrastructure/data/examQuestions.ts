@@ -2,18 +2,18 @@
  * Autopalpation Exam Questions
  * Structured questionnaire for guided breast self-examination
  * All text uses i18n keys - NO hardcoded strings
+ * Scoring lives in the versioned rule set (domain/services/riskRules.ts)
  */
 
 export interface ExamQuestion {
   id: string;
   section: 'visual' | 'palpation' | 'additional';
-  type: 'boolean' | 'multi_select' | 'quadrant';
+  /** breast_map: markers on the map, answered with the quadrants they fall in */
+  type: 'boolean' | 'multi_select' | 'quadrant' | 'breast_map';
   titleKey: string;
   descriptionKey: string;
   options?: { value: string; labelKey: string }[];
   dependsOn?: { questionId: string; answer: unknown };
-  redFlag?: boolean;
-  weight: number; // Risk weight 0-3
 }
 
 export interface ExamSection {
@@ -37,8 +37,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.skin_changes.title',
         descriptionKey: 'exam.questions.skin_changes.description',
-        weight: 2,
-        redFlag: true,
       },
       {
         id: 'skin_dimpling',
@@ -46,8 +44,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.skin_dimpling.title',
         descriptionKey: 'exam.questions.skin_dimpling.description',
-        weight: 3,
-        redFlag: true,
       },
       {
         id: 'peau_orange',
@@ -55,8 +51,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.peau_orange.title',
         descriptionKey: 'exam.questions.peau_orange.description',
-        weight: 3,
-        redFlag: true,
       },
       {
         id: 'nipple_retraction',
@@ -64,8 +58,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.nipple_retraction.title',
         descriptionKey: 'exam.questions.nipple_retraction.description',
-        weight: 3,
-        redFlag: true,
       },
       {
         id: 'nipple_discharge',
@@ -73,8 +65,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.nipple_discharge.title',
         descriptionKey: 'exam.questions.nipple_discharge.description',
-        weight: 2,
-        redFlag: true,
       },
       {
         id: 'asymmetry',
@@ -82,7 +72,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.asymmetry.title',
         descriptionKey: 'exam.questions.asymmetry.description',
-        weight: 1,
       },
       {
         id: 'redness',
@@ -90,8 +79,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.redness.title',
         descriptionKey: 'exam.questions.redness.description',
-        weight: 2,
-        redFlag: true,
       },
     ],
   },
@@ -107,13 +94,11 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.lump_detected.title',
         descriptionKey: 'exam.questions.lump_detected.description',
-        weight: 2,
-        redFlag: true,
       },
       {
         id: 'lump_location',
         section: 'palpation',
-        type: 'quadrant',
+        type: 'breast_map',
         titleKey: 'exam.questions.lump_location.title',
         descriptionKey: 'exam.questions.lump_location.description',
         dependsOn: { questionId: 'lump_detected', answer: true },
@@ -124,7 +109,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
           { value: 'lower_inner', labelKey: 'exam.quadrants.lower_inner' },
           { value: 'central', labelKey: 'exam.quadrants.central' },
         ],
-        weight: 0,
       },
       {
         id: 'lump_characteristics',
@@ -141,7 +125,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
           { value: 'painful', labelKey: 'exam.lump.painful' },
           { value: 'painless', labelKey: 'exam.lump.painless' },
         ],
-        weight: 0, // Weight calculated dynamically
       },
       {
         id: 'armpit_lump',
@@ -149,8 +132,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.armpit_lump.title',
         descriptionKey: 'exam.questions.armpit_lump.description',
-        weight: 2,
-        redFlag: true,
       },
       {
         id: 'breast_pain',
@@ -158,7 +139,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.breast_pain.title',
         descriptionKey: 'exam.questions.breast_pain.description',
-        weight: 1,
       },
       {
         id: 'pain_cyclic',
@@ -167,7 +147,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         titleKey: 'exam.questions.pain_cyclic.title',
         descriptionKey: 'exam.questions.pain_cyclic.description',
         dependsOn: { questionId: 'breast_pain', answer: true },
-        weight: -1, // Cyclic pain is usually benign
       },
     ],
   },
@@ -183,7 +162,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.changes_recent.title',
         descriptionKey: 'exam.questions.changes_recent.description',
-        weight: 2,
       },
       {
         id: 'family_history',
@@ -191,7 +169,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.family_history.title',
         descriptionKey: 'exam.questions.family_history.description',
-        weight: 1,
       },
       {
         id: 'previous_issues',
@@ -199,7 +176,6 @@ export const EXAM_SECTIONS: ExamSection[] = [
         type: 'boolean',
         titleKey: 'exam.questions.previous_issues.title',
         descriptionKey: 'exam.questions.previous_issues.description',
-        weight: 1,
       },
     ],
   },
@@ -0,0 +1,69 @@
+/**
+ * Morocco Outline
+ * Simplified national outline for the offline centers map, as
+ * [longitude, latitude] points. Accurate to a few kilometres: enough to
+ * place centers, not to navigate.
+ */
+
+export type GeoPoint = [longitude: number, latitude: number];
+
+export const MOROCCO_OUTLINE: GeoPoint[] = [
+  // Mediterranean coast, east to west
+  [-2.2, 35.09],
+  [-2.92, 35.27],
+  [-3.37, 35.19],
+  [-3.93, 35.24],
+  [-4.7, 35.2],
+  [-5.27, 35.58],
+  [-5.35, 35.89],
+  [-5.92, 35.79],
+  // Atlantic coast, north to south
+  [-6.04, 35.5],
+  [-6.37, 34.98],
+  [-6.66, 34.47],
+  [-6.85, 34.03],
+  [-7.62, 33.61],
+  [-8.5, 33.26],
+  [-8.98, 32.8],
+  [-9.27, 32.3],
+  [-9.77, 31.51],
+  [-9.8, 30.96],
+  [-9.62, 30.42],
+  [-9.68, 29.96],
+  [-10.17, 29.35],
+  [-10.64, 28.98],
+  [-11.1, 28.58],
+  [-12.05, 28.12],
+  [-12.91, 27.94],
+  [-13.2, 27.15],
+  [-13.82, 26.68],
+  [-14.47, 26.18],
+  [-14.83, 25.2],
+  [-15.26, 24.58],
+  [-15.95, 23.71],
+  [-16.33, 22.84],
+  [-16.83, 22.2],
+  [-17.05, 21.42],
+  // Southern and eastern land borders
+  [-14.75, 21.5],
+  [-13.0, 21.33],
+  [-13.09, 22.5],
+  [-12.0, 23.45],
+  [-12.0, 26.0],
+  [-8.67, 26.0],
+  [-8.67, 27.67],
+  [-8.68, 28.65],
+  [-7.06, 29.58],
+  [-5.74, 29.62],
+  [-4.86, 30.5],
+  [-3.65, 30.86],
+  [-3.55, 31.67],
+  [-2.82, 31.79],
+  [-1.22, 32.09],
+  [-1.18, 32.65],
+  [-1.5, 32.75],
+  [-1.65, 33.25],
+  [-1.75, 34.2],
+  [-1.8, 34.75],
+  [-2.2, 35.09],
+];
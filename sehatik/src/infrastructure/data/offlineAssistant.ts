@@ -0,0 +1,78 @@
+/**
+ * Offline Assistant
+ * Answers chat questions without network, from the intents, keywords
+ * and responses in offlineAssistantIntents.json (content can be edited
+ * without code changes). Answers may link to an in-app section.
+ */
+
+import { matchIntent, containsArabicScript, containsArabizi } from '../../domain/services/intentMatcher';
+import type { IntentDefinition, IntentLanguage } from '../../domain/services/intentMatcher';
+import intentsData from './offlineAssistantIntents.json';
+
+// ── Types ──────────────────────────────────────────────────
+
+/** In-app destination suggested with an answer */
+export type AssistantLink =
+  | { section: 'selfCheck' }
+  | { section: 'centers' }
+  | { section: 'article'; articleId: string };
+
+interface OfflineIntent extends IntentDefinition {
+  link?: AssistantLink;
+  responses: Record<IntentLanguage, string>;
+}
+
+interface OfflineIntentsFile {
+  version: number;
+  intents: OfflineIntent[];
+  fallback: { responses: Record<IntentLanguage, string> };
+}
+
+export interface OfflineReply {
+  /** null when no intent matched (generic answer) */
+  intentId: string | null;
+  language: IntentLanguage;
+  text: string;
+  link?: AssistantLink;
+}
+
+// ── Data ───────────────────────────────────────────────────
+
+const OFFLINE_INTENTS = intentsData as OfflineIntentsFile;
+
+/**
+ * Reply language: Arabic script follows the app language (ar vs
+ * Darija); Latin script is Darija when written in Arabizi or matched on
+ * a Darija keyword, French otherwise.
+ */
+const getReplyLanguage = (
+  message: string,
+  appLanguage: string,
+  keywordLanguage: IntentLanguage | null,
+): IntentLanguage => {
+  if (containsArabicScript(message)) {
+    return appLanguage === 'darija' || keywordLanguage === 'darija' ? 'darija' : 'ar';
+  }
+  if (containsArabizi(message) || keywordLanguage === 'darija') return 'darija';
+  return 'fr';
+};
+
+/**
+ * Best offline answer for a chat message
+ */
+export const getOfflineReply = (message: string, appLanguage: string): OfflineReply => {
+  const match = matchIntent(message, OFFLINE_INTENTS.intents);
+  const intent = match ? OFFLINE_INTENTS.intents.find((i) => i.id === match.intentId) : undefined;
+  const language = getReplyLanguage(message, appLanguage, match?.keywordLanguage ?? null);
+
+  if (!intent) {
+    return { intentId: null, language, text: OFFLINE_INTENTS.fallback.responses[language] };
+  }
+
+  return {
+    intentId: intent.id,
+    language,
+    text: intent.responses[language],
+    link: intent.link,
+  };
+};
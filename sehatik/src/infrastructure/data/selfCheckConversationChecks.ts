@@ -0,0 +1,294 @@
+/**
+ * Self-Check Conversation Checks
+ * Static validation and exhaustive simulation of the conversation scripts.
+ *
+ * - validateConversationScripts: structural and i18n issues (duplicate
+ *   ids, bad dependsOn / showWhen, missing translations)
+ * - simulateConversation: walks every answer path of a step with the same
+ *   branching as the chat engine (takeNextNode), reports unreachable nodes
+ *   and the score of each path against the self_check rule set
+ *
+ * Pure functions with no React Native imports, so they run as-is in a
+ * Node test runner: `npm test` fails on any issue or unreachable node
+ * (see __tests__/selfCheckConversationChecks.test.ts).
+ */
+
+import {
+  STEP_CONVERSATIONS,
+  getAllQuestionNodes,
+  takeNextNode,
+  type ConversationNode,
+} from './selfCheckConversations';
+import { evaluateRisk, type RiskLevel } from '../../domain/services/riskAssessment';
+import type { RiskRuleSet } from '../../domain/services/riskRules';
+import fr from '../i18n/locales/fr.json';
+import ar from '../i18n/locales/ar.json';
+import darija from '../i18n/locales/darija.json';
+
+// ── Types ──────────────────────────────────────────────────
+
+export type ConversationIssueCode =
+  | 'duplicate_id'
+  | 'unknown_dependency'
+  | 'forward_dependency'
+  | 'invalid_show_when'
+  | 'empty_options'
+  | 'duplicate_option'
+  | 'missing_translation';
+
+export interface ConversationIssue {
+  code: ConversationIssueCode;
+  stepId: string;
+  /** Offending node id (or dependsOn target for conditionals) */
+  nodeId: string;
+  message: string;
+}
+
+/** Locale code -> parsed locale file */
+export type LocaleTables = Record<string, Record<string, unknown>>;
+
+export interface SimulatedPath {
+  /** Answers given along the path, keyed by question id */
+  answers: Record<string, string>;
+  /** Displayed node ids, in order */
+  nodeIds: string[];
+  score: number;
+  riskLevel: RiskLevel;
+  concerns: string[];
+}
+
+export interface ConversationSimulation {
+  stepId: string;
+  paths: SimulatedPath[];
+  /** Node ids no answer combination ever displays */
+  unreachableNodeIds: string[];
+  minScore: number;
+  maxScore: number;
+}
+
+export interface ConversationSimulationReport {
+  steps: ConversationSimulation[];
+  /** Steps are scored on disjoint questions, so bounds add up */
+  minScore: number;
+  maxScore: number;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+export const LOCALE_TABLES: LocaleTables = { fr, ar, darija };
+
+/** Guards against a script edit that makes the path count explode */
+const MAX_SIMULATED_PATHS = 10000;
+
+// ── Helpers ────────────────────────────────────────────────
+
+const hasTranslation = (table: Record<string, unknown>, key: string): boolean => {
+  let current: unknown = table;
+  for (const part of key.split('.')) {
+    if (typeof current !== 'object' || current === null) return false;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return typeof current === 'string' && current.trim().length > 0;
+};
+
+/** Ids of displayable nodes (assistant messages and questions), recursively */
+const getAllNodeIds = (nodes: ConversationNode[]): string[] =>
+  nodes.flatMap((node) => (node.type === 'conditional' ? getAllNodeIds(node.children) : [node.id]));
+
+// ── Validation ─────────────────────────────────────────────
+
+/**
+ * Check every script for structural and translation issues.
+ * Returns an empty list when the scripts are consistent.
+ *
+ * Node ids must be unique across steps: answers from all steps are
+ * merged before scoring. A conditional may only depend on a question of
+ * its own step that comes before it, since the engine evaluates it once
+ * it reaches the front of the queue.
+ */
+export const validateConversationScripts = (
+  scripts: Record<string, ConversationNode[]> = STEP_CONVERSATIONS,
+  locales: LocaleTables = LOCALE_TABLES,
+): ConversationIssue[] => {
+  const issues: ConversationIssue[] = [];
+  const seenIds = new Map<string, string>();
+
+  const checkKey = (stepId: string, nodeId: string, key: string) => {
+    for (const [locale, table] of Object.entries(locales)) {
+      if (!hasTranslation(table, key)) {
+        issues.push({
+          code: 'missing_translation',
+          stepId,
+          nodeId,
+          message: `"${key}" is missing in ${locale}`,
+        });
+      }
+    }
+  };
+
+  for (const [stepId, script] of Object.entries(scripts)) {
+    const stepQuestions = new Map(getAllQuestionNodes(script).map((q) => [q.id, q]));
+    const askedBefore = new Set<string>();
+
+    const visit = (nodes: ConversationNode[]) => {
+      for (const node of nodes) {
+        if (node.type === 'conditional') {
+          const target = stepQuestions.get(node.dependsOn);
+          if (!target) {
+            issues.push({
+              code: 'unknown_dependency',
+              stepId,
+              nodeId: node.dependsOn,
+              message: `dependsOn "${node.dependsOn}" is not a question of this step`,
+            });
+          } else if (!askedBefore.has(node.dependsOn)) {
+            issues.push({
+              code: 'forward_dependency',
+              stepId,
+              nodeId: node.dependsOn,
+              message: `dependsOn "${node.dependsOn}" is not asked before the conditional`,
+            });
+          }
+
+          if (target) {
+            const values = target.options.map((o) => o.value);
+            for (const value of node.showWhen) {
+              if (!values.includes(value)) {
+                issues.push({
+                  code: 'invalid_show_when',
+                  stepId,
+                  nodeId: node.dependsOn,
+                  message: `showWhen "${value}" is not an option of "${node.dependsOn}"`,
+                });
+              }
+            }
+          }
+
+          visit(node.children);
+          continue;
+        }
+
+        const firstStep = seenIds.get(node.id);
+        if (firstStep !== undefined) {
+          issues.push({
+            code: 'duplicate_id',
+            stepId,
+            nodeId: node.id,
+            message: `id "${node.id}" is already used in ${firstStep}`,
+          });
+        } else {
+          seenIds.set(node.id, stepId);
+        }
+
+        checkKey(stepId, node.id, node.textKey);
+
+        if (node.type === 'question') {
+          if (node.options.length === 0) {
+            issues.push({
+              code: 'empty_options',
+              stepId,
+              nodeId: node.id,
+              message: `question "${node.id}" has no options`,
+            });
+          }
+
+          const values = new Set<string>();
+          for (const option of node.options) {
+            if (values.has(option.value)) {
+              issues.push({
+                code: 'duplicate_option',
+                stepId,
+                nodeId: node.id,
+                message: `option "${option.value}" appears twice in "${node.id}"`,
+              });
+            }
+            values.add(option.value);
+            checkKey(stepId, node.id, option.labelKey);
+          }
+
+          askedBefore.add(node.id);
+        }
+      }
+    };
+
+    visit(script);
+  }
+
+  return issues;
+};
+
+// ── Simulation ─────────────────────────────────────────────
+
+/**
+ * Walk every answer path of one step, branching on each option of each
+ * question the engine would display.
+ */
+export const simulateConversation = (
+  stepId: string,
+  script: ConversationNode[] = STEP_CONVERSATIONS[stepId] ?? [],
+  ruleSet?: RiskRuleSet,
+): ConversationSimulation => {
+  const paths: SimulatedPath[] = [];
+  const reached = new Set<string>();
+
+  const walk = (queue: ConversationNode[], answers: Record<string, string>, nodeIds: string[]) => {
+    if (paths.length >= MAX_SIMULATED_PATHS) {
+      throw new Error(`${stepId}: more than ${MAX_SIMULATED_PATHS} answer paths`);
+    }
+
+    const next = takeNextNode(queue, answers);
+    if (!next) {
+      const result = evaluateRisk('self_check', answers, ruleSet);
+      paths.push({
+        answers,
+        nodeIds,
+        score: result.score,
+        riskLevel: result.riskLevel,
+        concerns: result.concerns,
+      });
+      return;
+    }
+
+    const { node, remaining } = next;
+    reached.add(node.id);
+
+    if (node.type === 'question') {
+      for (const option of node.options) {
+        walk(remaining, { ...answers, [node.id]: option.value }, [...nodeIds, node.id]);
+      }
+      return;
+    }
+
+    walk(remaining, answers, [...nodeIds, node.id]);
+  };
+
+  walk(script, {}, []);
+
+  const scores = paths.map((p) => p.score);
+
+  return {
+    stepId,
+    paths,
+    unreachableNodeIds: getAllNodeIds(script).filter((id) => !reached.has(id)),
+    minScore: scores.length > 0 ? Math.min(...scores) : 0,
+    maxScore: scores.length > 0 ? Math.max(...scores) : 0,
+  };
+};
+
+/**
+ * Simulate every step and the score range of a whole self-check
+ */
+export const simulateAllConversations = (
+  scripts: Record<string, ConversationNode[]> = STEP_CONVERSATIONS,
+  ruleSet?: RiskRuleSet,
+): ConversationSimulationReport => {
+  const steps = Object.entries(scripts).map(([stepId, script]) =>
+    simulateConversation(stepId, script, ruleSet),
+  );
+
+  return {
+    steps,
+    minScore: steps.reduce((sum, s) => sum + s.minScore, 0),
+    maxScore: steps.reduce((sum, s) => sum + s.maxScore, 0),
+  };
+};
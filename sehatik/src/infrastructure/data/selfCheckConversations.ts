@@ -9,6 +9,9 @@
  *
  * The conversation engine processes these nodes sequentially,
  * expanding conditionals when their conditions match.
+ *
+ * Scoring (weights, concerning answers) lives in the versioned
+ * rule set: see domain/services/riskRules.ts.
  */
 
 // ── Node Types ─────────────────────────────────────────────
@@ -16,7 +19,6 @@
 export interface QuickReplyOption {
   value: string;
   labelKey: string;
-  isConcern: boolean;
 }
 
 export interface AssistantMessageNode {
@@ -31,7 +33,6 @@ export interface QuestionNode {
   id: string;
   textKey: string;
   options: QuickReplyOption[];
-  weight: number;
 }
 
 export interface ConditionalNode {
@@ -49,9 +50,9 @@ export type ConversationNode =
 // ── Helper to build standard Yes/No/Unsure options ─────────
 
 const yesNoUnsure = (): QuickReplyOption[] => [
-  { value: 'yes', labelKey: 'common.yes', isConcern: true },
-  { value: 'no', labelKey: 'common.no', isConcern: false },
-  { value: 'unsure', labelKey: 'selfCheck.unsure', isConcern: true },
+  { value: 'yes', labelKey: 'common.yes' },
+  { value: 'no', labelKey: 'common.no' },
+  { value: 'unsure', labelKey: 'selfCheck.unsure' },
 ];
 
 // ── Step 1: Visual Examination ─────────────────────────────
@@ -75,7 +76,6 @@ export const VISUAL_CONVERSATION: ConversationNode[] = [
     id: 'visual_q_skin_changes',
     textKey: 'selfCheck.chat.visual.q_skinChanges',
     options: yesNoUnsure(),
-    weight: 2,
   },
   // Follow-up if YES
   {
@@ -94,13 +94,12 @@ export const VISUAL_CONVERSATION: ConversationNode[] = [
         id: 'visual_q_skin_type',
         textKey: 'selfCheck.chat.visual.q_skinType',
         options: [
-          { value: 'redness', labelKey: 'selfCheck.chat.visual.opt_redness', isConcern: true },
-          { value: 'dimpling', labelKey: 'selfCheck.chat.visual.opt_dimpling', isConcern: true },
-          { value: 'thickening', labelKey: 'selfCheck.chat.visual.opt_thickening', isConcern: true },
-          { value: 'peau_orange', labelKey: 'selfCheck.chat.visual.opt_peauOrange', isConcern: true },
-          { value: 'other', labelKey: 'selfCheck.chat.visual.opt_other', isConcern: true },
+          { value: 'redness', labelKey: 'selfCheck.chat.visual.opt_redness' },
+          { value: 'dimpling', labelKey: 'selfCheck.chat.visual.opt_dimpling' },
+          { value: 'thickening', labelKey: 'selfCheck.chat.visual.opt_thickening' },
+          { value: 'peau_orange', labelKey: 'selfCheck.chat.visual.opt_peauOrange' },
+          { value: 'other', labelKey: 'selfCheck.chat.visual.opt_other' },
         ],
-        weight: 1,
       },
     ],
   },
@@ -121,11 +120,10 @@ export const VISUAL_CONVERSATION: ConversationNode[] = [
         id: 'visual_q_skin_recheck',
         textKey: 'selfCheck.chat.visual.q_skinRecheck',
         options: [
-          { value: 'yes', labelKey: 'selfCheck.chat.visual.opt_seeSomething', isConcern: true },
-          { value: 'no', labelKey: 'selfCheck.chat.visual.opt_looksNormal', isConcern: false },
-          { value: 'unsure', labelKey: 'selfCheck.chat.visual.opt_stillUnsure', isConcern: true },
+          { value: 'yes', labelKey: 'selfCheck.chat.visual.opt_seeSomething' },
+          { value: 'no', labelKey: 'selfCheck.chat.visual.opt_looksNormal' },
+          { value: 'unsure', labelKey: 'selfCheck.chat.visual.opt_stillUnsure' },
         ],
-        weight: 1,
       },
     ],
   },
@@ -149,7 +147,6 @@ export const VISUAL_CONVERSATION: ConversationNode[] = [
     id: 'visual_q_nipple_changes',
     textKey: 'selfCheck.chat.visual.q_nippleChanges',
     options: yesNoUnsure(),
-    weight: 2,
   },
   // Follow-up if YES
   {
@@ -168,12 +165,11 @@ export const VISUAL_CONVERSATION: ConversationNode[] = [
         id: 'visual_q_nipple_type',
         textKey: 'selfCheck.chat.visual.q_nippleType',
         options: [
-          { value: 'retraction', labelKey: 'selfCheck.chat.visual.opt_retraction', isConcern: true },
-          { value: 'discharge', labelKey: 'selfCheck.chat.visual.opt_discharge', isConcern: true },
-          { value: 'color_change', labelKey: 'selfCheck.chat.visual.opt_colorChange', isConcern: true },
-          { value: 'crusting', labelKey: 'selfCheck.chat.visual.opt_crusting', isConcern: true },
+          { value: 'retraction', labelKey: 'selfCheck.chat.visual.opt_retraction' },
+          { value: 'discharge', labelKey: 'selfCheck.chat.visual.opt_discharge' },
+          { value: 'color_change', labelKey: 'selfCheck.chat.visual.opt_colorChange' },
+          { value: 'crusting', labelKey: 'selfCheck.chat.visual.opt_crusting' },
         ],
-        weight: 1,
       },
     ],
   },
@@ -227,7 +223,6 @@ export const PALPATION_CONVERSATION: ConversationNode[] = [
     id: 'palpation_q_lump',
     textKey: 'selfCheck.chat.palpation.q_lump',
     options: yesNoUnsure(),
-    weight: 3,
   },
   {
     type: 'conditional',
@@ -245,26 +240,24 @@ export const PALPATION_CONVERSATION: ConversationNode[] = [
         id: 'palpation_q_lump_location',
         textKey: 'selfCheck.chat.palpation.q_lumpLocation',
         options: [
-          { value: 'upper_outer', labelKey: 'selfCheck.chat.palpation.opt_upperOuter', isConcern: true },
-          { value: 'upper_inner', labelKey: 'selfCheck.chat.palpation.opt_upperInner', isConcern: true },
-          { value: 'lower_outer', labelKey: 'selfCheck.chat.palpation.opt_lowerOuter', isConcern: true },
-          { value: 'lower_inner', labelKey: 'selfCheck.chat.palpation.opt_lowerInner', isConcern: true },
-          { value: 'central', labelKey: 'selfCheck.chat.palpation.opt_central', isConcern: true },
-          { value: 'armpit', labelKey: 'selfCheck.chat.palpation.opt_armpit', isConcern: true },
+          { value: 'upper_outer', labelKey: 'selfCheck.chat.palpation.opt_upperOuter' },
+          { value: 'upper_inner', labelKey: 'selfCheck.chat.palpation.opt_upperInner' },
+          { value: 'lower_outer', labelKey: 'selfCheck.chat.palpation.opt_lowerOuter' },
+          { value: 'lower_inner', labelKey: 'selfCheck.chat.palpation.opt_lowerInner' },
+          { value: 'central', labelKey: 'selfCheck.chat.palpation.opt_central' },
+          { value: 'armpit', labelKey: 'selfCheck.chat.palpation.opt_armpit' },
         ],
-        weight: 0,
       },
       {
         type: 'question',
         id: 'palpation_q_lump_feel',
         textKey: 'selfCheck.chat.palpation.q_lumpFeel',
         options: [
-          { value: 'hard', labelKey: 'selfCheck.chat.palpation.opt_hard', isConcern: true },
-          { value: 'soft', labelKey: 'selfCheck.chat.palpation.opt_soft', isConcern: false },
-          { value: 'mobile', labelKey: 'selfCheck.chat.palpation.opt_mobile', isConcern: false },
-          { value: 'fixed', labelKey: 'selfCheck.chat.palpation.opt_fixed', isConcern: true },
+          { value: 'hard', labelKey: 'selfCheck.chat.palpation.opt_hard' },
+          { value: 'soft', labelKey: 'selfCheck.chat.palpation.opt_soft' },
+          { value: 'mobile', labelKey: 'selfCheck.chat.palpation.opt_mobile' },
+          { value: 'fixed', labelKey: 'selfCheck.chat.palpation.opt_fixed' },
         ],
-        weight: 1,
       },
     ],
   },
@@ -300,7 +293,6 @@ export const PALPATION_CONVERSATION: ConversationNode[] = [
     id: 'palpation_q_pain',
     textKey: 'selfCheck.chat.palpation.q_pain',
     options: yesNoUnsure(),
-    weight: 1,
   },
   {
     type: 'conditional',
@@ -318,11 +310,10 @@ export const PALPATION_CONVERSATION: ConversationNode[] = [
         id: 'palpation_q_pain_cyclic',
         textKey: 'selfCheck.chat.palpation.q_painCyclic',
         options: [
-          { value: 'yes', labelKey: 'common.yes', isConcern: false },
-          { value: 'no', labelKey: 'common.no', isConcern: true },
-          { value: 'unsure', labelKey: 'selfCheck.unsure', isConcern: true },
+          { value: 'yes', labelKey: 'common.yes' },
+          { value: 'no', labelKey: 'common.no' },
+          { value: 'unsure', labelKey: 'selfCheck.unsure' },
         ],
-        weight: 1,
       },
     ],
   },
@@ -345,7 +336,6 @@ export const PALPATION_CONVERSATION: ConversationNode[] = [
     id: 'palpation_q_changes',
     textKey: 'selfCheck.chat.palpation.q_changes',
     options: yesNoUnsure(),
-    weight: 2,
   },
   {
     type: 'conditional',
@@ -397,7 +387,6 @@ export const NIPPLE_CONVERSATION: ConversationNode[] = [
     id: 'nipple_q_discharge',
     textKey: 'selfCheck.chat.nipple.q_discharge',
     options: yesNoUnsure(),
-    weight: 2,
   },
   {
     type: 'conditional',
@@ -415,12 +404,11 @@ export const NIPPLE_CONVERSATION: ConversationNode[] = [
         id: 'nipple_q_discharge_type',
         textKey: 'selfCheck.chat.nipple.q_dischargeType',
         options: [
-          { value: 'clear', labelKey: 'selfCheck.chat.nipple.opt_clear', isConcern: false },
-          { value: 'milky', labelKey: 'selfCheck.chat.nipple.opt_milky', isConcern: false },
-          { value: 'bloody', labelKey: 'selfCheck.chat.nipple.opt_bloody', isConcern: true },
-          { value: 'other', labelKey: 'selfCheck.chat.nipple.opt_otherColor', isConcern: true },
+          { value: 'clear', labelKey: 'selfCheck.chat.nipple.opt_clear' },
+          { value: 'milky', labelKey: 'selfCheck.chat.nipple.opt_milky' },
+          { value: 'bloody', labelKey: 'selfCheck.chat.nipple.opt_bloody' },
+          { value: 'other', labelKey: 'selfCheck.chat.nipple.opt_otherColor' },
         ],
-        weight: 2,
       },
     ],
   },
@@ -443,7 +431,6 @@ export const NIPPLE_CONVERSATION: ConversationNode[] = [
     id: 'nipple_q_appearance',
     textKey: 'selfCheck.chat.nipple.q_appearance',
     options: yesNoUnsure(),
-    weight: 2,
   },
   {
     type: 'conditional',
@@ -490,7 +477,6 @@ export const STEP_CONVERSATIONS: Record<string, ConversationNode[]> = {
 
 /**
  * Get all question nodes from a conversation script (recursively).
- * Used for risk assessment scoring.
  */
 export const getAllQuestionNodes = (
   nodes: ConversationNode[],
@@ -505,3 +491,27 @@ export const getAllQuestionNodes = (
   }
   return questions;
 };
+
+/**
+ * Take the next displayable node from the queue.
+ * Conditionals are only expanded when they reach the front, so a
+ * follow-up is evaluated after the question it depends on was answered.
+ */
+export const takeNextNode = (
+  queue: ConversationNode[],
+  answers: Record<string, string>,
+): { node: AssistantMessageNode | QuestionNode; remaining: ConversationNode[] } | null => {
+  let pending = queue;
+
+  while (pending.length > 0) {
+    const [head, ...rest] = pending;
+    if (head.type !== 'conditional') {
+      return { node: head, remaining: rest };
+    }
+    const answer = answers[head.dependsOn];
+    // Expand children when the condition is met, skip otherwise
+    pending = answer && head.showWhen.includes(answer) ? [...head.children, ...rest] : rest;
+  }
+
+  return null;
+};
@@ -8,18 +8,13 @@
  *
  * Steps: Visual Examination -> Palpation -> Nipple Check
  *
- * Risk assessment now uses the chat-collected answers
- * from the conversation engine (see assessSelfCheckFromChat).
+ * Risk assessment uses the chat-collected answers from the
+ * conversation engine (see assessSelfCheck in domain/services/riskAssessment.ts).
  *
  * NOTE: `icon` fields use Ionicons names (e.g. 'eye-outline').
  * Render with <Ionicons name={icon} /> from @expo/vector-icons.
  */
 
-import {
-  STEP_CONVERSATIONS,
-  getAllQuestionNodes,
-} from './selfCheckConversations';
-
 // ── Instruction Types ──────────────────────────────────────
 
 export interface SelfCheckInstruction {
@@ -170,74 +165,3 @@ export const SELF_CHECK_STEPS: SelfCheckStep[] = [
     ],
   },
 ];
-
-// ── Risk Assessment (from chat answers) ────────────────────
-
-export type SelfCheckRiskLevel = 'low' | 'moderate' | 'high';
-
-export interface SelfCheckResult {
-  riskLevel: SelfCheckRiskLevel;
-  score: number;
-  maxScore: number;
-  concerns: string[];
-  recommendationKey: string;
-  messageKey: string;
-}
-
-/**
- * Assess risk from the chat-collected answers.
- * Iterates all question nodes from all step conversations
- * and scores based on concern flags and weights.
- */
-export const assessSelfCheckFromChat = (
-  answers: Record<string, string>,
-): SelfCheckResult => {
-  let score = 0;
-  const concerns: string[] = [];
-  let maxScore = 0;
-
-  for (const stepId of Object.keys(STEP_CONVERSATIONS)) {
-    const script = STEP_CONVERSATIONS[stepId];
-    const questionNodes = getAllQuestionNodes(script);
-
-    for (const q of questionNodes) {
-      maxScore += q.weight;
-      const answer = answers[q.id];
-      if (!answer) continue;
-
-      // Check if the selected option is a concern
-      const selectedOption = q.options.find((o) => o.value === answer);
-      if (selectedOption?.isConcern) {
-        score += q.weight;
-        concerns.push(q.id);
-      }
-    }
-  }
-
-  let riskLevel: SelfCheckRiskLevel;
-  let recommendationKey: string;
-  let messageKey: string;
-
-  if (score >= 5 || concerns.length >= 3) {
-    riskLevel = 'high';
-    recommendationKey = 'selfCheck.result.recommendation.urgent';
-    messageKey = 'selfCheck.result.message.high';
-  } else if (score >= 2 || concerns.length >= 1) {
-    riskLevel = 'moderate';
-    recommendationKey = 'selfCheck.result.recommendation.checkup';
-    messageKey = 'selfCheck.result.message.moderate';
-  } else {
-    riskLevel = 'low';
-    recommendationKey = 'selfCheck.result.recommendation.monitoring';
-    messageKey = 'selfCheck.result.message.low';
-  }
-
-  return {
-    riskLevel,
-    score,
-    maxScore,
-    concerns,
-    recommendationKey,
-    messageKey,
-  };
-};
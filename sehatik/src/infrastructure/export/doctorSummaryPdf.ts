@@ -0,0 +1,173 @@
+/**
+ * Doctor Summary PDF
+ * Renders a DoctorSummary as a bilingual (French + Arabic) PDF and hands
+ * it to the system share sheet. Both languages come from the app
+ * locales, whatever language the app is currently using.
+ *
+ * PRIVACY: identity fields are only printed when the user opts in, and
+ * the file is deleted from the cache once the share sheet closes.
+ */
+
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { File } from 'expo-file-system';
+import type { TFunction } from 'i18next';
+import i18n from '../i18n';
+import type { FindingLocation } from '../../domain/models/types';
+import type { DoctorSummary } from '../../domain/services/doctorSummary';
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface DoctorSummaryIdentity {
+  phoneNumber?: string;
+}
+
+export interface DoctorSummaryPdfOptions {
+  /** Only set when the user chose to include their details */
+  identity?: DoctorSummaryIdentity;
+}
+
+// ── HTML ───────────────────────────────────────────────────
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const STYLES = `
+  body { font-family: -apple-system, Roboto, "Noto Naskh Arabic", sans-serif; color: #212121; font-size: 12px; margin: 24px; }
+  h1 { font-size: 20px; color: #D81B60; margin: 0 0 4px; }
+  h2 { font-size: 15px; border-bottom: 1px solid #E0E0E0; padding-bottom: 4px; margin-top: 24px; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { vertical-align: top; padding: 6px; border-bottom: 1px solid #EEEEEE; text-align: start; }
+  .ar { direction: rtl; text-align: right; }
+  .muted { color: #757575; }
+  .flag { color: #C62828; font-weight: bold; }
+  .visit { page-break-inside: avoid; margin-bottom: 12px; }
+  footer { margin-top: 32px; font-size: 10px; color: #757575; }
+`;
+
+const formatDate = (date: number, locale: string): string =>
+  new Date(date).toLocaleDateString(locale, { day: 'numeric', month: 'long', year: 'numeric' });
+
+/** "Sein droit · 10 h · 1-2 cm · Dure" */
+const describeLocation = (t: TFunction, location: FindingLocation): string =>
+  [
+    t(`breastMap.locations.${location.side}_${location.region}`),
+    location.clockPosition !== undefined
+      ? t('breastMap.clock', { hour: location.clockPosition })
+      : '',
+    location.size ? t(`breastMap.sizes.${location.size}`) : '',
+    ...location.descriptors.map((d) => t(`exam.lump.${d}`)),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * Render the summary as a standalone HTML page (input of the PDF)
+ */
+export const renderDoctorSummaryHtml = (
+  summary: DoctorSummary,
+  { identity }: DoctorSummaryPdfOptions = {},
+): string => {
+  const fr = i18n.getFixedT('fr');
+  const ar = i18n.getFixedT('ar');
+
+  /** Same text in both languages, French first */
+  const both = (render: (t: TFunction, locale: string) => string): string =>
+    `<div>${escapeHtml(render(fr, 'fr-FR'))}</div>` +
+    `<div class="ar">${escapeHtml(render(ar, 'ar'))}</div>`;
+  const label = (key: string, options?: Record<string, unknown>) => both((t) => t(key, options));
+
+  const identityRows = identity?.phoneNumber
+    ? `<h2>${label('doctorSummary.patient')}</h2>
+       <table><tr><td>${label('doctorSummary.phone')}</td><td>${escapeHtml(identity.phoneNumber)}</td></tr></table>`
+    : '';
+
+  const trendRows = summary.trends
+    .map(
+      (trend) => `<tr>
+        <td>${label(`exam.questions.${trend.symptomId}.title`)}</td>
+        <td>${both((t, locale) => t('history.firstSeen', { date: formatDate(trend.firstSeen, locale) }))}</td>
+        <td>${label('history.monthsReported', { count: trend.monthsReported, total: trend.presence.length })}</td>
+        <td class="${trend.persistent ? 'flag' : ''}">
+          ${trend.persistent ? label('history.persistent') : ''}
+          ${label(trend.ongoing ? 'history.ongoing' : 'history.notReported')}
+        </td>
+      </tr>`,
+    )
+    .join('');
+
+  const visits = summary.visits
+    .map((visit) => {
+      const findings =
+        visit.findings.length > 0
+          ? visit.findings
+              .map(
+                (finding) => `<tr>
+                  <td>${label(`exam.questions.${finding.symptomId}.title`)}</td>
+                  <td>
+                    ${both((t) => finding.detailKeys.map((key) => t(key)).join(', '))}
+                    ${(finding.locations ?? []).map((location) => both((t) => describeLocation(t, location))).join('')}
+                  </td>
+                </tr>`,
+              )
+              .join('')
+          : `<tr><td colspan="2" class="muted">${label('history.noSymptoms')}</td></tr>`;
+
+      return `<div class="visit">
+        <table>
+          <tr>
+            <th>${both((_, locale) => formatDate(visit.date, locale))}</th>
+            <th>${label(visit.source === 'self_check' ? 'history.sourceSelfCheck' : 'history.sourceExam')}</th>
+          </tr>
+          <tr><td colspan="2" class="muted">${both((t) => `${t('results.risk_level')} : ${t(`history.riskLevels.${visit.riskLevel}`)}`)}</td></tr>
+          ${findings}
+        </table>
+      </div>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head><meta charset="utf-8" /><style>${STYLES}</style></head>
+<body>
+  <h1>${label('doctorSummary.title')}</h1>
+  <div class="muted">${both((t, locale) => t('doctorSummary.generatedOn', { date: formatDate(summary.generatedAt, locale) }))}</div>
+  ${identityRows}
+  ${summary.trends.length > 0 ? `<h2>${label('history.symptomsTitle')}</h2><table>${trendRows}</table>` : ''}
+  <h2>${label('history.timelineTitle')}</h2>
+  ${visits}
+  <footer>${label('disclaimer.assessment')}</footer>
+</body>
+</html>`;
+};
+
+// ── Share ──────────────────────────────────────────────────
+
+/**
+ * Print the summary to a PDF and open the share sheet.
+ * Rejects when sharing is not available on this device.
+ */
+export const shareDoctorSummaryPdf = async (
+  summary: DoctorSummary,
+  options: DoctorSummaryPdfOptions = {},
+  dialogTitle?: string,
+): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const { uri } = await Print.printToFileAsync({ html: renderDoctorSummaryHtml(summary, options) });
+  try {
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle,
+    });
+  } finally {
+    try {
+      new File(uri).delete();
+    } catch {
+      // Fail silently: the cache is cleared by the OS
+    }
+  }
+};
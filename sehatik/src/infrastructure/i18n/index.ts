@@ -2,6 +2,11 @@
  * i18n Configuration for Sehatik
  * Supports: French (fr), Arabic (ar), Darija (darija)
  * RTL support for Arabic and Darija
+ *
+ * Discreet mode: the 'discreet' namespace holds neutral versions of the
+ * strings that reveal what the app is about (home screen, notifications).
+ * While it is on, it becomes the default namespace and every other key
+ * falls back to the regular strings.
  */
 
 import i18n from 'i18next';
@@ -11,6 +16,9 @@ import { I18nManager } from 'react-native';
 import fr from './locales/fr.json';
 import ar from './locales/ar.json';
 import darija from './locales/darija.json';
+import frDiscreet from './locales/discreet/fr.json';
+import arDiscreet from './locales/discreet/ar.json';
+import darijaDiscreet from './locales/discreet/darija.json';
 
 export const RTL_LANGUAGES = ['ar', 'darija'];
 
@@ -22,6 +30,11 @@ export const SUPPORTED_LANGUAGES = [
 
 export type LanguageCode = 'fr' | 'ar' | 'darija';
 
+const DEFAULT_NAMESPACE = 'translation';
+const DISCREET_NAMESPACE = 'discreet';
+/** Re-renders translated components when discreet mode is switched */
+const DISCREET_CHANGED_EVENT = 'discreetModeChanged';
+
 export const isRTLLanguage = (lang: string): boolean => {
   return RTL_LANGUAGES.includes(lang);
 };
@@ -39,10 +52,13 @@ export const applyRTL = (lang: string): void => {
 
 i18n.use(initReactI18next).init({
   resources: {
-    fr: { translation: fr },
-    ar: { translation: ar },
-    darija: { translation: darija },
+    fr: { translation: fr, discreet: frDiscreet },
+    ar: { translation: ar, discreet: arDiscreet },
+    darija: { translation: darija, discreet: darijaDiscreet },
   },
+  ns: [DEFAULT_NAMESPACE, DISCREET_NAMESPACE],
+  defaultNS: DEFAULT_NAMESPACE,
+  fallbackNS: DEFAULT_NAMESPACE,
   lng: 'fr', // Default language
   fallbackLng: 'fr',
   interpolation: {
@@ -50,7 +66,18 @@ i18n.use(initReactI18next).init({
   },
   react: {
     useSuspense: false, // Disable suspense for React Native
+    bindI18n: `languageChanged ${DISCREET_CHANGED_EVENT}`,
   },
 });
 
+/**
+ * Switch between the regular and the discreet strings
+ */
+export const setDiscreetStrings = (enabled: boolean): void => {
+  const namespace = enabled ? DISCREET_NAMESPACE : DEFAULT_NAMESPACE;
+  if (i18n.options.defaultNS === namespace) return;
+  i18n.setDefaultNamespace(namespace);
+  i18n.emit(DISCREET_CHANGED_EVENT);
+};
+
 export default i18n;
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { readAndDeidentifyDicom } from '../dicom';
+
+// ── Test file builder (explicit VR little endian) ──────────
+
+const LONG_VRS = ['OB', 'OW', 'SQ', 'UN', 'UT'];
+
+const concat = (parts: number[][]): Uint8Array => new Uint8Array(parts.flat());
+
+const u16 = (value: number) => [value & 0xff, (value >>> 8) & 0xff];
+const u32 = (value: number) => [...u16(value & 0xffff), ...u16(value >>> 16)];
+const text = (value: string) => [...value].map((char) => char.charCodeAt(0));
+const even = (bytes: number[]) => (bytes.length % 2 ? [...bytes, 0x20] : bytes);
+
+const element = (group: number, elem: number, vr: string, value: number[]) =>
+  LONG_VRS.includes(vr)
+    ? [...u16(group), ...u16(elem), ...text(vr), 0, 0, ...u32(value.length), ...value]
+    : [...u16(group), ...u16(elem), ...text(vr), ...u16(value.length), ...value];
+
+const item = (value: number[]) => [...u16(0xfffe), ...u16(0xe000), ...u32(value.length), ...value];
+
+const encapsulatedPixelData = (fragments: number[][]) => [
+  ...u16(0x7fe0),
+  ...u16(0x0010),
+  ...text('OB'),
+  0,
+  0,
+  ...u32(0xffffffff),
+  ...item([]), // Basic offset table
+  ...fragments.flatMap(item),
+  ...u16(0xfffe),
+  ...u16(0xe0dd),
+  ...u32(0),
+];
+
+const dicomFile = (dataset: number[][]) =>
+  concat([
+    new Array(128).fill(0),
+    text('DICM'),
+    element(0x0002, 0x0010, 'UI', even(text('1.2.840.10008.1.2.1'))),
+    ...dataset,
+  ]);
+
+const containsText = (bytes: Uint8Array, value: string) =>
+  String.fromCharCode(...bytes).includes(value);
+
+// ── Tests ──────────────────────────────────────────────────
+
+describe('readAndDeidentifyDicom', () => {
+  it('reads the displayed attributes and blanks the patient name', () => {
+    const file = dicomFile([
+      element(0x0008, 0x0060, 'CS', text('MG')),
+      element(0x0010, 0x0010, 'PN', even(text('DOE^JANE'))),
+      element(0x7fe0, 0x0010, 'OW', [1, 2, 3, 4]),
+    ]);
+
+    const result = readAndDeidentifyDicom(file);
+    if (!result.ok) throw new Error(result.error);
+    expect(result.metadata.modality).toBe('MG');
+    expect(containsText(result.deidentified, 'DOE^JANE')).toBe(false);
+  });
+
+  it('keeps de-identifying after defined-length pixel data', () => {
+    const file = dicomFile([
+      element(0x7fe0, 0x0010, 'OW', [1, 2, 3, 4]),
+      element(0x7fe1, 0x0010, 'LO', even(text('DOE^JANE'))),
+    ]);
+
+    const result = readAndDeidentifyDicom(file);
+    if (!result.ok) throw new Error(result.error);
+    expect(containsText(result.deidentified, 'DOE^JANE')).toBe(false);
+  });
+
+  it('skips encapsulated pixel data and keeps de-identifying after it', () => {
+    // A fragment whose bytes look like an element must not be read as one
+    const fragment = element(0x0010, 0x0010, 'PN', even(text('PIXELS')));
+    const file = dicomFile([
+      encapsulatedPixelData([fragment, [9, 9, 9, 9]]),
+      element(0x7fe1, 0x0010, 'LO', even(text('DOE^JANE'))),
+    ]);
+
+    const result = readAndDeidentifyDicom(file);
+    if (!result.ok) throw new Error(result.error);
+    expect(containsText(result.deidentified, 'DOE^JANE')).toBe(false);
+    expect(containsText(result.deidentified, 'PIXELS')).toBe(true);
+  });
+
+  it('rejects encapsulated pixel data without a delimiter', () => {
+    const file = dicomFile([encapsulatedPixelData([[9, 9]]).slice(0, -8)]);
+
+    expect(readAndDeidentifyDicom(file)).toEqual({ ok: false, error: 'malformed' });
+  });
+});
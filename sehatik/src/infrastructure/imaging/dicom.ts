@@ -0,0 +1,309 @@
+/**
+ * DICOM Reader
+ * Minimal, on-device reader for DICOM Part 10 files: extracts the few
+ * attributes shown to the user and blanks patient identifiers in place
+ * (same lengths, so the file stays valid). Nothing is uploaded.
+ *
+ * Supported encodings: explicit and implicit VR little endian, which
+ * covers compressed (encapsulated) pixel data too. Files that cannot be
+ * fully walked are rejected: identifiers could not be guaranteed gone.
+ */
+
+import type { ImagingMetadata } from '../../domain/models/types';
+
+// ── Types ──────────────────────────────────────────────────
+
+export type DicomReadError = 'not_dicom' | 'unsupported_encoding' | 'malformed';
+
+export type DicomReadResult =
+  | { ok: true; metadata: ImagingMetadata; deidentified: Uint8Array }
+  | { ok: false; error: DicomReadError };
+
+interface ElementHeader {
+  tag: number;
+  vr?: string;
+  length: number;
+  valueOffset: number;
+}
+
+type ElementVisitor = (header: ElementHeader, explicitVR: boolean) => void;
+
+// ── Constants ──────────────────────────────────────────────
+
+const PREAMBLE_BYTES = 128;
+const MAGIC = 'DICM';
+
+const tag = (group: number, element: number): number => ((group << 16) | element) >>> 0;
+
+const ITEM = tag(0xfffe, 0xe000);
+const ITEM_DELIMITATION = tag(0xfffe, 0xe00d);
+const SEQUENCE_DELIMITATION = tag(0xfffe, 0xe0dd);
+const PIXEL_DATA = tag(0x7fe0, 0x0010);
+const UNDEFINED_LENGTH = 0xffffffff;
+
+const TRANSFER_SYNTAX_UID = tag(0x0002, 0x0010);
+const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+const EXPLICIT_VR_BIG_ENDIAN = '1.2.840.10008.1.2.2';
+const DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1.99';
+
+const MODALITY = tag(0x0008, 0x0060);
+const STUDY_DATE = tag(0x0008, 0x0020);
+const LATERALITY = tag(0x0020, 0x0060);
+const IMAGE_LATERALITY = tag(0x0020, 0x0062);
+const VIEW_POSITION = tag(0x0018, 0x5101);
+const DISPLAYED_TAGS = new Set([MODALITY, STUDY_DATE, LATERALITY, IMAGE_LATERALITY, VIEW_POSITION]);
+
+/** VRs with a 2-byte reserved field and a 4-byte length (explicit VR) */
+const LONG_VRS = new Set([
+  'OB',
+  'OD',
+  'OF',
+  'OL',
+  'OV',
+  'OW',
+  'SQ',
+  'SV',
+  'UC',
+  'UN',
+  'UR',
+  'UT',
+  'UV',
+]);
+
+/**
+ * Attributes identifying the patient or the visit (subset of the PS3.15
+ * basic de-identification profile), blanked wherever they appear
+ */
+const IDENTIFYING_TAGS = new Set([
+  tag(0x0008, 0x0050), // Accession Number
+  tag(0x0008, 0x0080), // Institution Name
+  tag(0x0008, 0x0081), // Institution Address
+  tag(0x0008, 0x0090), // Referring Physician's Name
+  tag(0x0008, 0x0092), // Referring Physician's Address
+  tag(0x0008, 0x0094), // Referring Physician's Telephone Numbers
+  tag(0x0008, 0x1010), // Station Name
+  tag(0x0008, 0x1040), // Institutional Department Name
+  tag(0x0008, 0x1048), // Physician(s) of Record
+  tag(0x0008, 0x1050), // Performing Physician's Name
+  tag(0x0008, 0x1060), // Name of Physician(s) Reading Study
+  tag(0x0008, 0x1070), // Operators' Name
+  tag(0x0010, 0x0010), // Patient's Name
+  tag(0x0010, 0x0020), // Patient ID
+  tag(0x0010, 0x0021), // Issuer of Patient ID
+  tag(0x0010, 0x0030), // Patient's Birth Date
+  tag(0x0010, 0x0032), // Patient's Birth Time
+  tag(0x0010, 0x1000), // Other Patient IDs
+  tag(0x0010, 0x1001), // Other Patient Names
+  tag(0x0010, 0x1005), // Patient's Birth Name
+  tag(0x0010, 0x1040), // Patient's Address
+  tag(0x0010, 0x1060), // Patient's Mother's Birth Name
+  tag(0x0010, 0x2154), // Patient's Telephone Numbers
+  tag(0x0010, 0x2160), // Ethnic Group
+  tag(0x0010, 0x21b0), // Additional Patient History
+  tag(0x0010, 0x4000), // Patient Comments
+  tag(0x0020, 0x0010), // Study ID
+  tag(0x0032, 0x1032), // Requesting Physician
+  tag(0x0038, 0x0010), // Admission ID
+  tag(0x0040, 0x0006), // Scheduled Performing Physician's Name
+  tag(0x0040, 0x1001), // Requested Procedure ID
+  tag(0x0040, 0xa123), // Person Name (structured reports)
+]);
+
+/** Sequences read with implicit VR, where the VR cannot tell them apart */
+const KNOWN_SEQUENCES = new Set([
+  tag(0x0008, 0x1120), // Referenced Patient Sequence
+  tag(0x0010, 0x1002), // Other Patient IDs Sequence
+  tag(0x0040, 0x0275), // Request Attributes Sequence
+  tag(0x0054, 0x0220), // View Code Sequence
+]);
+
+// ── Reading ────────────────────────────────────────────────
+
+const ascii = (bytes: Uint8Array, start: number, end: number): string => {
+  let text = '';
+  for (let i = start; i < end; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+};
+
+const readString = (bytes: Uint8Array, header: ElementHeader): string =>
+  ascii(bytes, header.valueOffset, header.valueOffset + header.length)
+    .replace(/[\0\s]+$/, '')
+    .trim();
+
+const isPrivate = (elementTag: number): boolean => ((elementTag >>> 16) & 1) === 1;
+
+class DicomWalker {
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private u16(offset: number): number {
+    if (offset + 2 > this.bytes.length) throw new RangeError('Malformed DICOM data');
+    return this.view.getUint16(offset, true);
+  }
+
+  private u32(offset: number): number {
+    if (offset + 4 > this.bytes.length) throw new RangeError('Malformed DICOM data');
+    return this.view.getUint32(offset, true);
+  }
+
+  header(offset: number, explicitVR: boolean): ElementHeader {
+    const group = this.u16(offset);
+    const elementTag = tag(group, this.u16(offset + 2));
+
+    // Items and delimiters never carry a VR
+    if (group === 0xfffe || !explicitVR) {
+      return { tag: elementTag, length: this.u32(offset + 4), valueOffset: offset + 8 };
+    }
+
+    const vr = ascii(this.bytes, offset + 4, offset + 6);
+    return LONG_VRS.has(vr)
+      ? { tag: elementTag, vr, length: this.u32(offset + 8), valueOffset: offset + 12 }
+      : { tag: elementTag, vr, length: this.u16(offset + 6), valueOffset: offset + 8 };
+  }
+
+  /**
+   * Visit the elements in [offset, end). Inside an undefined-length item,
+   * stops after its delimiter. Returns the offset reached.
+   */
+  walk(offset: number, end: number, explicitVR: boolean, visit: ElementVisitor): number {
+    while (offset < end) {
+      const header = this.header(offset, explicitVR);
+      if (header.tag === ITEM_DELIMITATION) return header.valueOffset;
+
+      // Encapsulated image data: fragments are raw bytes, not elements.
+      // Attributes may follow it, so the walk goes on to the end.
+      if (header.tag === PIXEL_DATA && header.length === UNDEFINED_LENGTH) {
+        offset = this.skipFragments(header);
+        continue;
+      }
+
+      const isSequence =
+        header.vr === 'SQ' ||
+        (!explicitVR && KNOWN_SEQUENCES.has(header.tag)) ||
+        header.length === UNDEFINED_LENGTH;
+
+      if (isSequence) {
+        // Undefined-length UN holds an implicit VR sequence (PS3.5 6.2.2)
+        const itemsExplicit = header.vr === 'UN' ? false : explicitVR;
+        offset = this.walkItems(header, itemsExplicit, visit);
+        continue;
+      }
+
+      if (header.valueOffset + header.length > this.bytes.length) {
+        throw new RangeError('Malformed DICOM data');
+      }
+      visit(header, explicitVR);
+      offset = header.valueOffset + header.length;
+    }
+    return offset;
+  }
+
+  private skipFragments(pixelData: ElementHeader): number {
+    let offset = pixelData.valueOffset;
+    for (;;) {
+      const item = this.header(offset, false);
+      if (item.tag === SEQUENCE_DELIMITATION) return item.valueOffset;
+      if (item.tag !== ITEM || item.length === UNDEFINED_LENGTH) {
+        throw new RangeError('Malformed DICOM data');
+      }
+      offset = item.valueOffset + item.length;
+      if (offset > this.bytes.length) throw new RangeError('Malformed DICOM data');
+    }
+  }
+
+  private walkItems(sequence: ElementHeader, explicitVR: boolean, visit: ElementVisitor): number {
+    const definedEnd =
+      sequence.length === UNDEFINED_LENGTH ? null : sequence.valueOffset + sequence.length;
+    let offset = sequence.valueOffset;
+
+    while (definedEnd === null || offset < definedEnd) {
+      const item = this.header(offset, explicitVR);
+      if (item.tag === SEQUENCE_DELIMITATION) return item.valueOffset;
+      if (item.tag !== ITEM) throw new RangeError('Malformed DICOM data');
+
+      if (item.length === UNDEFINED_LENGTH) {
+        offset = this.walk(item.valueOffset, this.bytes.length, explicitVR, visit);
+      } else {
+        this.walk(item.valueOffset, item.valueOffset + item.length, explicitVR, visit);
+        offset = item.valueOffset + item.length;
+      }
+    }
+    return offset;
+  }
+}
+
+// ── API ────────────────────────────────────────────────────
+
+/**
+ * Whether the bytes start like a DICOM Part 10 file
+ */
+export const isDicom = (bytes: Uint8Array): boolean =>
+  bytes.length > PREAMBLE_BYTES + 4 && ascii(bytes, PREAMBLE_BYTES, PREAMBLE_BYTES + 4) === MAGIC;
+
+const toIsoDate = (da: string): string | undefined =>
+  /^\d{8}$/.test(da) ? `${da.slice(0, 4)}-${da.slice(4, 6)}-${da.slice(6, 8)}` : undefined;
+
+/**
+ * Read the displayed attributes and return a copy of the file with
+ * patient identifiers and private attributes blanked
+ */
+export const readAndDeidentifyDicom = (bytes: Uint8Array): DicomReadResult => {
+  if (!isDicom(bytes)) return { ok: false, error: 'not_dicom' };
+
+  const copy = bytes.slice();
+  const walker = new DicomWalker(copy);
+  const values = new Map<number, string>();
+
+  try {
+    // File meta information: always explicit VR little endian
+    let offset = PREAMBLE_BYTES + 4;
+    let transferSyntax = '';
+    while (offset < copy.length) {
+      const header = walker.header(offset, true);
+      if (header.tag >>> 16 !== 0x0002) break;
+      if (header.tag === TRANSFER_SYNTAX_UID) transferSyntax = readString(copy, header);
+      offset = header.valueOffset + header.length;
+    }
+
+    if (
+      transferSyntax === EXPLICIT_VR_BIG_ENDIAN ||
+      transferSyntax === DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN
+    ) {
+      return { ok: false, error: 'unsupported_encoding' };
+    }
+
+    walker.walk(
+      offset,
+      copy.length,
+      transferSyntax !== IMPLICIT_VR_LITTLE_ENDIAN,
+      (header, explicitVR) => {
+        if (IDENTIFYING_TAGS.has(header.tag) || isPrivate(header.tag)) {
+          // Spaces keep string values valid; binary private data is zeroed
+          const isText = explicitVR && header.vr !== undefined && !LONG_VRS.has(header.vr);
+          copy.fill(
+            isText || !isPrivate(header.tag) ? 0x20 : 0x00,
+            header.valueOffset,
+            header.valueOffset + header.length,
+          );
+          return;
+        }
+        if (DISPLAYED_TAGS.has(header.tag) && !values.has(header.tag)) {
+          values.set(header.tag, readString(copy, header));
+        }
+      },
+    );
+  } catch {
+    return { ok: false, error: 'malformed' };
+  }
+
+  const metadata: ImagingMetadata = {
+    modality: values.get(MODALITY) || undefined,
+    laterality: values.get(IMAGE_LATERALITY) || values.get(LATERALITY) || undefined,
+    view: values.get(VIEW_POSITION) || undefined,
+    studyDate: toIsoDate(values.get(STUDY_DATE) ?? ''),
+  };
+  return { ok: true, metadata, deidentified: copy };
+};
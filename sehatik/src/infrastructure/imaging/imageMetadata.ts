@@ -0,0 +1,85 @@
+/**
+ * Image Metadata
+ * Removes embedded metadata (EXIF with GPS and device, XMP, comments,
+ * text chunks) from JPEG and PNG files before they are stored. Pixel
+ * data is copied untouched.
+ */
+
+export type ImageFormat = 'jpeg' | 'png';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** JPEG segments kept: JFIF header (APP0), ICC profile (APP2), Adobe (APP14) */
+const JPEG_KEPT_APP_MARKERS = new Set([0xe0, 0xe2, 0xee]);
+const JPEG_COMMENT = 0xfe;
+const JPEG_START_OF_SCAN = 0xda;
+
+/** PNG chunks that can hold free text, dates or EXIF */
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return 'png';
+  return null;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const stripJpeg = (bytes: Uint8Array): Uint8Array => {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new RangeError('Malformed JPEG data');
+    const marker = bytes[offset + 1];
+    // Entropy-coded data follows the scan header: copy the rest as is
+    if (marker === JPEG_START_OF_SCAN) break;
+
+    const segmentEnd = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (segmentEnd > bytes.length) throw new RangeError('Malformed JPEG data');
+
+    const isMetadata =
+      marker === JPEG_COMMENT ||
+      (marker >= 0xe0 && marker <= 0xef && !JPEG_KEPT_APP_MARKERS.has(marker));
+    if (!isMetadata) parts.push(bytes.subarray(offset, segmentEnd));
+    offset = segmentEnd;
+  }
+
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+};
+
+const stripPng = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    // length (4) + type (4) + data + CRC (4)
+    const chunkEnd = offset + 12 + view.getUint32(offset);
+    if (chunkEnd > bytes.length) throw new RangeError('Malformed PNG data');
+
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (!PNG_METADATA_CHUNKS.has(type)) parts.push(bytes.subarray(offset, chunkEnd));
+    offset = chunkEnd;
+    if (type === 'IEND') break;
+  }
+
+  return concat(parts);
+};
+
+/**
+ * Copy of the image without its metadata. Throws on malformed files.
+ */
+export const stripImageMetadata = (bytes: Uint8Array, format: ImageFormat): Uint8Array =>
+  format === 'jpeg' ? stripJpeg(bytes) : stripPng(bytes);
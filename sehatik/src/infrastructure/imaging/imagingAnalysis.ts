@@ -0,0 +1,65 @@
+/**
+ * Imaging Analysis
+ * Extension point for an on-device image analysis model. No model ships
+ * with the app: the screen shows no analysis at all unless a validated
+ * analyzer is registered AND the build enables it in config. Results are
+ * always presented as non-diagnostic, to be read by a radiologist.
+ *
+ * Config (expoConfig.extra): IMAGING_ANALYSIS_ENABLED.
+ */
+
+import type { ImagingDocumentKind, ImagingMetadata } from '../../domain/models/types';
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface ImagingAnalysisInput {
+  kind: ImagingDocumentKind;
+  mimeType: string;
+  metadata: ImagingMetadata;
+  /** De-identified file content */
+  bytes: Uint8Array;
+}
+
+export interface ImagingAnalysisResult {
+  analyzerId: string;
+  analyzerVersion: string;
+  /** Short observations, in the user's language */
+  observations: string[];
+  /** Whether the analyzer suggests showing the images to a doctor soon */
+  suggestsReview: boolean;
+}
+
+export interface ImagingAnalyzer {
+  id: string;
+  version: string;
+  /** Runs on the device; must not send the image anywhere */
+  analyze: (input: ImagingAnalysisInput, language: string) => Promise<ImagingAnalysisResult>;
+}
+
+// ── Registry ───────────────────────────────────────────────
+
+let registeredAnalyzer: ImagingAnalyzer | null = null;
+
+/**
+ * Register the analyzer bundled with this build
+ */
+export const registerImagingAnalyzer = (analyzer: ImagingAnalyzer | null): void => {
+  registeredAnalyzer = analyzer;
+};
+
+const isAnalysisEnabled = async (): Promise<boolean> => {
+  try {
+    const Constants = await import('expo-constants');
+    return Constants.default.expoConfig?.extra?.IMAGING_ANALYSIS_ENABLED === true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The analyzer to offer, or null when analysis is off (the default)
+ */
+export const getImagingAnalyzer = async (): Promise<ImagingAnalyzer | null> => {
+  if (!registeredAnalyzer) return null;
+  return (await isAnalysisEnabled()) ? registeredAnalyzer : null;
+};
@@ -0,0 +1,111 @@
+/**
+ * Imaging Intake
+ * Lets the user pick an imaging file (DICOM from a CD/USB export, or a
+ * photo/scan of a report) and prepares it for the encrypted vault:
+ * DICOM identifiers are blanked, image metadata is stripped and the
+ * original file name is dropped. Everything happens on the device.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import type { ImagingDocumentKind, ImagingMetadata } from '../../domain/models/types';
+import { readAndDeidentifyDicom } from './dicom';
+import { detectImageFormat, stripImageMetadata } from './imageMetadata';
+
+export interface PreparedImagingFile {
+  kind: ImagingDocumentKind;
+  mimeType: string;
+  metadata: ImagingMetadata;
+  bytes: Uint8Array;
+}
+
+export type IntakeError = 'too_large' | 'unsupported' | 'unsupported_encoding' | 'unreadable';
+
+export type IntakeResult =
+  | { status: 'ready'; file: PreparedImagingFile }
+  | { status: 'cancelled' }
+  | { status: 'error'; error: IntakeError };
+
+/** A single mammography view rarely exceeds 50 MB */
+export const MAX_IMAGING_FILE_BYTES = 60 * 1024 * 1024;
+
+const PICKER_TYPES = ['application/dicom', 'image/jpeg', 'image/png', '*/*'];
+
+const MIME_TYPES = { jpeg: 'image/jpeg', png: 'image/png' } as const;
+
+const discardCachedCopy = (file: File): void => {
+  try {
+    if (file.exists) file.delete();
+  } catch {
+    // Fail silently: the cache is cleared by the OS
+  }
+};
+
+/**
+ * De-identify raw file bytes. The format is detected from the content,
+ * never from the file name or the MIME type reported by the picker.
+ */
+export const prepareImagingFile = (
+  bytes: Uint8Array,
+): { ok: true; file: PreparedImagingFile } | { ok: false; error: IntakeError } => {
+  if (bytes.length > MAX_IMAGING_FILE_BYTES) return { ok: false, error: 'too_large' };
+
+  const dicom = readAndDeidentifyDicom(bytes);
+  if (dicom.ok) {
+    return {
+      ok: true,
+      file: {
+        kind: 'dicom',
+        mimeType: 'application/dicom',
+        metadata: dicom.metadata,
+        bytes: dicom.deidentified,
+      },
+    };
+  }
+  if (dicom.error === 'unsupported_encoding') return { ok: false, error: 'unsupported_encoding' };
+  if (dicom.error === 'malformed') return { ok: false, error: 'unreadable' };
+
+  const format = detectImageFormat(bytes);
+  if (!format) return { ok: false, error: 'unsupported' };
+  try {
+    return {
+      ok: true,
+      file: {
+        kind: 'image',
+        mimeType: MIME_TYPES[format],
+        metadata: {},
+        bytes: stripImageMetadata(bytes, format),
+      },
+    };
+  } catch {
+    return { ok: false, error: 'unreadable' };
+  }
+};
+
+/**
+ * Open the system file picker and return the de-identified file
+ */
+export const pickImagingFile = async (): Promise<IntakeResult> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: PICKER_TYPES,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return { status: 'cancelled' };
+
+  const asset = result.assets[0];
+  if (asset.size !== undefined && asset.size > MAX_IMAGING_FILE_BYTES) {
+    return { status: 'error', error: 'too_large' };
+  }
+
+  const cached = new File(asset.uri);
+  try {
+    const prepared = prepareImagingFile(await cached.bytes());
+    return prepared.ok
+      ? { status: 'ready', file: prepared.file }
+      : { status: 'error', error: prepared.error };
+  } catch {
+    return { status: 'error', error: 'unreadable' };
+  } finally {
+    discardCachedCopy(cached);
+  }
+};
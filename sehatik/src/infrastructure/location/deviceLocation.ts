@@ -0,0 +1,47 @@
+/**
+ * Device Location
+ * One foreground position fix, asked for only when the user opens a
+ * screen that needs it. Low accuracy is enough: the position is
+ * coarsened to city level right away (see locationStore), and it lets
+ * the user grant "approximate location" only.
+ */
+
+import * as Location from 'expo-location';
+
+export type DevicePositionResult =
+  | { status: 'ok'; latitude: number; longitude: number }
+  /** The user refused (or earlier refused for good) */
+  | { status: 'denied' }
+  /** Location services off, no fix in time, or no location hardware */
+  | { status: 'unavailable' };
+
+/** A recent fix is reused rather than waking the GPS */
+const LAST_KNOWN_MAX_AGE_MS = 10 * 60 * 1000;
+const FIX_TIMEOUT_MS = 15000;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T | null> =>
+  Promise.race([promise, new Promise<null>((resolve) => setTimeout(() => resolve(null), ms))]);
+
+export const getDevicePosition = async (): Promise<DevicePositionResult> => {
+  try {
+    const permission = await Location.requestForegroundPermissionsAsync();
+    if (!permission.granted) return { status: 'denied' };
+    if (!(await Location.hasServicesEnabledAsync())) return { status: 'unavailable' };
+
+    const position =
+      (await Location.getLastKnownPositionAsync({ maxAge: LAST_KNOWN_MAX_AGE_MS })) ??
+      (await withTimeout(
+        Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Low }),
+        FIX_TIMEOUT_MS,
+      ));
+    if (!position) return { status: 'unavailable' };
+
+    return {
+      status: 'ok',
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    };
+  } catch {
+    return { status: 'unavailable' };
+  }
+};
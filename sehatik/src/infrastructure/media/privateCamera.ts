@@ -0,0 +1,47 @@
+/**
+ * Private Camera
+ * Takes a photo for the photo journal without it ever reaching the
+ * shared gallery: the picture is returned as data and the camera's
+ * temporary file is deleted straight away.
+ */
+
+import * as ImagePicker from 'expo-image-picker';
+import { File } from 'expo-file-system';
+
+export type CaptureResult =
+  | { status: 'captured'; base64: string }
+  | { status: 'cancelled' }
+  | { status: 'denied' };
+
+/** Enough detail to compare skin changes, small enough to encrypt quickly */
+const PHOTO_QUALITY = 0.5;
+
+const discardTemporaryFile = (uri: string): void => {
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch {
+    // Fail silently: the cache is cleared by the OS
+  }
+};
+
+/**
+ * Open the camera and return the photo as base64 JPEG data
+ */
+export const capturePrivatePhoto = async (): Promise<CaptureResult> => {
+  const permission = await ImagePicker.requestCameraPermissionsAsync();
+  if (!permission.granted) return { status: 'denied' };
+
+  const result = await ImagePicker.launchCameraAsync({
+    mediaTypes: ['images'],
+    quality: PHOTO_QUALITY,
+    base64: true,
+    // Location and device metadata are not needed
+    exif: false,
+  });
+  if (result.canceled) return { status: 'cancelled' };
+
+  const asset = result.assets[0];
+  discardTemporaryFile(asset.uri);
+  return asset.base64 ? { status: 'captured', base64: asset.base64 } : { status: 'cancelled' };
+};
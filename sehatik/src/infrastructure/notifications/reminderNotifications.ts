@@ -0,0 +1,225 @@
+/**
+ * Reminder Notifications
+ * Local notification scheduling for exam and screening reminders.
+ *
+ * PRIVACY: Notification text is generic ("You have a reminder") because it
+ * can appear on the lock screen. The Android channel is PRIVATE, so the
+ * content is hidden on a secure lock screen anyway. Nothing medical is
+ * ever placed in the title, body or payload. In discreet mode a SECRET
+ * channel keeps reminders off the lock screen altogether.
+ */
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+// ── Types ──────────────────────────────────────────────────
+
+export interface ReminderOccurrence {
+  reminderId: string;
+  date: Date;
+}
+
+export interface ReminderNotificationContent {
+  title: string;
+  body: string;
+  /** Android channel name shown in system settings */
+  channelName: string;
+  /** Discreet mode: not shown on the lock screen at all */
+  hideOnLockScreen?: boolean;
+}
+
+/** Payload attached to every reminder notification */
+export interface ReminderNotificationData {
+  reminderId: string;
+  scheduledFor: number;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+/** Prefix of every identifier we schedule, so we never touch foreign ones */
+const IDENTIFIER_PREFIX = 'sehatik_reminder_';
+const CHANNEL_ID = 'reminders';
+/** Separate channel: Android does not let an app change a channel's visibility */
+const DISCREET_CHANNEL_ID = 'reminders_discreet';
+
+let handlerConfigured = false;
+
+/** Reschedules run one after another so cancel/schedule never interleave */
+let scheduleQueue: Promise<void> = Promise.resolve();
+
+// ── Setup ──────────────────────────────────────────────────
+
+/**
+ * Foreground presentation: show the banner quietly (no sound, no badge)
+ */
+export const configureReminderNotifications = (): void => {
+  if (handlerConfigured) return;
+  handlerConfigured = true;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+};
+
+const ensureChannel = async (channelId: string, channelName: string): Promise<void> => {
+  if (Platform.OS !== 'android') return;
+
+  await Notifications.setNotificationChannelAsync(channelId, {
+    name: channelName,
+    importance: Notifications.AndroidImportance.DEFAULT,
+    lockscreenVisibility:
+      channelId === DISCREET_CHANNEL_ID
+        ? Notifications.AndroidNotificationVisibility.SECRET
+        : Notifications.AndroidNotificationVisibility.PRIVATE,
+    showBadge: false,
+  });
+};
+
+/**
+ * Ask for permission only if not already decided.
+ * Returns false when the user declined: reminders then stay in-app only.
+ */
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch {
+    return false;
+  }
+};
+
+// ── Scheduling ─────────────────────────────────────────────
+
+const cancelReminderNotifications = async (): Promise<void> => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((n) => n.identifier.startsWith(IDENTIFIER_PREFIX))
+      .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier)),
+  );
+};
+
+const applyReminderNotifications = async (
+  occurrences: ReminderOccurrence[],
+  content: ReminderNotificationContent,
+): Promise<void> => {
+  try {
+    await cancelReminderNotifications();
+    if (occurrences.length === 0) return;
+
+    const granted = await ensureNotificationPermission();
+    if (!granted) return;
+
+    const channelId = content.hideOnLockScreen ? DISCREET_CHANNEL_ID : CHANNEL_ID;
+    await ensureChannel(channelId, content.channelName);
+
+    const now = Date.now();
+    for (const occurrence of occurrences) {
+      const time = occurrence.date.getTime();
+      if (time <= now) continue;
+
+      const data: ReminderNotificationData = {
+        reminderId: occurrence.reminderId,
+        scheduledFor: time,
+      };
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${IDENTIFIER_PREFIX}${occurrence.reminderId}_${time}`,
+        content: {
+          title: content.title,
+          body: content.body,
+          data: { ...data },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: occurrence.date,
+          channelId,
+        },
+      });
+    }
+  } catch {
+    // Fail silently - reminders are still visible in-app
+  }
+};
+
+/**
+ * Replace every scheduled reminder notification with the given occurrences.
+ * Called on every settings change, so the OS schedule never drifts from
+ * the store. Past dates are skipped.
+ */
+export const replaceReminderNotifications = (
+  occurrences: ReminderOccurrence[],
+  content: ReminderNotificationContent,
+): Promise<void> => {
+  scheduleQueue = scheduleQueue.then(() => applyReminderNotifications(occurrences, content));
+  return scheduleQueue;
+};
+
+// ── Listeners ──────────────────────────────────────────────
+
+const readReminderData = (
+  notification: Notifications.Notification,
+): ReminderNotificationData | null => {
+  if (!notification.request.identifier.startsWith(IDENTIFIER_PREFIX)) return null;
+
+  const data = notification.request.content.data as Partial<ReminderNotificationData> | null;
+  if (!data || typeof data.reminderId !== 'string') return null;
+
+  return {
+    reminderId: data.reminderId,
+    scheduledFor:
+      typeof data.scheduledFor === 'number' ? data.scheduledFor : notification.date,
+  };
+};
+
+interface ReminderNotificationHandlers {
+  /** A reminder was delivered (app in foreground) */
+  onDelivered: (data: ReminderNotificationData) => void;
+  /** The user opened the app from a reminder */
+  onOpened: (data: ReminderNotificationData) => void;
+}
+
+/**
+ * Subscribe to reminder deliveries and taps.
+ * Also replays the tap that cold-started the app, if any.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToReminderNotifications = (
+  handlers: ReminderNotificationHandlers,
+): (() => void) => {
+  const received = Notifications.addNotificationReceivedListener((notification) => {
+    const data = readReminderData(notification);
+    if (data) handlers.onDelivered(data);
+  });
+
+  const responded = Notifications.addNotificationResponseReceivedListener((response) => {
+    const data = readReminderData(response.notification);
+    if (data) handlers.onOpened(data);
+  });
+
+  Notifications.getLastNotificationResponseAsync()
+    .then(async (response) => {
+      if (!response) return;
+      const data = readReminderData(response.notification);
+      if (!data) return;
+      handlers.onOpened(data);
+      await Notifications.clearLastNotificationResponseAsync();
+    })
+    .catch(() => {
+      // Fail silently
+    });
+
+  return () => {
+    received.remove();
+    responded.remove();
+  };
+};
@@ -0,0 +1,179 @@
+/**
+ * Backup Crypto
+ * End-to-end encryption of the backup. The key is derived from a
+ * passphrase only the user knows, so the backup server stores nothing
+ * it can read.
+ *
+ *   - The vault key is PBKDF2-SHA256(passphrase, salt). Salt and
+ *     iteration count are kept with the backup (BackupVaultParams), so
+ *     any phone can derive the same key from the same passphrase
+ *   - HKDF splits it into an encryption key and an id key
+ *   - Each entry is sealed with XChaCha20-Poly1305. Its item id is an
+ *     HMAC of its kind and id, bound as associated data, so the server
+ *     sees neither what an item is nor can swap two items
+ *   - A sealed check value tells a wrong passphrase from damaged data
+ *
+ * The passphrase cannot be recovered: without it, the backup is lost.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2.js';
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils.js';
+import type { BackupEntry } from '../../domain/services/backup';
+
+// ── Types ──────────────────────────────────────────────────
+
+/** Public parameters of a backup vault (stored in clear on the server) */
+export interface BackupVaultParams {
+  v: number;
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  /** hex */
+  salt: string;
+  /** Sealed CHECK_VALUE (hex), to recognise the right passphrase */
+  check: string;
+}
+
+/** An entry as the server stores it (hex-encoded) */
+export interface BackupItem {
+  id: string;
+  data: string;
+}
+
+export interface BackupKeys {
+  encKey: Uint8Array;
+  idKey: Uint8Array;
+}
+
+// ── Constants ──────────────────────────────────────────────
+
+const VAULT_VERSION = 1;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+const ITEM_ID_BYTES = 16;
+/** Derivation takes a few seconds on older phones; it runs once per phone */
+const ITERATIONS = 100000;
+/**
+ * Iteration counts accepted from the server: fewer would weaken the key,
+ * many more would keep the phone busy for minutes
+ */
+const MIN_ITERATIONS = ITERATIONS;
+const MAX_ITERATIONS = 10 * ITERATIONS;
+
+const CHECK_VALUE = 'sehatik-backup';
+const CHECK_AAD = 'vault-check';
+
+// ── Keys ───────────────────────────────────────────────────
+
+const deriveVaultKey = (passphrase: string, salt: Uint8Array, iterations: number) =>
+  pbkdf2Async(sha256, passphrase.normalize('NFKC'), salt, { c: iterations, dkLen: KEY_BYTES });
+
+/**
+ * Encryption and id keys for a vault key (the value to keep on the phone)
+ */
+export const getBackupKeys = (vaultKey: Uint8Array): BackupKeys => ({
+  encKey: hkdf(sha256, vaultKey, undefined, utf8ToBytes('sehatik-backup-enc'), KEY_BYTES),
+  idKey: hkdf(sha256, vaultKey, undefined, utf8ToBytes('sehatik-backup-id'), KEY_BYTES),
+});
+
+const sealBytes = (key: Uint8Array, aad: string, plain: Uint8Array): string => {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const data = xchacha20poly1305(key, nonce, utf8ToBytes(aad)).encrypt(plain);
+  const sealed = new Uint8Array(NONCE_BYTES + data.length);
+  sealed.set(nonce, 0);
+  sealed.set(data, NONCE_BYTES);
+  return bytesToHex(sealed);
+};
+
+/** Throws if the data does not authenticate */
+const openBytes = (key: Uint8Array, aad: string, sealedHex: string): Uint8Array => {
+  const sealed = hexToBytes(sealedHex);
+  const nonce = sealed.subarray(0, NONCE_BYTES);
+  return xchacha20poly1305(key, nonce, utf8ToBytes(aad)).decrypt(sealed.subarray(NONCE_BYTES));
+};
+
+/**
+ * New vault for a passphrase. Returns the public params to upload and
+ * the vault key to keep on the phone.
+ */
+export const createVault = async (
+  passphrase: string,
+): Promise<{ params: BackupVaultParams; vaultKey: Uint8Array }> => {
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const vaultKey = await deriveVaultKey(passphrase, salt, ITERATIONS);
+  const { encKey } = getBackupKeys(vaultKey);
+  return {
+    params: {
+      v: VAULT_VERSION,
+      kdf: 'pbkdf2-sha256',
+      iterations: ITERATIONS,
+      salt: bytesToHex(salt),
+      check: sealBytes(encKey, CHECK_AAD, utf8ToBytes(CHECK_VALUE)),
+    },
+    vaultKey,
+  };
+};
+
+/** The params come from the server: check them before any derivation */
+const isSupportedVault = (params: BackupVaultParams): boolean =>
+  params.v === VAULT_VERSION &&
+  params.kdf === 'pbkdf2-sha256' &&
+  Number.isInteger(params.iterations) &&
+  params.iterations >= MIN_ITERATIONS &&
+  params.iterations <= MAX_ITERATIONS &&
+  typeof params.salt === 'string' &&
+  params.salt.length === SALT_BYTES * 2;
+
+/**
+ * Vault key for an existing vault, or null when the passphrase is wrong.
+ * Throws when the vault params are not ones this app creates.
+ */
+export const unlockVault = async (
+  params: BackupVaultParams,
+  passphrase: string,
+): Promise<Uint8Array | null> => {
+  if (!isSupportedVault(params)) throw new Error('Unsupported backup vault');
+  try {
+    const vaultKey = await deriveVaultKey(passphrase, hexToBytes(params.salt), params.iterations);
+    const { encKey } = getBackupKeys(vaultKey);
+    return bytesToUtf8(openBytes(encKey, CHECK_AAD, params.check)) === CHECK_VALUE
+      ? vaultKey
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// ── Entries ────────────────────────────────────────────────
+
+/** Stable, opaque server id of an entry */
+export const getBackupItemId = (keys: BackupKeys, entry: Pick<BackupEntry, 'kind' | 'id'>) =>
+  bytesToHex(hmac(sha256, keys.idKey, utf8ToBytes(`${entry.kind}:${entry.id}`))).slice(
+    0,
+    ITEM_ID_BYTES * 2,
+  );
+
+export const sealEntry = (keys: BackupKeys, entry: BackupEntry): BackupItem => {
+  const id = getBackupItemId(keys, entry);
+  return { id, data: sealBytes(keys.encKey, id, utf8ToBytes(JSON.stringify(entry))) };
+};
+
+/**
+ * Decrypt an item. Returns null when it was not sealed with these keys,
+ * was modified or was moved to another id.
+ */
+export const openItem = (keys: BackupKeys, item: BackupItem): BackupEntry | null => {
+  try {
+    const entry = JSON.parse(
+      bytesToUtf8(openBytes(keys.encKey, item.id, item.data)),
+    ) as BackupEntry;
+    return getBackupItemId(keys, entry) === item.id ? entry : null;
+  } catch {
+    return null;
+  }
+};
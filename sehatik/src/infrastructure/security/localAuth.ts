@@ -0,0 +1,87 @@
+/**
+ * Local Authentication
+ * Asks the device owner to confirm it is them (fingerprint, face or the
+ * device passcode) before private content is shown.
+ */
+
+import * as LocalAuthentication from 'expo-local-authentication';
+
+/**
+ *   'success'     -> the owner was confirmed
+ *   'cancelled'   -> the prompt was dismissed or failed
+ *   'unavailable' -> the device has no screen lock to check against
+ */
+export type LocalAuthResult = 'success' | 'cancelled' | 'unavailable';
+
+/**
+ * Whether the device has any lock (biometric or passcode) to confirm with
+ */
+export const isLocalAuthAvailable = async (): Promise<boolean> => {
+  try {
+    const level = await LocalAuthentication.getEnrolledLevelAsync();
+    return level !== LocalAuthentication.SecurityLevel.NONE;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Prompt for biometrics, falling back to the device passcode
+ */
+export const authenticateOwner = async (
+  promptMessage: string,
+  cancelLabel?: string,
+): Promise<LocalAuthResult> => {
+  if (!(await isLocalAuthAvailable())) return 'unavailable';
+
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel,
+      disableDeviceFallback: false,
+    });
+    if (result.success) return 'success';
+    return result.error === 'passcode_not_set' || result.error === 'not_enrolled'
+      ? 'unavailable'
+      : 'cancelled';
+  } catch {
+    return 'cancelled';
+  }
+};
+
+/**
+ * Whether fingerprint or face unlock is set up on the device
+ */
+export const isBiometricAvailable = async (): Promise<boolean> => {
+  try {
+    const [hasHardware, isEnrolled] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+    ]);
+    return hasHardware && isEnrolled;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Prompt for biometrics only. No passcode fallback: others in the
+ * household may know the device passcode.
+ */
+export const authenticateWithBiometrics = async (
+  promptMessage: string,
+  cancelLabel: string,
+): Promise<LocalAuthResult> => {
+  if (!(await isBiometricAvailable())) return 'unavailable';
+
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel,
+      disableDeviceFallback: true,
+    });
+    return result.success ? 'success' : 'cancelled';
+  } catch {
+    return 'cancelled';
+  }
+};
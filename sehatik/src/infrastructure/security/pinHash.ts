@@ -0,0 +1,54 @@
+/**
+ * PIN Hash
+ * Salted PBKDF2-SHA256 hashes of app lock PINs. Only the hash is kept
+ * (in SecureStore), never the PIN itself.
+ *
+ * A short numeric PIN cannot resist an offline guess of every value;
+ * what protects it is the keychain/keystore holding the hash. Hashing
+ * keeps the PIN out of plain sight and makes each guess slower.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+
+export interface PinHash {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+/** Kept low enough for an unlock to feel instant on older phones */
+const ITERATIONS = 10000;
+
+const derive = (pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> =>
+  pbkdf2Async(sha256, pin, salt, { c: iterations, dkLen: HASH_BYTES });
+
+export const hashPin = async (pin: string): Promise<PinHash> => {
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  return {
+    salt: bytesToHex(salt),
+    hash: bytesToHex(await derive(pin, salt, ITERATIONS)),
+    iterations: ITERATIONS,
+  };
+};
+
+/** Compares every byte so timing does not reveal how close a guess was */
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+export const verifyPin = async (pin: string, stored: PinHash): Promise<boolean> => {
+  try {
+    const hash = await derive(pin, hexToBytes(stored.salt), stored.iterations);
+    return constantTimeEqual(hash, hexToBytes(stored.hash));
+  } catch {
+    return false;
+  }
+};
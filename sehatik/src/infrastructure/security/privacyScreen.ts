@@ -0,0 +1,28 @@
+/**
+ * Privacy Screen
+ * Hides the app's content from the app switcher while the app lock is
+ * on: a blur over the iOS snapshot, and FLAG_SECURE on Android (blank
+ * preview, which also blocks screenshots).
+ */
+
+import { Platform } from 'react-native';
+import * as ScreenCapture from 'expo-screen-capture';
+
+const SCREEN_CAPTURE_KEY = 'app_lock';
+const SNAPSHOT_BLUR = 1;
+
+export const setAppSwitcherProtection = async (enabled: boolean): Promise<void> => {
+  try {
+    if (Platform.OS === 'ios') {
+      await (enabled
+        ? ScreenCapture.enableAppSwitcherProtectionAsync(SNAPSHOT_BLUR)
+        : ScreenCapture.disableAppSwitcherProtectionAsync());
+    } else if (Platform.OS === 'android') {
+      await (enabled
+        ? ScreenCapture.preventScreenCaptureAsync(SCREEN_CAPTURE_KEY)
+        : ScreenCapture.allowScreenCaptureAsync(SCREEN_CAPTURE_KEY));
+    }
+  } catch {
+    // Fail silently: the in-app cover still hides the content
+  }
+};
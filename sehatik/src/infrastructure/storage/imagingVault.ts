@@ -0,0 +1,63 @@
+/**
+ * Imaging Vault
+ * Encrypted imaging documents (de-identified DICOM files and images) in
+ * the app's private documents directory, sealed with the per-install
+ * data key like the photo vault.
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import { decryptBlob, encryptBlob } from './secureStorage';
+
+const VAULT_DIR_NAME = 'imaging_documents';
+
+const vaultDir = () => new Directory(Paths.document, VAULT_DIR_NAME);
+const documentFile = (id: string) => new File(vaultDir(), `${id}.bin`);
+/** Binds each file to its document id so files cannot be swapped */
+const blobKey = (id: string) => `imaging_${id}`;
+
+/**
+ * Encrypt and store a document
+ */
+export const saveImagingFile = async (id: string, bytes: Uint8Array): Promise<void> => {
+  const dir = vaultDir();
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  documentFile(id).write(await encryptBlob(blobKey(id), bytes));
+};
+
+/**
+ * Decrypt a stored document.
+ * Null when the file is missing or cannot be opened.
+ */
+export const readImagingFile = async (id: string): Promise<Uint8Array | null> => {
+  try {
+    const file = documentFile(id);
+    if (!file.exists) return null;
+    return await decryptBlob(blobKey(id), await file.bytes());
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Delete a stored document
+ */
+export const deleteImagingFile = (id: string): void => {
+  try {
+    const file = documentFile(id);
+    if (file.exists) file.delete();
+  } catch {
+    // Fail silently
+  }
+};
+
+/**
+ * Delete every stored document
+ */
+export const deleteAllImagingFiles = (): void => {
+  try {
+    const dir = vaultDir();
+    if (dir.exists) dir.delete();
+  } catch {
+    // Fail silently
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * Photo Vault
+ * Encrypted photo files in the app's private documents directory.
+ *
+ * PRIVACY: photos are never written to the shared gallery or media
+ * library. Each file is sealed with the per-install data key (see
+ * secureStorage), so copies that leave the device, e.g. in a backup,
+ * cannot be opened.
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils.js';
+import { decryptBlob, encryptBlob } from './secureStorage';
+
+const VAULT_DIR_NAME = 'photo_journal';
+
+const vaultDir = () => new Directory(Paths.document, VAULT_DIR_NAME);
+const photoFile = (id: string) => new File(vaultDir(), `${id}.bin`);
+/** Binds each file to its photo id so files cannot be swapped */
+const blobKey = (id: string) => `photo_${id}`;
+
+/**
+ * Encrypt and store a photo (base64 JPEG data)
+ */
+export const savePhoto = async (id: string, base64: string): Promise<void> => {
+  const dir = vaultDir();
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  photoFile(id).write(await encryptBlob(blobKey(id), utf8ToBytes(base64)));
+};
+
+/**
+ * Decrypt a stored photo, as base64 JPEG data.
+ * Null when the file is missing or cannot be opened.
+ */
+export const readPhoto = async (id: string): Promise<string | null> => {
+  try {
+    const file = photoFile(id);
+    if (!file.exists) return null;
+    const data = await decryptBlob(blobKey(id), await file.bytes());
+    return data ? bytesToUtf8(data) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Delete a stored photo
+ */
+export const deletePhoto = (id: string): void => {
+  try {
+    const file = photoFile(id);
+    if (file.exists) file.delete();
+  } catch {
+    // Fail silently
+  }
+};
+
+/**
+ * Delete every stored photo (journal turned off)
+ */
+export const deleteAllPhotos = (): void => {
+  try {
+    const dir = vaultDir();
+    if (dir.exists) dir.delete();
+  } catch {
+    // Fail silently
+  }
+};
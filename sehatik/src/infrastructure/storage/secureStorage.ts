@@ -3,14 +3,34 @@
  * Encrypts sensitive health data before persistence
  * Uses expo-secure-store for key storage
  *
+ * Encryption scheme:
+ * - A random 256-bit data key is generated per install and kept in the
+ *   device keychain/keystore (never leaves the device, not backed up)
+ * - Payloads are sealed with XChaCha20-Poly1305 (authenticated encryption);
+ *   the storage key is bound as associated data so blobs cannot be swapped
+ * - Any modification of a stored blob fails authentication (tamper detection)
+ * - The keys sealed at least once are listed in the keychain, so plaintext
+ *   planted under one of them is not mistaken for legacy data
+ *
  * CRITICAL: All user health data MUST be encrypted before storage
  * Compliant with Morocco Law 09-08 on personal data protection
  */
 
 import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils.js';
 
 const ENCRYPTION_KEY_ALIAS = 'sehatik_enc_key';
+const SEALED_KEYS_ALIAS = 'sehatik_sealed_keys';
+const STORAGE_PREFIX = '@sehatik_';
+const QUARANTINE_PREFIX = `${STORAGE_PREFIX}quarantine_`;
+
+const ENVELOPE_VERSION = 1;
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+const KEY_ID_BYTES = 8;
 
 /**
  * Store a value securely (uses device keychain/keystore)
@@ -51,7 +71,7 @@ export const secureDelete = async (key: string): Promise<void> => {
 export const localSet = async (key: string, value: unknown): Promise<void> => {
   try {
     const serialized = JSON.stringify(value);
-    await AsyncStorage.setItem(`@sehatik_${key}`, serialized);
+    await AsyncStorage.setItem(`${STORAGE_PREFIX}${key}`, serialized);
   } catch {
     // Fail silently
   }
@@ -62,7 +82,7 @@ export const localSet = async (key: string, value: unknown): Promise<void> => {
  */
 export const localGet = async <T = unknown>(key: string): Promise<T | null> => {
   try {
-    const serialized = await AsyncStorage.getItem(`@sehatik_${key}`);
+    const serialized = await AsyncStorage.getItem(`${STORAGE_PREFIX}${key}`);
     if (serialized) {
       return JSON.parse(serialized) as T;
     }
@@ -78,10 +98,307 @@ export const localGet = async <T = unknown>(key: string): Promise<T | null> => {
 export const clearAllData = async (): Promise<void> => {
   try {
     const keys = await AsyncStorage.getAllKeys();
-    const sehatikKeys = keys.filter((k) => k.startsWith('@sehatik_'));
+    const sehatikKeys = keys.filter((k) => k.startsWith(STORAGE_PREFIX));
     await AsyncStorage.multiRemove(sehatikKeys);
     await SecureStore.deleteItemAsync(ENCRYPTION_KEY_ALIAS);
+    await SecureStore.deleteItemAsync(SEALED_KEYS_ALIAS);
+    dataKeyPromise = null;
+    sealedKeysPromise = null;
+  } catch {
+    // Fail silently
+  }
+};
+
+// ── Encrypted persistence ─────────────────────────────────
+
+interface DataKey {
+  /** Random identifier, stored in every envelope to detect a replaced key */
+  id: string;
+  bytes: Uint8Array;
+}
+
+/**
+ * On-disk format of an encrypted value (all binary fields hex-encoded)
+ */
+interface EncryptedEnvelope {
+  v: number;
+  alg: 'xchacha20poly1305';
+  kid: string;
+  nonce: string;
+  data: string;
+}
+
+/**
+ * Outcome of reading an encrypted value:
+ *   'ok'        -> decrypted and authenticated
+ *   'empty'     -> nothing stored under this key
+ *   'migrated'  -> legacy plaintext found under a key never sealed on this
+ *                  install, now re-written encrypted
+ *   'tampered'  -> authentication failed (blob modified or corrupted), or
+ *                  plaintext found where a sealed value was written
+ *   'key_lost'  -> blob was sealed with a key this install no longer has
+ *                  (e.g. app data restored onto a new device)
+ *
+ * Unreadable blobs are moved to quarantine instead of being deleted,
+ * so the app can keep working with a fresh history.
+ */
+export type EncryptedReadStatus = 'ok' | 'empty' | 'migrated' | 'tampered' | 'key_lost';
+
+/** Statuses where stored data could not be recovered */
+export type EncryptedReadFailure = Extract<EncryptedReadStatus, 'tampered' | 'key_lost'>;
+
+export interface EncryptedReadResult<T> {
+  status: EncryptedReadStatus;
+  value: T | null;
+}
+
+let dataKeyPromise: Promise<DataKey> | null = null;
+
+const loadOrCreateDataKey = async (): Promise<DataKey> => {
+  const stored = await SecureStore.getItemAsync(ENCRYPTION_KEY_ALIAS);
+  if (stored) {
+    const { id, key } = JSON.parse(stored) as { id: string; key: string };
+    return { id, bytes: hexToBytes(key) };
+  }
+
+  const dataKey: DataKey = {
+    id: bytesToHex(Crypto.getRandomBytes(KEY_ID_BYTES)),
+    bytes: Crypto.getRandomBytes(KEY_BYTES),
+  };
+  await SecureStore.setItemAsync(
+    ENCRYPTION_KEY_ALIAS,
+    JSON.stringify({ id: dataKey.id, key: bytesToHex(dataKey.bytes) }),
+    // Device-only: the key is never restored from a backup
+    { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY },
+  );
+  return dataKey;
+};
+
+/**
+ * Get the per-install data key, generating it on first use.
+ * Memoized so concurrent first loads cannot create two keys.
+ */
+const getDataKey = (): Promise<DataKey> => {
+  if (!dataKeyPromise) {
+    dataKeyPromise = loadOrCreateDataKey().catch((error) => {
+      dataKeyPromise = null;
+      throw error;
+    });
+  }
+  return dataKeyPromise;
+};
+
+let sealedKeysPromise: Promise<Set<string>> | null = null;
+/** Writes of the sealed keys list, one after the other */
+let sealedKeysWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Storage keys sealed at least once on this install, memoized like the
+ * data key
+ */
+const getSealedKeys = (): Promise<Set<string>> => {
+  if (!sealedKeysPromise) {
+    sealedKeysPromise = SecureStore.getItemAsync(SEALED_KEYS_ALIAS)
+      .then((stored) => new Set(stored ? (JSON.parse(stored) as string[]) : []))
+      .catch((error) => {
+        sealedKeysPromise = null;
+        throw error;
+      });
+  }
+  return sealedKeysPromise;
+};
+
+/** Record a key as sealed; must succeed before its value is written */
+const markSealed = async (key: string): Promise<void> => {
+  const sealedKeys = await getSealedKeys();
+  if (sealedKeys.has(key)) return;
+  sealedKeys.add(key);
+  const write = sealedKeysWrite.then(() =>
+    SecureStore.setItemAsync(SEALED_KEYS_ALIAS, JSON.stringify([...sealedKeys]), {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    }),
+  );
+  sealedKeysWrite = write.catch(() => undefined);
+  try {
+    await write;
+  } catch (error) {
+    sealedKeys.delete(key);
+    throw error;
+  }
+};
+
+const isEnvelope = (parsed: unknown): parsed is EncryptedEnvelope =>
+  typeof parsed === 'object' &&
+  parsed !== null &&
+  (parsed as EncryptedEnvelope).alg === 'xchacha20poly1305' &&
+  typeof (parsed as EncryptedEnvelope).data === 'string';
+
+const seal = (dataKey: DataKey, key: string, value: unknown): string => {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const cipher = xchacha20poly1305(dataKey.bytes, nonce, utf8ToBytes(key));
+  const envelope: EncryptedEnvelope = {
+    v: ENVELOPE_VERSION,
+    alg: 'xchacha20poly1305',
+    kid: dataKey.id,
+    nonce: bytesToHex(nonce),
+    data: bytesToHex(cipher.encrypt(utf8ToBytes(JSON.stringify(value)))),
+  };
+  return JSON.stringify(envelope);
+};
+
+/** Throws if the ciphertext does not authenticate */
+const open = <T>(dataKey: DataKey, key: string, envelope: EncryptedEnvelope): T => {
+  const cipher = xchacha20poly1305(dataKey.bytes, hexToBytes(envelope.nonce), utf8ToBytes(key));
+  return JSON.parse(bytesToUtf8(cipher.decrypt(hexToBytes(envelope.data)))) as T;
+};
+
+const quarantine = async (key: string, raw: string): Promise<void> => {
+  await AsyncStorage.setItem(`${QUARANTINE_PREFIX}${key}`, raw);
+  await AsyncStorage.removeItem(`${STORAGE_PREFIX}${key}`);
+};
+
+/**
+ * Encrypt and store a sensitive value (health history, answers)
+ */
+export const encryptedSet = async (key: string, value: unknown): Promise<void> => {
+  try {
+    const dataKey = await getDataKey();
+    await markSealed(key);
+    await AsyncStorage.setItem(`${STORAGE_PREFIX}${key}`, seal(dataKey, key, value));
+  } catch {
+    // Fail silently - never fall back to plaintext
+  }
+};
+
+/**
+ * Delete an encrypted value
+ */
+export const encryptedRemove = async (key: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(`${STORAGE_PREFIX}${key}`);
   } catch {
     // Fail silently
   }
 };
+
+/**
+ * Read and decrypt a sensitive value.
+ * Legacy plaintext written before encryption is migrated transparently,
+ * once: after a key has been sealed, plaintext under it is tampering.
+ */
+export const encryptedGet = async <T = unknown>(key: string): Promise<EncryptedReadResult<T>> => {
+  let raw: string | null;
+  try {
+    raw = await AsyncStorage.getItem(`${STORAGE_PREFIX}${key}`);
+  } catch {
+    return { status: 'empty', value: null };
+  }
+  if (!raw) return { status: 'empty', value: null };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    await quarantine(key, raw).catch(() => undefined);
+    return { status: 'tampered', value: null };
+  }
+
+  if (!isEnvelope(parsed)) {
+    let wasSealed: boolean;
+    try {
+      wasSealed = (await getSealedKeys()).has(key);
+    } catch {
+      // Keystore unavailable right now - leave the blob untouched
+      return { status: 'empty', value: null };
+    }
+    if (wasSealed) {
+      await quarantine(key, raw).catch(() => undefined);
+      return { status: 'tampered', value: null };
+    }
+    // Plaintext from before encryption: re-write it sealed
+    await encryptedSet(key, parsed);
+    return { status: 'migrated', value: parsed as T };
+  }
+
+  let dataKey: DataKey;
+  try {
+    dataKey = await getDataKey();
+  } catch {
+    // Keystore unavailable right now - leave the blob untouched
+    return { status: 'empty', value: null };
+  }
+
+  if (parsed.kid !== dataKey.id) {
+    await quarantine(key, raw).catch(() => undefined);
+    return { status: 'key_lost', value: null };
+  }
+
+  try {
+    const value = open<T>(dataKey, key, parsed);
+    // Values sealed before the list existed are recorded on first read
+    await markSealed(key).catch(() => undefined);
+    return { status: 'ok', value };
+  } catch {
+    await quarantine(key, raw).catch(() => undefined);
+    return { status: 'tampered', value: null };
+  }
+};
+
+/**
+ * Whether unreadable data was set aside for a key (see EncryptedReadStatus)
+ */
+export const hasQuarantinedData = async (key: string): Promise<boolean> => {
+  try {
+    return (await AsyncStorage.getItem(`${QUARANTINE_PREFIX}${key}`)) !== null;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Permanently delete quarantined data once the user has acknowledged it
+ */
+export const discardQuarantinedData = async (key: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(`${QUARANTINE_PREFIX}${key}`);
+  } catch {
+    // Fail silently
+  }
+};
+
+// ── Encrypted files ───────────────────────────────────────
+
+/**
+ * Seal a large payload (e.g. a photo) for storage in a file rather than
+ * AsyncStorage. Binary layout: key id | nonce | ciphertext. `key` names
+ * the payload and is bound as associated data, as for encryptedSet.
+ */
+export const encryptBlob = async (key: string, plain: Uint8Array): Promise<Uint8Array> => {
+  const dataKey = await getDataKey();
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const cipher = xchacha20poly1305(dataKey.bytes, nonce, utf8ToBytes(key));
+  const data = cipher.encrypt(plain);
+
+  const blob = new Uint8Array(KEY_ID_BYTES + NONCE_BYTES + data.length);
+  blob.set(hexToBytes(dataKey.id), 0);
+  blob.set(nonce, KEY_ID_BYTES);
+  blob.set(data, KEY_ID_BYTES + NONCE_BYTES);
+  return blob;
+};
+
+/**
+ * Open a payload sealed by encryptBlob.
+ * Returns null when it was sealed with another key or was modified.
+ */
+export const decryptBlob = async (key: string, blob: Uint8Array): Promise<Uint8Array | null> => {
+  try {
+    const dataKey = await getDataKey();
+    if (bytesToHex(blob.subarray(0, KEY_ID_BYTES)) !== dataKey.id) return null;
+
+    const nonce = blob.subarray(KEY_ID_BYTES, KEY_ID_BYTES + NONCE_BYTES);
+    const cipher = xchacha20poly1305(dataKey.bytes, nonce, utf8ToBytes(key));
+    return cipher.decrypt(blob.subarray(KEY_ID_BYTES + NONCE_BYTES));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,131 @@
+/**
+ * Crisis Support Card
+ * Shown in the chat when a message contains emotional-crisis language
+ * (see safetyTriage). Points to emergency services and people the user
+ * trusts; the assistant itself is not a support service.
+ */
+
+import React from 'react';
+import { View, Text, Pressable, StyleSheet, Linking } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, MIN_TOUCH_TARGET } from '../../theme/spacing';
+
+/** Moroccan emergency numbers */
+const EMERGENCY_NUMBERS = [
+  { number: '141', labelKey: 'chat.safety.callSamu' },
+  { number: '15', labelKey: 'chat.safety.callCivilProtection' },
+];
+
+interface CrisisSupportCardProps {
+  onDismiss: () => void;
+  isRTL?: boolean;
+}
+
+export const CrisisSupportCard: React.FC<CrisisSupportCardProps> = ({
+  onDismiss,
+  isRTL = false,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container} accessibilityRole="alert">
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        <Ionicons name="heart-outline" size={18} color="#6D28D9" />
+        <Text style={[styles.title, isRTL && styles.textRTL]}>{t('chat.safety.crisisTitle')}</Text>
+      </View>
+      <Text style={[styles.text, isRTL && styles.textRTL]}>{t('chat.safety.crisisBody')}</Text>
+
+      <View style={[styles.actions, isRTL && styles.rowRTL]}>
+        {EMERGENCY_NUMBERS.map(({ number, labelKey }) => (
+          <Pressable
+            key={number}
+            onPress={() => Linking.openURL(`tel:${number}`)}
+            style={[styles.callButton, isRTL && styles.rowRTL]}
+            accessibilityRole="button"
+          >
+            <Ionicons name="call" size={14} color="#FFFFFF" />
+            <Text style={styles.callText}>{t(labelKey)}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Pressable
+        onPress={onDismiss}
+        style={[styles.dismiss, isRTL && styles.dismissRTL]}
+        accessibilityRole="button"
+      >
+        <Text style={styles.dismissText}>{t('chat.safety.dismiss')}</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#F5F3FF',
+    borderLeftWidth: 3,
+    borderLeftColor: '#7C3AED',
+    borderRadius: 16,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(124,58,237,0.12)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  rowRTL: {
+    flexDirection: 'row-reverse',
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#5B21B6',
+  },
+  text: {
+    fontSize: 13,
+    color: '#334155',
+    lineHeight: 19,
+  },
+  textRTL: {
+    textAlign: 'right',
+    writingDirection: 'rtl',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  callButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    minHeight: MIN_TOUCH_TARGET,
+    paddingHorizontal: 14,
+    borderRadius: MIN_TOUCH_TARGET / 2,
+    backgroundColor: '#7C3AED',
+  },
+  callText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  dismiss: {
+    alignSelf: 'flex-start',
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+  },
+  dismissRTL: {
+    alignSelf: 'flex-end',
+  },
+  dismissText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6D28D9',
+  },
+});
@@ -0,0 +1,354 @@
+/**
+ * Cycle Log Sheet
+ * Optional period log that places the monthly exam reminder in the
+ * 5-10 day window of each cycle, or a fixed date for users without
+ * a cycle (post-menopause, pregnancy, breastfeeding).
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useCycleStore } from '../../../application/store/cycleStore';
+import {
+  useReminderStore,
+  getMonthlyExamSchedule,
+} from '../../../application/store/reminderStore';
+import {
+  getUpcomingExamWindows,
+  type FixedModeReason,
+} from '../../../domain/services/cyclePrediction';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface CycleLogSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  isRTL?: boolean;
+}
+
+const FIXED_REASONS: FixedModeReason[] = ['postmenopausal', 'pregnant', 'breastfeeding', 'other'];
+
+/** How far back a period start can be entered from this sheet */
+const MAX_DAYS_AGO = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CycleLogSheet: React.FC<CycleLogSheetProps> = ({
+  visible,
+  onClose,
+  isRTL = false,
+}) => {
+  const { t } = useTranslation();
+  const { mode, fixedReason, periodStarts, logPeriodStart, removePeriodStart, setMode } =
+    useCycleStore();
+  const { reminders, setMonthlyReminder } = useReminderStore();
+  const [daysAgo, setDaysAgo] = useState(0);
+
+  const monthlyReminder = reminders.find((r) => r.id === 'monthly_exam');
+  const locale = isRTL ? 'ar' : 'fr-FR';
+  const formatDay = (date: Date | number) =>
+    new Date(date).toLocaleDateString(locale, { day: 'numeric', month: 'short' });
+
+  const nextWindow =
+    mode === 'cycle' && periodStarts.length > 0 && monthlyReminder
+      ? getUpcomingExamWindows(
+          getMonthlyExamSchedule(monthlyReminder, { mode, periodStarts }),
+          new Date(),
+          1,
+        )[0]
+      : null;
+
+  const handleLogPeriod = async () => {
+    await logPeriodStart(Date.now() - daysAgo * DAY_MS);
+    setDaysAgo(0);
+  };
+
+  const handleChangeFixedDay = (delta: number) => {
+    if (!monthlyReminder) return;
+    const day = Math.min(Math.max(monthlyReminder.dayOfMonth + delta, 1), 31);
+    setMonthlyReminder(day, monthlyReminder.hour);
+  };
+
+  const textDir = isRTL ? styles.textRTL : undefined;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.container} onPress={() => undefined}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.title}>{t('cycle.title')}</Text>
+            <Text style={[styles.intro, textDir]}>{t('cycle.intro')}</Text>
+
+            {/* Mode */}
+            <View style={[styles.segment, isRTL && styles.rowRTL]}>
+              {(['cycle', 'fixed'] as const).map((m) => (
+                <TouchableOpacity
+                  key={m}
+                  style={[styles.segmentOption, mode === m && styles.segmentOptionSelected]}
+                  onPress={() => setMode(m, m === 'fixed' ? fixedReason : null)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: mode === m }}
+                >
+                  <Text style={[styles.segmentLabel, mode === m && styles.segmentLabelSelected]}>
+                    {t(m === 'cycle' ? 'cycle.modeCycle' : 'cycle.modeFixed')}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {mode === 'cycle' ? (
+              <>
+                {/* Log a period start */}
+                <Text style={[styles.sectionTitle, textDir]}>{t('cycle.logPeriod')}</Text>
+                <View style={[styles.stepperRow, isRTL && styles.rowRTL]}>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => setDaysAgo(Math.min(daysAgo + 1, MAX_DAYS_AGO))}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('cycle.earlier')}
+                  >
+                    <Text style={styles.stepperButtonText}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.stepperValue}>
+                    {daysAgo === 0 ? t('cycle.today') : t('cycle.daysAgo', { count: daysAgo })}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => setDaysAgo(Math.max(daysAgo - 1, 0))}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('cycle.later')}
+                  >
+                    <Text style={styles.stepperButtonText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+                <TouchableOpacity
+                  style={styles.primaryButton}
+                  onPress={handleLogPeriod}
+                  accessibilityRole="button"
+                >
+                  <Text style={styles.primaryButtonText}>{t('cycle.save')}</Text>
+                </TouchableOpacity>
+
+                {nextWindow && (
+                  <Text style={[styles.prediction, textDir]}>
+                    {t('cycle.nextWindow', {
+                      start: formatDay(nextWindow.start),
+                      end: formatDay(nextWindow.end.getTime() - DAY_MS),
+                    })}
+                  </Text>
+                )}
+
+                {/* Logged dates */}
+                <Text style={[styles.sectionTitle, textDir]}>{t('cycle.history')}</Text>
+                {periodStarts.length === 0 ? (
+                  <Text style={[styles.empty, textDir]}>{t('cycle.noEntries')}</Text>
+                ) : (
+                  periodStarts.slice(0, 6).map((start) => (
+                    <View key={start} style={[styles.entryRow, isRTL && styles.rowRTL]}>
+                      <Text style={styles.entryDate}>{formatDay(start)}</Text>
+                      <TouchableOpacity
+                        onPress={() => removePeriodStart(start)}
+                        accessibilityRole="button"
+                        accessibilityLabel={t('cycle.remove')}
+                        style={styles.entryRemove}
+                      >
+                        <Text style={styles.entryRemoveText}>{t('cycle.remove')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))
+                )}
+              </>
+            ) : (
+              <>
+                {/* Fixed date */}
+                <Text style={[styles.sectionTitle, textDir]}>{t('cycle.fixedReasonTitle')}</Text>
+                <View style={[styles.chips, isRTL && styles.rowRTL]}>
+                  {FIXED_REASONS.map((reason) => (
+                    <TouchableOpacity
+                      key={reason}
+                      style={[styles.chip, fixedReason === reason && styles.chipSelected]}
+                      onPress={() => setMode('fixed', reason)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: fixedReason === reason }}
+                    >
+                      <Text
+                        style={[styles.chipLabel, fixedReason === reason && styles.chipLabelSelected]}
+                      >
+                        {t(`cycle.reasons.${reason}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <View style={[styles.stepperRow, isRTL && styles.rowRTL]}>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => handleChangeFixedDay(-1)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.stepperButtonText}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.stepperValue}>
+                    {t('cycle.fixedDay', { day: monthlyReminder?.dayOfMonth ?? 7 })}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => handleChangeFixedDay(1)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.stepperButtonText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={onClose}
+              accessibilityLabel={t('common.close')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.closeButtonText}>{t('common.close')}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '100%',
+    maxWidth: 360,
+    maxHeight: '85%',
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  title: {
+    fontSize: fontSizes.xl,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  intro: {
+    fontSize: fontSizes.sm,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: spacing.md,
+  },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  segment: {
+    flexDirection: 'row',
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  segmentOption: {
+    flex: 1,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  segmentOptionSelected: { backgroundColor: colors.primary + '15' },
+  segmentLabel: { fontSize: fontSizes.md, color: colors.text, fontWeight: fontWeights.medium },
+  segmentLabelSelected: { color: colors.primary, fontWeight: fontWeights.bold },
+  sectionTitle: {
+    fontSize: fontSizes.xs,
+    fontWeight: fontWeights.bold,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  stepperButton: {
+    width: MIN_TOUCH_TARGET,
+    height: MIN_TOUCH_TARGET,
+    borderRadius: MIN_TOUCH_TARGET / 2,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: { fontSize: fontSizes.xl, color: colors.primary, fontWeight: fontWeights.bold },
+  stepperValue: { fontSize: fontSizes.md, color: colors.text, fontWeight: fontWeights.medium },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  primaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textOnPrimary,
+    fontWeight: fontWeights.bold,
+  },
+  prediction: {
+    fontSize: fontSizes.sm,
+    color: colors.primaryDark,
+    fontWeight: fontWeights.medium,
+    marginBottom: spacing.sm,
+  },
+  empty: { fontSize: fontSizes.sm, color: colors.textSecondary, lineHeight: 20 },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  entryDate: { fontSize: fontSizes.md, color: colors.text },
+  entryRemove: { minHeight: MIN_TOUCH_TARGET, justifyContent: 'center' },
+  entryRemoveText: { fontSize: fontSizes.sm, color: colors.error },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginBottom: spacing.md },
+  chip: {
+    paddingHorizontal: spacing.md,
+    minHeight: 36,
+    justifyContent: 'center',
+    borderRadius: borderRadius.round,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: { backgroundColor: colors.primary + '15', borderColor: colors.primary },
+  chipLabel: { fontSize: fontSizes.sm, color: colors.text },
+  chipLabelSelected: { color: colors.primary, fontWeight: fontWeights.bold },
+  closeButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textSecondary,
+    fontWeight: fontWeights.medium,
+  },
+});
@@ -0,0 +1,282 @@
+/**
+ * Doctor Summary Sheet
+ * Pick the checks to bring to a consultation and share them as a
+ * bilingual PDF (see doctorSummaryPdf). Nothing identifying is included
+ * unless the user turns it on here.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useAuthStore } from '../../../application/store/authStore';
+import { useExamStore } from '../../../application/store/examStore';
+import { useSelfCheckStore } from '../../../application/store/selfCheckStore';
+import { buildDoctorSummary } from '../../../domain/services/doctorSummary';
+import { getRiskColor } from '../../../domain/services/riskAssessment';
+import type { TimelineEntry } from '../../../domain/services/symptomTimeline';
+import { shareDoctorSummaryPdf } from '../../../infrastructure/export/doctorSummaryPdf';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface DoctorSummarySheetProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Checks to choose from, newest first */
+  entries: TimelineEntry[];
+  isRTL?: boolean;
+}
+
+export const DoctorSummarySheet: React.FC<DoctorSummarySheetProps> = ({
+  visible,
+  onClose,
+  entries,
+  isRTL = false,
+}) => {
+  const { t } = useTranslation();
+  const { phoneNumber } = useAuthStore();
+  const { examHistory } = useExamStore();
+  const { history: selfCheckHistory } = useSelfCheckStore();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [includePhone, setIncludePhone] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+
+  // Every check selected, identity off, each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setSelectedIds(entries.map((e) => e.id));
+      setIncludePhone(false);
+    }
+  }, [visible, entries]);
+
+  const locale = isRTL ? 'ar' : 'fr-FR';
+  const formatDay = (date: number) =>
+    new Date(date).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+  const textDir = isRTL ? styles.textRTL : undefined;
+
+  const toggle = (id: string) =>
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      const summary = buildDoctorSummary(
+        examHistory.filter((r) => selectedIds.includes(r.id)),
+        selfCheckHistory.filter((r) => selectedIds.includes(r.id)),
+      );
+      await shareDoctorSummaryPdf(
+        summary,
+        { identity: includePhone && phoneNumber ? { phoneNumber } : undefined },
+        t('doctorSummary.title'),
+      );
+      onClose();
+    } catch {
+      Alert.alert(t('common.error'), t('doctorSummary.shareError'));
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.container} onPress={() => undefined}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.title}>{t('doctorSummary.title')}</Text>
+            <Text style={[styles.intro, textDir]}>{t('doctorSummary.intro')}</Text>
+
+            <Text style={[styles.sectionTitle, textDir]}>{t('doctorSummary.selectChecks')}</Text>
+            {entries.map((entry) => {
+              const selected = selectedIds.includes(entry.id);
+              return (
+                <TouchableOpacity
+                  key={entry.id}
+                  style={[styles.entryRow, isRTL && styles.rowRTL]}
+                  onPress={() => toggle(entry.id)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: selected }}
+                >
+                  <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+                    {selected && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                  <View
+                    style={[styles.riskDot, { backgroundColor: getRiskColor(entry.riskLevel) }]}
+                  />
+                  <View style={styles.entryText}>
+                    <Text style={[styles.entryDate, textDir]}>{formatDay(entry.date)}</Text>
+                    <Text style={[styles.entrySource, textDir]}>
+                      {t(
+                        entry.source === 'self_check'
+                          ? 'history.sourceSelfCheck'
+                          : 'history.sourceExam',
+                      )}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+
+            {phoneNumber && (
+              <View style={[styles.switchRow, isRTL && styles.rowRTL]}>
+                <Text style={[styles.switchLabel, textDir]}>{t('doctorSummary.includePhone')}</Text>
+                <Switch
+                  value={includePhone}
+                  onValueChange={setIncludePhone}
+                  trackColor={{ false: colors.border, true: colors.primary + '60' }}
+                  thumbColor={includePhone ? colors.primary : colors.textLight}
+                />
+              </View>
+            )}
+            <Text style={[styles.privacyNote, textDir]}>{t('doctorSummary.privacyNote')}</Text>
+
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                (selectedIds.length === 0 || isSharing) && styles.primaryButtonDisabled,
+              ]}
+              onPress={handleShare}
+              disabled={selectedIds.length === 0 || isSharing}
+              accessibilityRole="button"
+            >
+              {isSharing ? (
+                <ActivityIndicator color={colors.textOnPrimary} />
+              ) : (
+                <Text style={styles.primaryButtonText}>{t('doctorSummary.share')}</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={onClose}
+              accessibilityLabel={t('common.close')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.closeButtonText}>{t('common.close')}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '100%',
+    maxWidth: 360,
+    maxHeight: '85%',
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  title: {
+    fontSize: fontSizes.xl,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  intro: {
+    fontSize: fontSizes.sm,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: spacing.md,
+  },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  sectionTitle: {
+    fontSize: fontSizes.xs,
+    fontWeight: fontWeights.bold,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    minHeight: MIN_TOUCH_TARGET,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: { backgroundColor: colors.primary, borderColor: colors.primary },
+  checkmark: { color: colors.textOnPrimary, fontSize: fontSizes.xs, fontWeight: fontWeights.bold },
+  riskDot: { width: 10, height: 10, borderRadius: 5 },
+  entryText: { flex: 1, paddingVertical: spacing.xs },
+  entryDate: { fontSize: fontSizes.md, color: colors.text },
+  entrySource: { fontSize: fontSizes.xs, color: colors.textSecondary },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  switchLabel: { flex: 1, fontSize: fontSizes.sm, color: colors.text },
+  privacyNote: {
+    fontSize: fontSizes.xs,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonDisabled: { opacity: 0.5 },
+  primaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textOnPrimary,
+    fontWeight: fontWeights.bold,
+  },
+  closeButton: {
+    marginTop: spacing.sm,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textSecondary,
+    fontWeight: fontWeights.medium,
+  },
+});
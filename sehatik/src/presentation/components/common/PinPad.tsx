@@ -0,0 +1,186 @@
+/**
+ * PIN Pad
+ * Digit entry for the app lock. The keypad keeps the phone layout
+ * (1-2-3 on top, left to right) in every language, as on the dialer.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH } from '../../../domain/services/appLock';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface PinPadProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  /** Shows a fingerprint/face key when set */
+  onBiometric?: () => void;
+  disabled?: boolean;
+}
+
+const DIGIT_ROWS = [
+  ['1', '2', '3'],
+  ['4', '5', '6'],
+  ['7', '8', '9'],
+];
+
+const KEY_SIZE = 72;
+
+export const PinPad: React.FC<PinPadProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  onBiometric,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const canSubmit = !disabled && value.length >= PIN_MIN_LENGTH;
+
+  const press = (digit: string) => {
+    if (disabled || value.length >= PIN_MAX_LENGTH) return;
+    onChange(value + digit);
+  };
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={styles.key}
+      onPress={() => press(digit)}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityLabel={digit}
+    >
+      <Text style={styles.keyText}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  const slots = Math.max(PIN_MIN_LENGTH, value.length);
+
+  return (
+    <View style={[styles.container, disabled && styles.disabled]}>
+      <View
+        style={styles.dots}
+        accessible
+        accessibilityLabel={t('appLock.digitsEntered', { count: value.length })}
+      >
+        {Array.from({ length: slots }, (_, i) => (
+          <View key={i} style={[styles.dot, i < value.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      {DIGIT_ROWS.map((row) => (
+        <View key={row.join('')} style={styles.row}>
+          {row.map(renderKey)}
+        </View>
+      ))}
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => onChange(value.slice(0, -1))}
+          disabled={disabled || value.length === 0}
+          accessibilityRole="button"
+          accessibilityLabel={t('appLock.deleteDigit')}
+        >
+          <Text style={styles.keyIcon}>⌫</Text>
+        </TouchableOpacity>
+        {renderKey('0')}
+        <TouchableOpacity
+          style={[styles.key, styles.submitKey, !canSubmit && styles.submitDisabled]}
+          onPress={onSubmit}
+          disabled={!canSubmit}
+          accessibilityRole="button"
+          accessibilityLabel={t('appLock.submit')}
+        >
+          <Text style={styles.submitText}>{t('appLock.submit')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {onBiometric && (
+        <TouchableOpacity
+          style={styles.biometricButton}
+          onPress={onBiometric}
+          disabled={disabled}
+          accessibilityRole="button"
+        >
+          <Text style={styles.biometricText}>{t('appLock.useBiometrics')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    minHeight: 16,
+    marginBottom: spacing.md,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+  dotFilled: {
+    backgroundColor: colors.primary,
+  },
+  row: {
+    flexDirection: 'row',
+    direction: 'ltr',
+    gap: spacing.lg,
+  },
+  key: {
+    width: KEY_SIZE,
+    height: KEY_SIZE,
+    borderRadius: KEY_SIZE / 2,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyText: {
+    fontSize: fontSizes.xxl,
+    fontWeight: fontWeights.semiBold,
+    color: colors.text,
+  },
+  keyIcon: {
+    fontSize: fontSizes.xl,
+    color: colors.textSecondary,
+  },
+  submitKey: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  submitDisabled: {
+    opacity: 0.4,
+  },
+  submitText: {
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.bold,
+    color: colors.textOnPrimary,
+  },
+  biometricButton: {
+    minHeight: 44,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    justifyContent: 'center',
+  },
+  biometricText: {
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.semiBold,
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,18 @@
+/**
+ * Privacy Cover
+ * Plain cover drawn over the app while it is not in the foreground, so
+ * the app switcher preview shows nothing personal.
+ */
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { colors } from '../../theme/colors';
+
+export const PrivacyCover: React.FC = () => <View style={styles.cover} pointerEvents="none" />;
+
+const styles = StyleSheet.create({
+  cover: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: colors.background,
+  },
+});
@@ -0,0 +1,106 @@
+/**
+ * Storage Issue Notice
+ * Shown when encrypted history could not be read back (tampered blob or
+ * a key lost after a device restore). The unreadable copy is kept in
+ * quarantine until the user dismisses this notice.
+ */
+
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import type { EncryptedReadFailure } from '../../../infrastructure/storage/secureStorage';
+import { spacing, MIN_TOUCH_TARGET } from '../../theme/spacing';
+
+interface StorageIssueNoticeProps {
+  issue: EncryptedReadFailure;
+  onDismiss: () => void;
+  isRTL?: boolean;
+}
+
+export const StorageIssueNotice: React.FC<StorageIssueNoticeProps> = ({
+  issue,
+  onDismiss,
+  isRTL = false,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <View style={[styles.container, isRTL && styles.containerRTL]} accessibilityRole="alert">
+      <View style={styles.iconWrap}>
+        <Ionicons name="lock-closed-outline" size={16} color="#B45309" />
+      </View>
+      <View style={styles.body}>
+        <Text style={[styles.title, isRTL && styles.textRTL]}>{t('dataIntegrity.title')}</Text>
+        <Text style={[styles.text, isRTL && styles.textRTL]}>
+          {t(issue === 'key_lost' ? 'dataIntegrity.keyLost' : 'dataIntegrity.tampered')}
+        </Text>
+        <Pressable
+          onPress={onDismiss}
+          style={[styles.dismiss, isRTL && styles.dismissRTL]}
+          accessibilityRole="button"
+        >
+          <Text style={styles.dismissText}>{t('dataIntegrity.dismiss')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFBEB',
+    borderLeftWidth: 3,
+    borderLeftColor: '#F59E0B',
+    borderRadius: 16,
+    padding: spacing.md,
+    alignItems: 'flex-start',
+    gap: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(245,158,11,0.12)',
+  },
+  containerRTL: {
+    flexDirection: 'row-reverse',
+  },
+  iconWrap: {
+    width: 28,
+    height: 28,
+    borderRadius: 10,
+    backgroundColor: 'rgba(245,158,11,0.12)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 1,
+  },
+  body: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#92400E',
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 13,
+    color: '#334155',
+    lineHeight: 19,
+  },
+  textRTL: {
+    textAlign: 'right',
+    writingDirection: 'rtl',
+  },
+  dismiss: {
+    alignSelf: 'flex-start',
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+  },
+  dismissRTL: {
+    alignSelf: 'flex-end',
+  },
+  dismissText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+});
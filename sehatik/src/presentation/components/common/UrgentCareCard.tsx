@@ -0,0 +1,184 @@
+/**
+ * Urgent Care Card
+ * Pinned above the chat when the user describes a red-flag symptom
+ * (see safetyTriage). Lists the nearest fixed centers with a call button.
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet, Linking } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import type { RedFlagId } from '../../../domain/services/safetyTriage';
+import { useLocationStore } from '../../../application/store/locationStore';
+import { useCentersStore } from '../../../application/store/centersStore';
+import { getCentersSortedByDistance } from '../../../infrastructure/data/screeningCenters';
+import { spacing, MIN_TOUCH_TARGET } from '../../theme/spacing';
+
+const NEAREST_CENTER_COUNT = 3;
+
+interface UrgentCareCardProps {
+  flags: RedFlagId[];
+  onDismiss: () => void;
+  isRTL?: boolean;
+  /** Show center names in Arabic */
+  isArabic?: boolean;
+}
+
+const formatDistance = (km: number): string =>
+  km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+
+export const UrgentCareCard: React.FC<UrgentCareCardProps> = ({
+  flags,
+  onDismiss,
+  isRTL = false,
+  isArabic = false,
+}) => {
+  const { t } = useTranslation();
+  const { location, hasLocation, needsCity, requestLocation } = useLocationStore();
+  const { centers } = useCentersStore();
+
+  useEffect(() => {
+    if (!hasLocation && !needsCity) requestLocation();
+  }, [hasLocation, needsCity, requestLocation]);
+
+  // Caravans move and may not be there today
+  const nearest = useMemo(
+    () =>
+      location
+        ? getCentersSortedByDistance(location.latitude, location.longitude, centers)
+            .filter((c) => c.type !== 'caravan')
+            .slice(0, NEAREST_CENTER_COUNT)
+        : [],
+    [location, centers],
+  );
+
+  return (
+    <View style={styles.container} accessibilityRole="alert">
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        <Ionicons name="medkit-outline" size={18} color="#B91C1C" />
+        <Text style={[styles.title, isRTL && styles.textRTL]}>{t('chat.safety.urgentTitle')}</Text>
+      </View>
+      {flags.map((flag) => (
+        <Text key={flag} style={[styles.text, isRTL && styles.textRTL]}>
+          • {t(`chat.safety.flags.${flag}`)}
+        </Text>
+      ))}
+      <Text style={[styles.text, styles.body, isRTL && styles.textRTL]}>
+        {t('chat.safety.urgentBody')}
+      </Text>
+
+      {nearest.map((center) => (
+        <View key={center.id} style={[styles.centerRow, isRTL && styles.rowRTL]}>
+          <View style={styles.centerInfo}>
+            <Text style={[styles.centerName, isRTL && styles.textRTL]} numberOfLines={1}>
+              {isArabic ? center.nameAr : center.name}
+            </Text>
+            <Text style={[styles.centerMeta, isRTL && styles.textRTL]}>
+              {isArabic ? center.cityAr : center.city} · {formatDistance(center.distance)}
+            </Text>
+          </View>
+          <Pressable
+            onPress={() => Linking.openURL(`tel:${center.phone.replace(/\s/g, '')}`)}
+            style={styles.callButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('chat.safety.callCenter', {
+              name: isArabic ? center.nameAr : center.name,
+            })}
+          >
+            <Ionicons name="call" size={16} color="#FFFFFF" />
+          </Pressable>
+        </View>
+      ))}
+
+      <Pressable
+        onPress={onDismiss}
+        style={[styles.dismiss, isRTL && styles.dismissRTL]}
+        accessibilityRole="button"
+      >
+        <Text style={styles.dismissText}>{t('chat.safety.dismiss')}</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FEF2F2',
+    borderLeftWidth: 3,
+    borderLeftColor: '#DC2626',
+    borderRadius: 16,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(220,38,38,0.12)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  rowRTL: {
+    flexDirection: 'row-reverse',
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#991B1B',
+  },
+  text: {
+    fontSize: 13,
+    color: '#334155',
+    lineHeight: 19,
+  },
+  body: {
+    marginTop: 4,
+    marginBottom: spacing.sm,
+  },
+  textRTL: {
+    textAlign: 'right',
+    writingDirection: 'rtl',
+  },
+  centerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(220,38,38,0.08)',
+  },
+  centerInfo: {
+    flex: 1,
+  },
+  centerName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  centerMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 1,
+  },
+  callButton: {
+    width: MIN_TOUCH_TARGET,
+    height: MIN_TOUCH_TARGET,
+    borderRadius: MIN_TOUCH_TARGET / 2,
+    backgroundColor: '#DC2626',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dismiss: {
+    alignSelf: 'flex-start',
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+  },
+  dismissRTL: {
+    alignSelf: 'flex-end',
+  },
+  dismissText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#B91C1C',
+  },
+});
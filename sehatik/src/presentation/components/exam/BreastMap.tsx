@@ -0,0 +1,198 @@
+/**
+ * BreastMap - Tappable front view of both breasts and armpits.
+ * Drawn facing the patient: the right breast is on the viewer's left.
+ * Markers of the current exam are filled, past ones are dashed.
+ */
+
+import React, { useState } from 'react';
+import { View, Pressable, StyleSheet, type GestureResponderEvent } from 'react-native';
+import Svg, { Circle, Ellipse, Line, Text as SvgText } from 'react-native-svg';
+import { useTranslation } from 'react-i18next';
+import type { BreastSide, FindingLocation, FindingRegion } from '../../../domain/models/types';
+import { colors } from '../../theme/colors';
+
+interface BreastMapProps {
+  findings: FindingLocation[];
+  pastFindings?: FindingLocation[];
+  selectedId?: string | null;
+  onPlace: (side: BreastSide, region: FindingRegion, x: number, y: number) => void;
+  onSelect: (id: string) => void;
+}
+
+// ── Geometry (viewBox units) ───────────────────────────────
+
+const VIEW_WIDTH = 320;
+const VIEW_HEIGHT = 200;
+const BREAST_RADIUS = 60;
+const AXILLA_RX = 22;
+const AXILLA_RY = 30;
+const MARKER_RADIUS = 7;
+/** Taps this close to a marker select it instead of placing a new one */
+const MARKER_HIT_RADIUS = 14;
+
+interface Area {
+  side: BreastSide;
+  region: FindingRegion;
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+}
+
+const AREAS: Area[] = [
+  { side: 'right', region: 'breast', cx: 100, cy: 110, rx: BREAST_RADIUS, ry: BREAST_RADIUS },
+  { side: 'left', region: 'breast', cx: 220, cy: 110, rx: BREAST_RADIUS, ry: BREAST_RADIUS },
+  { side: 'right', region: 'axilla', cx: 28, cy: 50, rx: AXILLA_RX, ry: AXILLA_RY },
+  { side: 'left', region: 'axilla', cx: 292, cy: 50, rx: AXILLA_RX, ry: AXILLA_RY },
+];
+
+const areaOf = (finding: Pick<FindingLocation, 'side' | 'region'>): Area =>
+  AREAS.find((a) => a.side === finding.side && a.region === finding.region) ?? AREAS[0];
+
+const toView = (finding: FindingLocation) => {
+  const area = areaOf(finding);
+  return { px: area.cx + finding.x * area.rx, py: area.cy + finding.y * area.ry };
+};
+
+export const BreastMap: React.FC<BreastMapProps> = ({
+  findings,
+  pastFindings = [],
+  selectedId,
+  onPlace,
+  onSelect,
+}) => {
+  const { t } = useTranslation();
+  const [width, setWidth] = useState(0);
+
+  const handlePress = (event: GestureResponderEvent) => {
+    if (width === 0) return;
+    const scale = VIEW_WIDTH / width;
+    const px = event.nativeEvent.locationX * scale;
+    const py = event.nativeEvent.locationY * scale;
+
+    const hit = findings.find((f) => {
+      const p = toView(f);
+      return Math.hypot(p.px - px, p.py - py) <= MARKER_HIT_RADIUS;
+    });
+    if (hit) {
+      onSelect(hit.id);
+      return;
+    }
+
+    for (const area of AREAS) {
+      const x = (px - area.cx) / area.rx;
+      const y = (py - area.cy) / area.ry;
+      if (x * x + y * y <= 1) {
+        onPlace(area.side, area.region, x, y);
+        return;
+      }
+    }
+  };
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={(e) => setWidth(e.nativeEvent.layout.width)}
+      accessibilityLabel={t('breastMap.instruction')}
+    >
+      <Pressable onPress={handlePress}>
+        <Svg
+          width="100%"
+          height={width > 0 ? (width * VIEW_HEIGHT) / VIEW_WIDTH : VIEW_HEIGHT}
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        >
+          {AREAS.map((area) =>
+            area.region === 'breast' ? (
+              <React.Fragment key={`${area.side}-${area.region}`}>
+                <Circle
+                  cx={area.cx}
+                  cy={area.cy}
+                  r={area.rx}
+                  fill={colors.primarySoft}
+                  stroke={colors.primaryLight}
+                  strokeWidth={2}
+                />
+                {/* Quadrant guides and nipple */}
+                <Line
+                  x1={area.cx - area.rx}
+                  y1={area.cy}
+                  x2={area.cx + area.rx}
+                  y2={area.cy}
+                  stroke={colors.primaryLight}
+                  strokeDasharray="3 4"
+                />
+                <Line
+                  x1={area.cx}
+                  y1={area.cy - area.ry}
+                  x2={area.cx}
+                  y2={area.cy + area.ry}
+                  stroke={colors.primaryLight}
+                  strokeDasharray="3 4"
+                />
+                <Circle cx={area.cx} cy={area.cy} r={4} fill={colors.primaryLight} />
+                <SvgText
+                  x={area.cx}
+                  y={area.cy + area.ry + 18}
+                  fontSize={12}
+                  fill={colors.textSecondary}
+                  textAnchor="middle"
+                >
+                  {t(area.side === 'right' ? 'breastMap.right' : 'breastMap.left')}
+                </SvgText>
+              </React.Fragment>
+            ) : (
+              <Ellipse
+                key={`${area.side}-${area.region}`}
+                cx={area.cx}
+                cy={area.cy}
+                rx={area.rx}
+                ry={area.ry}
+                fill={colors.surfaceElevated}
+                stroke={colors.border}
+                strokeWidth={2}
+              />
+            ),
+          )}
+
+          {pastFindings.map((finding) => {
+            const { px, py } = toView(finding);
+            return (
+              <Circle
+                key={`past-${finding.id}`}
+                cx={px}
+                cy={py}
+                r={MARKER_RADIUS}
+                fill="none"
+                stroke={colors.textSecondary}
+                strokeWidth={1.5}
+                strokeDasharray="2 2"
+              />
+            );
+          })}
+
+          {findings.map((finding) => {
+            const { px, py } = toView(finding);
+            const selected = finding.id === selectedId;
+            return (
+              <Circle
+                key={finding.id}
+                cx={px}
+                cy={py}
+                r={MARKER_RADIUS}
+                fill={colors.primaryDark}
+                stroke={selected ? colors.text : colors.surface}
+                strokeWidth={selected ? 3 : 2}
+              />
+            );
+          })}
+        </Svg>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
@@ -0,0 +1,297 @@
+/**
+ * BreastMapQuestion - Answer to "where is the lump?" on the breast map.
+ * Tap to place a marker, then adjust its clock position, approximate
+ * size and how it feels. Markers of the previous exam are shown dashed.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import type {
+  BreastSide,
+  FindingDescriptor,
+  FindingLocation,
+  FindingRegion,
+  FindingSize,
+} from '../../../domain/models/types';
+import { clockFromPoint, withClockPosition } from '../../../domain/services/breastMap';
+import { BreastMap } from './BreastMap';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface BreastMapQuestionProps {
+  findings: FindingLocation[];
+  onChange: (findings: FindingLocation[]) => void;
+  /** Markers of the latest exam that had some */
+  past?: { date: number; findings: FindingLocation[] } | null;
+  isRTL?: boolean;
+}
+
+const SIZES: FindingSize[] = ['under_1cm', '1_2cm', '2_3cm', 'over_3cm'];
+const DESCRIPTORS: FindingDescriptor[] = ['hard', 'soft', 'mobile', 'fixed', 'painful', 'painless'];
+
+export const BreastMapQuestion: React.FC<BreastMapQuestionProps> = ({
+  findings,
+  onChange,
+  past,
+  isRTL = false,
+}) => {
+  const { t } = useTranslation();
+  const [selectedId, setSelectedId] = useState<string | null>(
+    findings.length > 0 ? findings[findings.length - 1].id : null,
+  );
+  const selected = findings.find((f) => f.id === selectedId);
+  const textDir = isRTL ? styles.textRTL : undefined;
+
+  const update = (changes: Partial<FindingLocation>) => {
+    if (!selected) return;
+    onChange(findings.map((f) => (f.id === selected.id ? { ...f, ...changes } : f)));
+  };
+
+  const handlePlace = (side: BreastSide, region: FindingRegion, x: number, y: number) => {
+    const finding: FindingLocation = {
+      id: `finding_${Date.now()}`,
+      side,
+      region,
+      x,
+      y,
+      clockPosition: region === 'breast' ? clockFromPoint(x, y) : undefined,
+      descriptors: [],
+    };
+    onChange([...findings, finding]);
+    setSelectedId(finding.id);
+  };
+
+  const moveClock = (step: number) => {
+    if (!selected?.clockPosition) return;
+    onChange(
+      findings.map((f) =>
+        f.id === selected.id ? withClockPosition(f, (f.clockPosition ?? 12) + step) : f,
+      ),
+    );
+  };
+
+  const toggleDescriptor = (descriptor: FindingDescriptor) => {
+    if (!selected) return;
+    update({
+      descriptors: selected.descriptors.includes(descriptor)
+        ? selected.descriptors.filter((d) => d !== descriptor)
+        : [...selected.descriptors, descriptor],
+    });
+  };
+
+  const handleRemove = () => {
+    if (!selected) return;
+    const remaining = findings.filter((f) => f.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining.length > 0 ? remaining[remaining.length - 1].id : null);
+  };
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.hint, textDir]}>{t('breastMap.instruction')}</Text>
+
+      <BreastMap
+        findings={findings}
+        pastFindings={past?.findings}
+        selectedId={selectedId}
+        onPlace={handlePlace}
+        onSelect={setSelectedId}
+      />
+
+      {past && (
+        <Text style={[styles.legend, textDir]}>
+          {t('breastMap.pastMarkers', {
+            date: new Date(past.date).toLocaleDateString(isRTL ? 'ar' : 'fr-FR', {
+              day: 'numeric',
+              month: 'short',
+              year: 'numeric',
+            }),
+          })}
+        </Text>
+      )}
+
+      {selected ? (
+        <View style={styles.editor}>
+          <Text style={[styles.editorTitle, textDir]}>
+            {t(`breastMap.locations.${selected.side}_${selected.region}`)}
+          </Text>
+
+          {selected.clockPosition !== undefined && (
+            <View style={[styles.clockRow, isRTL && styles.rowRTL]}>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() => moveClock(-1)}
+                accessibilityRole="button"
+                accessibilityLabel={t('breastMap.clockBack')}
+              >
+                <Text style={styles.stepButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.clockText}>
+                {t('breastMap.clock', { hour: selected.clockPosition })}
+              </Text>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() => moveClock(1)}
+                accessibilityRole="button"
+                accessibilityLabel={t('breastMap.clockForward')}
+              >
+                <Text style={styles.stepButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <Text style={[styles.sectionTitle, textDir]}>{t('breastMap.sizeTitle')}</Text>
+          <View style={[styles.chips, isRTL && styles.rowRTL]}>
+            {SIZES.map((size) =>
+              renderChip(size, t(`breastMap.sizes.${size}`), selected.size === size, () =>
+                update({ size: selected.size === size ? undefined : size }),
+              ),
+            )}
+          </View>
+
+          <Text style={[styles.sectionTitle, textDir]}>{t('breastMap.descriptorsTitle')}</Text>
+          <View style={[styles.chips, isRTL && styles.rowRTL]}>
+            {DESCRIPTORS.map((descriptor) =>
+              renderChip(
+                descriptor,
+                t(`exam.lump.${descriptor}`),
+                selected.descriptors.includes(descriptor),
+                () => toggleDescriptor(descriptor),
+              ),
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={handleRemove}
+            accessibilityRole="button"
+          >
+            <Text style={styles.removeButtonText}>{t('breastMap.remove')}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        findings.length > 0 && (
+          <Text style={[styles.legend, textDir]}>{t('breastMap.selectHint')}</Text>
+        )
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  hint: {
+    fontSize: fontSizes.sm,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  legend: {
+    fontSize: fontSizes.xs,
+    color: colors.textSecondary,
+  },
+  editor: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  editorTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+  },
+  clockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  stepButton: {
+    width: MIN_TOUCH_TARGET,
+    height: MIN_TOUCH_TARGET,
+    borderRadius: borderRadius.round,
+    borderWidth: 1.5,
+    borderColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepButtonText: {
+    fontSize: fontSizes.xl,
+    color: colors.primary,
+    fontWeight: fontWeights.bold,
+  },
+  clockText: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: fontSizes.lg,
+    fontWeight: fontWeights.semiBold,
+    color: colors.text,
+  },
+  sectionTitle: {
+    fontSize: fontSizes.xs,
+    fontWeight: fontWeights.bold,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.xl,
+    borderWidth: 1.5,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    minHeight: 36,
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: colors.textOnPrimary,
+    fontWeight: fontWeights.semiBold,
+  },
+  removeButton: {
+    marginTop: spacing.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeButtonText: {
+    fontSize: fontSizes.sm,
+    color: colors.error,
+    fontWeight: fontWeights.semiBold,
+  },
+});
@@ -0,0 +1,481 @@
+/**
+ * CentersMap - Offline map of screening centers.
+ * Draws a simplified outline of Morocco with the centers on it. Nothing
+ * is downloaded, so it works without signal. Drag to pan, pinch or use
+ * the buttons to zoom; markers that would overlap merge into numbered
+ * clusters, and tapping a cluster zooms in on it.
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  type GestureResponderEvent,
+  type LayoutChangeEvent,
+} from 'react-native';
+import Svg, { Circle, G, Path, Text as SvgText } from 'react-native-svg';
+import { useTranslation } from 'react-i18next';
+import type { CenterType, ScreeningCenter } from '../../../domain/models/types';
+import { clusterByGrid } from '../../../domain/services/mapClustering';
+import { MOROCCO_OUTLINE } from '../../../infrastructure/data/moroccoOutline';
+import { isCaravanActive } from '../../../domain/services/centersPack';
+import { useCentersStore } from '../../../application/store/centersStore';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface CentersMapProps {
+  centers: ScreeningCenter[];
+  /** Coarse (city-level) user position */
+  userLocation?: { latitude: number; longitude: number; inCity: boolean } | null;
+  selectedId?: string | null;
+  onSelect: (center: ScreeningCenter | null) => void;
+  isArabic?: boolean;
+  isRTL?: boolean;
+}
+
+export const CENTER_TYPE_COLORS: Record<CenterType, string> = {
+  public: colors.accent,
+  private: colors.secondary,
+  ngo: colors.success,
+  caravan: '#E67E22',
+};
+
+// ── Projection ─────────────────────────────────────────────
+
+interface Viewport {
+  /** Map point shown at the middle of the view */
+  longitude: number;
+  latitude: number;
+  /** Pixels per degree of latitude */
+  scale: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/** Degrees of longitude are shorter than degrees of latitude at Morocco's latitude */
+const LON_FACTOR = Math.cos((31.8 * Math.PI) / 180);
+/** About 240 m per marker cell: every listed center gets its own marker */
+const MAX_SCALE = 20000;
+/** City names appear from this zoom on */
+const CITY_LABEL_SCALE = 150;
+/** Zoom used when centering on the user */
+const LOCATE_SCALE = 400;
+const FIT_PADDING = 32;
+/** A fit around a single point still shows its surroundings (degrees) */
+const MIN_FIT_SPAN = 0.3;
+/** Radius of the area a grid-rounded position may be in (degrees) */
+const COARSE_RADIUS_DEGREES = 0.07;
+
+const MARKER_RADIUS = 9;
+const CLUSTER_RADIUS = 14;
+
+type Point = { longitude: number; latitude: number };
+
+const OUTLINE_POINTS: Point[] = MOROCCO_OUTLINE.map(([longitude, latitude]) => ({
+  longitude,
+  latitude,
+}));
+
+const project = (point: Point, view: Viewport, size: Size) => ({
+  x: size.width / 2 + (point.longitude - view.longitude) * view.scale * LON_FACTOR,
+  y: size.height / 2 - (point.latitude - view.latitude) * view.scale,
+});
+
+const fitBounds = (points: Point[], size: Size): Viewport => {
+  const lons = points.map((p) => p.longitude);
+  const lats = points.map((p) => p.latitude);
+  const minLon = Math.min(...lons);
+  const maxLon = Math.max(...lons);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const lonSpan = Math.max(maxLon - minLon, MIN_FIT_SPAN);
+  const latSpan = Math.max(maxLat - minLat, MIN_FIT_SPAN);
+  return {
+    longitude: (minLon + maxLon) / 2,
+    latitude: (minLat + maxLat) / 2,
+    scale: Math.min(
+      (size.width - FIT_PADDING * 2) / (lonSpan * LON_FACTOR),
+      (size.height - FIT_PADDING * 2) / latSpan,
+    ),
+  };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const OUTLINE_LONS = OUTLINE_POINTS.map((p) => p.longitude);
+const OUTLINE_LATS = OUTLINE_POINTS.map((p) => p.latitude);
+
+/** Keep the view on Morocco and between the whole country and street level */
+const clampViewport = (view: Viewport, minScale: number): Viewport => ({
+  longitude: clamp(view.longitude, Math.min(...OUTLINE_LONS), Math.max(...OUTLINE_LONS)),
+  latitude: clamp(view.latitude, Math.min(...OUTLINE_LATS), Math.max(...OUTLINE_LATS)),
+  scale: clamp(view.scale, minScale, MAX_SCALE),
+});
+
+const touchCentroid = (event: GestureResponderEvent) => {
+  const { touches, pageX, pageY } = event.nativeEvent;
+  if (touches.length === 0) return { x: pageX, y: pageY };
+  return {
+    x: touches.reduce((sum, touch) => sum + touch.pageX, 0) / touches.length,
+    y: touches.reduce((sum, touch) => sum + touch.pageY, 0) / touches.length,
+  };
+};
+
+const touchDistance = (event: GestureResponderEvent): number | null => {
+  const touches = event.nativeEvent.touches;
+  if (touches.length < 2) return null;
+  return Math.hypot(touches[0].pageX - touches[1].pageX, touches[0].pageY - touches[1].pageY);
+};
+
+// ── Component ──────────────────────────────────────────────
+
+export const CentersMap: React.FC<CentersMapProps> = ({
+  centers,
+  userLocation,
+  selectedId,
+  onSelect,
+  isArabic = false,
+  isRTL = false,
+}) => {
+  const { t } = useTranslation();
+  const { cityLocations } = useCentersStore();
+  const [size, setSize] = useState<Size | null>(null);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+
+  const minScale = useMemo(() => (size ? fitBounds(OUTLINE_POINTS, size).scale : 1), [size]);
+
+  // Until the user moves the map, it frames the centers and the user
+  const view = useMemo((): Viewport | null => {
+    if (!size) return null;
+    if (viewport) return viewport;
+    const points: Point[] = centers.length > 0 ? [...centers] : OUTLINE_POINTS;
+    return clampViewport(
+      fitBounds(userLocation ? [...points, userLocation] : points, size),
+      minScale,
+    );
+  }, [size, viewport, centers, userLocation, minScale]);
+
+  // Finger positions when the current drag or pinch started
+  const gesture = useRef<{
+    start: Viewport | null;
+    x: number;
+    y: number;
+    distance: number | null;
+  } | null>(null);
+
+  const beginGesture = (event: GestureResponderEvent) => {
+    const { x, y } = touchCentroid(event);
+    gesture.current = { start: view, x, y, distance: touchDistance(event) };
+  };
+
+  // Taps go to the markers; only drags and pinches move the map
+  const shouldMove = (event: GestureResponderEvent) => {
+    if (event.nativeEvent.touches.length >= 2) return true;
+    if (!gesture.current) return false;
+    const { x, y } = touchCentroid(event);
+    return Math.abs(x - gesture.current.x) > 4 || Math.abs(y - gesture.current.y) > 4;
+  };
+
+  const handleMove = (event: GestureResponderEvent) => {
+    const current = gesture.current;
+    if (!current?.start) return;
+    const distance = touchDistance(event);
+    // A finger came down or lifted: restart from here
+    if ((distance === null) !== (current.distance === null)) {
+      beginGesture(event);
+      return;
+    }
+    const { x, y } = touchCentroid(event);
+    const { start } = current;
+    setViewport(
+      clampViewport(
+        {
+          longitude: start.longitude - (x - current.x) / (start.scale * LON_FACTOR),
+          latitude: start.latitude + (y - current.y) / start.scale,
+          scale:
+            distance && current.distance
+              ? (start.scale * distance) / current.distance
+              : start.scale,
+        },
+        minScale,
+      ),
+    );
+  };
+
+  const clusters = useMemo(() => {
+    if (!size || !view) return [];
+    return clusterByGrid(centers, (c) => project(c, view, size)).filter(
+      (cluster) =>
+        cluster.x > -CLUSTER_RADIUS &&
+        cluster.x < size.width + CLUSTER_RADIUS &&
+        cluster.y > -CLUSTER_RADIUS &&
+        cluster.y < size.height + CLUSTER_RADIUS,
+    );
+  }, [centers, view, size]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    if (width > 0 && height > 0) setSize({ width, height });
+  };
+
+  const zoomBy = (factor: number) => {
+    if (view) setViewport(clampViewport({ ...view, scale: view.scale * factor }, minScale));
+  };
+
+  const locateUser = () => {
+    if (!view || !userLocation) return;
+    setViewport(
+      clampViewport(
+        {
+          longitude: userLocation.longitude,
+          latitude: userLocation.latitude,
+          scale: Math.max(view.scale, LOCATE_SCALE),
+        },
+        minScale,
+      ),
+    );
+  };
+
+  const handleClusterPress = (items: ScreeningCenter[]) => {
+    if (!size || !view) return;
+    if (items.length === 1 || view.scale >= MAX_SCALE) {
+      onSelect(items[0].id === selectedId ? null : items[0]);
+      return;
+    }
+    const fit = fitBounds(items, size);
+    setViewport(clampViewport({ ...fit, scale: Math.max(fit.scale, view.scale * 2) }, minScale));
+  };
+
+  const renderMap = (current: Viewport, area: Size) => {
+    const outline =
+      OUTLINE_POINTS.map((p, i) => {
+        const { x, y } = project(p, current, area);
+        return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`;
+      }).join(' ') + ' Z';
+    const user = userLocation ? project(userLocation, current, area) : null;
+
+    return (
+      <Svg width={area.width} height={area.height}>
+        <Path
+          d={outline}
+          fill={colors.surface}
+          stroke={colors.secondaryLight}
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+
+        {current.scale >= CITY_LABEL_SCALE &&
+          cityLocations.map((city) => {
+            const { x, y } = project(city, current, area);
+            return (
+              <SvgText
+                key={city.city}
+                x={x}
+                y={y + CLUSTER_RADIUS + 14}
+                fontSize={11}
+                fill={colors.textSecondary}
+                textAnchor="middle"
+              >
+                {isArabic ? city.cityAr : city.city}
+              </SvgText>
+            );
+          })}
+
+        {user && (
+          <G>
+            {!userLocation?.inCity && (
+              <Circle
+                cx={user.x}
+                cy={user.y}
+                r={Math.max(COARSE_RADIUS_DEGREES * current.scale, 12)}
+                fill={colors.info + '20'}
+                stroke={colors.info + '60'}
+              />
+            )}
+            <Circle cx={user.x} cy={user.y} r={10} fill={colors.info + '30'} />
+            <Circle
+              cx={user.x}
+              cy={user.y}
+              r={6}
+              fill={colors.info}
+              stroke="#FFFFFF"
+              strokeWidth={2}
+            />
+          </G>
+        )}
+
+        {clusters.map((cluster) => {
+          const types = new Set(cluster.items.map((c) => c.type));
+          const fill =
+            types.size === 1 ? CENTER_TYPE_COLORS[cluster.items[0].type] : colors.secondaryMedium;
+          const hasActiveCaravan = cluster.items.some(
+            (c) => c.type === 'caravan' && isCaravanActive(c),
+          );
+          const isSelected = cluster.items.some((c) => c.id === selectedId);
+          const radius = cluster.items.length > 1 ? CLUSTER_RADIUS : MARKER_RADIUS;
+          return (
+            <G key={cluster.id} onPress={() => handleClusterPress(cluster.items)}>
+              {/* Larger invisible target for fingers */}
+              <Circle cx={cluster.x} cy={cluster.y} r={MIN_TOUCH_TARGET / 2} fill="transparent" />
+              {hasActiveCaravan && (
+                <Circle
+                  cx={cluster.x}
+                  cy={cluster.y}
+                  r={radius + 6}
+                  fill={CENTER_TYPE_COLORS.caravan + '30'}
+                  stroke={CENTER_TYPE_COLORS.caravan}
+                  strokeWidth={2}
+                />
+              )}
+              <Circle
+                cx={cluster.x}
+                cy={cluster.y}
+                r={isSelected ? radius + 3 : radius}
+                fill={fill}
+                stroke={isSelected ? colors.text : '#FFFFFF'}
+                strokeWidth={isSelected ? 3 : 2}
+              />
+              {cluster.items.length > 1 && (
+                <SvgText
+                  x={cluster.x}
+                  y={cluster.y + 4}
+                  fontSize={12}
+                  fontWeight="bold"
+                  fill="#FFFFFF"
+                  textAnchor="middle"
+                >
+                  {cluster.items.length}
+                </SvgText>
+              )}
+            </G>
+          );
+        })}
+      </Svg>
+    );
+  };
+
+  const LEGEND: { type: CenterType; labelKey: string }[] = [
+    { type: 'public', labelKey: 'nearby.type_public' },
+    { type: 'private', labelKey: 'nearby.type_private' },
+    { type: 'ngo', labelKey: 'nearby.type_ngo' },
+    { type: 'caravan', labelKey: 'nearby.type_caravan' },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.map}
+        onLayout={handleLayout}
+        accessibilityLabel={t('nearby.map.label', { count: centers.length })}
+        onTouchStart={beginGesture}
+        onMoveShouldSetResponder={shouldMove}
+        onResponderGrant={beginGesture}
+        onResponderMove={handleMove}
+        onResponderTerminationRequest={() => false}
+      >
+        {size && view && renderMap(view, size)}
+
+        <View style={[styles.controls, isRTL ? styles.controlsRTL : undefined]}>
+          <Pressable
+            style={styles.controlButton}
+            onPress={() => zoomBy(2)}
+            accessibilityRole="button"
+            accessibilityLabel={t('nearby.map.zoomIn')}
+          >
+            <Text style={styles.controlText}>+</Text>
+          </Pressable>
+          <Pressable
+            style={styles.controlButton}
+            onPress={() => zoomBy(0.5)}
+            accessibilityRole="button"
+            accessibilityLabel={t('nearby.map.zoomOut')}
+          >
+            <Text style={styles.controlText}>−</Text>
+          </Pressable>
+          {userLocation && (
+            <Pressable
+              style={styles.controlButton}
+              onPress={locateUser}
+              accessibilityRole="button"
+              accessibilityLabel={t('nearby.map.locate')}
+            >
+              <Text style={styles.controlIcon}>◎</Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+
+      <View style={[styles.legend, isRTL && styles.rowRTL]}>
+        {LEGEND.map((item) => (
+          <View key={item.type} style={[styles.legendItem, isRTL && styles.rowRTL]}>
+            <View style={[styles.legendDot, { backgroundColor: CENTER_TYPE_COLORS[item.type] }]} />
+            <Text style={styles.legendText}>{t(item.labelKey)}</Text>
+          </View>
+        ))}
+        <View style={[styles.legendItem, isRTL && styles.rowRTL]}>
+          <View style={[styles.legendDot, styles.legendActiveCaravan]} />
+          <Text style={styles.legendText}>{t('nearby.active_now')}</Text>
+        </View>
+        {userLocation && (
+          <View style={[styles.legendItem, isRTL && styles.rowRTL]}>
+            <View style={[styles.legendDot, { backgroundColor: colors.info }]} />
+            <Text style={styles.legendText}>{t('nearby.map.you')}</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  rowRTL: { flexDirection: 'row-reverse' },
+  map: {
+    flex: 1,
+    backgroundColor: colors.accentBlue + '18',
+    borderRadius: borderRadius.lg,
+    overflow: 'hidden',
+  },
+  controls: {
+    position: 'absolute',
+    top: spacing.sm,
+    right: spacing.sm,
+    gap: spacing.xs,
+  },
+  controlsRTL: { right: undefined, left: spacing.sm },
+  controlButton: {
+    width: MIN_TOUCH_TARGET,
+    height: MIN_TOUCH_TARGET,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    elevation: 2,
+    shadowColor: colors.secondary,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.15,
+    shadowRadius: 2,
+  },
+  controlText: { fontSize: fontSizes.xl, color: colors.text, fontWeight: fontWeights.bold },
+  controlIcon: { fontSize: fontSizes.lg, color: colors.info },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  legendItem: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  legendDot: { width: 10, height: 10, borderRadius: 5 },
+  legendActiveCaravan: {
+    backgroundColor: CENTER_TYPE_COLORS.caravan + '30',
+    borderWidth: 2,
+    borderColor: CENTER_TYPE_COLORS.caravan,
+  },
+  legendText: { fontSize: fontSizes.xs, color: colors.textSecondary },
+});
@@ -2,10 +2,11 @@
  * ChatBubble - Reusable chat bubble for the self-check conversation.
  * Supports assistant and user message variants with step accent color.
  * Uses Ionicons for the assistant avatar (matching step icon).
+ * Quick-reply bubbles can be tapped to change the answer.
  */
 
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { Ionicons } from '@expo/vector-icons';
 import { useLanguageStore } from '../../../application/store/languageStore';
@@ -25,6 +26,10 @@ interface ChatBubbleProps {
   accentColor: string;
   /** Ionicons name for the avatar (e.g. 'eye-outline') */
   stepIcon?: string;
+  /** Makes a user reply tappable to change the answer */
+  onEdit?: () => void;
+  /** This reply is currently being changed */
+  isEditing?: boolean;
 }
 
 export const ChatBubble: React.FC<ChatBubbleProps> = ({
@@ -33,6 +38,8 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
   text,
   accentColor,
   stepIcon = 'heart',
+  onEdit,
+  isEditing = false,
 }) => {
   const { t } = useTranslation();
   const { isRTL } = useLanguageStore();
@@ -61,11 +68,29 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
   // User bubble
   return (
     <View style={[styles.row, styles.userRow, isRTL && styles.userRowRTL]}>
-      <View style={[styles.userBubble, { backgroundColor: accentColor }]}>
+      <Pressable
+        onPress={onEdit}
+        disabled={!onEdit}
+        accessibilityRole={onEdit ? 'button' : undefined}
+        accessibilityHint={onEdit ? t('selfCheck.chat.editHint') : undefined}
+        style={[
+          styles.userBubble,
+          { backgroundColor: accentColor },
+          isEditing && styles.userBubbleEditing,
+        ]}
+      >
         <Text style={[styles.userText, isRTL && styles.textRTL]}>
           {displayText}
         </Text>
-      </View>
+        {onEdit && (
+          <Ionicons
+            name="pencil"
+            size={11}
+            color={colors.textOnPrimary}
+            style={[styles.editIcon, isRTL && styles.editIconRTL]}
+          />
+        )}
+      </Pressable>
     </View>
   );
 };
@@ -111,6 +136,17 @@ const styles = StyleSheet.create({
     borderBottomRightRadius: spacing.xs,
     padding: spacing.md,
   },
+  userBubbleEditing: {
+    opacity: 0.5,
+  },
+  editIcon: {
+    alignSelf: 'flex-end',
+    marginTop: 2,
+    opacity: 0.8,
+  },
+  editIconRTL: {
+    alignSelf: 'flex-start',
+  },
   userText: {
     fontSize: fontSizes.md,
     color: colors.textOnPrimary,
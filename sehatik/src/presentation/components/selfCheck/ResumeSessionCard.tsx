@@ -0,0 +1,141 @@
+/**
+ * Resume Session Card
+ * Offers to resume or discard a self-check that was interrupted
+ * (app closed or killed mid-flow).
+ */
+
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, MIN_TOUCH_TARGET } from '../../theme/spacing';
+
+interface ResumeSessionCardProps {
+  /** 0-based index of the step the session stopped at */
+  stepIndex: number;
+  totalSteps: number;
+  updatedAt: number;
+  onResume: () => void;
+  onDiscard: () => void;
+  isRTL?: boolean;
+}
+
+export const ResumeSessionCard: React.FC<ResumeSessionCardProps> = ({
+  stepIndex,
+  totalSteps,
+  updatedAt,
+  onResume,
+  onDiscard,
+  isRTL = false,
+}) => {
+  const { t } = useTranslation();
+  const dateStr = new Date(updatedAt).toLocaleDateString(isRTL ? 'ar' : 'fr-FR', {
+    day: 'numeric',
+    month: 'short',
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        <View style={styles.iconWrap}>
+          <Ionicons name="play-circle-outline" size={18} color="#E8467A" />
+        </View>
+        <View style={styles.body}>
+          <Text style={[styles.title, isRTL && styles.textRTL]}>
+            {t('selfCheck.resume.title')}
+          </Text>
+          <Text style={[styles.text, isRTL && styles.textRTL]}>
+            {t('selfCheck.resume.progress', {
+              step: stepIndex + 1,
+              total: totalSteps,
+              date: dateStr,
+            })}
+          </Text>
+        </View>
+      </View>
+
+      <View style={[styles.actions, isRTL && styles.rowRTL]}>
+        <Pressable onPress={onDiscard} style={styles.secondary} accessibilityRole="button">
+          <Text style={styles.secondaryText}>{t('selfCheck.resume.discard')}</Text>
+        </Pressable>
+        <Pressable onPress={onResume} style={styles.primary} accessibilityRole="button">
+          <Text style={styles.primaryText}>{t('selfCheck.resume.continue')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(232,70,122,0.15)',
+    borderLeftWidth: 3,
+    borderLeftColor: '#E8467A',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+  },
+  rowRTL: {
+    flexDirection: 'row-reverse',
+  },
+  iconWrap: {
+    width: 28,
+    height: 28,
+    borderRadius: 10,
+    backgroundColor: 'rgba(232,70,122,0.10)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 13,
+    color: '#64748B',
+    lineHeight: 19,
+  },
+  textRTL: {
+    textAlign: 'right',
+    writingDirection: 'rtl',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  secondary: {
+    minHeight: MIN_TOUCH_TARGET,
+    paddingHorizontal: spacing.md,
+    justifyContent: 'center',
+  },
+  secondaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  primary: {
+    minHeight: MIN_TOUCH_TARGET,
+    paddingHorizontal: spacing.md,
+    borderRadius: 12,
+    backgroundColor: '#E8467A',
+    justifyContent: 'center',
+  },
+  primaryText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+});
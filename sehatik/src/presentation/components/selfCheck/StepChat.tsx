@@ -4,6 +4,7 @@
  * Renders:
  * - FlatList of chat bubbles (assistant + user)
  * - Quick-reply chips when a question is active
+ * - Tap on an earlier reply to change it
  * - Typing indicator
  * - Optional free-text input for clarification questions
  * - "Continue to next step" button when chat is complete
@@ -38,6 +39,8 @@ interface StepChatProps {
   stepId: string;
   accentColor: string;
   stepIcon: string;
+  /** Answers from a resumed session, replayed to rebuild the transcript */
+  initialAnswers?: Record<string, string>;
   /** Called when the chat is complete and user taps "Continue" */
   onComplete: (answers: Record<string, string>) => void;
   /** Called when user wants to go back to instructions */
@@ -48,6 +51,7 @@ export const StepChat: React.FC<StepChatProps> = ({
   stepId,
   accentColor,
   stepIcon,
+  initialAnswers,
   onComplete,
   onBack,
 }) => {
@@ -63,15 +67,18 @@ export const StepChat: React.FC<StepChatProps> = ({
     isTyping,
     isClarifying,
     isComplete,
+    editingQuestionId,
     initChat,
     handleQuickReply,
+    startEditAnswer,
+    cancelEditAnswer,
     handleClarification,
     getAnswers,
   } = useSelfCheckChatStore();
 
-  // Initialize chat on mount
+  // Initialize chat on mount (replaying answers when resuming)
   useEffect(() => {
-    initChat(stepId);
+    initChat(stepId, initialAnswers);
   }, [stepId]);
 
   // Auto-scroll to bottom
@@ -106,16 +113,21 @@ export const StepChat: React.FC<StepChatProps> = ({
   // ── Render items ───────────────────────────────────────
 
   const renderItem = useCallback(
-    ({ item }: { item: ChatBubbleData }) => (
-      <ChatBubble
-        type={item.type === 'user' ? 'user' : 'assistant'}
-        textKey={item.textKey}
-        text={item.text}
-        accentColor={accentColor}
-        stepIcon={stepIcon}
-      />
-    ),
-    [accentColor, stepIcon],
+    ({ item }: { item: ChatBubbleData }) => {
+      const { questionId } = item;
+      return (
+        <ChatBubble
+          type={item.type === 'user' ? 'user' : 'assistant'}
+          textKey={item.textKey}
+          text={item.text}
+          accentColor={accentColor}
+          stepIcon={stepIcon}
+          onEdit={questionId ? () => startEditAnswer(questionId) : undefined}
+          isEditing={!!questionId && questionId === editingQuestionId}
+        />
+      );
+    },
+    [accentColor, stepIcon, editingQuestionId, startEditAnswer],
   );
 
   const keyExtractor = useCallback((item: ChatBubbleData) => item.id, []);
@@ -141,6 +153,20 @@ export const StepChat: React.FC<StepChatProps> = ({
         </View>
       )}
 
+      {/* Editing an earlier answer */}
+      {editingQuestionId && (
+        <View style={[styles.editingRow, isRTL && styles.editingRowRTL]}>
+          <Text style={[styles.editingText, isRTL && styles.textRTL]}>
+            {t('selfCheck.chat.editingAnswer')}
+          </Text>
+          <TouchableOpacity onPress={cancelEditAnswer} accessibilityRole="button">
+            <Text style={[styles.editingCancel, { color: accentColor }]}>
+              {t('common.cancel')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Quick-reply chips */}
       {activeQuestion && !isTyping && (
         <QuickReplyChips
@@ -151,7 +177,7 @@ export const StepChat: React.FC<StepChatProps> = ({
       )}
 
       {/* Complete button */}
-      {isComplete && (
+      {isComplete && !editingQuestionId && (
         <View style={styles.completeContainer}>
           <TouchableOpacity
             style={[styles.completeBtn, { backgroundColor: accentColor }]}
@@ -172,7 +198,7 @@ export const StepChat: React.FC<StepChatProps> = ({
     </>
   ), [
     isTyping, activeQuestion, isComplete, accentColor, stepIcon,
-    isRTL, t, handleQuickReplyPress, handleComplete,
+    isRTL, t, handleQuickReplyPress, handleComplete, editingQuestionId, cancelEditAnswer,
   ]);
 
   // ── Main render ────────────────────────────────────────
@@ -303,6 +329,28 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
   },
 
+  // Editing an earlier answer
+  editingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.sm,
+  },
+  editingRowRTL: { flexDirection: 'row-reverse' },
+  editingText: {
+    flex: 1,
+    fontSize: fontSizes.sm,
+    color: colors.textSecondary,
+  },
+  editingCancel: {
+    fontSize: fontSizes.sm,
+    fontWeight: fontWeights.semiBold,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+  },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+
   // Complete button
   completeContainer: {
     paddingHorizontal: spacing.lg,
@@ -7,7 +7,10 @@
 
 import React, { useState } from 'react';
 import { StyleSheet, Platform, View } from 'react-native';
-import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import {
+  createBottomTabNavigator,
+  type BottomTabScreenProps,
+} from '@react-navigation/bottom-tabs';
 import { useTranslation } from 'react-i18next';
 import { Ionicons } from '@expo/vector-icons';
 
@@ -19,6 +22,14 @@ import { ArticleDetailScreen } from '../screens/ArticleDetail/ArticleDetailScree
 import { ProfileScreen } from '../screens/Profile/ProfileScreen';
 import { ScreeningCentersScreen } from '../screens/ScreeningCenters/ScreeningCentersScreen';
 import { NearbySearchScreen } from '../screens/NearbySearch/NearbySearchScreen';
+import { HistoryScreen } from '../screens/History/HistoryScreen';
+import { PhotoJournalScreen } from '../screens/PhotoJournal/PhotoJournalScreen';
+import { ImagingDocumentsScreen } from '../screens/ImagingDocuments/ImagingDocumentsScreen';
+import { AppLockSettingsScreen } from '../screens/AppLock/AppLockSettingsScreen';
+import { DiscreetModeScreen } from '../screens/DiscreetMode/DiscreetModeScreen';
+import { BackupScreen } from '../screens/Backup/BackupScreen';
+import { ScreeningPathwayScreen } from '../screens/Pathway/ScreeningPathwayScreen';
+import { AuthScreen } from '../screens/Onboarding/AuthScreen';
 import { useLanguageStore } from '../../application/store/languageStore';
 import { useSelfCheckStore } from '../../application/store/selfCheckStore';
 import { MIN_TOUCH_TARGET } from '../theme/spacing';
@@ -66,7 +77,19 @@ const EducationTabScreen: React.FC = () => {
  * Wrapper for Profile tab to handle sub-navigation
  */
 const ProfileTabScreen: React.FC = () => {
-  const [subScreen, setSubScreen] = useState<'profile' | 'centers' | 'nearby'>('profile');
+  const [subScreen, setSubScreen] = useState<
+    | 'profile'
+    | 'centers'
+    | 'nearby'
+    | 'history'
+    | 'photoJournal'
+    | 'imagingDocuments'
+    | 'verifyPhone'
+    | 'appLock'
+    | 'discreetMode'
+    | 'backup'
+    | 'pathway'
+  >('profile');
 
   if (subScreen === 'nearby') {
     return <NearbySearchScreen onBack={() => setSubScreen('profile')} />;
@@ -76,7 +99,66 @@ const ProfileTabScreen: React.FC = () => {
     return <ScreeningCentersScreen onBack={() => setSubScreen('profile')} />;
   }
 
-  return <ProfileScreen onNavigateToCenters={() => setSubScreen('centers')} />;
+  if (subScreen === 'history') {
+    return <HistoryScreen onBack={() => setSubScreen('profile')} />;
+  }
+
+  if (subScreen === 'photoJournal') {
+    return <PhotoJournalScreen onBack={() => setSubScreen('profile')} />;
+  }
+
+  if (subScreen === 'imagingDocuments') {
+    return <ImagingDocumentsScreen onBack={() => setSubScreen('profile')} />;
+  }
+
+  if (subScreen === 'verifyPhone') {
+    return (
+      <AuthScreen
+        onAuthenticated={() => setSubScreen('profile')}
+        onCancel={() => setSubScreen('profile')}
+      />
+    );
+  }
+
+  if (subScreen === 'appLock') {
+    return <AppLockSettingsScreen onBack={() => setSubScreen('profile')} />;
+  }
+
+  if (subScreen === 'discreetMode') {
+    return <DiscreetModeScreen onBack={() => setSubScreen('profile')} />;
+  }
+
+  if (subScreen === 'pathway') {
+    return (
+      <ScreeningPathwayScreen
+        onBack={() => setSubScreen('profile')}
+        onNavigateToNearby={() => setSubScreen('nearby')}
+      />
+    );
+  }
+
+  if (subScreen === 'backup') {
+    return (
+      <BackupScreen
+        onBack={() => setSubScreen('profile')}
+        onNavigateToVerifyPhone={() => setSubScreen('verifyPhone')}
+      />
+    );
+  }
+
+  return (
+    <ProfileScreen
+      onNavigateToCenters={() => setSubScreen('centers')}
+      onNavigateToHistory={() => setSubScreen('history')}
+      onNavigateToPhotoJournal={() => setSubScreen('photoJournal')}
+      onNavigateToImagingDocuments={() => setSubScreen('imagingDocuments')}
+      onNavigateToVerifyPhone={() => setSubScreen('verifyPhone')}
+      onNavigateToAppLock={() => setSubScreen('appLock')}
+      onNavigateToDiscreetMode={() => setSubScreen('discreetMode')}
+      onNavigateToBackup={() => setSubScreen('backup')}
+      onNavigateToPathway={() => setSubScreen('pathway')}
+    />
+  );
 };
 
 /**
@@ -98,6 +180,36 @@ const AutopalpationTabWrapper: React.FC<{ navigation: any }> = ({ navigation })
   return <SelfCheckScreen />;
 };
 
+/**
+ * Wrapper for Chat tab: links in assistant answers open sub-screens
+ */
+const ChatTabWrapper: React.FC<BottomTabScreenProps<TabParamList, 'Chat'>> = ({ navigation }) => {
+  const [subScreen, setSubScreen] = useState<'chat' | 'nearby'>('chat');
+  const [articleId, setArticleId] = useState<string | null>(null);
+
+  if (articleId) {
+    return (
+      <ArticleDetailScreen
+        articleId={articleId}
+        onBack={() => setArticleId(null)}
+        onArticlePress={setArticleId}
+      />
+    );
+  }
+
+  if (subScreen === 'nearby') {
+    return <NearbySearchScreen onBack={() => setSubScreen('chat')} />;
+  }
+
+  return (
+    <ChatScreen
+      onNavigateToExam={() => navigation.navigate('Autopalpation')}
+      onNavigateToCenters={() => setSubScreen('nearby')}
+      onArticlePress={setArticleId}
+    />
+  );
+};
+
 /**
  * Wrapper for Home tab with navigation props
  */
@@ -159,7 +271,7 @@ export const TabNavigator: React.FC = () => {
       />
       <Tab.Screen
         name="Chat"
-        component={ChatScreen}
+        component={ChatTabWrapper}
         options={{ tabBarLabel: t('tabs.chat') }}
       />
       <Tab.Screen
@@ -0,0 +1,405 @@
+/**
+ * App Lock Settings Screen
+ * Turns the app lock on or off and sets its PIN, fingerprint/face
+ * unlock, auto-lock time and optional panic PIN.
+ *
+ * Changing a PIN, removing the panic PIN or turning the lock off asks
+ * for the current PIN first.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, Switch } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import { useAppLockStore } from '../../../application/store/appLockStore';
+import { AUTO_LOCK_OPTIONS_SECONDS, isValidPin } from '../../../domain/services/appLock';
+import { isBiometricAvailable } from '../../../infrastructure/security/localAuth';
+import { PinPad } from '../../components/common/PinPad';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface Props {
+  onBack?: () => void;
+}
+
+/** What the PIN entry is for */
+type PinFlow = 'enable' | 'change' | 'panic' | 'removePanic' | 'disable';
+/**
+ *   'current' -> confirm the current PIN
+ *   'new'     -> enter the new PIN
+ *   'repeat'  -> enter it again
+ */
+type PinStep = 'current' | 'new' | 'repeat';
+
+type Message = 'wrongPin' | 'blocked' | 'mismatch' | 'panicSameAsPin' | 'saved';
+
+export const AppLockSettingsScreen: React.FC<Props> = ({ onBack }) => {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguageStore();
+  const {
+    isEnabled,
+    biometricsEnabled,
+    autoLockSeconds,
+    hasPanicPin,
+    blockedUntil,
+    enableLock,
+    changePin,
+    disableLock,
+    setBiometricsEnabled,
+    setAutoLockSeconds,
+    setPanicPin,
+    confirmPin,
+  } = useAppLockStore();
+  const [canUseBiometrics, setCanUseBiometrics] = useState(false);
+  const [flow, setFlow] = useState<PinFlow | null>(null);
+  const [step, setStep] = useState<PinStep>('new');
+  const [pin, setPin] = useState('');
+  const [firstPin, setFirstPin] = useState('');
+  const [message, setMessage] = useState<Message | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    isBiometricAvailable().then(setCanUseBiometrics);
+  }, []);
+
+  const textDir = isRTL ? styles.textRTL : undefined;
+
+  const startFlow = (next: PinFlow) => {
+    setFlow(next);
+    setStep(next === 'enable' ? 'new' : 'current');
+    setPin('');
+    setFirstPin('');
+    setMessage(null);
+  };
+
+  const finishFlow = (result: Message | null) => {
+    setFlow(null);
+    setPin('');
+    setFirstPin('');
+    setMessage(result);
+  };
+
+  const submitCurrent = async () => {
+    const result = await confirmPin(pin);
+    setPin('');
+    if (result === 'wrong' || result === 'blocked') {
+      setMessage(result === 'wrong' ? 'wrongPin' : 'blocked');
+      return;
+    }
+    if (flow === 'disable') {
+      await disableLock();
+      finishFlow(null);
+    } else if (flow === 'removePanic') {
+      await setPanicPin(null);
+      finishFlow('saved');
+    } else {
+      setMessage(null);
+      setStep('new');
+    }
+  };
+
+  const submitRepeat = async () => {
+    if (pin !== firstPin) {
+      setPin('');
+      setMessage('mismatch');
+      setStep('new');
+      return;
+    }
+    let saved = true;
+    if (flow === 'enable') {
+      await enableLock(pin);
+    } else if (flow === 'change') {
+      saved = await changePin(pin);
+    } else if (flow === 'panic') {
+      saved = await setPanicPin(pin);
+    }
+    if (!saved) {
+      // The main PIN and the panic PIN must stay different
+      setPin('');
+      setMessage('panicSameAsPin');
+      setStep('new');
+      return;
+    }
+    finishFlow('saved');
+  };
+
+  const handleSubmit = async () => {
+    if (step === 'new') {
+      if (!isValidPin(pin)) return;
+      setFirstPin(pin);
+      setPin('');
+      setMessage(null);
+      setStep('repeat');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await (step === 'current' ? submitCurrent() : submitRepeat());
+    } catch {
+      finishFlow(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderMessage = () => {
+    if (!message) return null;
+    const waitSeconds = blockedUntil
+      ? Math.max(1, Math.ceil((blockedUntil - Date.now()) / 1000))
+      : 0;
+    return (
+      <Text
+        style={[styles.message, message === 'saved' && styles.messageSuccess, textDir]}
+        accessibilityLiveRegion="polite"
+      >
+        {message === 'blocked'
+          ? t('appLock.blocked', { count: waitSeconds })
+          : t(`appLock.messages.${message}`)}
+      </Text>
+    );
+  };
+
+  const renderHeader = (title: string, back: () => void) => (
+    <View style={[styles.header, isRTL && styles.rowRTL]}>
+      <TouchableOpacity
+        onPress={back}
+        style={styles.backButton}
+        accessibilityRole="button"
+        accessibilityLabel={t('common.back')}
+      >
+        <Text style={styles.backArrow}>{isRTL ? '→' : '←'}</Text>
+      </TouchableOpacity>
+      <Text style={[styles.title, textDir]}>{title}</Text>
+    </View>
+  );
+
+  if (flow) {
+    const stepTitle =
+      step === 'current'
+        ? t('appLock.steps.current')
+        : step === 'repeat'
+          ? t('appLock.steps.repeat')
+          : flow === 'panic'
+            ? t('appLock.steps.newPanic')
+            : t('appLock.steps.new');
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader(t('appLock.title'), () => finishFlow(null))}
+        <View style={styles.pinArea}>
+          <Text style={[styles.stepTitle, textDir]}>{stepTitle}</Text>
+          {renderMessage()}
+          <PinPad value={pin} onChange={setPin} onSubmit={handleSubmit} disabled={isSaving} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {onBack && renderHeader(t('appLock.title'), onBack)}
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.body, textDir]}>{t('appLock.description')}</Text>
+        {renderMessage()}
+
+        {!isEnabled ? (
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => startFlow('enable')}
+            accessibilityRole="button"
+          >
+            <Text style={styles.primaryButtonText}>{t('appLock.enable')}</Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <TouchableOpacity
+                style={[styles.row, isRTL && styles.rowRTL]}
+                onPress={() => startFlow('change')}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.rowLabel, textDir]}>{t('appLock.changePin')}</Text>
+                <Text style={styles.chevron}>{isRTL ? '‹' : '›'}</Text>
+              </TouchableOpacity>
+
+              {canUseBiometrics && (
+                <View style={[styles.row, styles.rowDivider, isRTL && styles.rowRTL]}>
+                  <Text style={[styles.rowLabel, textDir]}>{t('appLock.biometrics')}</Text>
+                  <Switch
+                    value={biometricsEnabled}
+                    onValueChange={setBiometricsEnabled}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    accessibilityLabel={t('appLock.biometrics')}
+                  />
+                </View>
+              )}
+            </View>
+
+            <Text style={[styles.sectionTitle, textDir]}>{t('appLock.autoLock')}</Text>
+            <View style={[styles.chips, isRTL && styles.rowRTL]}>
+              {AUTO_LOCK_OPTIONS_SECONDS.map((seconds) => {
+                const active = seconds === autoLockSeconds;
+                return (
+                  <TouchableOpacity
+                    key={seconds}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() => setAutoLockSeconds(seconds)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: active }}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                      {seconds === 0
+                        ? t('appLock.autoLockImmediately')
+                        : seconds < 60
+                          ? t('appLock.autoLockSeconds', { count: seconds })
+                          : t('appLock.autoLockMinutes', { count: seconds / 60 })}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={[styles.sectionTitle, textDir]}>{t('appLock.panicPin')}</Text>
+            <View style={styles.card}>
+              <Text style={[styles.body, textDir]}>{t('appLock.panicDescription')}</Text>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => startFlow(hasPanicPin ? 'removePanic' : 'panic')}
+                accessibilityRole="button"
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {hasPanicPin ? t('appLock.removePanicPin') : t('appLock.setPanicPin')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={styles.dangerButton}
+              onPress={() => startFlow('disable')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.dangerText}>{t('appLock.disable')}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backArrow: { fontSize: fontSizes.xxl, color: colors.text },
+  title: { flex: 1, fontSize: fontSizes.xxl, fontWeight: fontWeights.bold, color: colors.text },
+  content: { paddingHorizontal: spacing.lg, paddingTop: spacing.md, paddingBottom: spacing.xxl },
+  body: { fontSize: fontSizes.sm, color: colors.textSecondary, lineHeight: 20 },
+  message: {
+    fontSize: fontSizes.sm,
+    color: colors.error,
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  messageSuccess: { color: colors.primary },
+  pinArea: { flex: 1, justifyContent: 'center', paddingHorizontal: spacing.lg },
+  stepTitle: {
+    fontSize: fontSizes.xl,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginTop: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: MIN_TOUCH_TARGET,
+  },
+  rowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+  },
+  rowLabel: { flex: 1, fontSize: fontSizes.md, color: colors.text },
+  chevron: { fontSize: fontSizes.xl, color: colors.textSecondary },
+  sectionTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginTop: spacing.lg,
+  },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.xl,
+    borderWidth: 1.5,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    minHeight: 36,
+    justifyContent: 'center',
+  },
+  chipActive: { backgroundColor: colors.primary, borderColor: colors.primary },
+  chipText: { fontSize: fontSizes.sm, color: colors.text },
+  chipTextActive: { color: colors.textOnPrimary, fontWeight: fontWeights.semiBold },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.lg,
+  },
+  primaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textOnPrimary,
+    fontWeight: fontWeights.bold,
+  },
+  secondaryButton: {
+    borderWidth: 1.5,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  secondaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.primary,
+    fontWeight: fontWeights.semiBold,
+  },
+  dangerButton: {
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.xl,
+  },
+  dangerText: { fontSize: fontSizes.md, color: colors.error, fontWeight: fontWeights.semiBold },
+});
@@ -0,0 +1,116 @@
+/**
+ * Lock Screen
+ * Shown over the app while the app lock is engaged. Unlocks with the
+ * PIN or, when enabled, fingerprint/face. After repeated wrong PINs the
+ * keypad is disabled for a growing wait.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import { useAppLockStore } from '../../../application/store/appLockStore';
+import { PinPad } from '../../components/common/PinPad';
+import { colors } from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+export const LockScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguageStore();
+  const { biometricsEnabled, blockedUntil, unlockWithPin, unlockWithBiometrics } =
+    useAppLockStore();
+  const [pin, setPin] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [showWrong, setShowWrong] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const waitSeconds = blockedUntil ? Math.ceil((blockedUntil - now) / 1000) : 0;
+  const isBlocked = waitSeconds > 0;
+
+  const promptBiometrics = useCallback(() => {
+    unlockWithBiometrics(t('appLock.biometricPrompt'), t('appLock.usePin'));
+  }, [unlockWithBiometrics, t]);
+
+  // Prompt once when the lock shows: the setting and the callback stay the same while locked
+  useEffect(() => {
+    if (biometricsEnabled) promptBiometrics();
+  }, [biometricsEnabled, promptBiometrics]);
+
+  // Tick only while a wait is running
+  useEffect(() => {
+    if (!isBlocked) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isBlocked]);
+
+  const handleSubmit = async () => {
+    setIsChecking(true);
+    const result = await unlockWithPin(pin);
+    setIsChecking(false);
+    setPin('');
+    setShowWrong(result === 'wrong');
+    setNow(Date.now());
+  };
+
+  const textDir = isRTL ? styles.textRTL : undefined;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={[styles.title, textDir]}>{t('appLock.enterPin')}</Text>
+        {isBlocked ? (
+          <Text style={[styles.error, textDir]} accessibilityLiveRegion="polite">
+            {t('appLock.blocked', { count: waitSeconds })}
+          </Text>
+        ) : (
+          showWrong && (
+            <Text style={[styles.error, textDir]} accessibilityLiveRegion="polite">
+              {t('appLock.wrongPin')}
+            </Text>
+          )
+        )}
+      </View>
+      <PinPad
+        value={pin}
+        onChange={(value) => {
+          setPin(value);
+          setShowWrong(false);
+        }}
+        onSubmit={handleSubmit}
+        onBiometric={biometricsEnabled ? promptBiometrics : undefined}
+        disabled={isBlocked || isChecking}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+    minHeight: 64,
+  },
+  title: {
+    fontSize: fontSizes.xxl,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    textAlign: 'center',
+  },
+  error: {
+    fontSize: fontSizes.sm,
+    color: colors.error,
+    marginTop: spacing.sm,
+    textAlign: 'center',
+  },
+  textRTL: {
+    writingDirection: 'rtl',
+  },
+});
@@ -0,0 +1,62 @@
+/**
+ * Panic Screen
+ * Opened by the panic PIN: a plain, empty notes page with nothing about
+ * health on it. The app's screens are not mounted behind it; leaving
+ * the app locks it again.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import { colors } from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+export const PanicScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguageStore();
+  const textDir = isRTL ? styles.textRTL : undefined;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Text style={[styles.title, textDir]}>{t('appLock.panic.title')}</Text>
+      <View style={styles.empty}>
+        <Text style={styles.emptyIcon}>🗒️</Text>
+        <Text style={[styles.emptyText, textDir]}>{t('appLock.panic.empty')}</Text>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    fontSize: fontSizes.xxl,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+  },
+  textRTL: {
+    textAlign: 'right',
+    writingDirection: 'rtl',
+  },
+  empty: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.textSecondary,
+  },
+});
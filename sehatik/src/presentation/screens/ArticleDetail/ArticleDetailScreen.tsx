@@ -32,6 +32,7 @@ import {
 import { colors } from '../../theme/colors';
 import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
 import { fontSizes, fontWeights } from '../../theme/typography';
+import { useAppearance } from '../../theme/appearance';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -423,6 +424,8 @@ export const ArticleDetailScreen: React.FC<Props> = ({
   const scrollY = useRef(new Animated.Value(0)).current;
   const [readProgress, setReadProgress] = useState(0);
   const [playerState, setPlayerState] = useState<PlayerState>('hidden');
+  // Discreet mode: no audio at all, so nothing can be overheard
+  const { allowAudio } = useAppearance();
 
   // Fade-in animation
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -707,7 +710,7 @@ export const ArticleDetailScreen: React.FC<Props> = ({
         </ScrollView>
 
         {/* ===== Floating Listen Button ===== */}
-        {playerState === 'hidden' && (
+        {allowAudio && playerState === 'hidden' && (
           <TouchableOpacity
             style={[styles.listenFab, { backgroundColor: accentColor }, isRTL ? { left: 20 } : { right: 20 }]}
             activeOpacity={0.85}
@@ -724,7 +727,7 @@ export const ArticleDetailScreen: React.FC<Props> = ({
           isRTL={isRTL}
           articleTitle={article ? t(article.titleKey) : ''}
           totalMinutes={article?.readTimeMinutes || 5}
-          playerState={playerState}
+          playerState={allowAudio ? playerState : 'hidden'}
           onChangeState={setPlayerState}
         />
       </SafeAreaView>
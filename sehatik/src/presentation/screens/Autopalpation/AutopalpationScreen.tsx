@@ -28,6 +28,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 
 // --- Internal Imports (Preserved) ---
 import { MedicalDisclaimer } from '../../components/common/MedicalDisclaimer';
+import { BreastMapQuestion } from '../../components/exam/BreastMapQuestion';
 import { useLanguageStore } from '../../../application/store/languageStore';
 import { useExamStore } from '../../../application/store/examStore';
 import { EXAM_SECTIONS, shouldShowQuestion } from '../../../infrastructure/data/examQuestions';
@@ -220,9 +221,12 @@ export const AutopalpationScreen: React.FC = () => {
     currentSectionIndex,
     currentQuestionIndex,
     answers,
+    findings,
     examResult,
     startExam,
     answerQuestion,
+    setFindings,
+    getPastFindings,
     nextQuestion,
     previousQuestion,
     completeExam,
@@ -491,6 +495,16 @@ export const AutopalpationScreen: React.FC = () => {
               </View>
             )}
 
+            {/* BREAST MAP */}
+            {question.type === 'breast_map' && (
+              <BreastMapQuestion
+                findings={findings}
+                onChange={setFindings}
+                past={getPastFindings()}
+                isRTL={isRTL}
+              />
+            )}
+
             {/* MULTI SELECT & QUADRANT */}
             {(question.type === 'multi_select' || question.type === 'quadrant') && question.options && (
               <View style={styles.listOptions}>
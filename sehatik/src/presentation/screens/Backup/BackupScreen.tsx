@@ -0,0 +1,355 @@
+/**
+ * Backup Screen
+ * Turns the encrypted backup on with a passphrase (or restores an
+ * existing backup on a new phone), backs up or restores on demand and
+ * turns it off. Backups need a verified phone number.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import { useAuthStore } from '../../../application/store/authStore';
+import { useBackupStore } from '../../../application/store/backupStore';
+import {
+  BACKUP_PASSPHRASE_MIN_LENGTH,
+  isValidBackupPassphrase,
+} from '../../../domain/services/backup';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface Props {
+  onBack?: () => void;
+  onNavigateToVerifyPhone?: () => void;
+}
+
+type FormMessage = 'tooShort' | 'mismatch';
+
+export const BackupScreen: React.FC<Props> = ({ onBack, onNavigateToVerifyPhone }) => {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguageStore();
+  const { isGuest, sessionExpired } = useAuthStore();
+  const {
+    isEnabled,
+    isWorking,
+    lastBackupAt,
+    lastRestoredCount,
+    error,
+    enableBackup,
+    backupNow,
+    restoreNow,
+    disableBackup,
+    deleteBackup,
+  } = useBackupStore();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [formMessage, setFormMessage] = useState<FormMessage | null>(null);
+  const textDir = isRTL ? styles.textRTL : undefined;
+  const locale = isRTL ? 'ar' : 'fr-FR';
+
+  const handleEnable = async () => {
+    if (!isValidBackupPassphrase(passphrase)) {
+      setFormMessage('tooShort');
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setFormMessage('mismatch');
+      return;
+    }
+    setFormMessage(null);
+    if (await enableBackup(passphrase)) {
+      setPassphrase('');
+      setConfirmation('');
+    }
+  };
+
+  const handleDisable = () => {
+    Alert.alert(t('backup.disable'), t('backup.disableConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('backup.keepBackup'), onPress: () => disableBackup() },
+      { text: t('backup.deleteBackup'), style: 'destructive', onPress: () => deleteBackup() },
+    ]);
+  };
+
+  const renderStatus = () => {
+    if (isWorking) {
+      return (
+        <View style={[styles.working, isRTL && styles.rowRTL]}>
+          <ActivityIndicator color={colors.primary} />
+          <Text style={[styles.body, textDir]}>{t('backup.working')}</Text>
+        </View>
+      );
+    }
+    const message = formMessage
+      ? t(`backup.form.${formMessage}`, { count: BACKUP_PASSPHRASE_MIN_LENGTH })
+      : error
+        ? t(`backup.errors.${error}`)
+        : null;
+    if (message) {
+      return (
+        <Text style={[styles.message, textDir]} accessibilityLiveRegion="polite">
+          {message}
+        </Text>
+      );
+    }
+    if (lastRestoredCount !== null) {
+      return (
+        <Text
+          style={[styles.message, styles.messageSuccess, textDir]}
+          accessibilityLiveRegion="polite"
+        >
+          {t('backup.restored', { count: lastRestoredCount })}
+        </Text>
+      );
+    }
+    return null;
+  };
+
+  const needsAccount = isGuest || sessionExpired;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        {onBack && (
+          <TouchableOpacity
+            onPress={onBack}
+            style={styles.backButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.back')}
+          >
+            <Text style={styles.backArrow}>{isRTL ? '→' : '←'}</Text>
+          </TouchableOpacity>
+        )}
+        <Text style={[styles.title, textDir]}>{t('backup.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.body, textDir]}>{t('backup.description')}</Text>
+
+        {needsAccount ? (
+          <View style={styles.card}>
+            <Text style={[styles.body, textDir]}>{t('backup.needsAccount')}</Text>
+            {onNavigateToVerifyPhone && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={onNavigateToVerifyPhone}
+                accessibilityRole="button"
+              >
+                <Text style={styles.secondaryButtonText}>{t('profile.verifyPhone')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : !isEnabled ? (
+          <>
+            <View style={styles.card}>
+              <Text style={[styles.warning, textDir]}>{t('backup.passphraseWarning')}</Text>
+              <TextInput
+                style={[styles.input, textDir]}
+                placeholder={t('backup.passphrase')}
+                placeholderTextColor={colors.textLight}
+                value={passphrase}
+                onChangeText={setPassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isWorking}
+                accessibilityLabel={t('backup.passphrase')}
+              />
+              <TextInput
+                style={[styles.input, textDir]}
+                placeholder={t('backup.confirmPassphrase')}
+                placeholderTextColor={colors.textLight}
+                value={confirmation}
+                onChangeText={setConfirmation}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isWorking}
+                accessibilityLabel={t('backup.confirmPassphrase')}
+              />
+              <Text style={[styles.hint, textDir]}>
+                {t('backup.passphraseHint', { count: BACKUP_PASSPHRASE_MIN_LENGTH })}
+              </Text>
+            </View>
+            {renderStatus()}
+            <TouchableOpacity
+              style={[styles.primaryButton, isWorking && styles.buttonDisabled]}
+              onPress={handleEnable}
+              disabled={isWorking}
+              accessibilityRole="button"
+            >
+              <Text style={styles.primaryButtonText}>{t('backup.enable')}</Text>
+            </TouchableOpacity>
+            <Text style={[styles.note, textDir]}>{t('backup.restoreNote')}</Text>
+          </>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <View style={[styles.row, isRTL && styles.rowRTL]}>
+                <Text style={[styles.rowLabel, textDir]}>{t('backup.lastBackup')}</Text>
+                <Text style={styles.rowValue}>
+                  {lastBackupAt
+                    ? new Date(lastBackupAt).toLocaleString(locale, {
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })
+                    : t('backup.never')}
+                </Text>
+              </View>
+            </View>
+            {renderStatus()}
+            <TouchableOpacity
+              style={[styles.primaryButton, isWorking && styles.buttonDisabled]}
+              onPress={() => backupNow()}
+              disabled={isWorking}
+              accessibilityRole="button"
+            >
+              <Text style={styles.primaryButtonText}>{t('backup.backupNow')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.secondaryButton, isWorking && styles.buttonDisabled]}
+              onPress={() => restoreNow()}
+              disabled={isWorking}
+              accessibilityRole="button"
+            >
+              <Text style={styles.secondaryButtonText}>{t('backup.restore')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.dangerButton}
+              onPress={handleDisable}
+              disabled={isWorking}
+              accessibilityRole="button"
+            >
+              <Text style={styles.dangerText}>{t('backup.disable')}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backArrow: { fontSize: fontSizes.xxl, color: colors.text },
+  title: { flex: 1, fontSize: fontSizes.xxl, fontWeight: fontWeights.bold, color: colors.text },
+  content: { paddingHorizontal: spacing.lg, paddingTop: spacing.md, paddingBottom: spacing.xxl },
+  body: { fontSize: fontSizes.sm, color: colors.textSecondary, lineHeight: 20 },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginTop: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  warning: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    fontWeight: fontWeights.semiBold,
+    lineHeight: 20,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    fontSize: fontSizes.md,
+    color: colors.text,
+    minHeight: MIN_TOUCH_TARGET,
+    marginTop: spacing.md,
+  },
+  hint: { fontSize: fontSizes.xs, color: colors.textSecondary, marginTop: spacing.sm },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: MIN_TOUCH_TARGET,
+  },
+  rowLabel: { flex: 1, fontSize: fontSizes.md, color: colors.text },
+  rowValue: { fontSize: fontSizes.sm, color: colors.textSecondary },
+  working: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  message: {
+    fontSize: fontSizes.sm,
+    color: colors.error,
+    marginTop: spacing.md,
+  },
+  messageSuccess: { color: colors.primary },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.lg,
+  },
+  primaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textOnPrimary,
+    fontWeight: fontWeights.bold,
+  },
+  secondaryButton: {
+    borderWidth: 1.5,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  secondaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.primary,
+    fontWeight: fontWeights.semiBold,
+  },
+  buttonDisabled: { opacity: 0.5 },
+  dangerButton: {
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.xl,
+  },
+  dangerText: { fontSize: fontSizes.md, color: colors.error, fontWeight: fontWeights.semiBold },
+  note: {
+    fontSize: fontSizes.xs,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: spacing.lg,
+  },
+});
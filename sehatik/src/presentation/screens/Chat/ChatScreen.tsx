@@ -23,8 +23,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import LottieView from 'lottie-react-native';
 import { MedicalDisclaimer } from '../../components/common/MedicalDisclaimer';
+import { UrgentCareCard } from '../../components/common/UrgentCareCard';
+import { CrisisSupportCard } from '../../components/common/CrisisSupportCard';
 import { useLanguageStore } from '../../../application/store/languageStore';
 import { useChatStore, type ChatMessage } from '../../../application/store/chatStore';
+import type { AssistantLink } from '../../../infrastructure/data/offlineAssistant';
+import { getArticleById } from '../../../infrastructure/data/educationContent';
 import { spacing } from '../../theme/spacing';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -149,10 +153,31 @@ const AudioOverlay = ({ visible, onClose }: { visible: boolean; onClose: () => v
 };
 
 // ─── Main Component ─────────────────────────────────────────────────
-export const ChatScreen: React.FC = () => {
+interface ChatScreenProps {
+  onNavigateToExam?: () => void;
+  onNavigateToCenters?: () => void;
+  onArticlePress?: (articleId: string) => void;
+}
+
+export const ChatScreen: React.FC<ChatScreenProps> = ({
+  onNavigateToExam,
+  onNavigateToCenters,
+  onArticlePress,
+}) => {
   const { t } = useTranslation();
-  const { isRTL } = useLanguageStore();
-  const { messages, isTyping, sendMessage, loadChat } = useChatStore();
+  const { isRTL, currentLanguage } = useLanguageStore();
+  const {
+    messages,
+    isTyping,
+    streamingMessageId,
+    urgentFlags,
+    showCrisisSupport,
+    sendMessage,
+    stopResponse,
+    dismissUrgentCare,
+    dismissCrisisSupport,
+    loadChat,
+  } = useChatStore();
   const [inputText, setInputText] = useState('');
   const [isRecording, setIsRecording] = useState(false);
 
@@ -162,19 +187,55 @@ export const ChatScreen: React.FC = () => {
     loadChat();
   }, []);
 
+  // Follow the streamed reply as it grows
+  const lastMessageLength = messages[messages.length - 1]?.text.length ?? 0;
+
   useEffect(() => {
     if (messages.length > 0) {
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
-  }, [messages.length, isTyping]);
+  }, [messages.length, isTyping, lastMessageLength]);
+
+  const isResponding = isTyping || streamingMessageId !== null;
 
   const handleSend = async () => {
     const text = inputText.trim();
-    if (!text) return;
+    if (!text || isResponding) return;
     setInputText('');
-    await sendMessage(text);
+    await sendMessage(text, currentLanguage);
+  };
+
+  const getLinkLabel = (link: AssistantLink): string | null => {
+    if (link.section === 'selfCheck') return t('chat.links.selfCheck');
+    if (link.section === 'centers') return t('chat.links.centers');
+    const article = getArticleById(link.articleId);
+    return article ? t('chat.links.article', { title: t(article.titleKey) }) : null;
+  };
+
+  const openLink = (link: AssistantLink) => {
+    if (link.section === 'selfCheck') onNavigateToExam?.();
+    else if (link.section === 'centers') onNavigateToCenters?.();
+    else onArticlePress?.(link.articleId);
+  };
+
+  const renderLink = (link: AssistantLink) => {
+    const label = getLinkLabel(link);
+    if (!label) return null;
+    return (
+      <TouchableOpacity
+        onPress={() => openLink(link)}
+        style={[styles.linkChip, isRTL && styles.linkChipRTL]}
+        activeOpacity={0.7}
+        accessibilityRole="link"
+      >
+        <Text style={styles.linkText} numberOfLines={1}>
+          {label}
+        </Text>
+        <Ionicons name={isRTL ? 'chevron-back' : 'chevron-forward'} size={14} color="#E11D48" />
+      </TouchableOpacity>
+    );
   };
 
   const renderMessage = ({ item }: { item: ChatMessage }) => (
@@ -207,6 +268,15 @@ export const ChatScreen: React.FC = () => {
         >
           {item.text}
         </Text>
+        {item.link && renderLink(item.link)}
+        {item.blocked && (
+          <Text style={[styles.stoppedText, isRTL && styles.textRTL]}>
+            {t('chat.safety.replaced')}
+          </Text>
+        )}
+        {item.stopped && (
+          <Text style={[styles.stoppedText, isRTL && styles.textRTL]}>{t('chat.stopped')}</Text>
+        )}
         <Text
           style={[
             styles.timeStamp,
@@ -253,6 +323,23 @@ export const ChatScreen: React.FC = () => {
         <MedicalDisclaimer compact />
       </View>
 
+      {/* ── Safety cards (pinned until dismissed) ── */}
+      {showCrisisSupport && (
+        <View style={styles.safetyWrap}>
+          <CrisisSupportCard onDismiss={dismissCrisisSupport} isRTL={isRTL} />
+        </View>
+      )}
+      {urgentFlags.length > 0 && (
+        <View style={styles.safetyWrap}>
+          <UrgentCareCard
+            flags={urgentFlags}
+            onDismiss={dismissUrgentCare}
+            isRTL={isRTL}
+            isArabic={currentLanguage === 'ar' || currentLanguage === 'darija'}
+          />
+        </View>
+      )}
+
       {/* ── Chat Messages ── */}
       <View style={styles.chatArea}>
         <FlatList
@@ -292,7 +379,17 @@ export const ChatScreen: React.FC = () => {
             textAlign={isRTL ? 'right' : 'left'}
           />
 
-          {inputText.length > 0 ? (
+          {isResponding ? (
+            <TouchableOpacity
+              onPress={stopResponse}
+              style={styles.sendBtn}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel={t('chat.stop')}
+            >
+              <View style={styles.stopIcon} />
+            </TouchableOpacity>
+          ) : inputText.length > 0 ? (
             <TouchableOpacity
               onPress={handleSend}
               style={styles.sendBtn}
@@ -394,6 +491,12 @@ const styles = StyleSheet.create({
     paddingBottom: 4,
   },
 
+  /* Safety cards */
+  safetyWrap: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+
   /* Chat Area */
   chatArea: {
     flex: 1,
@@ -457,6 +560,33 @@ const styles = StyleSheet.create({
   },
   timeUser: { color: 'rgba(255,255,255,0.7)' },
   timeBot: { color: '#9CA3AF' },
+  linkChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    minHeight: 36,
+    marginTop: 10,
+    paddingHorizontal: 12,
+    borderRadius: 18,
+    backgroundColor: '#FFF1F2',
+  },
+  linkChipRTL: {
+    flexDirection: 'row-reverse',
+    alignSelf: 'flex-end',
+  },
+  linkText: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#E11D48',
+  },
+  stoppedText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: '#9CA3AF',
+    marginTop: 6,
+  },
 
   /* Typing Indicator */
   typingRow: {
@@ -541,6 +671,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginLeft: 8,
   },
+  stopIcon: {
+    width: 12,
+    height: 12,
+    borderRadius: 2,
+    backgroundColor: '#FFFFFF',
+  },
   micButton: {
     width: 38,
     height: 38,
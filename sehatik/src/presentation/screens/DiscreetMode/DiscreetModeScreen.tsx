@@ -0,0 +1,151 @@
+/**
+ * Discreet Mode Screen
+ * Turns discreet mode on or off and picks the generic title the app
+ * shows in its place.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, Switch } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import {
+  DISCREET_TITLES,
+  useDiscreetModeStore,
+} from '../../../application/store/discreetModeStore';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface Props {
+  onBack?: () => void;
+}
+
+export const DiscreetModeScreen: React.FC<Props> = ({ onBack }) => {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguageStore();
+  const { isEnabled, title, setEnabled, setTitle } = useDiscreetModeStore();
+  const textDir = isRTL ? styles.textRTL : undefined;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        {onBack && (
+          <TouchableOpacity
+            onPress={onBack}
+            style={styles.backButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.back')}
+          >
+            <Text style={styles.backArrow}>{isRTL ? '→' : '←'}</Text>
+          </TouchableOpacity>
+        )}
+        <Text style={[styles.title, textDir]}>{t('discreetMode.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.body, textDir]}>{t('discreetMode.description')}</Text>
+
+        <View style={styles.card}>
+          <View style={[styles.row, isRTL && styles.rowRTL]}>
+            <Text style={[styles.rowLabel, textDir]}>{t('discreetMode.enable')}</Text>
+            <Switch
+              value={isEnabled}
+              onValueChange={setEnabled}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              accessibilityLabel={t('discreetMode.enable')}
+            />
+          </View>
+        </View>
+
+        <Text style={[styles.sectionTitle, textDir]}>{t('discreetMode.appTitle')}</Text>
+        <View style={[styles.chips, isRTL && styles.rowRTL]}>
+          {DISCREET_TITLES.map((option) => {
+            const active = option === title;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => setTitle(option)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: active }}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {t(`discreetMode.titles.${option}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={[styles.note, textDir]}>{t('discreetMode.launcherNote')}</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backArrow: { fontSize: fontSizes.xxl, color: colors.text },
+  title: { flex: 1, fontSize: fontSizes.xxl, fontWeight: fontWeights.bold, color: colors.text },
+  content: { paddingHorizontal: spacing.lg, paddingTop: spacing.md, paddingBottom: spacing.xxl },
+  body: { fontSize: fontSizes.sm, color: colors.textSecondary, lineHeight: 20 },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginTop: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: MIN_TOUCH_TARGET,
+  },
+  rowLabel: { flex: 1, fontSize: fontSizes.md, color: colors.text },
+  sectionTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginTop: spacing.lg,
+  },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.xl,
+    borderWidth: 1.5,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    minHeight: 36,
+    justifyContent: 'center',
+  },
+  chipActive: { backgroundColor: colors.primary, borderColor: colors.primary },
+  chipText: { fontSize: fontSizes.sm, color: colors.text },
+  chipTextActive: { color: colors.textOnPrimary, fontWeight: fontWeights.semiBold },
+  note: {
+    fontSize: fontSizes.xs,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: spacing.lg,
+  },
+});
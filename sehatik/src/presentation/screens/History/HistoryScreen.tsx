@@ -0,0 +1,338 @@
+/**
+ * History Screen
+ * Timeline of autopalpation exams and guided self-checks, with one
+ * trend per reported symptom (see symptomTimeline).
+ * Persistent symptoms are listed first and flagged.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import { useExamStore } from '../../../application/store/examStore';
+import { useSelfCheckStore } from '../../../application/store/selfCheckStore';
+import { useImagingStore } from '../../../application/store/imagingStore';
+import { DoctorSummarySheet } from '../../components/common/DoctorSummarySheet';
+import { getRiskColor, type RiskLevel } from '../../../domain/services/riskAssessment';
+import {
+  buildHistoryTimeline,
+  PERSISTENCE_MIN_MONTHS,
+  type SymptomTrend,
+  type TimelineEntry,
+} from '../../../domain/services/symptomTimeline';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface Props {
+  onBack?: () => void;
+}
+
+export const HistoryScreen: React.FC<Props> = ({ onBack }) => {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguageStore();
+  const { examHistory, loadHistory: loadExamHistory } = useExamStore();
+  const { history: selfCheckHistory, loadHistory: loadSelfCheckHistory } = useSelfCheckStore();
+  const { documents: imagingDocuments, loadDocuments: loadImagingDocuments } = useImagingStore();
+  const [showSummary, setShowSummary] = useState(false);
+
+  useEffect(() => {
+    loadExamHistory();
+    loadSelfCheckHistory();
+    // Read once: loading the documents must not run this again
+    if (!useImagingStore.getState().isLoaded) loadImagingDocuments();
+  }, [loadExamHistory, loadSelfCheckHistory, loadImagingDocuments]);
+
+  const timeline = useMemo(
+    () => buildHistoryTimeline(examHistory, selfCheckHistory),
+    [examHistory, selfCheckHistory],
+  );
+
+  const locale = isRTL ? 'ar' : 'fr-FR';
+  const formatDay = (date: number) =>
+    new Date(date).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+  const formatMonth = (date: number) =>
+    new Date(date).toLocaleDateString(locale, { month: 'short' });
+
+  const persistentCount = timeline.trends.filter((trend) => trend.persistent).length;
+
+  const documentCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    imagingDocuments.forEach(({ recordId }) => {
+      if (recordId) counts.set(recordId, (counts.get(recordId) ?? 0) + 1);
+    });
+    return counts;
+  }, [imagingDocuments]);
+
+  const renderRiskBadge = (level: RiskLevel) => (
+    <View style={[styles.riskBadge, { backgroundColor: getRiskColor(level) + '1A' }]}>
+      <Text style={[styles.riskBadgeText, { color: getRiskColor(level) }]}>
+        {t(`history.riskLevels.${level}`)}
+      </Text>
+    </View>
+  );
+
+  const renderTrend = (trend: SymptomTrend) => (
+    <View key={trend.symptomId} style={[styles.card, trend.persistent && styles.cardPersistent]}>
+      <View style={[styles.cardHeader, isRTL && styles.rowRTL]}>
+        <Text style={[styles.cardTitle, isRTL && styles.textRTL]}>
+          {t(`exam.questions.${trend.symptomId}.title`)}
+        </Text>
+        {trend.persistent && (
+          <View style={styles.persistentBadge}>
+            <Text style={styles.persistentText}>{t('history.persistent')}</Text>
+          </View>
+        )}
+      </View>
+
+      <Text style={[styles.meta, isRTL && styles.textRTL]}>
+        {t('history.firstSeen', { date: formatDay(trend.firstSeen) })}
+      </Text>
+      <Text style={[styles.meta, isRTL && styles.textRTL]}>
+        {t('history.monthsReported', {
+          count: trend.monthsReported,
+          total: timeline.months.length,
+        })}
+        {' · '}
+        {t(trend.ongoing ? 'history.ongoing' : 'history.notReported')}
+      </Text>
+
+      {/* One dot per checked month, oldest first */}
+      <View style={[styles.presenceRow, isRTL && styles.rowRTL]}>
+        {timeline.months.map((month, i) => (
+          <View key={month.start} style={styles.presenceItem}>
+            <View
+              style={[
+                styles.presenceDot,
+                trend.presence[i] && { backgroundColor: getRiskColor(month.riskLevel) },
+              ]}
+            />
+            <Text style={styles.presenceLabel}>{formatMonth(month.start)}</Text>
+          </View>
+        ))}
+      </View>
+
+      {trend.firstRiskLevel !== trend.lastRiskLevel && (
+        <View style={[styles.riskChange, isRTL && styles.rowRTL]}>
+          {renderRiskBadge(trend.firstRiskLevel)}
+          <Text style={styles.meta}>{isRTL ? '←' : '→'}</Text>
+          {renderRiskBadge(trend.lastRiskLevel)}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderEntry = (entry: TimelineEntry) => (
+    <View key={entry.id} style={[styles.entry, isRTL && styles.rowRTL]}>
+      <View style={[styles.entryDot, { backgroundColor: getRiskColor(entry.riskLevel) }]} />
+      <View style={styles.entryBody}>
+        <View style={[styles.cardHeader, isRTL && styles.rowRTL]}>
+          <Text style={[styles.entryDate, isRTL && styles.textRTL]}>{formatDay(entry.date)}</Text>
+          {renderRiskBadge(entry.riskLevel)}
+        </View>
+        <Text style={[styles.meta, isRTL && styles.textRTL]}>
+          {t(entry.source === 'self_check' ? 'history.sourceSelfCheck' : 'history.sourceExam')}
+        </Text>
+        <Text style={[styles.entrySymptoms, isRTL && styles.textRTL]}>
+          {entry.symptoms.length > 0
+            ? entry.symptoms.map((id) => t(`exam.questions.${id}.title`)).join(', ')
+            : t('history.noSymptoms')}
+        </Text>
+        {documentCounts.has(entry.id) && (
+          <Text style={[styles.meta, isRTL && styles.textRTL]}>
+            🩻 {t('history.imagingDocuments', { count: documentCounts.get(entry.id) })}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        {onBack && (
+          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+            <Text style={styles.backArrow}>{isRTL ? '→' : '←'}</Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.headerText}>
+          <Text style={[styles.title, isRTL && styles.textRTL]}>{t('history.title')}</Text>
+          <Text style={[styles.subtitle, isRTL && styles.textRTL]}>{t('history.subtitle')}</Text>
+        </View>
+      </View>
+
+      {timeline.entries.length === 0 ? (
+        <View style={styles.empty}>
+          <Text style={styles.emptyText}>{t('history.empty')}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <TouchableOpacity
+            style={styles.summaryButton}
+            onPress={() => setShowSummary(true)}
+            accessibilityRole="button"
+          >
+            <Text style={styles.summaryButtonText}>{t('doctorSummary.open')}</Text>
+          </TouchableOpacity>
+
+          {persistentCount > 0 && (
+            <View style={styles.alert}>
+              <Text style={[styles.alertText, isRTL && styles.textRTL]}>
+                {t('history.persistentAlert', {
+                  count: persistentCount,
+                  months: PERSISTENCE_MIN_MONTHS,
+                })}
+              </Text>
+            </View>
+          )}
+
+          {timeline.riskTrend && (
+            <Text style={[styles.riskTrend, isRTL && styles.textRTL]}>
+              {t(`history.riskTrend.${timeline.riskTrend}`)}
+            </Text>
+          )}
+
+          <Text style={[styles.sectionTitle, isRTL && styles.textRTL]}>
+            {t('history.symptomsTitle')}
+          </Text>
+          {timeline.trends.length > 0 ? (
+            timeline.trends.map(renderTrend)
+          ) : (
+            <Text style={[styles.meta, isRTL && styles.textRTL]}>
+              {t('history.noSymptomsEver')}
+            </Text>
+          )}
+
+          <Text style={[styles.sectionTitle, isRTL && styles.textRTL]}>
+            {t('history.timelineTitle')}
+          </Text>
+          {timeline.entries.map(renderEntry)}
+        </ScrollView>
+      )}
+
+      <DoctorSummarySheet
+        visible={showSummary}
+        onClose={() => setShowSummary(false)}
+        entries={timeline.entries}
+        isRTL={isRTL}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backArrow: { fontSize: fontSizes.xxl, color: colors.text },
+  headerText: { flex: 1 },
+  title: { fontSize: fontSizes.xxl, fontWeight: fontWeights.bold, color: colors.text },
+  subtitle: { fontSize: fontSizes.sm, color: colors.textSecondary, marginTop: 2 },
+  content: { paddingHorizontal: spacing.lg, paddingTop: spacing.md, paddingBottom: spacing.xxl },
+  empty: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: spacing.lg },
+  emptyText: { fontSize: fontSizes.md, color: colors.textSecondary, textAlign: 'center' },
+  summaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  summaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textOnPrimary,
+    fontWeight: fontWeights.bold,
+  },
+  alert: {
+    backgroundColor: colors.error + '12',
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  alertText: { fontSize: fontSizes.sm, color: colors.text, lineHeight: 20 },
+  riskTrend: { fontSize: fontSizes.sm, color: colors.textSecondary, marginBottom: spacing.sm },
+  sectionTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardPersistent: { borderColor: colors.error + '60' },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.semiBold,
+    color: colors.text,
+  },
+  persistentBadge: {
+    backgroundColor: colors.error,
+    borderRadius: borderRadius.round,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  persistentText: {
+    fontSize: fontSizes.xs,
+    fontWeight: fontWeights.bold,
+    color: colors.textOnPrimary,
+  },
+  meta: { fontSize: fontSizes.xs, color: colors.textSecondary, marginTop: 4 },
+  presenceRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm },
+  presenceItem: { alignItems: 'center' },
+  presenceDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.secondaryXLight,
+  },
+  presenceLabel: { fontSize: 10, color: colors.textSecondary, marginTop: 2 },
+  riskChange: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  riskBadge: {
+    borderRadius: borderRadius.round,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  riskBadgeText: { fontSize: fontSizes.xs, fontWeight: fontWeights.semiBold },
+  entry: { flexDirection: 'row', gap: spacing.md, marginBottom: spacing.md },
+  entryDot: { width: 10, height: 10, borderRadius: 5, marginTop: 6 },
+  entryBody: { flex: 1 },
+  entryDate: { fontSize: fontSizes.sm, fontWeight: fontWeights.semiBold, color: colors.text },
+  entrySymptoms: { fontSize: fontSizes.sm, color: colors.text, marginTop: 4 },
+});
@@ -21,11 +21,24 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import LottieView from 'lottie-react-native';
 import { MedicalDisclaimer } from '../../components/common/MedicalDisclaimer';
+import { StorageIssueNotice } from '../../components/common/StorageIssueNotice';
+import { ResumeSessionCard } from '../../components/selfCheck/ResumeSessionCard';
 import { useLanguageStore } from '../../../application/store/languageStore';
 import { useExamStore } from '../../../application/store/examStore';
-import { useReminderStore } from '../../../application/store/reminderStore';
+import {
+  useReminderStore,
+  getMonthlyExamSchedule,
+} from '../../../application/store/reminderStore';
+import { useCycleStore } from '../../../application/store/cycleStore';
+import { useSelfCheckStore } from '../../../application/store/selfCheckStore';
+import { useDiscreetModeStore } from '../../../application/store/discreetModeStore';
+import {
+  getMonthlyExamStatus,
+  type MonthlyExamStatus,
+} from '../../../domain/services/cyclePrediction';
 import { colors } from '../../theme/colors'; // Assuming this exists, but overridden locally for specific UI
 import { spacing } from '../../theme/spacing';
+import { useAppearance } from '../../theme/appearance';
 
 /* ------------------------------------------------------------------ */
 /* Constants                                                          */
@@ -156,16 +169,47 @@ export const HomeScreen: React.FC<Props> = ({
 }) => {
   const { t } = useTranslation();
   const { isRTL } = useLanguageStore();
-  const { lastExamDate, examHistory, loadHistory, lastScreeningDate } = useExamStore();
-  const { getNextReminderDate, loadReminders } = useReminderStore();
+  const {
+    lastExamDate,
+    examHistory,
+    loadHistory,
+    lastScreeningDate,
+    storageIssue,
+    acknowledgeStorageIssue,
+  } = useExamStore();
+  const { reminders, getNextReminderDate, loadReminders } = useReminderStore();
+  const { mode: cycleMode, periodStarts, loadCycleLog } = useCycleStore();
+  const {
+    pendingSession,
+    loadSession,
+    resumeSession,
+    discardSession,
+    getTotalSteps,
+  } = useSelfCheckStore();
+  const discreetTitle = useDiscreetModeStore((state) => state.title);
+  const appearance = useAppearance();
 
   useEffect(() => {
     loadHistory();
     loadReminders();
+    loadCycleLog();
+    loadSession();
   }, []);
 
   /* ---- derived state ---- */
-  const nextReminder = getNextReminderDate();
+  const cycle = { mode: cycleMode, periodStarts };
+  const nextReminder = getNextReminderDate(cycle);
+  const monthlyReminder = reminders.find((r) => r.id === 'monthly_exam');
+  // Counters follow the predicted exam window (or the fixed day)
+  const examStatus: MonthlyExamStatus = monthlyReminder
+    ? getMonthlyExamStatus(getMonthlyExamSchedule(monthlyReminder, cycle), lastExamDate, new Date())
+    : { state: 'never' };
+  const examProgress =
+    examStatus.state === 'upcoming'
+      ? examStatus.progress
+      : examStatus.state === 'never'
+        ? 0
+        : 1;
   const daysSinceExam = lastExamDate
     ? Math.floor((Date.now() - lastExamDate) / (1000 * 60 * 60 * 24))
     : null;
@@ -173,8 +217,10 @@ export const HomeScreen: React.FC<Props> = ({
 
   /* ---- time-based greeting ---- */
   const hour = new Date().getHours();
-  const greeting =
-    hour < 12
+  // Discreet mode: the generic title takes the greeting's place
+  const greeting = appearance.isDiscreet
+    ? t(`discreetMode.titles.${discreetTitle}`)
+    : hour < 12
       ? t('home.goodMorning', 'Bonjour')
       : hour < 18
         ? t('home.goodAfternoon', 'Bon après-midi')
@@ -204,7 +250,7 @@ export const HomeScreen: React.FC<Props> = ({
          fading from warm top to cool bottom.
       */}
       <LinearGradient
-        colors={['#FFF0F5', '#FFF5F7', '#F0F7FF', '#F8FAFC']}
+        colors={appearance.backgroundGradient}
         locations={[0, 0.2, 0.6, 1]}
         style={StyleSheet.absoluteFill}
       />
@@ -238,6 +284,32 @@ export const HomeScreen: React.FC<Props> = ({
             </View>
           </FadeIn>
 
+          {storageIssue && (
+            <View style={s.section}>
+              <StorageIssueNotice
+                issue={storageIssue}
+                onDismiss={acknowledgeStorageIssue}
+                isRTL={isRTL}
+              />
+            </View>
+          )}
+
+          {pendingSession && (
+            <View style={s.section}>
+              <ResumeSessionCard
+                stepIndex={pendingSession.currentStepIndex}
+                totalSteps={getTotalSteps()}
+                updatedAt={pendingSession.updatedAt}
+                onResume={() => {
+                  resumeSession();
+                  onNavigateToExam?.();
+                }}
+                onDiscard={discardSession}
+                isRTL={isRTL}
+              />
+            </View>
+          )}
+
           {/* ═══════ Hero CTA Card (The "Island") ═══════ */}
           <FadeIn delay={100}>
             <View style={s.heroContainer}>
@@ -245,10 +317,10 @@ export const HomeScreen: React.FC<Props> = ({
                 onPress={onNavigateToExam}
                 style={s.heroOuter}
                 accessibilityLabel={t('home.startExam')}
-                shadowColor="#F43F5E"
+                shadowColor={appearance.heroAccent}
               >
                 <LinearGradient
-                  colors={['#BE123C', '#E11D48', '#FB7185']}
+                  colors={appearance.heroGradient}
                   start={{ x: 0, y: 0 }}
                   end={{ x: 1, y: 1 }}
                   style={s.heroGradient}
@@ -259,13 +331,15 @@ export const HomeScreen: React.FC<Props> = ({
                   <View style={s.meshCircle3} />
 
                   {/* Lottie Background Animation */}
-                  <LottieView
-                    source={require('../../../../assets/Breast Cancer Awareness Month.json')}
-                    autoPlay
-                    loop
-                    speed={0.6}
-                    style={s.heroLottie}
-                  />
+                  {appearance.showAwarenessArt && (
+                    <LottieView
+                      source={require('../../../../assets/Breast Cancer Awareness Month.json')}
+                      autoPlay
+                      loop
+                      speed={0.6}
+                      style={s.heroLottie}
+                    />
+                  )}
 
                   <View style={[s.heroContent, isRTL && s.heroContentRTL]}>
                     <View style={s.heroLeft}>
@@ -292,7 +366,7 @@ export const HomeScreen: React.FC<Props> = ({
                           <Ionicons
                             name={isRTL ? 'arrow-back' : 'arrow-forward'}
                             size={14}
-                            color="#E11D48"
+                            color={appearance.heroAccent}
                           />
                         </View>
                       </View>
@@ -418,29 +492,37 @@ export const HomeScreen: React.FC<Props> = ({
                       {t('home.monthlyCheck', 'Auto-palpation')}
                     </Text>
 
-                    {daysSinceExam !== null ? (
-                      <>
-                        {daysSinceExam < 30 ? (
-                          <View>
-                            <Text style={[s.reminderCountBig, { color: '#E11D48' }]}>
-                              {30 - daysSinceExam}
-                            </Text>
-                            <Text style={[s.reminderUnit, rtlText]}>
-                              {t('home.daysLeft', 'Jours restants')}
-                            </Text>
-                          </View>
-                        ) : (
-                          <View>
-                            <Text style={[s.reminderCountBig, { color: '#DC2626' }]}>
-                              {daysSinceExam - 30}
-                            </Text>
-                            <Text style={[s.reminderUnit, rtlText]}>
-                              {t('home.daysOverdue', 'Jours de retard')}
-                            </Text>
-                          </View>
-                        )}
-                      </>
-                    ) : (
+                    {examStatus.state === 'upcoming' && (
+                      <View>
+                        <Text style={[s.reminderCountBig, { color: '#E11D48' }]}>
+                          {examStatus.daysLeft}
+                        </Text>
+                        <Text style={[s.reminderUnit, rtlText]}>
+                          {t('home.daysLeft', 'Jours restants')}
+                        </Text>
+                      </View>
+                    )}
+                    {examStatus.state === 'overdue' && (
+                      <View>
+                        <Text style={[s.reminderCountBig, { color: '#DC2626' }]}>
+                          {examStatus.daysOverdue}
+                        </Text>
+                        <Text style={[s.reminderUnit, rtlText]}>
+                          {t('home.daysOverdue', 'Jours de retard')}
+                        </Text>
+                      </View>
+                    )}
+                    {examStatus.state === 'due' && (
+                      <View>
+                        <Text style={[s.reminderCountBig, { color: '#E11D48', fontSize: 22 }]}>
+                          !
+                        </Text>
+                        <Text style={[s.reminderUnit, rtlText]}>
+                          {t('home.examWindowOpen', "C'est le moment")}
+                        </Text>
+                      </View>
+                    )}
+                    {examStatus.state === 'never' && (
                       <View>
                         <Text style={[s.reminderCountBig, { color: '#E11D48', fontSize: 22 }]}>
                           !
@@ -457,9 +539,7 @@ export const HomeScreen: React.FC<Props> = ({
                           s.progressBarFill,
                           {
                             backgroundColor: '#E11D48',
-                            width: daysSinceExam !== null
-                              ? `${Math.min(100, Math.max(0, (daysSinceExam / 30) * 100))}%`
-                              : '0%'
+                            width: `${Math.round(examProgress * 100)}%`,
                           }
                         ]}
                       />
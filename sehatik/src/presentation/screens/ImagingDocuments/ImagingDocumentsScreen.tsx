@@ -0,0 +1,565 @@
+/**
+ * Imaging Documents Screen
+ * Lets the user keep their mammograms, ultrasounds and report scans in
+ * the app, de-identified and encrypted, and attach them to an exam or
+ * self-check so they can be shown to a doctor.
+ *
+ * The app does not interpret images. An analysis section only appears
+ * when a validated analyzer is enabled for the build, and its output is
+ * always labelled as not being a diagnosis.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import { useImagingStore } from '../../../application/store/imagingStore';
+import { useExamStore } from '../../../application/store/examStore';
+import { useSelfCheckStore } from '../../../application/store/selfCheckStore';
+import { buildHistoryTimeline } from '../../../domain/services/symptomTimeline';
+import type { ImagingDocument } from '../../../domain/models/types';
+import {
+  getImagingAnalyzer,
+  type ImagingAnalysisResult,
+  type ImagingAnalyzer,
+} from '../../../infrastructure/imaging/imagingAnalysis';
+import { StorageIssueNotice } from '../../components/common/StorageIssueNotice';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface Props {
+  onBack?: () => void;
+}
+
+/** Records offered when attaching a document */
+const ATTACHABLE_RECORDS = 5;
+
+/** DICOM codes with a translated label */
+const KNOWN_MODALITIES = ['MG', 'US', 'MR', 'CT'];
+const KNOWN_LATERALITIES = ['L', 'R', 'B'];
+
+const BASE64_CHUNK = 0x8000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decrypts one image document while it is on screen
+ */
+const DocumentPreview: React.FC<{ document: ImagingDocument }> = ({ document }) => {
+  const getDocumentData = useImagingStore((state) => state.getDocumentData);
+  const [loaded, setLoaded] = useState<{ id: string; uri: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDocumentData(document.id).then((data) => {
+      if (cancelled) return;
+      setLoaded({
+        id: document.id,
+        uri: data ? `data:${document.mimeType};base64,${toBase64(data)}` : null,
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [document.id, document.mimeType, getDocumentData]);
+
+  if (loaded?.id !== document.id) {
+    return (
+      <View style={styles.previewPlaceholder}>
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+  if (!loaded.uri) {
+    return (
+      <View style={styles.previewPlaceholder}>
+        <Text style={styles.placeholderIcon}>⚠️</Text>
+      </View>
+    );
+  }
+  return <Image source={{ uri: loaded.uri }} style={styles.preview} resizeMode="contain" />;
+};
+
+export const ImagingDocumentsScreen: React.FC<Props> = ({ onBack }) => {
+  const { t, i18n } = useTranslation();
+  const { isRTL } = useLanguageStore();
+  const {
+    documents,
+    isLoaded,
+    isImporting,
+    storageIssue,
+    loadDocuments,
+    importDocument,
+    attachToRecord,
+    removeDocument,
+    getDocumentData,
+    acknowledgeStorageIssue,
+  } = useImagingStore();
+  const { examHistory, loadHistory: loadExamHistory } = useExamStore();
+  const { history: selfCheckHistory, loadHistory: loadSelfCheckHistory } = useSelfCheckStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [analyzer, setAnalyzer] = useState<ImagingAnalyzer | null>(null);
+  const [analysis, setAnalysis] = useState<{
+    id: string;
+    result: ImagingAnalysisResult | null;
+  } | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    // Read once: loading the documents must not run this again
+    if (!useImagingStore.getState().isLoaded) loadDocuments();
+    loadExamHistory();
+    loadSelfCheckHistory();
+    getImagingAnalyzer().then(setAnalyzer);
+  }, [loadDocuments, loadExamHistory, loadSelfCheckHistory]);
+
+  const records = useMemo(
+    () => buildHistoryTimeline(examHistory, selfCheckHistory).entries,
+    [examHistory, selfCheckHistory],
+  );
+
+  const textDir = isRTL ? styles.textRTL : undefined;
+  const locale = isRTL ? 'ar' : 'fr-FR';
+  const formatDay = (date: number) =>
+    new Date(date).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const documentTitle = ({ kind, metadata }: ImagingDocument) => {
+    if (kind === 'image') return t('imaging.kinds.image');
+    const modality =
+      metadata.modality && KNOWN_MODALITIES.includes(metadata.modality)
+        ? t(`imaging.modalities.${metadata.modality}`)
+        : (metadata.modality ?? t('imaging.kinds.dicom'));
+    const laterality =
+      metadata.laterality && KNOWN_LATERALITIES.includes(metadata.laterality)
+        ? t(`imaging.laterality.${metadata.laterality}`)
+        : metadata.laterality;
+    return [modality, laterality, metadata.view].filter(Boolean).join(' · ');
+  };
+
+  const recordLabel = (recordId: string) => {
+    const record = records.find((r) => r.id === recordId);
+    if (!record) return t('imaging.recordMissing');
+    return t(record.source === 'self_check' ? 'imaging.recordSelfCheck' : 'imaging.recordExam', {
+      date: formatDay(record.date),
+    });
+  };
+
+  const handleImport = async () => {
+    const result = await importDocument();
+    if (result.status === 'imported') {
+      setSelectedId(result.document.id);
+      setIsAttaching(false);
+    } else if (result.status === 'error') {
+      Alert.alert(t('imaging.importErrorTitle'), t(`imaging.importErrors.${result.error}`));
+    }
+  };
+
+  const handleAnalyze = async (document: ImagingDocument) => {
+    if (!analyzer) return;
+    setIsAnalyzing(true);
+    try {
+      const bytes = await getDocumentData(document.id);
+      const result = bytes
+        ? await analyzer.analyze(
+            {
+              kind: document.kind,
+              mimeType: document.mimeType,
+              metadata: document.metadata,
+              bytes,
+            },
+            i18n.language,
+          )
+        : null;
+      setAnalysis({ id: document.id, result });
+    } catch {
+      setAnalysis({ id: document.id, result: null });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const confirmDelete = (document: ImagingDocument) =>
+    Alert.alert(t('imaging.deleteTitle'), t('imaging.deleteConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('imaging.delete'),
+        style: 'destructive',
+        onPress: () => {
+          setSelectedId(null);
+          removeDocument(document.id);
+        },
+      },
+    ]);
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  // ── Analysis (only when enabled for the build) ──
+  const renderAnalysis = (document: ImagingDocument) => {
+    if (!analyzer) return null;
+    const current = analysis?.id === document.id ? analysis : null;
+    return (
+      <View style={styles.analysis}>
+        <View style={styles.notDiagnosis}>
+          <Text style={[styles.notDiagnosisTitle, textDir]}>{t('imaging.notDiagnosisTitle')}</Text>
+          <Text style={[styles.body, textDir]}>{t('imaging.notDiagnosisText')}</Text>
+        </View>
+        {current ? (
+          current.result ? (
+            <>
+              {current.result.observations.map((observation, i) => (
+                <Text key={i} style={[styles.bullet, textDir]}>
+                  • {observation}
+                </Text>
+              ))}
+              {current.result.suggestsReview && (
+                <Text style={[styles.reviewText, textDir]}>{t('imaging.suggestsReview')}</Text>
+              )}
+              <Text style={[styles.meta, textDir]}>
+                {t('imaging.analyzerVersion', {
+                  id: current.result.analyzerId,
+                  version: current.result.analyzerVersion,
+                })}
+              </Text>
+            </>
+          ) : (
+            <Text style={[styles.meta, textDir]}>{t('imaging.analysisFailed')}</Text>
+          )
+        ) : (
+          <TouchableOpacity
+            style={[styles.secondaryButton, isAnalyzing && styles.buttonDisabled]}
+            onPress={() => handleAnalyze(document)}
+            disabled={isAnalyzing}
+            accessibilityRole="button"
+          >
+            {isAnalyzing ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={styles.secondaryButtonText}>{t('imaging.analyze')}</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  // ── Selected document ──
+  const renderDetail = (document: ImagingDocument) => (
+    <View style={styles.card}>
+      <Text style={[styles.cardTitle, textDir]}>{documentTitle(document)}</Text>
+      {document.kind === 'image' ? (
+        <DocumentPreview document={document} />
+      ) : (
+        <Text style={[styles.body, textDir]}>{t('imaging.dicomNote')}</Text>
+      )}
+      {document.metadata.studyDate && (
+        <Text style={[styles.meta, textDir]}>
+          {t('imaging.studyDate', {
+            date: formatDay(Date.parse(`${document.metadata.studyDate}T00:00`)),
+          })}
+        </Text>
+      )}
+      <Text style={[styles.meta, textDir]}>{t('imaging.deidentified')}</Text>
+
+      <Text style={[styles.sectionTitle, textDir]}>{t('imaging.attachTitle')}</Text>
+      <Text style={[styles.body, textDir]}>
+        {document.recordId ? recordLabel(document.recordId) : t('imaging.notAttached')}
+      </Text>
+      {isAttaching ? (
+        records.length === 0 ? (
+          <Text style={[styles.meta, textDir]}>{t('imaging.noRecords')}</Text>
+        ) : (
+          <View style={[styles.chips, isRTL && styles.rowRTL]}>
+            {records.slice(0, ATTACHABLE_RECORDS).map((record) =>
+              renderChip(record.id, recordLabel(record.id), document.recordId === record.id, () => {
+                attachToRecord(document.id, record.id);
+                setIsAttaching(false);
+              }),
+            )}
+            {document.recordId &&
+              renderChip('none', t('imaging.detach'), false, () => {
+                attachToRecord(document.id, undefined);
+                setIsAttaching(false);
+              })}
+          </View>
+        )
+      ) : (
+        <TouchableOpacity
+          onPress={() => setIsAttaching(true)}
+          style={styles.linkButton}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.linkText, textDir]}>{t('imaging.attach')}</Text>
+        </TouchableOpacity>
+      )}
+
+      {renderAnalysis(document)}
+
+      <View style={[styles.actionsRow, isRTL && styles.rowRTL]}>
+        <TouchableOpacity onPress={() => setSelectedId(null)} style={styles.linkButton}>
+          <Text style={styles.linkText}>{t('common.close')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => confirmDelete(document)} style={styles.linkButton}>
+          <Text style={[styles.linkText, styles.dangerText]}>{t('imaging.delete')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const selected = documents.find((d) => d.id === selectedId);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        {onBack && (
+          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+            <Text style={styles.backArrow}>{isRTL ? '→' : '←'}</Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.headerText}>
+          <Text style={[styles.title, textDir]}>{t('imaging.title')}</Text>
+          <Text style={[styles.subtitle, textDir]}>{t('imaging.subtitle')}</Text>
+        </View>
+      </View>
+
+      {!isLoaded ? (
+        <ActivityIndicator style={styles.loader} color={colors.primary} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          {storageIssue && (
+            <StorageIssueNotice
+              issue={storageIssue}
+              onDismiss={acknowledgeStorageIssue}
+              isRTL={isRTL}
+            />
+          )}
+
+          {selected && renderDetail(selected)}
+
+          <View style={styles.card}>
+            <Text style={[styles.body, textDir]}>{t('imaging.intro')}</Text>
+            <TouchableOpacity
+              style={[styles.primaryButton, isImporting && styles.buttonDisabled]}
+              onPress={handleImport}
+              disabled={isImporting}
+              accessibilityRole="button"
+            >
+              {isImporting ? (
+                <ActivityIndicator color={colors.textOnPrimary} />
+              ) : (
+                <Text style={styles.primaryButtonText}>{t('imaging.import')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.sectionTitle, textDir]}>{t('imaging.documentsTitle')}</Text>
+          {documents.length === 0 ? (
+            <Text style={[styles.meta, textDir]}>{t('imaging.empty')}</Text>
+          ) : (
+            documents.map((document) => (
+              <TouchableOpacity
+                key={document.id}
+                style={[
+                  styles.documentRow,
+                  isRTL && styles.rowRTL,
+                  document.id === selectedId && styles.documentRowSelected,
+                ]}
+                onPress={() => {
+                  setSelectedId(document.id);
+                  setIsAttaching(false);
+                }}
+                accessibilityRole="button"
+              >
+                <Text style={styles.documentIcon}>{document.kind === 'dicom' ? '🩻' : '🖼️'}</Text>
+                <View style={styles.documentRowText}>
+                  <Text style={[styles.documentTitle, textDir]}>{documentTitle(document)}</Text>
+                  <Text style={[styles.meta, textDir]}>
+                    {formatDay(document.addedAt)}
+                    {document.recordId ? ` · ${t('imaging.attached')}` : ''}
+                  </Text>
+                </View>
+                <Text style={styles.chevron}>{isRTL ? '‹' : '›'}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backArrow: { fontSize: fontSizes.xxl, color: colors.text },
+  headerText: { flex: 1 },
+  title: { fontSize: fontSizes.xxl, fontWeight: fontWeights.bold, color: colors.text },
+  subtitle: { fontSize: fontSizes.sm, color: colors.textSecondary, marginTop: 2 },
+  loader: { marginTop: spacing.xxl },
+  content: { paddingHorizontal: spacing.lg, paddingTop: spacing.md, paddingBottom: spacing.xxl },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  body: { fontSize: fontSizes.sm, color: colors.textSecondary, lineHeight: 20 },
+  bullet: { fontSize: fontSizes.sm, color: colors.text, lineHeight: 20, marginTop: spacing.xs },
+  meta: { fontSize: fontSizes.xs, color: colors.textSecondary, marginTop: 4 },
+  sectionTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  primaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textOnPrimary,
+    fontWeight: fontWeights.bold,
+  },
+  secondaryButton: {
+    borderWidth: 1.5,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  secondaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.primary,
+    fontWeight: fontWeights.semiBold,
+  },
+  buttonDisabled: { opacity: 0.5 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.xl,
+    borderWidth: 1.5,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    minHeight: 36,
+    justifyContent: 'center',
+  },
+  chipActive: { backgroundColor: colors.primary, borderColor: colors.primary },
+  chipText: { fontSize: fontSizes.sm, color: colors.text },
+  chipTextActive: { color: colors.textOnPrimary, fontWeight: fontWeights.semiBold },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    minHeight: MIN_TOUCH_TARGET,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  documentRowSelected: { borderColor: colors.primary },
+  documentIcon: { fontSize: fontSizes.xl },
+  documentRowText: { flex: 1 },
+  documentTitle: { fontSize: fontSizes.md, fontWeight: fontWeights.semiBold, color: colors.text },
+  chevron: { fontSize: fontSizes.xl, color: colors.textSecondary },
+  preview: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.text,
+  },
+  previewPlaceholder: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.surfaceElevated,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderIcon: { fontSize: fontSizes.xl },
+  analysis: { marginTop: spacing.md },
+  notDiagnosis: {
+    backgroundColor: colors.error + '12',
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+  },
+  notDiagnosisTitle: {
+    fontSize: fontSizes.sm,
+    fontWeight: fontWeights.bold,
+    color: colors.error,
+    marginBottom: spacing.xs,
+  },
+  reviewText: {
+    fontSize: fontSizes.sm,
+    fontWeight: fontWeights.semiBold,
+    color: colors.text,
+    marginTop: spacing.sm,
+  },
+  actionsRow: { flexDirection: 'row', justifyContent: 'space-between', marginTop: spacing.sm },
+  linkButton: { minHeight: MIN_TOUCH_TARGET, justifyContent: 'center' },
+  linkText: { fontSize: fontSizes.sm, fontWeight: fontWeights.semiBold, color: colors.primary },
+  dangerText: { color: colors.error },
+});
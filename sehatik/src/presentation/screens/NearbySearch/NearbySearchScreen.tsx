@@ -3,7 +3,11 @@
  * Shows nearby screening centers sorted by distance from user location
  * Includes hospitals, private clinics, NGOs, and mobile caravans
  *
- * Demo mode: Uses UM6P (Benguerir) as current location
+ * Without a device position the user picks their city instead
+ *
+ * Access filters (open now, no referral, covered by my insurance) only
+ * keep centers whose pack entry says so: unknown hours or coverage are
+ * filtered out rather than guessed
  */
 
 import React, { useEffect, useMemo, useState } from 'react';
@@ -15,22 +19,37 @@ import {
   StyleSheet,
   Linking,
   ScrollView,
+  ActivityIndicator,
 } from 'react-native';
 import LottieView from 'lottie-react-native';
 import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLanguageStore } from '../../../application/store/languageStore';
 import { useLocationStore } from '../../../application/store/locationStore';
+import { useCentersStore } from '../../../application/store/centersStore';
+import { useCoverageStore } from '../../../application/store/coverageStore';
+import { getCentersSortedByDistance } from '../../../infrastructure/data/screeningCenters';
+import { COVERAGE_SCHEMES, isCaravanActive } from '../../../domain/services/centersPack';
 import {
-  SCREENING_CENTERS,
-  getCentersSortedByDistance,
-} from '../../../infrastructure/data/screeningCenters';
-import type { ScreeningCenter, CenterType, ServiceType } from '../../../domain/models/types';
+  getNextChange,
+  getServicePrice,
+  isCoveredFor,
+  isOpenAt,
+} from '../../../domain/services/centerAccess';
+import type {
+  ScreeningCenter,
+  CenterType,
+  CoverageScheme,
+  ServiceType,
+} from '../../../domain/models/types';
 import { colors } from '../../theme/colors';
 import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
 import { fontSizes, fontWeights } from '../../theme/typography';
+import { useAppearance } from '../../theme/appearance';
+import { CentersMap } from '../../components/map/CentersMap';
 
 type FilterType = 'all' | CenterType;
+type ViewMode = 'list' | 'map';
 
 interface CenterWithDistance extends ScreeningCenter {
   distance: number;
@@ -78,15 +97,6 @@ const getTypeConfig = (type: CenterType) => {
   }
 };
 
-/** Check if a caravan date range is currently active */
-const isCaravanActive = (center: ScreeningCenter): boolean => {
-  if (!center.availableDates) return false;
-  const now = new Date();
-  const start = new Date(center.availableDates.start);
-  const end = new Date(center.availableDates.end);
-  return now >= start && now <= end;
-};
-
 /** Format date for display */
 const formatDate = (dateStr: string): string => {
   const d = new Date(dateStr);
@@ -96,19 +106,47 @@ const formatDate = (dateStr: string): string => {
 export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
   const { t } = useTranslation();
   const { isRTL, currentLanguage } = useLanguageStore();
-  const { location, hasLocation, isLoading, requestLocation } = useLocationStore();
+  const { showAwarenessArt } = useAppearance();
+  const {
+    location,
+    hasLocation,
+    isLoading,
+    error,
+    needsCity,
+    isDemoMode,
+    requestLocation,
+    selectCity,
+  } = useLocationStore();
+  const { centers, cityLocations, holidays } = useCentersStore();
+  const { scheme, isLoaded: isCoverageLoaded, loadCoverage, setCoverage } = useCoverageStore();
 
   const [filter, setFilter] = useState<FilterType>('all');
   const [serviceFilter, setServiceFilter] = useState<string | null>(null);
+  const [isPickingCity, setIsPickingCity] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [selectedCenterId, setSelectedCenterId] = useState<string | null>(null);
+  const [openNow, setOpenNow] = useState(false);
+  const [noReferral, setNoReferral] = useState(false);
+  const [coveredOnly, setCoveredOnly] = useState(false);
+  const [isPickingCoverage, setIsPickingCoverage] = useState(false);
 
   const isArabicLang = currentLanguage === 'ar' || currentLanguage === 'darija';
+  // The insurance filter needs a scheme to compare with
+  const isCoveredFilterOn = coveredOnly && scheme !== null;
 
-  // Request location on mount
+  // Request location on mount (once the user has to pick a city, they retry by hand)
   useEffect(() => {
-    if (!hasLocation) {
+    if (!hasLocation && !needsCity) {
       requestLocation();
     }
-  }, [hasLocation, requestLocation]);
+  }, [hasLocation, needsCity, requestLocation]);
+
+  // Coverage is only needed here, load it lazily
+  useEffect(() => {
+    if (!isCoverageLoaded) {
+      loadCoverage();
+    }
+  }, [isCoverageLoaded, loadCoverage]);
 
   // Centers sorted by distance with filters applied
   const sortedCenters = useMemo((): CenterWithDistance[] => {
@@ -117,7 +155,7 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
     let centersWithDistance = getCentersSortedByDistance(
       location.latitude,
       location.longitude,
-      SCREENING_CENTERS,
+      centers,
     );
 
     // Apply type filter
@@ -132,15 +170,42 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
       );
     }
 
+    // Apply access filters
+    if (openNow) {
+      const now = new Date();
+      centersWithDistance = centersWithDistance.filter(
+        (c) => isOpenAt(c, now, holidays) === true,
+      );
+    }
+    if (noReferral) {
+      centersWithDistance = centersWithDistance.filter((c) => c.referralRequired === false);
+    }
+    if (isCoveredFilterOn && scheme) {
+      centersWithDistance = centersWithDistance.filter((c) => isCoveredFor(c, scheme));
+    }
+
     return centersWithDistance;
-  }, [location, filter, serviceFilter]);
+  }, [
+    location,
+    centers,
+    filter,
+    serviceFilter,
+    openNow,
+    noReferral,
+    isCoveredFilterOn,
+    scheme,
+    holidays,
+  ]);
 
   // Separate caravans from fixed centers for the alert banner
   const activeCaravans = useMemo(
-    () => sortedCenters.filter((c) => c.type === 'caravan' && isCaravanActive(c)),
+    () => sortedCenters.filter((c) => isCaravanActive(c)),
     [sortedCenters],
   );
 
+  // Index kept so the card shows the same rank as in the list
+  const selectedIndex = sortedCenters.findIndex((c) => c.id === selectedCenterId);
+
   const handleCall = (phone: string) => {
     Linking.openURL(`tel:${phone.replace(/\s/g, '')}`);
   };
@@ -171,6 +236,57 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
     return isArabicLang ? labels.ar : labels.fr;
   };
 
+  const getCoverageLabel = (coverage: CoverageScheme) => t(`nearby.coverage.${coverage}`);
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString(isArabicLang ? 'ar-MA' : 'fr-FR', {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  // "Open · closes at 16:30" / "Closed · opens Mon 08:30"
+  const getOpenStatus = (center: ScreeningCenter) => {
+    const now = new Date();
+    const change = getNextChange(center, now, holidays);
+    if (!change) {
+      return isOpenAt(center, now, holidays) === false ? t('nearby.access.closed') : null;
+    }
+    if (change.isOpen) return t('nearby.access.open_until', { time: formatTime(change.at) });
+    if (change.at.toDateString() === now.toDateString()) {
+      return t('nearby.access.closed_opens_today', { time: formatTime(change.at) });
+    }
+    return t('nearby.access.closed_opens', {
+      day: change.at.toLocaleDateString(isArabicLang ? 'ar-MA' : 'fr-FR', { weekday: 'long' }),
+      time: formatTime(change.at),
+    });
+  };
+
+  // Indicative mammography price, or null when the pack has none
+  const getPriceLabel = (center: ScreeningCenter) => {
+    const price = getServicePrice(center, 'mammography');
+    if (!price) return null;
+    if (price.min === 0 && !price.max) return t('nearby.access.price_free');
+    if (price.min === 0) return t('nearby.access.price_up_to', { max: price.max });
+    if (!price.max || price.max === price.min) {
+      return t('nearby.access.price_from', { min: price.min });
+    }
+    return t('nearby.access.price_range', { min: price.min, max: price.max });
+  };
+
+  const handleCoveredFilter = () => {
+    if (!scheme) {
+      setIsPickingCoverage(!isPickingCoverage);
+      return;
+    }
+    setCoveredOnly(!coveredOnly);
+  };
+
+  const handleSelectCoverage = (coverage: CoverageScheme) => {
+    setCoverage(coverage);
+    setCoveredOnly(true);
+    setIsPickingCoverage(false);
+  };
+
   const FILTERS: { key: FilterType; labelKey: string; icon: string }[] = [
     { key: 'all', labelKey: 'nearby.filter_all', icon: '📍' },
     { key: 'public', labelKey: 'nearby.type_public', icon: '🏥' },
@@ -187,6 +303,57 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
     { key: 'clinical_exam', icon: '🩺' },
   ];
 
+  const handleSelectCity = (city: string) => {
+    setIsPickingCity(false);
+    selectCity(city);
+  };
+
+  const handleUseMyPosition = () => {
+    setIsPickingCity(false);
+    requestLocation();
+  };
+
+  // City chips, shown when there is no position or the user changes city
+  const renderCityPicker = () => (
+    <View style={styles.cityPicker}>
+      <Text style={[styles.cityPickerTitle, isRTL && styles.textRTL]}>
+        {t('nearby.choose_city')}
+      </Text>
+      {error && (
+        <Text style={[styles.cityPickerHint, isRTL && styles.textRTL]}>
+          {t(error === 'denied' ? 'nearby.location_denied' : 'nearby.location_unavailable')}
+        </Text>
+      )}
+      <View style={[styles.cityChips, isRTL && styles.rowRTL]}>
+        {cityLocations.map((c) => {
+          const isActive = location?.source !== 'gps' && location?.label === c.city;
+          return (
+            <TouchableOpacity
+              key={c.city}
+              style={[styles.filterChip, isActive && styles.filterChipActive]}
+              onPress={() => handleSelectCity(c.city)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text style={[styles.filterText, isActive && styles.filterTextActive]}>
+                {isArabicLang ? c.cityAr : c.city}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <TouchableOpacity
+        style={styles.useMyPosition}
+        onPress={handleUseMyPosition}
+        accessibilityRole="button"
+      >
+        <Text style={[styles.useMyPositionText, isRTL && styles.textRTL]}>
+          📍 {t('nearby.use_my_position')}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
   // Render a caravan alert banner
   const renderCaravanBanner = () => {
     if (activeCaravans.length === 0) return null;
@@ -241,6 +408,9 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
     const typeConfig = getTypeConfig(item.type);
     const isCaravan = item.type === 'caravan';
     const isNearby = item.distance < 5;
+    const openStatus = getOpenStatus(item);
+    const isOpen = isOpenAt(item, new Date(), holidays) === true;
+    const priceLabel = getPriceLabel(item);
 
     return (
       <View style={[styles.centerCard, isNearby && styles.centerCardNearby]}>
@@ -297,6 +467,43 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
           </View>
         )}
 
+        {/* Opening hours, referral, price and coverage */}
+        {(openStatus || item.referralRequired !== undefined || priceLabel || item.coverage) && (
+          <View style={styles.accessInfo}>
+            {openStatus && (
+              <Text
+                style={[
+                  styles.accessLine,
+                  isOpen ? styles.accessOpen : styles.accessClosed,
+                  isRTL && styles.textRTL,
+                ]}
+              >
+                ⏰ {openStatus}
+              </Text>
+            )}
+            {item.referralRequired !== undefined && (
+              <Text style={[styles.accessLine, isRTL && styles.textRTL]}>
+                📝{' '}
+                {t(
+                  item.referralRequired
+                    ? 'nearby.access.referral_required'
+                    : 'nearby.access.no_referral_needed',
+                )}
+              </Text>
+            )}
+            {priceLabel && (
+              <Text style={[styles.accessLine, isRTL && styles.textRTL]}>
+                💳 {t('nearby.access.price', { price: priceLabel })}
+              </Text>
+            )}
+            {item.coverage && item.coverage.length > 0 && (
+              <Text style={[styles.accessLine, isRTL && styles.textRTL]} numberOfLines={2}>
+                🛡️ {item.coverage.map(getCoverageLabel).join(' · ')}
+              </Text>
+            )}
+          </View>
+        )}
+
         {/* Services */}
         <View style={styles.servicesRow}>
           {item.services.slice(0, 4).map((service) => (
@@ -345,13 +552,17 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
         <View style={styles.loadingContainer}>
-          <LottieView
-            source={require('../../../../assets/Dove with Pink Ribbon.json')}
-            autoPlay
-            loop
-            speed={0.8}
-            style={styles.loadingLottie}
-          />
+          {showAwarenessArt ? (
+            <LottieView
+              source={require('../../../../assets/Dove with Pink Ribbon.json')}
+              autoPlay
+              loop
+              speed={0.8}
+              style={styles.loadingLottie}
+            />
+          ) : (
+            <ActivityIndicator size="large" color={colors.primary} />
+          )}
           <Text style={styles.loadingText}>{t('nearby.loading_location')}</Text>
         </View>
       </SafeAreaView>
@@ -377,6 +588,9 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
         </View>
       </View>
 
+      {/* No position: the user picks a city */}
+      {!location && needsCity && renderCityPicker()}
+
       {/* Current location indicator */}
       {location && (
         <View style={styles.locationBar}>
@@ -389,13 +603,33 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
                 {t('nearby.your_location')}
               </Text>
               <Text style={[styles.locationName, isRTL && styles.textRTL]}>
-                {isArabicLang ? location.labelAr : location.label}
+                {location.inCity
+                  ? isArabicLang
+                    ? location.labelAr
+                    : location.label
+                  : t('nearby.near_city', {
+                      city: isArabicLang ? location.labelAr : location.label,
+                    })}
               </Text>
             </View>
-
+            {isDemoMode ? (
+              <View style={styles.demoBadge}>
+                <Text style={styles.demoText}>{t('nearby.demo')}</Text>
+              </View>
+            ) : (
+              <TouchableOpacity
+                onPress={() => setIsPickingCity(!isPickingCity)}
+                style={styles.changeCity}
+                accessibilityRole="button"
+                accessibilityState={{ expanded: isPickingCity }}
+              >
+                <Text style={styles.changeCityText}>{t('nearby.change_city')}</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       )}
+      {location && isPickingCity && renderCityPicker()}
 
       {/* Type filter chips */}
       <View style={styles.filterSection}>
@@ -460,28 +694,141 @@ export const NearbySearchScreen: React.FC<Props> = ({ onBack }) => {
         </ScrollView>
       </View>
 
-      {/* Results count */}
-      <Text style={[styles.resultsCount, isRTL && styles.textRTL]}>
-        {t('screening.centers_count', { count: sortedCenters.length })}
-      </Text>
-
-      {/* Centers list */}
-      <FlatList
-        data={sortedCenters}
-        renderItem={renderCenter}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={styles.listContent}
-        showsVerticalScrollIndicator={false}
-        ListHeaderComponent={renderCaravanBanner}
-        ListEmptyComponent={
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyIcon}>🔍</Text>
-            <Text style={[styles.emptyText, isRTL && styles.textRTL]}>
-              {t('screening.no_results')}
+      {/* Access filter chips */}
+      <View style={styles.serviceFilterSection}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterRow}
+        >
+          <TouchableOpacity
+            style={[styles.serviceChip, openNow && styles.serviceChipActive]}
+            onPress={() => setOpenNow(!openNow)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: openNow }}
+          >
+            <Text style={styles.serviceChipIcon}>⏰</Text>
+            <Text style={[styles.serviceChipText, openNow && styles.serviceChipTextActive]}>
+              {t('nearby.access.open_now')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.serviceChip, noReferral && styles.serviceChipActive]}
+            onPress={() => setNoReferral(!noReferral)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: noReferral }}
+          >
+            <Text style={styles.serviceChipIcon}>📝</Text>
+            <Text style={[styles.serviceChipText, noReferral && styles.serviceChipTextActive]}>
+              {t('nearby.access.no_referral')}
             </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.serviceChip, isCoveredFilterOn && styles.serviceChipActive]}
+            onPress={handleCoveredFilter}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isCoveredFilterOn }}
+          >
+            <Text style={styles.serviceChipIcon}>🛡️</Text>
+            <Text
+              style={[
+                styles.serviceChipText,
+                isCoveredFilterOn && styles.serviceChipTextActive,
+              ]}
+            >
+              {scheme
+                ? t('nearby.access.covered_by', { coverage: getCoverageLabel(scheme) })
+                : t('nearby.access.covered')}
+            </Text>
+          </TouchableOpacity>
+          {scheme && (
+            <TouchableOpacity
+              style={styles.serviceChip}
+              onPress={() => setIsPickingCoverage(!isPickingCoverage)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.serviceChipText}>{t('nearby.access.change_coverage')}</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+
+      {/* Coverage picker, kept on the phone (coverageStore) */}
+      {isPickingCoverage && (
+        <View style={styles.cityPicker}>
+          <Text style={[styles.cityPickerTitle, isRTL && styles.textRTL]}>
+            {t('nearby.access.choose_coverage')}
+          </Text>
+          <View style={[styles.cityChips, isRTL && styles.rowRTL]}>
+            {COVERAGE_SCHEMES.map((coverage) => {
+              const isActive = scheme === coverage;
+              return (
+                <TouchableOpacity
+                  key={coverage}
+                  style={[styles.filterChip, isActive && styles.filterChipActive]}
+                  onPress={() => handleSelectCoverage(coverage)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                >
+                  <Text style={[styles.filterText, isActive && styles.filterTextActive]}>
+                    {getCoverageLabel(coverage)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
-        }
-      />
+        </View>
+      )}
+
+      {/* Results count + list/map switch */}
+      <View style={[styles.resultsRow, isRTL && styles.rowRTL]}>
+        <Text style={[styles.resultsCount, isRTL && styles.textRTL]}>
+          {t('screening.centers_count', { count: sortedCenters.length })}
+        </Text>
+        <TouchableOpacity
+          style={styles.viewModeButton}
+          onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+          accessibilityRole="button"
+        >
+          <Text style={styles.viewModeText}>
+            {viewMode === 'list' ? `🗺️ ${t('nearby.map.show')}` : `☰ ${t('nearby.map.showList')}`}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Centers map (offline) */}
+      {viewMode === 'map' ? (
+        <View style={styles.mapContent}>
+          <CentersMap
+            centers={sortedCenters}
+            userLocation={location}
+            selectedId={selectedCenterId}
+            onSelect={(center) => setSelectedCenterId(center?.id ?? null)}
+            isArabic={isArabicLang}
+            isRTL={isRTL}
+          />
+          {selectedIndex >= 0 &&
+            renderCenter({ item: sortedCenters[selectedIndex], index: selectedIndex })}
+        </View>
+      ) : (
+        /* Centers list */
+        <FlatList
+          data={sortedCenters}
+          renderItem={renderCenter}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          ListHeaderComponent={renderCaravanBanner}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyIcon}>🔍</Text>
+              <Text style={[styles.emptyText, isRTL && styles.textRTL]}>
+                {t('screening.no_results')}
+              </Text>
+            </View>
+          }
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -595,6 +942,54 @@ const styles = StyleSheet.create({
     color: colors.warning,
   },
 
+  changeCity: {
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    paddingHorizontal: spacing.sm,
+  },
+  changeCityText: {
+    fontSize: fontSizes.sm,
+    color: colors.primary,
+    fontWeight: fontWeights.semiBold,
+  },
+
+  // City picker
+  cityPicker: {
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cityPickerTitle: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    fontWeight: fontWeights.semiBold,
+  },
+  cityPickerHint: {
+    fontSize: fontSizes.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  cityChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  useMyPosition: {
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    marginTop: spacing.sm,
+  },
+  useMyPositionText: {
+    fontSize: fontSizes.sm,
+    color: colors.primary,
+    fontWeight: fontWeights.semiBold,
+  },
+
   // Filter section
   filterSection: {
     marginTop: spacing.md,
@@ -660,13 +1055,35 @@ const styles = StyleSheet.create({
   },
 
   // Results count
-  resultsCount: {
+  resultsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     paddingHorizontal: spacing.lg,
-    paddingTop: spacing.md,
-    paddingBottom: spacing.sm,
+    paddingTop: spacing.sm,
+  },
+  resultsCount: {
+    flex: 1,
     fontSize: fontSizes.sm,
     color: colors.textSecondary,
   },
+  viewModeButton: {
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    paddingHorizontal: spacing.sm,
+  },
+  viewModeText: {
+    fontSize: fontSizes.sm,
+    color: colors.primary,
+    fontWeight: fontWeights.semiBold,
+  },
+
+  // Map
+  mapContent: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+  },
 
   // List
   listContent: {
@@ -882,6 +1299,24 @@ const styles = StyleSheet.create({
     fontWeight: fontWeights.semiBold,
   },
 
+  // Opening hours, referral, price and coverage
+  accessInfo: {
+    gap: 2,
+    marginBottom: spacing.sm,
+  },
+  accessLine: {
+    fontSize: fontSizes.sm,
+    color: colors.textSecondary,
+  },
+  accessOpen: {
+    color: colors.success,
+    fontWeight: fontWeights.semiBold,
+  },
+  accessClosed: {
+    color: colors.error,
+    fontWeight: fontWeights.semiBold,
+  },
+
   // Services
   servicesRow: {
     flexDirection: 'row',
@@ -2,9 +2,11 @@
  * Auth Screen - Phone + OTP Authentication
  * Privacy-first: phone number used for auth only
  * Includes skip option for guest access
+ * Also opened from the profile so a guest can verify their number
+ * (upgrade mode: `onCancel` replaces the skip option)
  */
 
-import React, { useState, useRef } from 'react';
+import React, { useEffect, useState, useRef } from 'react';
 import {
   View,
   Text,
@@ -19,48 +21,100 @@ import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuthStore } from '../../../application/store/authStore';
 import { useLanguageStore } from '../../../application/store/languageStore';
+import {
+  getRemainingAttempts,
+  getRequestBlock,
+  getVerifyBlock,
+  OTP_LENGTH,
+} from '../../../domain/services/otpPolicy';
+import { maskPhoneNumber } from '../../../domain/services/phoneNumber';
 import { colors } from '../../theme/colors';
 import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
 import { fontSizes, fontWeights } from '../../theme/typography';
 
 interface Props {
   onAuthenticated: () => void;
+  /** Upgrade mode: leave without verifying */
+  onCancel?: () => void;
 }
 
-export const AuthScreen: React.FC<Props> = ({ onAuthenticated }) => {
+const MS_PER_MINUTE = 60 * 1000;
+
+export const AuthScreen: React.FC<Props> = ({ onAuthenticated, onCancel }) => {
   const { t } = useTranslation();
   const { isRTL } = useLanguageStore();
-  const { sendOTP, verifyOTP, skipAuth, otpSent, isLoading, otpVerifying } = useAuthStore();
+  const {
+    sendOTP,
+    resendOTP,
+    verifyOTP,
+    cancelOTP,
+    skipAuth,
+    otpSent,
+    otpRequesting,
+    otpVerifying,
+    pendingPhone,
+    otpAttempts,
+    authError,
+  } = useAuthStore();
 
   const [phone, setPhone] = useState('');
   const [otp, setOtp] = useState('');
-  const [error, setError] = useState('');
+  const [now, setNow] = useState(() => Date.now());
   const otpInputRef = useRef<TextInput>(null);
 
+  const requestBlock = getRequestBlock(otpAttempts, now);
+  const verifyBlock = getVerifyBlock(otpAttempts, now);
+  const isBlocked = requestBlock !== null || verifyBlock !== null;
+
+  // Tick while a cooldown or lockout is running
+  useEffect(() => {
+    if (!isBlocked) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isBlocked]);
+
+  const errorMessage = () => {
+    if (!authError) return '';
+    const until = verifyBlock?.until ?? requestBlock?.until ?? now;
+    return t(`auth.errors.${authError}`, {
+      count: getRemainingAttempts(otpAttempts),
+      minutes: Math.max(1, Math.ceil((until - now) / MS_PER_MINUTE)),
+    });
+  };
+
   const handleSendOTP = async () => {
-    setError('');
-    if (phone.length < 10) {
-      setError(t('auth.error_send'));
-      return;
-    }
+    setNow(Date.now());
     const success = await sendOTP(phone);
-    if (success) {
-      otpInputRef.current?.focus();
-    } else {
-      setError(t('auth.error_send'));
-    }
+    setNow(Date.now());
+    if (success) otpInputRef.current?.focus();
+  };
+
+  const handleResend = async () => {
+    setOtp('');
+    await resendOTP();
+    setNow(Date.now());
   };
 
   const handleVerifyOTP = async () => {
-    setError('');
     const success = await verifyOTP(otp);
+    setNow(Date.now());
     if (success) {
       onAuthenticated();
     } else {
-      setError(t('auth.error_invalid'));
+      setOtp('');
     }
   };
 
+  const handleChangeNumber = () => {
+    setOtp('');
+    cancelOTP();
+  };
+
+  const handleCancel = () => {
+    cancelOTP();
+    onCancel?.();
+  };
+
   const handleSkip = async () => {
     await skipAuth();
     onAuthenticated();
@@ -76,10 +130,14 @@ export const AuthScreen: React.FC<Props> = ({ onAuthenticated }) => {
         <View style={styles.header}>
           <Text style={styles.icon}>🔐</Text>
           <Text style={[styles.title, isRTL && styles.textRTL]}>
-            {otpSent ? t('auth.otp_title') : t('auth.phone_title')}
+            {otpSent
+              ? t('auth.otp_title')
+              : t(onCancel ? 'auth.upgrade_title' : 'auth.phone_title')}
           </Text>
           <Text style={[styles.subtitle, isRTL && styles.textRTL]}>
-            {otpSent ? t('auth.otp_subtitle') : t('auth.phone_subtitle')}
+            {otpSent && pendingPhone
+              ? t('auth.code_sent_to', { phone: maskPhoneNumber(pendingPhone) })
+              : t(onCancel ? 'auth.upgrade_subtitle' : 'auth.phone_subtitle')}
           </Text>
         </View>
 
@@ -99,11 +157,14 @@ export const AuthScreen: React.FC<Props> = ({ onAuthenticated }) => {
                 textAlign={isRTL ? 'right' : 'left'}
               />
               <TouchableOpacity
-                style={[styles.primaryButton, isLoading && styles.buttonDisabled]}
+                style={[
+                  styles.primaryButton,
+                  (otpRequesting || requestBlock) && styles.buttonDisabled,
+                ]}
                 onPress={handleSendOTP}
-                disabled={isLoading}
+                disabled={otpRequesting || requestBlock !== null}
               >
-                {isLoading ? (
+                {otpRequesting ? (
                   <ActivityIndicator color={colors.textOnPrimary} />
                 ) : (
                   <Text style={styles.primaryButtonText}>{t('auth.send_otp')}</Text>
@@ -120,14 +181,17 @@ export const AuthScreen: React.FC<Props> = ({ onAuthenticated }) => {
                 value={otp}
                 onChangeText={setOtp}
                 keyboardType="number-pad"
-                maxLength={6}
+                maxLength={OTP_LENGTH}
                 textAlign="center"
                 autoFocus
               />
               <TouchableOpacity
-                style={[styles.primaryButton, otpVerifying && styles.buttonDisabled]}
+                style={[
+                  styles.primaryButton,
+                  (otpVerifying || verifyBlock) && styles.buttonDisabled,
+                ]}
                 onPress={handleVerifyOTP}
-                disabled={otpVerifying}
+                disabled={otpVerifying || verifyBlock !== null}
               >
                 {otpVerifying ? (
                   <ActivityIndicator color={colors.textOnPrimary} />
@@ -137,23 +201,33 @@ export const AuthScreen: React.FC<Props> = ({ onAuthenticated }) => {
               </TouchableOpacity>
               <TouchableOpacity
                 style={styles.resendButton}
-                onPress={() => sendOTP(phone)}
+                onPress={handleResend}
+                disabled={otpRequesting || requestBlock !== null}
               >
-                <Text style={styles.resendText}>{t('auth.resend')}</Text>
+                <Text style={[styles.resendText, requestBlock && styles.resendTextDisabled]}>
+                  {requestBlock?.reason === 'cooldown'
+                    ? t('auth.resend_in', {
+                        seconds: Math.ceil((requestBlock.until - now) / 1000),
+                      })
+                    : t('auth.resend')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.resendButton} onPress={handleChangeNumber}>
+                <Text style={styles.changeNumberText}>{t('auth.change_number')}</Text>
               </TouchableOpacity>
             </>
           )}
 
           {/* Error */}
-          {error ? (
-            <Text style={[styles.error, isRTL && styles.textRTL]}>{error}</Text>
+          {authError ? (
+            <Text style={[styles.error, isRTL && styles.textRTL]}>{errorMessage()}</Text>
           ) : null}
         </View>
 
-        {/* Skip option */}
-        <TouchableOpacity style={styles.skipButton} onPress={handleSkip}>
+        {/* Skip option (or leave, when upgrading a guest account) */}
+        <TouchableOpacity style={styles.skipButton} onPress={onCancel ? handleCancel : handleSkip}>
           <Text style={[styles.skipText, isRTL && styles.textRTL]}>
-            {t('auth.skip')}
+            {onCancel ? t('common.cancel') : t('auth.skip')}
           </Text>
         </TouchableOpacity>
       </KeyboardAvoidingView>
@@ -245,6 +319,13 @@ const styles = StyleSheet.create({
     color: colors.accent,
     fontWeight: fontWeights.medium,
   },
+  resendTextDisabled: {
+    color: colors.textLight,
+  },
+  changeNumberText: {
+    fontSize: fontSizes.sm,
+    color: colors.textSecondary,
+  },
   error: {
     fontSize: fontSizes.sm,
     color: colors.error,
@@ -0,0 +1,357 @@
+/**
+ * Screening Pathway Screen
+ * The user's personal screening plan: which test, how often, when it is
+ * next due, what to bring and the nearest centers offering it. The plan
+ * is rebuilt from the stores every time (see screeningPathway).
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import { useProfileStore } from '../../../application/store/profileStore';
+import { useExamStore } from '../../../application/store/examStore';
+import { useSelfCheckStore } from '../../../application/store/selfCheckStore';
+import { useCentersStore } from '../../../application/store/centersStore';
+import { useLocationStore } from '../../../application/store/locationStore';
+import { AGE_GROUPS, buildScreeningPlan } from '../../../domain/services/screeningPathway';
+import {
+  getCentersByService,
+  getCentersSortedByDistance,
+} from '../../../infrastructure/data/screeningCenters';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+/** Centers listed under the plan; the rest are one tap away */
+const MAX_CENTERS = 3;
+
+interface Props {
+  onBack?: () => void;
+  onNavigateToNearby?: () => void;
+}
+
+export const ScreeningPathwayScreen: React.FC<Props> = ({ onBack, onNavigateToNearby }) => {
+  const { t } = useTranslation();
+  const { isRTL, currentLanguage } = useLanguageStore();
+  const { ageGroup, isLoaded, loadProfile, setAgeGroup } = useProfileStore();
+  const { examHistory, lastScreeningDate, isHistoryLoaded, loadHistory, setLastScreeningDate } =
+    useExamStore();
+  const {
+    history: selfCheckHistory,
+    isHistoryLoaded: isSelfCheckLoaded,
+    loadHistory: loadSelfCheckHistory,
+  } = useSelfCheckStore();
+  const { centers } = useCentersStore();
+  const { location } = useLocationStore();
+  const textDir = isRTL ? styles.textRTL : undefined;
+  const isArabicLang = currentLanguage === 'ar' || currentLanguage === 'darija';
+  // Plans are day-level: the time the screen opened is precise enough
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isLoaded) loadProfile();
+    if (!isHistoryLoaded) loadHistory();
+    if (!isSelfCheckLoaded) loadSelfCheckHistory();
+  }, [
+    isLoaded,
+    isHistoryLoaded,
+    isSelfCheckLoaded,
+    loadProfile,
+    loadHistory,
+    loadSelfCheckHistory,
+  ]);
+
+  const plan = useMemo(() => {
+    // Histories are newest first
+    const familyHistory = examHistory.find((r) => typeof r.answers.family_history === 'boolean')
+      ?.answers.family_history as boolean | undefined;
+    const latestRisk = [examHistory[0], selfCheckHistory[0]]
+      .filter((r) => r !== undefined)
+      .sort((a, b) => b.date - a.date)[0];
+
+    return buildScreeningPlan({
+      ageGroup,
+      familyHistory: familyHistory ?? null,
+      lastScreeningDate,
+      latestRisk: latestRisk ? { date: latestRisk.date, result: latestRisk.result } : null,
+      now,
+    });
+  }, [ageGroup, examHistory, selfCheckHistory, lastScreeningDate, now]);
+
+  const familyHistoryKnown = examHistory.some((r) => typeof r.answers.family_history === 'boolean');
+
+  // Centers offering the test, nearest first when the location is known
+  const planCenters = useMemo(() => {
+    if (!plan.service) return [];
+    const offering = getCentersByService(plan.service, centers);
+    if (!location) return offering.slice(0, MAX_CENTERS).map((c) => ({ ...c, distance: null }));
+    return getCentersSortedByDistance(location.latitude, location.longitude, offering).slice(
+      0,
+      MAX_CENTERS,
+    );
+  }, [plan.service, centers, location]);
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(isArabicLang ? 'ar-MA' : 'fr-FR', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+
+  const getFrequency = (months: number) =>
+    months === 12 ? t('pathway.every_year') : t('pathway.every_years', { count: months / 12 });
+
+  const getDueLabel = () => {
+    if (plan.dueAt === null) return null;
+    if (plan.isOverdue) return t('pathway.overdue_since', { date: formatDate(plan.dueAt) });
+    if (plan.dueAt <= now) return t('pathway.due_now');
+    return t('pathway.next_due', { date: formatDate(plan.dueAt) });
+  };
+
+  const getProgramLabel = () => {
+    if (plan.programEligible === null) return ageGroup ? t('pathway.program_until_69') : null;
+    return t(plan.programEligible ? 'pathway.program_eligible' : 'pathway.program_from_45');
+  };
+
+  const dueLabel = getDueLabel();
+  const programLabel = getProgramLabel();
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        {onBack && (
+          <TouchableOpacity
+            onPress={onBack}
+            style={styles.backButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.back')}
+          >
+            <Text style={styles.backArrow}>{isRTL ? '→' : '←'}</Text>
+          </TouchableOpacity>
+        )}
+        <Text style={[styles.title, textDir]}>{t('pathway.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.body, textDir]}>{t('pathway.description')}</Text>
+
+        {/* Age group */}
+        <Text style={[styles.sectionTitle, textDir]}>{t('pathway.age_group')}</Text>
+        <View style={[styles.chips, isRTL && styles.rowRTL]}>
+          {AGE_GROUPS.map((option) => {
+            const active = option === ageGroup;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => setAgeGroup(option)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: active }}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {t('pathway.age_years', { range: option })}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Plan */}
+        <View style={[styles.card, plan.isUrgent && styles.cardUrgent]}>
+          <Text style={[styles.planTitle, textDir]}>{t(`pathway.tracks.${plan.track}.title`)}</Text>
+          <Text style={[styles.body, textDir]}>{t(`pathway.tracks.${plan.track}.body`)}</Text>
+          {plan.isUrgent && <Text style={[styles.urgent, textDir]}>{t('pathway.urgent')}</Text>}
+
+          {plan.service && (
+            <View style={styles.planRows}>
+              <Text style={[styles.planRow, textDir]}>
+                🩺 {t('pathway.test', { test: t(`pathway.services.${plan.service}`) })}
+              </Text>
+              {plan.intervalMonths !== null && (
+                <Text style={[styles.planRow, textDir]}>
+                  🔁 {getFrequency(plan.intervalMonths)}
+                </Text>
+              )}
+              {dueLabel && (
+                <Text style={[styles.planRow, plan.isOverdue && styles.overdue, textDir]}>
+                  📅 {dueLabel}
+                </Text>
+              )}
+              {programLabel && <Text style={[styles.planRow, textDir]}>✨ {programLabel}</Text>}
+            </View>
+          )}
+
+          {plan.service && (
+            <TouchableOpacity
+              style={styles.doneButton}
+              onPress={() => setLastScreeningDate(Date.now())}
+              accessibilityRole="button"
+            >
+              <Text style={styles.doneButtonText}>{t('pathway.mark_done')}</Text>
+            </TouchableOpacity>
+          )}
+          {lastScreeningDate !== null && (
+            <Text style={[styles.note, textDir]}>
+              {t('pathway.last_screening', { date: formatDate(lastScreeningDate) })}
+            </Text>
+          )}
+        </View>
+
+        {!familyHistoryKnown && plan.track !== 'age_unknown' && (
+          <Text style={[styles.note, textDir]}>{t('pathway.family_history_unknown')}</Text>
+        )}
+
+        {/* Documents */}
+        {plan.documents.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, textDir]}>{t('pathway.bring')}</Text>
+            <View style={styles.card}>
+              {plan.documents.map((document) => (
+                <Text key={document} style={[styles.planRow, textDir]}>
+                  • {t(`pathway.documents.${document}`)}
+                </Text>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Where */}
+        {plan.service && (
+          <>
+            <Text style={[styles.sectionTitle, textDir]}>{t('pathway.where')}</Text>
+            {planCenters.length === 0 ? (
+              <Text style={[styles.body, textDir]}>{t('pathway.no_centers')}</Text>
+            ) : (
+              planCenters.map((center) => (
+                <View key={center.id} style={styles.centerCard}>
+                  <Text style={[styles.centerName, textDir]} numberOfLines={2}>
+                    {isArabicLang ? center.nameAr : center.name}
+                  </Text>
+                  <Text style={[styles.centerMeta, textDir]}>
+                    {isArabicLang ? center.cityAr : center.city}
+                    {center.distance !== null && ` · ${Math.round(center.distance)} km`}
+                    {center.hasFreeMammography && ` · ${t('screening.free_mammography')}`}
+                  </Text>
+                </View>
+              ))
+            )}
+            {onNavigateToNearby && (
+              <TouchableOpacity
+                style={styles.link}
+                onPress={onNavigateToNearby}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.linkText, textDir]}>{t('pathway.all_centers')}</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+
+        <Text style={[styles.note, textDir]}>{t('pathway.disclaimer')}</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backArrow: { fontSize: fontSizes.xxl, color: colors.text },
+  title: { flex: 1, fontSize: fontSizes.xxl, fontWeight: fontWeights.bold, color: colors.text },
+  content: { paddingHorizontal: spacing.lg, paddingTop: spacing.md, paddingBottom: spacing.xxl },
+  body: { fontSize: fontSizes.sm, color: colors.textSecondary, lineHeight: 20 },
+  sectionTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginTop: spacing.lg,
+  },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.xl,
+    borderWidth: 1.5,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    minHeight: 36,
+    justifyContent: 'center',
+  },
+  chipActive: { backgroundColor: colors.primary, borderColor: colors.primary },
+  chipText: { fontSize: fontSizes.sm, color: colors.text },
+  chipTextActive: { color: colors.textOnPrimary, fontWeight: fontWeights.semiBold },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginTop: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardUrgent: { borderColor: colors.error },
+  planTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  urgent: {
+    fontSize: fontSizes.sm,
+    color: colors.error,
+    fontWeight: fontWeights.semiBold,
+    marginTop: spacing.sm,
+  },
+  planRows: { gap: spacing.xs, marginTop: spacing.md },
+  planRow: { fontSize: fontSizes.sm, color: colors.text, lineHeight: 20 },
+  overdue: { color: colors.error, fontWeight: fontWeights.semiBold },
+  doneButton: {
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    marginTop: spacing.md,
+  },
+  doneButtonText: {
+    fontSize: fontSizes.sm,
+    color: colors.primary,
+    fontWeight: fontWeights.semiBold,
+  },
+  centerCard: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginTop: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  centerName: { fontSize: fontSizes.md, fontWeight: fontWeights.semiBold, color: colors.text },
+  centerMeta: { fontSize: fontSizes.sm, color: colors.textSecondary, marginTop: 2 },
+  link: { minHeight: MIN_TOUCH_TARGET, justifyContent: 'center', marginTop: spacing.xs },
+  linkText: { fontSize: fontSizes.sm, color: colors.primary, fontWeight: fontWeights.semiBold },
+  note: {
+    fontSize: fontSizes.xs,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: spacing.md,
+  },
+});
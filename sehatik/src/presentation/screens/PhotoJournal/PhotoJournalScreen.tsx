@@ -0,0 +1,487 @@
+/**
+ * Photo Journal Screen
+ * Opt-in, encrypted photos of visible changes, kept inside the app.
+ * Photos are only shown after the device owner unlocks the journal,
+ * and it locks again when the screen is left or the app goes to the
+ * background. Each photo can be compared with last month's.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Image,
+  Alert,
+  AppState,
+  ActivityIndicator,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../../../application/store/languageStore';
+import { usePhotoJournalStore } from '../../../application/store/photoJournalStore';
+import { useSelfCheckStore } from '../../../application/store/selfCheckStore';
+import {
+  findComparisonPhoto,
+  RETENTION_OPTIONS_MONTHS,
+  type JournalPhoto,
+  type PhotoSide,
+} from '../../../domain/services/photoJournal';
+import { capturePrivatePhoto } from '../../../infrastructure/media/privateCamera';
+import { colors } from '../../theme/colors';
+import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
+import { fontSizes, fontWeights } from '../../theme/typography';
+
+interface Props {
+  onBack?: () => void;
+}
+
+const SIDES: PhotoSide[] = ['right', 'left', 'both'];
+
+/** A photo taken this soon after a self-check is linked to it */
+const SELF_CHECK_LINK_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Decrypts one photo while it is on screen
+ */
+const JournalImage: React.FC<{ photoId: string }> = ({ photoId }) => {
+  const getPhotoData = usePhotoJournalStore((state) => state.getPhotoData);
+  const [loaded, setLoaded] = useState<{ id: string; data: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPhotoData(photoId).then((data) => {
+      if (!cancelled) setLoaded({ id: photoId, data });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [photoId, getPhotoData]);
+
+  if (loaded?.id !== photoId) {
+    return (
+      <View style={styles.imagePlaceholder}>
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+  if (!loaded.data) {
+    return (
+      <View style={styles.imagePlaceholder}>
+        <Text style={styles.placeholderIcon}>⚠️</Text>
+      </View>
+    );
+  }
+  return <Image source={{ uri: `data:image/jpeg;base64,${loaded.data}` }} style={styles.image} />;
+};
+
+export const PhotoJournalScreen: React.FC<Props> = ({ onBack }) => {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguageStore();
+  const {
+    enabled,
+    retentionMonths,
+    photos,
+    isLoaded,
+    isUnlocked,
+    loadJournal,
+    setEnabled,
+    setRetentionMonths,
+    addPhoto,
+    removePhoto,
+    unlock,
+    lock,
+  } = usePhotoJournalStore();
+  const { history: selfCheckHistory, loadHistory: loadSelfCheckHistory } = useSelfCheckStore();
+  const [side, setSide] = useState<PhotoSide>('both');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [noDeviceLock, setNoDeviceLock] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  /** The camera sends the app to the background; that should not lock */
+  const isCapturingRef = useRef(false);
+
+  useEffect(() => {
+    // Read once: a dependency on it would lock the journal when it loads
+    if (!usePhotoJournalStore.getState().isLoaded) loadJournal();
+    loadSelfCheckHistory();
+    // Lock when leaving the screen or the app
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active' && !isCapturingRef.current) lock();
+    });
+    return () => {
+      subscription.remove();
+      lock();
+    };
+  }, [loadJournal, loadSelfCheckHistory, lock]);
+
+  const textDir = isRTL ? styles.textRTL : undefined;
+  const locale = isRTL ? 'ar' : 'fr-FR';
+  const formatDay = (date: number) =>
+    new Date(date).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const handleUnlock = async () => {
+    const result = await unlock(t('photoJournal.unlockPrompt'), t('common.cancel'));
+    setNoDeviceLock(result === 'unavailable');
+  };
+
+  const handleTakePhoto = async () => {
+    isCapturingRef.current = true;
+    const capture = await capturePrivatePhoto().finally(() => {
+      isCapturingRef.current = false;
+    });
+    if (capture.status === 'denied') {
+      Alert.alert(t('photoJournal.title'), t('photoJournal.cameraDenied'));
+      return;
+    }
+    if (capture.status !== 'captured') return;
+
+    const lastCheck = selfCheckHistory[0];
+    const linkedCheckId =
+      lastCheck && Date.now() - lastCheck.date < SELF_CHECK_LINK_WINDOW_MS
+        ? lastCheck.id
+        : undefined;
+
+    setIsSaving(true);
+    const saved = await addPhoto(capture.base64, side, linkedCheckId);
+    setIsSaving(false);
+    if (!saved) Alert.alert(t('common.error'), t('photoJournal.saveError'));
+  };
+
+  const confirmDelete = (photo: JournalPhoto) =>
+    Alert.alert(t('photoJournal.deleteTitle'), t('photoJournal.deleteConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('photoJournal.delete'),
+        style: 'destructive',
+        onPress: () => {
+          setSelectedId(null);
+          removePhoto(photo.id);
+        },
+      },
+    ]);
+
+  const confirmDisable = () =>
+    Alert.alert(t('photoJournal.disableTitle'), t('photoJournal.disableConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('photoJournal.disable'), style: 'destructive', onPress: () => setEnabled(false) },
+    ]);
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  // ── Opt-in ──
+  const renderIntro = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <Text style={[styles.cardTitle, textDir]}>{t('photoJournal.introTitle')}</Text>
+        <Text style={[styles.body, textDir]}>{t('photoJournal.intro')}</Text>
+        {(['device', 'gallery', 'lock', 'retention'] as const).map((point) => (
+          <Text key={point} style={[styles.bullet, textDir]}>
+            • {t(`photoJournal.privacyPoints.${point}`)}
+          </Text>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={styles.primaryButton}
+        onPress={() => setEnabled(true)}
+        accessibilityRole="button"
+      >
+        <Text style={styles.primaryButtonText}>{t('photoJournal.enable')}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  // ── Locked ──
+  const renderLocked = () => (
+    <View style={styles.locked}>
+      <Text style={styles.lockIcon}>🔒</Text>
+      <Text style={[styles.cardTitle, styles.centered]}>{t('photoJournal.lockedTitle')}</Text>
+      <Text style={[styles.body, styles.centered]}>
+        {t(noDeviceLock ? 'photoJournal.noDeviceLock' : 'photoJournal.lockedText')}
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButton, styles.unlockButton]}
+        onPress={handleUnlock}
+        accessibilityRole="button"
+      >
+        <Text style={styles.primaryButtonText}>{t('photoJournal.unlock')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // ── Comparison ──
+  const renderComparison = (photo: JournalPhoto) => {
+    const previous = findComparisonPhoto(photos, photo);
+    return (
+      <View style={styles.card}>
+        <Text style={[styles.cardTitle, textDir]}>{t('photoJournal.compareTitle')}</Text>
+        <View style={[styles.compareRow, isRTL && styles.rowRTL]}>
+          <View style={styles.compareItem}>
+            {previous ? (
+              <JournalImage photoId={previous.id} />
+            ) : (
+              <View style={styles.imagePlaceholder}>
+                <Text style={[styles.meta, styles.centered]}>{t('photoJournal.noComparison')}</Text>
+              </View>
+            )}
+            <Text style={[styles.meta, styles.centered]}>
+              {previous ? formatDay(previous.takenAt) : t('photoJournal.previous')}
+            </Text>
+          </View>
+          <View style={styles.compareItem}>
+            <JournalImage photoId={photo.id} />
+            <Text style={[styles.meta, styles.centered]}>{formatDay(photo.takenAt)}</Text>
+          </View>
+        </View>
+        <View style={[styles.actionsRow, isRTL && styles.rowRTL]}>
+          <TouchableOpacity onPress={() => setSelectedId(null)} style={styles.linkButton}>
+            <Text style={styles.linkText}>{t('common.close')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => confirmDelete(photo)} style={styles.linkButton}>
+            <Text style={[styles.linkText, styles.dangerText]}>{t('photoJournal.delete')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  // ── Journal ──
+  const renderJournal = () => {
+    const selected = photos.find((p) => p.id === selectedId);
+    return (
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {selected && renderComparison(selected)}
+
+        <View style={styles.card}>
+          <Text style={[styles.sectionTitle, textDir]}>{t('photoJournal.sideTitle')}</Text>
+          <View style={[styles.chips, isRTL && styles.rowRTL]}>
+            {SIDES.map((s) =>
+              renderChip(s, t(`photoJournal.sides.${s}`), side === s, () => setSide(s)),
+            )}
+          </View>
+          <TouchableOpacity
+            style={[styles.primaryButton, isSaving && styles.primaryButtonDisabled]}
+            onPress={handleTakePhoto}
+            disabled={isSaving}
+            accessibilityRole="button"
+          >
+            {isSaving ? (
+              <ActivityIndicator color={colors.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>{t('photoJournal.takePhoto')}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <Text style={[styles.sectionTitle, textDir]}>{t('photoJournal.photosTitle')}</Text>
+        {photos.length === 0 ? (
+          <Text style={[styles.meta, textDir]}>{t('photoJournal.empty')}</Text>
+        ) : (
+          photos.map((photo) => (
+            <TouchableOpacity
+              key={photo.id}
+              style={[
+                styles.photoRow,
+                isRTL && styles.rowRTL,
+                photo.id === selectedId && styles.photoRowSelected,
+              ]}
+              onPress={() => setSelectedId(photo.id)}
+              accessibilityRole="button"
+            >
+              <View style={styles.photoRowText}>
+                <Text style={[styles.photoDate, textDir]}>{formatDay(photo.takenAt)}</Text>
+                <Text style={[styles.meta, textDir]}>
+                  {t(`photoJournal.sides.${photo.side}`)}
+                  {photo.selfCheckId ? ` · ${t('photoJournal.linkedToCheck')}` : ''}
+                </Text>
+              </View>
+              <Text style={styles.chevron}>{isRTL ? '‹' : '›'}</Text>
+            </TouchableOpacity>
+          ))
+        )}
+
+        <Text style={[styles.sectionTitle, textDir]}>{t('photoJournal.retentionTitle')}</Text>
+        <View style={[styles.chips, isRTL && styles.rowRTL]}>
+          {RETENTION_OPTIONS_MONTHS.map((months) =>
+            renderChip(
+              String(months),
+              t('photoJournal.retentionOption', { count: months }),
+              retentionMonths === months,
+              () => setRetentionMonths(months),
+            ),
+          )}
+        </View>
+        <Text style={[styles.meta, textDir]}>{t('photoJournal.retentionNote')}</Text>
+
+        <TouchableOpacity
+          style={styles.disableButton}
+          onPress={confirmDisable}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.linkText, styles.dangerText]}>{t('photoJournal.disable')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, isRTL && styles.rowRTL]}>
+        {onBack && (
+          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+            <Text style={styles.backArrow}>{isRTL ? '→' : '←'}</Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.headerText}>
+          <Text style={[styles.title, textDir]}>{t('photoJournal.title')}</Text>
+          <Text style={[styles.subtitle, textDir]}>{t('photoJournal.subtitle')}</Text>
+        </View>
+      </View>
+
+      {!isLoaded ? (
+        <ActivityIndicator style={styles.loader} color={colors.primary} />
+      ) : !enabled ? (
+        renderIntro()
+      ) : !isUnlocked ? (
+        renderLocked()
+      ) : (
+        renderJournal()
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  textRTL: { textAlign: 'right', writingDirection: 'rtl' },
+  rowRTL: { flexDirection: 'row-reverse' },
+  centered: { textAlign: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backArrow: { fontSize: fontSizes.xxl, color: colors.text },
+  headerText: { flex: 1 },
+  title: { fontSize: fontSizes.xxl, fontWeight: fontWeights.bold, color: colors.text },
+  subtitle: { fontSize: fontSizes.sm, color: colors.textSecondary, marginTop: 2 },
+  loader: { marginTop: spacing.xxl },
+  content: { paddingHorizontal: spacing.lg, paddingTop: spacing.md, paddingBottom: spacing.xxl },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  body: { fontSize: fontSizes.sm, color: colors.textSecondary, lineHeight: 20 },
+  bullet: { fontSize: fontSizes.sm, color: colors.text, lineHeight: 20, marginTop: spacing.sm },
+  meta: { fontSize: fontSizes.xs, color: colors.textSecondary, marginTop: 4 },
+  sectionTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: fontWeights.bold,
+    color: colors.text,
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  primaryButtonDisabled: { opacity: 0.5 },
+  primaryButtonText: {
+    fontSize: fontSizes.md,
+    color: colors.textOnPrimary,
+    fontWeight: fontWeights.bold,
+  },
+  locked: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: spacing.xl },
+  lockIcon: { fontSize: 48, marginBottom: spacing.md },
+  unlockButton: { alignSelf: 'stretch' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.xl,
+    borderWidth: 1.5,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    minHeight: 36,
+    justifyContent: 'center',
+  },
+  chipActive: { backgroundColor: colors.primary, borderColor: colors.primary },
+  chipText: { fontSize: fontSizes.sm, color: colors.text },
+  chipTextActive: { color: colors.textOnPrimary, fontWeight: fontWeights.semiBold },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    minHeight: MIN_TOUCH_TARGET,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  photoRowSelected: { borderColor: colors.primary },
+  photoRowText: { flex: 1 },
+  photoDate: { fontSize: fontSizes.md, fontWeight: fontWeights.semiBold, color: colors.text },
+  chevron: { fontSize: fontSizes.xl, color: colors.textSecondary },
+  compareRow: { flexDirection: 'row', gap: spacing.sm },
+  compareItem: { flex: 1 },
+  image: { width: '100%', aspectRatio: 3 / 4, borderRadius: borderRadius.md },
+  imagePlaceholder: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.surfaceElevated,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.sm,
+  },
+  placeholderIcon: { fontSize: fontSizes.xl },
+  actionsRow: { flexDirection: 'row', justifyContent: 'space-between', marginTop: spacing.sm },
+  linkButton: { minHeight: MIN_TOUCH_TARGET, justifyContent: 'center' },
+  linkText: { fontSize: fontSizes.sm, fontWeight: fontWeights.semiBold, color: colors.primary },
+  dangerText: { color: colors.error },
+  disableButton: {
+    marginTop: spacing.xl,
+    minHeight: MIN_TOUCH_TARGET,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
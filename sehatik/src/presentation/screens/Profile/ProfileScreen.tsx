@@ -8,10 +8,17 @@ import { View, Text, TouchableOpacity, StyleSheet, Switch, Alert } from 'react-n
 import { useTranslation } from 'react-i18next';
 import { ScreenContainer } from '../../components/common/ScreenContainer';
 import { LanguageSelector } from '../../components/common/LanguageSelector';
+import { CycleLogSheet } from '../../components/common/CycleLogSheet';
 import { useLanguageStore } from '../../../application/store/languageStore';
 import { useAuthStore } from '../../../application/store/authStore';
 import { useReminderStore } from '../../../application/store/reminderStore';
+import { useCycleStore } from '../../../application/store/cycleStore';
 import { useChatStore } from '../../../application/store/chatStore';
+import { usePhotoJournalStore } from '../../../application/store/photoJournalStore';
+import { useImagingStore } from '../../../application/store/imagingStore';
+import { useAppLockStore } from '../../../application/store/appLockStore';
+import { useDiscreetModeStore } from '../../../application/store/discreetModeStore';
+import { useBackupStore } from '../../../application/store/backupStore';
 import { SUPPORTED_LANGUAGES } from '../../../infrastructure/i18n';
 import { clearAllData } from '../../../infrastructure/storage/secureStorage';
 import { colors } from '../../theme/colors';
@@ -20,18 +27,44 @@ import { fontSizes, fontWeights } from '../../theme/typography';
 
 interface Props {
   onNavigateToCenters?: () => void;
+  onNavigateToHistory?: () => void;
+  onNavigateToPhotoJournal?: () => void;
+  onNavigateToImagingDocuments?: () => void;
+  onNavigateToVerifyPhone?: () => void;
+  onNavigateToAppLock?: () => void;
+  onNavigateToDiscreetMode?: () => void;
+  onNavigateToBackup?: () => void;
+  onNavigateToPathway?: () => void;
 }
 
-export const ProfileScreen: React.FC<Props> = ({ onNavigateToCenters }) => {
+export const ProfileScreen: React.FC<Props> = ({
+  onNavigateToCenters,
+  onNavigateToHistory,
+  onNavigateToPhotoJournal,
+  onNavigateToImagingDocuments,
+  onNavigateToVerifyPhone,
+  onNavigateToAppLock,
+  onNavigateToDiscreetMode,
+  onNavigateToBackup,
+  onNavigateToPathway,
+}) => {
   const { t } = useTranslation();
   const { currentLanguage, isRTL } = useLanguageStore();
-  const { logout, phoneNumber } = useAuthStore();
+  const { logout, phoneNumber, isGuest, sessionExpired } = useAuthStore();
   const { reminders, toggleReminder, loadReminders } = useReminderStore();
   const { clearChat } = useChatStore();
+  const { setEnabled: setPhotoJournalEnabled } = usePhotoJournalStore();
+  const { removeAllDocuments: removeImagingDocuments } = useImagingStore();
+  const { isEnabled: appLockEnabled, disableLock } = useAppLockStore();
+  const { isEnabled: discreetEnabled, setEnabled: setDiscreetEnabled } = useDiscreetModeStore();
+  const { isEnabled: backupEnabled, deleteBackup } = useBackupStore();
+  const { mode: cycleMode, loadCycleLog } = useCycleStore();
   const [showLanguageSelector, setShowLanguageSelector] = useState(false);
+  const [showCycleLog, setShowCycleLog] = useState(false);
 
   useEffect(() => {
     loadReminders();
+    loadCycleLog();
   }, []);
 
   const currentLangLabel = SUPPORTED_LANGUAGES.find((l) => l.code === currentLanguage)?.label ?? 'Français';
@@ -48,8 +81,22 @@ export const ProfileScreen: React.FC<Props> = ({ onNavigateToCenters }) => {
           text: t('common.confirm'),
           style: 'destructive',
           onPress: async () => {
+            // First, while the session can still reach the server. Stop if
+            // it fails: the backup would stay on the server, out of reach.
+            if (!isGuest && !(await deleteBackup())) {
+              const error = useBackupStore.getState().error;
+              // No backup service in this build: there is nothing to delete
+              if (error !== 'unavailable') {
+                Alert.alert(t('profile.deleteAccount'), t(`backup.errors.${error ?? 'server'}`));
+                return;
+              }
+            }
             await clearAllData();
             await clearChat();
+            await setPhotoJournalEnabled(false);
+            await removeImagingDocuments();
+            await disableLock();
+            await setDiscreetEnabled(false);
             await logout();
           },
         },
@@ -115,6 +162,24 @@ export const ProfileScreen: React.FC<Props> = ({ onNavigateToCenters }) => {
           {renderSettingsRow('🔒', 'profile.privacy', (
             <Text style={styles.rowArrow}>{isRTL ? '‹' : '›'}</Text>
           ))}
+          <View style={styles.divider} />
+          {renderSettingsRow('🔑', 'profile.appLock', (
+            <Text style={styles.rowValue}>
+              {t(appLockEnabled ? 'common.on' : 'common.off')}
+            </Text>
+          ), onNavigateToAppLock)}
+          <View style={styles.divider} />
+          {renderSettingsRow('🕶️', 'profile.discreetMode', (
+            <Text style={styles.rowValue}>
+              {t(discreetEnabled ? 'common.on' : 'common.off')}
+            </Text>
+          ), onNavigateToDiscreetMode)}
+          <View style={styles.divider} />
+          {renderSettingsRow('☁️', 'profile.backup', (
+            <Text style={styles.rowValue}>
+              {t(backupEnabled ? 'common.on' : 'common.off')}
+            </Text>
+          ), onNavigateToBackup)}
         </View>
       </View>
 
@@ -131,6 +196,12 @@ export const ProfileScreen: React.FC<Props> = ({ onNavigateToCenters }) => {
             />
           ))}
           <View style={styles.divider} />
+          {renderSettingsRow('🗓️', 'cycle.title', (
+            <Text style={styles.rowValue}>
+              {t(cycleMode === 'cycle' ? 'cycle.modeCycle' : 'cycle.modeFixed')}
+            </Text>
+          ), () => setShowCycleLog(true))}
+          <View style={styles.divider} />
           {renderSettingsRow('🏥', 'notifications.yearly_screening', (
             <Switch
               value={yearlyReminder?.enabled ?? true}
@@ -145,6 +216,22 @@ export const ProfileScreen: React.FC<Props> = ({ onNavigateToCenters }) => {
       {/* Resources */}
       <View style={styles.settingsGroup}>
         <View style={styles.card}>
+          {renderSettingsRow('📈', 'profile.history', (
+            <Text style={styles.rowArrow}>{isRTL ? '‹' : '›'}</Text>
+          ), onNavigateToHistory)}
+          <View style={styles.divider} />
+          {renderSettingsRow('📷', 'profile.photoJournal', (
+            <Text style={styles.rowArrow}>{isRTL ? '‹' : '›'}</Text>
+          ), onNavigateToPhotoJournal)}
+          <View style={styles.divider} />
+          {renderSettingsRow('🩻', 'profile.imagingDocuments', (
+            <Text style={styles.rowArrow}>{isRTL ? '‹' : '›'}</Text>
+          ), onNavigateToImagingDocuments)}
+          <View style={styles.divider} />
+          {renderSettingsRow('🧭', 'profile.screeningPathway', (
+            <Text style={styles.rowArrow}>{isRTL ? '‹' : '›'}</Text>
+          ), onNavigateToPathway)}
+          <View style={styles.divider} />
           {renderSettingsRow('🏥', 'profile.screeningCenters', (
             <Text style={styles.rowArrow}>{isRTL ? '‹' : '›'}</Text>
           ), onNavigateToCenters)}
@@ -162,6 +249,14 @@ export const ProfileScreen: React.FC<Props> = ({ onNavigateToCenters }) => {
       {/* Account actions */}
       <View style={styles.settingsGroup}>
         <View style={styles.card}>
+          {(isGuest || sessionExpired) && (
+            <>
+              {renderSettingsRow('🔐', 'profile.verifyPhone', (
+                <Text style={styles.rowArrow}>{isRTL ? '‹' : '›'}</Text>
+              ), onNavigateToVerifyPhone)}
+              <View style={styles.divider} />
+            </>
+          )}
           {renderSettingsRow('🚪', 'profile.logout', null, handleLogout)}
           <View style={styles.divider} />
           {renderSettingsRow('🗑️', 'profile.deleteAccount', null, handleDeleteAccount, true)}
@@ -172,6 +267,7 @@ export const ProfileScreen: React.FC<Props> = ({ onNavigateToCenters }) => {
       <Text style={styles.version}>{t('profile.version', { version: '1.0.0' })}</Text>
 
       <LanguageSelector visible={showLanguageSelector} onClose={() => setShowLanguageSelector(false)} />
+      <CycleLogSheet visible={showCycleLog} onClose={() => setShowCycleLog(false)} isRTL={isRTL} />
     </ScreenContainer>
   );
 };
@@ -1,7 +1,7 @@
 /**
  * Screening Centers Screen
  * Directory of breast cancer screening centers across Morocco
- * Search, filter, and contact functionality
+ * Search, filter, and contact functionality, as a list or an offline map
  */
 
 import React, { useState, useMemo } from 'react';
@@ -17,15 +17,19 @@ import {
 import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLanguageStore } from '../../../application/store/languageStore';
-import { SCREENING_CENTERS } from '../../../infrastructure/data/screeningCenters';
+import { useLocationStore } from '../../../application/store/locationStore';
+import { useCentersStore } from '../../../application/store/centersStore';
+import { isDiffEmpty } from '../../../domain/services/centersPack';
 import type { ScreeningCenter } from '../../../domain/models/types';
 import { colors } from '../../theme/colors';
 import { spacing, borderRadius, MIN_TOUCH_TARGET } from '../../theme/spacing';
 import { fontSizes, fontWeights } from '../../theme/typography';
+import { CentersMap } from '../../components/map/CentersMap';
 
 import type { CenterType } from '../../../domain/models/types';
 
 type FilterType = 'all' | CenterType;
+type ViewMode = 'list' | 'map';
 
 interface Props {
   onBack?: () => void;
@@ -36,11 +40,16 @@ export const ScreeningCentersScreen: React.FC<Props> = ({ onBack }) => {
   const { isRTL, currentLanguage } = useLanguageStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [filter, setFilter] = useState<FilterType>('all');
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [selectedCenterId, setSelectedCenterId] = useState<string | null>(null);
+  // Shown on the map when already known; this directory never asks for it
+  const { location } = useLocationStore();
+  const { centers: allCenters, publishedAt, diff } = useCentersStore();
 
   const isArabicLang = currentLanguage === 'ar' || currentLanguage === 'darija';
 
   const filteredCenters = useMemo(() => {
-    let centers = SCREENING_CENTERS;
+    let centers = allCenters;
 
     if (filter !== 'all') {
       centers = centers.filter((c) => c.type === filter);
@@ -58,7 +67,9 @@ export const ScreeningCentersScreen: React.FC<Props> = ({ onBack }) => {
     }
 
     return centers;
-  }, [searchQuery, filter]);
+  }, [allCenters, searchQuery, filter]);
+
+  const selectedCenter = filteredCenters.find((c) => c.id === selectedCenterId);
 
   const handleCall = (phone: string) => {
     Linking.openURL(`tel:${phone.replace(/\s/g, '')}`);
@@ -210,25 +221,69 @@ export const ScreeningCentersScreen: React.FC<Props> = ({ onBack }) => {
         ))}
       </View>
 
-      {/* Results count */}
-      <Text style={[styles.resultsCount, isRTL && styles.textRTL]}>
-        {t('screening.centers_count', { count: filteredCenters.length })}
+      {/* Directory version */}
+      <Text style={[styles.directoryInfo, isRTL && styles.textRTL]}>
+        {t('screening.directory_date', {
+          date: new Date(publishedAt).toLocaleDateString(isRTL ? 'ar' : 'fr-FR', {
+            day: 'numeric',
+            month: 'long',
+            year: 'numeric',
+          }),
+        })}
+        {diff && !isDiffEmpty(diff)
+          ? ` · ${t('screening.directory_changes', {
+              added: diff.added.length,
+              changed: diff.changed.length,
+              removed: diff.removed.length,
+            })}`
+          : ''}
       </Text>
 
-      {/* Centers list */}
-      <FlatList
-        data={filteredCenters}
-        renderItem={renderCenter}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={styles.listContent}
-        showsVerticalScrollIndicator={false}
-        ListEmptyComponent={
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyIcon}>🏥</Text>
-            <Text style={[styles.emptyText, isRTL && styles.textRTL]}>{t('screening.no_results')}</Text>
-          </View>
-        }
-      />
+      {/* Results count + list/map switch */}
+      <View style={[styles.resultsRow, isRTL && styles.rowRTL]}>
+        <Text style={[styles.resultsCount, isRTL && styles.textRTL]}>
+          {t('screening.centers_count', { count: filteredCenters.length })}
+        </Text>
+        <TouchableOpacity
+          style={styles.viewModeButton}
+          onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+          accessibilityRole="button"
+        >
+          <Text style={styles.viewModeText}>
+            {viewMode === 'list' ? `🗺️ ${t('nearby.map.show')}` : `☰ ${t('nearby.map.showList')}`}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {viewMode === 'map' ? (
+        /* Centers map (offline) */
+        <View style={styles.mapContent}>
+          <CentersMap
+            centers={filteredCenters}
+            userLocation={location}
+            selectedId={selectedCenterId}
+            onSelect={(center) => setSelectedCenterId(center?.id ?? null)}
+            isArabic={isArabicLang}
+            isRTL={isRTL}
+          />
+          {selectedCenter && renderCenter({ item: selectedCenter })}
+        </View>
+      ) : (
+        /* Centers list */
+        <FlatList
+          data={filteredCenters}
+          renderItem={renderCenter}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyIcon}>🏥</Text>
+              <Text style={[styles.emptyText, isRTL && styles.textRTL]}>{t('screening.no_results')}</Text>
+            </View>
+          }
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -266,10 +321,20 @@ const styles = StyleSheet.create({
   filterChipActive: { backgroundColor: colors.primary, borderColor: colors.primary },
   filterText: { fontSize: fontSizes.sm, color: colors.textSecondary, fontWeight: fontWeights.medium },
   filterTextActive: { color: colors.textOnPrimary, fontWeight: fontWeights.bold },
-  resultsCount: {
-    paddingHorizontal: spacing.lg, paddingTop: spacing.md, paddingBottom: spacing.sm,
-    fontSize: fontSizes.sm, color: colors.textSecondary,
+  directoryInfo: {
+    paddingHorizontal: spacing.lg, paddingTop: spacing.sm,
+    fontSize: fontSizes.xs, color: colors.textSecondary,
+  },
+  resultsRow: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg, paddingTop: spacing.sm,
+  },
+  resultsCount: { flex: 1, fontSize: fontSizes.sm, color: colors.textSecondary },
+  viewModeButton: {
+    minHeight: MIN_TOUCH_TARGET, justifyContent: 'center', paddingHorizontal: spacing.sm,
   },
+  viewModeText: { fontSize: fontSizes.sm, color: colors.primary, fontWeight: fontWeights.semiBold },
+  mapContent: { flex: 1, paddingHorizontal: spacing.lg, paddingBottom: spacing.md },
   listContent: { paddingHorizontal: spacing.lg, paddingBottom: spacing.xxl },
   centerCard: {
     backgroundColor: colors.surface, borderRadius: borderRadius.lg, padding: spacing.md,
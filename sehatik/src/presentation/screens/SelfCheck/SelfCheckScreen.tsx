@@ -20,6 +20,7 @@ import {
   Animated,
   Platform,
   Image,
+  Alert,
   useWindowDimensions,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
@@ -27,9 +28,14 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { MedicalDisclaimer } from '../../components/common/MedicalDisclaimer';
+import { StorageIssueNotice } from '../../components/common/StorageIssueNotice';
+import { ResumeSessionCard } from '../../components/selfCheck/ResumeSessionCard';
 import { StepChat } from '../../components/selfCheck/StepChat';
 import { useLanguageStore } from '../../../application/store/languageStore';
 import { useSelfCheckStore } from '../../../application/store/selfCheckStore';
+import { usePhotoJournalStore } from '../../../application/store/photoJournalStore';
+import type { PhotoSide } from '../../../domain/services/photoJournal';
+import { capturePrivatePhoto } from '../../../infrastructure/media/privateCamera';
 import { SELF_CHECK_STEPS } from '../../../infrastructure/data/selfCheckSteps';
 import {
   getAllQuestionNodes,
@@ -306,11 +312,13 @@ export const SelfCheckScreen: React.FC = () => {
   const { t } = useTranslation();
   const { isRTL } = useLanguageStore();
   const store = useSelfCheckStore();
+  const { enabled: photoJournalEnabled, addPhoto } = usePhotoJournalStore();
   const { width: screenWidth } = useWindowDimensions();
   const isWide = screenWidth > 400;
 
   useEffect(() => {
     store.loadHistory();
+    store.loadSession();
   }, []);
 
   const {
@@ -321,8 +329,35 @@ export const SelfCheckScreen: React.FC = () => {
     result,
     lastCheckDate,
     lastResult,
+    storageIssue,
+    pendingSession,
   } = store;
 
+  /** Photo linked to the check just completed (first in history) */
+  const handleAddJournalPhoto = () => {
+    const takePhoto = async (side: PhotoSide) => {
+      const capture = await capturePrivatePhoto();
+      if (capture.status === 'denied') {
+        Alert.alert(t('photoJournal.title'), t('photoJournal.cameraDenied'));
+        return;
+      }
+      if (capture.status !== 'captured') return;
+      const saved = await addPhoto(capture.base64, side, store.history[0]?.id);
+      Alert.alert(
+        t('photoJournal.title'),
+        t(saved ? 'photoJournal.saved' : 'photoJournal.saveError'),
+      );
+    };
+
+    Alert.alert(t('photoJournal.addFromCheck'), t('photoJournal.sideTitle'), [
+      ...(['right', 'left', 'both'] as const).map((side) => ({
+        text: t(`photoJournal.sides.${side}`),
+        onPress: () => takePhoto(side),
+      })),
+      { text: t('common.cancel'), style: 'cancel' as const },
+    ]);
+  };
+
   // ──────────────────────────────────────────────────────
   // 1. LANDING PAGE
   // ──────────────────────────────────────────────────────
@@ -391,6 +426,25 @@ export const SelfCheckScreen: React.FC = () => {
 
             {/* ─── Content area ─── */}
             <View style={[s.landingContent, isWide && s.landingContentWide]}>
+              {storageIssue && (
+                <StorageIssueNotice
+                  issue={storageIssue}
+                  onDismiss={store.acknowledgeStorageIssue}
+                  isRTL={isRTL}
+                />
+              )}
+
+              {pendingSession && (
+                <ResumeSessionCard
+                  stepIndex={pendingSession.currentStepIndex}
+                  totalSteps={store.getTotalSteps()}
+                  updatedAt={pendingSession.updatedAt}
+                  onResume={store.resumeSession}
+                  onDiscard={store.discardSession}
+                  isRTL={isRTL}
+                />
+              )}
+
               {/* Last Check Card */}
               {lastCheckDate && (
                 <FadeIn delay={80}>
@@ -694,11 +748,7 @@ export const SelfCheckScreen: React.FC = () => {
                 <Text style={[s.sectionTitle, isRTL && s.textRTL]}>
                   {t('selfCheck.result.nextSteps')}
                 </Text>
-                {[
-                  'selfCheck.result.steps.monthlyExam',
-                  'selfCheck.result.steps.consultDoctor',
-                  'selfCheck.result.steps.noteChanges',
-                ].map((key, idx) => (
+                {result.nextStepsKeys.map((key, idx) => (
                   <View
                     key={key}
                     style={[s.nextStepItem, isRTL && s.rowReverse]}
@@ -717,6 +767,16 @@ export const SelfCheckScreen: React.FC = () => {
               </View>
             </FadeIn>
 
+            {/* Private photo journal (opt-in, see PhotoJournalScreen) */}
+            {photoJournalEnabled && (
+              <FadeIn delay={280}>
+                <AnimPress onPress={handleAddJournalPhoto} style={s.journalButton}>
+                  <Ionicons name="camera-outline" size={20} color="#E8467A" />
+                  <Text style={s.journalButtonText}>{t('photoJournal.addFromCheck')}</Text>
+                </AnimPress>
+              </FadeIn>
+            )}
+
             <FadeIn delay={320}>
               <MedicalDisclaimer />
             </FadeIn>
@@ -815,6 +875,7 @@ export const SelfCheckScreen: React.FC = () => {
             stepId={step.id}
             accentColor={step.accentColor}
             stepIcon={step.icon}
+            initialAnswers={store.resumeStepAnswers ?? undefined}
             onComplete={(answers) => store.completeStepChat(answers)}
             onBack={() => store.backToInstructions()}
           />
@@ -840,11 +901,7 @@ export const SelfCheckScreen: React.FC = () => {
     if (currentInstructionIndex > 0) {
       store.previousInstruction();
     } else if (currentStepIndex > 0) {
-      useSelfCheckStore.setState({
-        currentStepIndex: currentStepIndex - 1,
-        phase: 'chat',
-        currentInstructionIndex: 0,
-      });
+      store.previousStep();
     }
   };
 
@@ -1602,6 +1659,23 @@ const s = StyleSheet.create({
     fontWeight: '800',
     fontSize: 13,
   },
+  journalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    minHeight: MIN_TOUCH_TARGET,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: '#E8467A40',
+    backgroundColor: '#FFFFFF',
+    marginBottom: spacing.lg,
+  },
+  journalButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#E8467A',
+  },
   nextStepText: {
     flex: 1,
     fontSize: 14,
@@ -5,7 +5,6 @@
 
 export { ModernWelcomeScreen } from './ModernWelcomeScreen';
 export { ModernSelfCheckScreen } from './ModernSelfCheckScreen';
-export { ModernDiagnosisScreen } from './ModernDiagnosisScreen';
 export { ModernProfileScreen } from './ModernProfileScreen';
 export { ModernNotificationScreen } from './ModernNotificationScreen';
 export { ModernOnboardingScreen } from './ModernOnboardingScreen';
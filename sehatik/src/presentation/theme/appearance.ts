@@ -0,0 +1,40 @@
+/**
+ * Sehatik Appearance
+ * Visual choices that change with discreet mode: awareness art (the
+ * pink-ribbon animations), the pink hero colors and audio playback.
+ */
+
+import { useDiscreetModeStore } from '../../application/store/discreetModeStore';
+
+export interface Appearance {
+  isDiscreet: boolean;
+  /** Pink-ribbon / awareness animations */
+  showAwarenessArt: boolean;
+  /** Article audio ("Listen") and any sound */
+  allowAudio: boolean;
+  backgroundGradient: readonly [string, string, ...string[]];
+  heroGradient: readonly [string, string, ...string[]];
+  heroAccent: string;
+}
+
+export const standardAppearance: Appearance = {
+  isDiscreet: false,
+  showAwarenessArt: true,
+  allowAudio: true,
+  backgroundGradient: ['#FFF0F5', '#FFF5F7', '#F0F7FF', '#F8FAFC'],
+  heroGradient: ['#BE123C', '#E11D48', '#FB7185'],
+  heroAccent: '#E11D48',
+};
+
+/** Neutral slate instead of awareness pink */
+export const discreetAppearance: Appearance = {
+  isDiscreet: true,
+  showAwarenessArt: false,
+  allowAudio: false,
+  backgroundGradient: ['#F1F5F9', '#F8FAFC', '#F0F7FF', '#F8FAFC'],
+  heroGradient: ['#334155', '#475569', '#64748B'],
+  heroAccent: '#475569',
+};
+
+export const useAppearance = (): Appearance =>
+  useDiscreetModeStore((s) => s.isEnabled) ? discreetAppearance : standardAppearance;